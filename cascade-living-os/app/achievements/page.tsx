@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { useCascadeData } from '@/lib/hooks/use-cascade-data'
+import { useDocument } from '@/lib/hooks/use-collection'
+import { count } from '@/lib/db/repository'
+import { DOCUMENTS } from '@/lib/db/schema'
 
 // ============================================================================
 // TYPES
@@ -131,20 +134,21 @@ function AchievementCard({
 
 export default function AchievementsPage() {
   const { metrics, loading } = useCascadeData()
-  const [unlockedAchievements, setUnlockedAchievements] = useState<Record<string, number>>({})
+  const [unlockedAchievements, setUnlockedAchievements, achievementsLoading] =
+    useDocument<Record<string, number>>(DOCUMENTS.ACHIEVEMENTS.key, {})
+  const [practiceCounts, setPracticeCounts] = useState<{ breath: number; gratitude: number } | null>(null)
   const [filter, setFilter] = useState<'all' | 'unlocked' | 'locked'>('all')
   
-  // Load unlocked achievements
+  // Load practice counts
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-achievements')
-      if (saved) setUnlockedAchievements(JSON.parse(saved))
-    }
+    Promise.all([count('breath-sessions'), count('gratitude')])
+      .then(([breath, gratitude]) => setPracticeCounts({ breath, gratitude }))
+      .catch(error => console.error('Failed to count practices:', error))
   }, [])
   
   // Check for new achievements
   useEffect(() => {
-    if (!metrics || loading) return
+    if (!metrics || loading || achievementsLoading || !practiceCounts) return
     
     const newUnlocked = { ...unlockedAchievements }
     let changed = false
@@ -155,8 +159,8 @@ export default function AchievementsPage() {
       journalStreak: metrics.streaks.journal,
       focusHours: Math.floor(metrics.allTime.focusMinutes / 60),
       ritualsCompleted: metrics.allTime.ritualsCompleted,
-      breathSessions: JSON.parse(localStorage.getItem('cascade-breath-sessions') || '[]').length,
-      gratitudeDays: JSON.parse(localStorage.getItem('cascade-gratitude') || '[]').length,
+      breathSessions: practiceCounts.breath,
+      gratitudeDays: practiceCounts.gratitude,
       daysActive: Math.floor((Date.now() - (JSON.parse(localStorage.getItem('cascade-onboarding') || '{}').completedAt || Date.now())) / (1000 * 60 * 60 * 24)),
       phasesCompleted: Math.floor(metrics.phase.dayOfYear / 52),
       cyclesCompleted: Math.floor(metrics.phase.dayOfYear / 364)
@@ -172,9 +176,8 @@ export default function AchievementsPage() {
     
     if (changed) {
       setUnlockedAchievements(newUnlocked)
-      localStorage.setItem('cascade-achievements', JSON.stringify(newUnlocked))
     }
-  }, [metrics, loading, unlockedAchievements])
+  }, [metrics, loading, achievementsLoading, practiceCounts, unlockedAchievements, setUnlockedAchievements])
   
   const getProgress = (achievement: Achievement): number => {
     if (!metrics) return 0
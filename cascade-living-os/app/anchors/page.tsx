@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -391,18 +392,10 @@ function CreateAnchorForm({
 // ============================================================================
 
 export default function TemporalAnchorsPage() {
-  const [anchors, setAnchors] = useState<TemporalAnchor[]>([])
+  const [anchors, setAnchors] = useCollection<TemporalAnchor>('temporal-anchors', { sort: (a, b) => b.createdAt - a.createdAt })
   const [showCreate, setShowCreate] = useState(false)
   const [filter, setFilter] = useState<'active' | 'achieved' | 'all'>('active')
   
-  // Load anchors
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-temporal-anchors')
-      if (saved) setAnchors(JSON.parse(saved))
-    }
-  }, [])
-  
   const saveAnchor = (anchor: Omit<TemporalAnchor, 'id' | 'createdAt'>) => {
     const newAnchor: TemporalAnchor = {
       ...anchor,
@@ -412,14 +405,12 @@ export default function TemporalAnchorsPage() {
     
     const updated = [newAnchor, ...anchors]
     setAnchors(updated)
-    localStorage.setItem('cascade-temporal-anchors', JSON.stringify(updated))
     setShowCreate(false)
   }
   
   const updateAnchor = (updated: TemporalAnchor) => {
     const newAnchors = anchors.map(a => a.id === updated.id ? updated : a)
     setAnchors(newAnchors)
-    localStorage.setItem('cascade-temporal-anchors', JSON.stringify(newAnchors))
   }
   
   const filteredAnchors = filter === 'all' 
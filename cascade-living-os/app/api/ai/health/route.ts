@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PROVIDER_MAP, CASCADEProviderName } from '@/lib/llm/provider'
+import { getCircuitBreaker } from '@/lib/llm/resilience'
+import { originProblem } from '@/lib/credentials/session'
+
+/**
+ * CASCADE Living OS - Provider Health Route
+ * =========================================
+ * Circuit breaker state of each provider the gateway has called.
+ * DELETE closes a provider's circuit (`?provider=`), or every circuit;
+ * like the gateway, it refuses cross-origin requests.
+ */
+
+export async function GET() {
+  return NextResponse.json({ providers: getCircuitBreaker().health(), checkedAt: Date.now() })
+}
+
+export async function DELETE(request: NextRequest) {
+  const problem = originProblem(request.headers)
+  if (problem) return NextResponse.json({ error: problem, code: 'forbidden' }, { status: 403 })
+
+  const provider = request.nextUrl.searchParams.get('provider')
+  if (provider && !PROVIDER_MAP[provider as CASCADEProviderName]) {
+    return NextResponse.json({ error: `Unknown provider: ${provider}`, code: 'bad_request' }, { status: 400 })
+  }
+
+  getCircuitBreaker().reset(provider ? provider as CASCADEProviderName : undefined)
+  return NextResponse.json({ providers: getCircuitBreaker().health(), checkedAt: Date.now() })
+}
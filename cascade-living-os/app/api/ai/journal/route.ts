@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  GatewayOptions,
+  gatewayError,
+  gatewayPromptVersions,
+  gatewayStructured,
+  readGatewayBody,
+  requireText
+} from '@/lib/llm/gateway'
+import { providerName } from '@/lib/llm/provider'
+import { AnalysisContext, buildJournalPrompt, readPromptOverrides } from '@/lib/llm/prompts'
+import { JOURNAL_ANALYSIS } from '@/lib/llm/schemas'
+
+/**
+ * CASCADE Living OS - Journal Analysis Route
+ * ==========================================
+ * Patterns, shadow material and pyramid suggestions for a journal entry.
+ * Answers `{ analysis, content, provider, model, usage, attempts,
+ * promptVersions }`, with `analysis` checked against its schema; a reply
+ * still invalid after repairs fails with code `invalid_output`.
+ */
+
+interface JournalRequest extends GatewayOptions {
+  content: unknown
+  context?: AnalysisContext
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readGatewayBody<JournalRequest>(request)
+    const prompt = buildJournalPrompt(requireText(body.content, 'content'), body.context, readPromptOverrides(body.promptOverrides))
+    const { value, response, attempts } = await gatewayStructured(
+      [{ role: 'user', content: prompt }],
+      JOURNAL_ANALYSIS,
+      { ...body, stream: false },
+      request.headers
+    )
+
+    return NextResponse.json({
+      analysis: value,
+      content: response.content,
+      provider: providerName(response.provider),
+      model: response.model,
+      usage: response.usage,
+      attempts,
+      promptVersions: gatewayPromptVersions(body, 'journal')
+    })
+  } catch (error) {
+    return gatewayError(error)
+  }
+}
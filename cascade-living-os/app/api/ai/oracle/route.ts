@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  GatewayOptions,
+  gatewayError,
+  gatewayPromptVersions,
+  gatewayRespond,
+  gatewayStructured,
+  readGatewayBody,
+  requireText
+} from '@/lib/llm/gateway'
+import { providerName } from '@/lib/llm/provider'
+import { AnalysisContext, buildOraclePrompt, buildSchemaInstruction, readPromptOverrides } from '@/lib/llm/prompts'
+import { ORACLE_READING } from '@/lib/llm/schemas'
+
+/**
+ * CASCADE Living OS - Oracle Route
+ * ================================
+ * Trajectory insights from the Temporal Oracle. Answers like /api/ai,
+ * streaming with `stream: true`. With `structured: true` it answers
+ * `{ reading, content, provider, model, usage, attempts, promptVersions }`
+ * instead, the reading checked against its schema.
+ */
+
+interface OracleRequest extends GatewayOptions {
+  query: unknown
+  context?: AnalysisContext
+  structured?: boolean
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readGatewayBody<OracleRequest>(request)
+    const prompt = buildOraclePrompt(requireText(body.query, 'query'), body.context, new Date(), readPromptOverrides(body.promptOverrides))
+    if (!body.structured) {
+      return await gatewayRespond([{ role: 'user', content: prompt }], body, request, ['oracle'])
+    }
+
+    const { value, response, attempts } = await gatewayStructured(
+      [{ role: 'user', content: `${prompt}\n\n${buildSchemaInstruction(ORACLE_READING.schema)}` }],
+      ORACLE_READING,
+      { ...body, stream: false },
+      request.headers
+    )
+    return NextResponse.json({
+      reading: value,
+      content: response.content,
+      provider: providerName(response.provider),
+      model: response.model,
+      usage: response.usage,
+      attempts,
+      promptVersions: gatewayPromptVersions(body, 'oracle')
+    })
+  } catch (error) {
+    return gatewayError(error)
+  }
+}
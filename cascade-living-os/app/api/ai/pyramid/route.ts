@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  GatewayOptions,
+  gatewayError,
+  gatewayPromptVersions,
+  gatewayStructured,
+  readGatewayBody,
+  requireText
+} from '@/lib/llm/gateway'
+import { providerName } from '@/lib/llm/provider'
+import { AnalysisContext, buildPyramidPrompt, buildSchemaInstruction, readPromptOverrides } from '@/lib/llm/prompts'
+import { PYRAMID_SUGGESTIONS } from '@/lib/llm/schemas'
+
+/**
+ * CASCADE Living OS - Pyramid Suggestions Route
+ * =============================================
+ * Knowledge blocks worth adding to the pyramid from some notes. Answers
+ * `{ suggestions, content, provider, model, usage, attempts,
+ * promptVersions }`; a reply still invalid after repairs fails with code
+ * `invalid_output`.
+ */
+
+interface PyramidRequest extends GatewayOptions {
+  content: unknown
+  context?: AnalysisContext
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readGatewayBody<PyramidRequest>(request)
+    const prompt = buildPyramidPrompt(requireText(body.content, 'content'), body.context, readPromptOverrides(body.promptOverrides))
+    const { value, response, attempts } = await gatewayStructured(
+      [{ role: 'user', content: `${prompt}\n\n${buildSchemaInstruction(PYRAMID_SUGGESTIONS.schema)}` }],
+      PYRAMID_SUGGESTIONS,
+      { ...body, stream: false },
+      request.headers
+    )
+
+    return NextResponse.json({
+      suggestions: value.suggestions,
+      content: response.content,
+      provider: providerName(response.provider),
+      model: response.model,
+      usage: response.usage,
+      attempts,
+      promptVersions: gatewayPromptVersions(body, 'pyramid')
+    })
+  } catch (error) {
+    return gatewayError(error)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CredentialErrorCode, CredentialsResponse, isCredentialUpdate } from '@/lib/credentials/protocol'
+import { CredentialStoreError, getCredentialStore } from '@/lib/credentials/store'
+import { originProblem, sessionExpiry } from '@/lib/credentials/session'
+
+/**
+ * CASCADE Living OS - Credentials Route
+ * =====================================
+ * Provider API keys held by the server, encrypted at rest. GET reports
+ * which keys are set and where they come from; PUT `{ anthropic, gemini,
+ * openai }` sets keys, null removes one. Key contents are never returned.
+ * Both need a session (see ./session) and a same-origin request.
+ */
+
+function failure(error: string, code: CredentialErrorCode, status: number) {
+  return NextResponse.json({ error, code }, { status })
+}
+
+function storeFailure(error: unknown) {
+  console.error('Credential store error:', error)
+  // The store's own errors say what to fix; anything else stays on the server
+  return failure(error instanceof CredentialStoreError ? error.message : 'Credential store unavailable', 'unavailable', 503)
+}
+
+// Why the request may not touch credentials, as a response
+function refuse(request: NextRequest): NextResponse | null {
+  const problem = originProblem(request.headers)
+  if (problem) return failure(problem, 'forbidden', 403)
+  if (sessionExpiry(request.headers) === null) return failure('Sign in to manage provider keys', 'unauthorized', 401)
+  return null
+}
+
+export async function GET(request: NextRequest) {
+  const refused = refuse(request)
+  if (refused) return refused
+
+  try {
+    return NextResponse.json<CredentialsResponse>({ credentials: await getCredentialStore().status() })
+  } catch (error) {
+    return storeFailure(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const refused = refuse(request)
+  if (refused) return refused
+
+  const body = await request.json().catch(() => null)
+  if (!isCredentialUpdate(body)) {
+    return failure('Body must map anthropic, gemini or openai to a key or null', 'bad_request', 400)
+  }
+
+  try {
+    return NextResponse.json<CredentialsResponse>({ credentials: await getCredentialStore().update(body) })
+  } catch (error) {
+    return storeFailure(error)
+  }
+}
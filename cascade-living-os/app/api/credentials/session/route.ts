@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, SessionResponse } from '@/lib/credentials/protocol'
+import {
+  SESSION_TTL_MS,
+  checkPassword,
+  createSession,
+  endSession,
+  originProblem,
+  passwordConfigured,
+  sessionExpiry
+} from '@/lib/credentials/session'
+
+/**
+ * CASCADE Living OS - Credentials Session Route
+ * =============================================
+ * Hands the browser an opaque session token in an HttpOnly cookie; the
+ * credentials routes and the AI gateway use stored keys only for requests
+ * that carry one. POST `{ password }` signs in with
+ * CASCADE_SETTINGS_PASSWORD, and is refused while that is unset; DELETE
+ * signs out.
+ */
+
+// Slows password guessing without keeping per-client state
+const FAILED_PASSWORD_DELAY_MS = 1000
+
+function sessionState(expiresAt: number | null): SessionResponse {
+  return { authenticated: expiresAt !== null, passwordConfigured: passwordConfigured(), expiresAt }
+}
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(sessionState(sessionExpiry(request.headers)))
+}
+
+export async function POST(request: NextRequest) {
+  const problem = originProblem(request.headers)
+  if (problem) return NextResponse.json({ error: problem, code: 'forbidden' }, { status: 403 })
+
+  if (!passwordConfigured()) {
+    return NextResponse.json(
+      { error: 'Set CASCADE_SETTINGS_PASSWORD on the server to manage provider keys', code: 'unavailable' },
+      { status: 503 }
+    )
+  }
+
+  const body = await request.json().catch(() => ({}))
+  if (!checkPassword(body?.password)) {
+    await new Promise(resolve => setTimeout(resolve, FAILED_PASSWORD_DELAY_MS))
+    return NextResponse.json({ error: 'Wrong settings password', code: 'unauthorized' }, { status: 401 })
+  }
+
+  const { token, expiresAt } = createSession()
+  const response = NextResponse.json(sessionState(expiresAt))
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api',
+    maxAge: SESSION_TTL_MS / 1000
+  })
+  return response
+}
+
+export async function DELETE(request: NextRequest) {
+  const problem = originProblem(request.headers)
+  if (problem) return NextResponse.json({ error: problem, code: 'forbidden' }, { status: 403 })
+
+  endSession(request.headers)
+  const response = NextResponse.json(sessionState(null))
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'strict', path: '/api', maxAge: 0 })
+  return response
+}
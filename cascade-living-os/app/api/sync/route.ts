@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createHash, timingSafeEqual } from 'crypto'
+import path from 'path'
+import { SyncLedger } from '@/lib/sync/ledger'
+import { SYNC_PROTOCOL_VERSION, isSyncRequest } from '@/lib/sync/protocol'
+
+/**
+ * CASCADE Living OS - Reference Sync Server
+ * ==========================================
+ * Last-writer-wins sync endpoint for a handful of devices.
+ *
+ * CASCADE_SYNC_FILE  - ledger location (default .cascade-sync/ledger.json)
+ * CASCADE_SYNC_TOKEN - Bearer token every request must send; without it
+ *                      the endpoint stays off rather than serve anyone
+ */
+
+const ledger = new SyncLedger(
+  process.env.CASCADE_SYNC_FILE || path.join(process.cwd(), '.cascade-sync', 'ledger.json')
+)
+
+function digest(text: string): Buffer {
+  return createHash('sha256').update(text).digest()
+}
+
+// Equal-length digests, so the comparison takes the same time either way
+function tokenMatches(authorization: string | null, token: string): boolean {
+  return authorization !== null && timingSafeEqual(digest(authorization), digest(`Bearer ${token}`))
+}
+
+export async function POST(request: NextRequest) {
+  const token = process.env.CASCADE_SYNC_TOKEN
+  if (!token) {
+    return NextResponse.json({ error: 'Sync is disabled: set CASCADE_SYNC_TOKEN on the server' }, { status: 503 })
+  }
+  if (!tokenMatches(request.headers.get('authorization'), token)) {
+    return NextResponse.json({ error: 'Invalid sync token' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body is not JSON' }, { status: 400 })
+  }
+
+  if (!isSyncRequest(body)) {
+    return NextResponse.json({ error: 'Malformed sync request' }, { status: 400 })
+  }
+  if (body.protocol !== SYNC_PROTOCOL_VERSION) {
+    return NextResponse.json(
+      { error: `Unsupported sync protocol ${body.protocol} (server speaks ${SYNC_PROTOCOL_VERSION})` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    return NextResponse.json(await ledger.handle(body))
+  } catch (error) {
+    console.error('Sync ledger error:', error)
+    return NextResponse.json({ error: 'Sync ledger unavailable' }, { status: 500 })
+  }
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  AuditEntry,
+  AuditFilter,
+  AuditActorKind,
+  AuditOperation,
+  AuditSummary,
+  AUDIT_ACTOR_KINDS,
+  describeActor,
+  queryAuditLog,
+  getAuditSummary
+} from '@/lib/db/audit'
+import { ENTITY_STORE_NAMES, STORES } from '@/lib/db/schema'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PAGE_SIZE = 50
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const KIND_LABELS: Record<AuditActorKind, string> = {
+  user: 'You',
+  agent: 'Agents',
+  ai: 'AI providers',
+  system: 'System'
+}
+
+const KIND_STYLES: Record<AuditActorKind, string> = {
+  user: 'bg-cyan-500/20 text-cyan-400',
+  agent: 'bg-purple-500/20 text-purple-400',
+  ai: 'bg-amber-500/20 text-amber-400',
+  system: 'bg-zinc-700 text-zinc-300'
+}
+
+const OPERATION_STYLES: Record<AuditOperation, string> = {
+  create: 'text-emerald-400',
+  update: 'text-amber-400',
+  delete: 'text-red-400'
+}
+
+const OPERATIONS: AuditOperation[] = ['create', 'update', 'delete']
+
+const TARGETS = ['state', 'memory', STORES.DOCUMENTS, ...ENTITY_STORE_NAMES]
+
+const SINCE_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: 'Any time', days: null },
+  { label: 'Last 24 hours', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 }
+]
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function AuditPage() {
+  const [summary, setSummary] = useState<AuditSummary | null>(null)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [next, setNext] = useState<AuditEntry | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [actors, setActors] = useState<string[]>([])
+
+  const [actorKind, setActorKind] = useState<AuditActorKind | ''>('')
+  const [actor, setActor] = useState('')
+  const [target, setTarget] = useState('')
+  const [operation, setOperation] = useState<AuditOperation | ''>('')
+  const [sinceDays, setSinceDays] = useState<number | null>(null)
+  const [text, setText] = useState('')
+
+  const load = useCallback(async (after: AuditEntry | null) => {
+    const filter: AuditFilter = {
+      ...(actorKind ? { actorKind } : {}),
+      ...(actor ? { actor } : {}),
+      ...(target ? { target } : {}),
+      ...(operation ? { operation } : {}),
+      ...(sinceDays !== null ? { since: Date.now() - sinceDays * DAY_MS } : {}),
+      ...(text.trim() ? { text: text.trim() } : {})
+    }
+
+    setLoading(true)
+    try {
+      const page = await queryAuditLog(filter, PAGE_SIZE, after)
+      setEntries(current => after ? [...current, ...page.entries] : page.entries)
+      setNext(page.next)
+      setActors(current => Array.from(new Set([...current, ...page.entries.map(entry => describeActor(entry.actor))])).sort())
+    } catch (error) {
+      console.error('Failed to read audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [actorKind, actor, target, operation, sinceDays, text])
+
+  useEffect(() => {
+    getAuditSummary()
+      .then(setSummary)
+      .catch(error => console.error('Failed to summarize audit log:', error))
+  }, [])
+
+  // Start over from the newest entry whenever a filter changes
+  useEffect(() => {
+    void load(null)
+  }, [load])
+
+  const totals = summary
+    ? AUDIT_ACTOR_KINDS.map(kind => ({ kind, count: OPERATIONS.reduce((sum, op) => sum + summary[kind][op], 0) }))
+    : []
+  const total = totals.reduce((sum, item) => sum + item.count, 0)
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-zinc-100 mb-2">Audit Log</h1>
+        <p className="text-zinc-500">Every change to your data, and who made it: you, an agent, an AI provider or the system</p>
+      </header>
+
+      {/* Summary */}
+      {summary && (
+        <div className="grid grid-cols-4 gap-4 mb-8">
+          {totals.map(({ kind, count }) => (
+            <button
+              key={kind}
+              onClick={() => setActorKind(actorKind === kind ? '' : kind)}
+              className={`cascade-card p-4 text-left transition-colors ${actorKind === kind ? 'border-cyan-500/50' : ''}`}
+            >
+              <p className="text-xs text-zinc-500 mb-1">{KIND_LABELS[kind]}</p>
+              <p className="text-2xl font-bold text-zinc-100">{count}</p>
+              <p className="text-xs text-zinc-500 mt-1">
+                {total > 0 ? `${Math.round((count / total) * 100)}% of changes` : 'No changes yet'}
+              </p>
+              <p className="text-[10px] text-zinc-600 mt-1">
+                {summary[kind].create} created · {summary[kind].update} updated · {summary[kind].delete} deleted
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="cascade-card p-4 mb-6 grid grid-cols-3 gap-3">
+        <select
+          value={actorKind}
+          onChange={(e) => setActorKind(e.target.value as AuditActorKind | '')}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm"
+        >
+          <option value="">Anyone</option>
+          {AUDIT_ACTOR_KINDS.map(kind => (
+            <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        <select
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm"
+        >
+          <option value="">Any actor</option>
+          {actors.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm"
+        >
+          <option value="">Everything</option>
+          {TARGETS.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={operation}
+          onChange={(e) => setOperation(e.target.value as AuditOperation | '')}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm"
+        >
+          <option value="">Any change</option>
+          {OPERATIONS.map(op => (
+            <option key={op} value={op}>{op}</option>
+          ))}
+        </select>
+        <select
+          value={sinceDays ?? ''}
+          onChange={(e) => setSinceDays(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm"
+        >
+          {SINCE_OPTIONS.map(option => (
+            <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search actions and ids..."
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 text-sm placeholder:text-zinc-600"
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="cascade-card p-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-zinc-500">
+            {loading ? 'Reading the audit log...' : 'No changes match these filters.'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {entries.map(entry => (
+              <div key={entry.id} className="rounded border border-transparent hover:border-zinc-800">
+                <button
+                  onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                  className="w-full p-2 flex items-center gap-3 text-left"
+                >
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded shrink-0 ${KIND_STYLES[entry.actorKind]}`}>
+                    {describeActor(entry.actor)}
+                  </span>
+                  <span className={`text-xs w-12 shrink-0 ${OPERATION_STYLES[entry.operation]}`}>{entry.operation}</span>
+                  <span className="text-sm text-zinc-200 truncate flex-1">{entry.action}</span>
+                  <span className="text-xs text-zinc-500 truncate max-w-[30%]">{entry.target} · {entry.entityId}</span>
+                  <span className="text-xs text-zinc-600 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                </button>
+
+                {expanded === entry.id && (
+                  <div className="px-2 pb-2 space-y-1 font-mono text-xs">
+                    {entry.changes.map((change, i) => (
+                      <div key={i} className="p-2 bg-zinc-800/50 rounded">
+                        <p className="text-zinc-400 mb-1">{change.path || '(whole record)'}</p>
+                        {change.before !== undefined && (
+                          <pre className="text-red-400/80 whitespace-pre-wrap break-all">- {formatValue(change.before)}</pre>
+                        )}
+                        {change.after !== undefined && (
+                          <pre className="text-emerald-400/80 whitespace-pre-wrap break-all">+ {formatValue(change.after)}</pre>
+                        )}
+                      </div>
+                    ))}
+                    {entry.truncated && (
+                      <p className="text-zinc-600">…more changes were made than the log keeps per entry</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {next && (
+          <button
+            onClick={() => load(next)}
+            disabled={loading}
+            className="mt-4 w-full py-2 bg-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatValue(value: unknown): string {
+  const json = JSON.stringify(value, null, 2) ?? String(value)
+  return json.length > 2000 ? `${json.slice(0, 2000)}…` : json
+}
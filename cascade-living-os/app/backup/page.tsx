@@ -1,7 +1,41 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { exportCascadeData, importCascadeData } from '@/lib/hooks/use-cascade-data'
+import { useState, useEffect, useCallback } from 'react'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+import {
+  BackupArchive,
+  ArchiveVerification,
+  MergeStrategy,
+  SectionRestoreResult,
+  createArchive,
+  parseArchive,
+  verifyArchive,
+  restoreArchive,
+  clearArchivedData
+} from '@/lib/db/archive'
+import { encryptExport, decryptExport, isEncryptedExport } from '@/lib/db/vault'
+import { disconnectSync } from '@/lib/sync/engine'
+import {
+  StorageHealth,
+  StorageBreakdown,
+  StorageLevel,
+  LOCAL_STORAGE_BUDGET,
+  getStorageHealth,
+  checkStorageHealth,
+  onStorageHealth,
+  getStorageBreakdown,
+  compactStorage
+} from '@/lib/db/storage-health'
+import {
+  ColdArchive,
+  ARCHIVABLE_STORES,
+  DEFAULT_ARCHIVE_AGE_DAYS,
+  archiveOldRecords,
+  listColdArchives,
+  restoreColdArchive
+} from '@/lib/db/cold-storage'
+import { exportMarkdownVault } from '@/lib/export/markdown'
+import { formatBytes } from '@/lib/utils'
 
 // ============================================================================
 // TYPES
@@ -14,104 +48,345 @@ interface BackupInfo {
   size: number
 }
 
+interface PendingRestore {
+  fileName: string
+  archive: BackupArchive
+  verification: ArchiveVerification
+}
+
+const STRATEGIES: { value: MergeStrategy; label: string; description: string }[] = [
+  { value: 'newer', label: 'Keep newer', description: 'Keep whichever copy was updated most recently' },
+  { value: 'both', label: 'Keep both', description: 'Add archived copies alongside local entries' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Archived entries replace local ones' }
+]
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// ============================================================================
+// STORAGE HEALTH
+// ============================================================================
+
+const ARCHIVE_AGES = [
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+  { days: DEFAULT_ARCHIVE_AGE_DAYS, label: '1 year' },
+  { days: 730, label: '2 years' }
+]
+
+const LEVEL_STYLES: Record<StorageLevel, { bar: string; text: string; label: string }> = {
+  ok: { bar: 'bg-emerald-500', text: 'text-emerald-400', label: 'Healthy' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-400', label: 'Filling up' },
+  critical: { bar: 'bg-red-500', text: 'text-red-400', label: 'Almost full' }
+}
+
+function StorageHealthPanel({ onMessage }: { onMessage: (message: { type: 'success' | 'error'; text: string }) => void }) {
+  const [health, setHealth] = useState<StorageHealth | null>(getStorageHealth())
+  const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null)
+  const [archives, setArchives] = useState<ColdArchive[]>([])
+  const [archiveAge, setArchiveAge] = useState(DEFAULT_ARCHIVE_AGE_DAYS)
+  const [busy, setBusy] = useState<string | null>(null)
+  
+  const loadArchives = useCallback(async () => {
+    setArchives(await listColdArchives())
+  }, [])
+  
+  useEffect(() => {
+    checkStorageHealth().catch(error => console.error('Storage health check failed:', error))
+    loadArchives().catch(error => console.error('Failed to list archived records:', error))
+    return onStorageHealth(setHealth)
+  }, [loadArchives])
+  
+  const run = async (label: string, task: () => Promise<string>) => {
+    setBusy(label)
+    try {
+      onMessage({ type: 'success', text: await task() })
+    } catch (error) {
+      onMessage({ type: 'error', text: `${label} failed. ${error instanceof Error ? error.message : ''}` })
+    } finally {
+      setBusy(null)
+    }
+  }
+  
+  const handleMeasure = () => run('Measuring', async () => {
+    setBreakdown(await getStorageBreakdown())
+    return 'Storage measured.'
+  })
+  
+  const handleArchive = () => run('Archiving', async () => {
+    const before = Date.now() - archiveAge * 24 * 60 * 60 * 1000
+    const archived = await archiveOldRecords(before)
+    await loadArchives()
+    await checkStorageHealth()
+    const count = archived.reduce((sum, batch) => sum + batch.count, 0)
+    return count === 0
+      ? 'Nothing old enough to archive.'
+      : `Archived ${count} record${count === 1 ? '' : 's'} from ${archived.length} store${archived.length === 1 ? '' : 's'}.`
+  })
+  
+  const handleRestore = (id: string) => run('Restoring', async () => {
+    const restored = await restoreColdArchive(id)
+    await loadArchives()
+    return `Restored ${restored} archived record${restored === 1 ? '' : 's'}.`
+  })
+  
+  const handleCompact = () => run('Compacting', async () => {
+    const result = await compactStorage()
+    const pruned = result.memoryReferences + result.entityReferences
+    return pruned === 0
+      ? 'No orphaned references found.'
+      : `Removed ${pruned} reference${pruned === 1 ? '' : 's'} to deleted records.`
+  })
+  
+  const style = LEVEL_STYLES[health?.level ?? 'ok']
+  const usageRatio = health?.usage !== null && health?.quota ? health.usage / health.quota : null
+  const localRatio = health ? health.localStorageBytes / LOCAL_STORAGE_BUDGET : 0
+  
+  return (
+    <div className="cascade-card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-zinc-200">Storage Health</h3>
+        <span className={`text-sm ${style.text}`}>{health ? style.label : 'Checking...'}</span>
+      </div>
+      
+      {/* Usage */}
+      <div className="space-y-3 mb-4">
+        <div>
+          <div className="flex justify-between text-xs text-zinc-500 mb-1">
+            <span>Browser storage</span>
+            <span>
+              {usageRatio === null
+                ? 'Not reported'
+                : `${formatBytes(health!.usage!)} of ${formatBytes(health!.quota!)}`}
+            </span>
+          </div>
+          <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(100, (usageRatio ?? 0) * 100)}%` }} />
+          </div>
+        </div>
+        <div>
+          <div className="flex justify-between text-xs text-zinc-500 mb-1">
+            <span>Local settings storage</span>
+            <span>{formatBytes(health?.localStorageBytes ?? 0)} of ~{formatBytes(LOCAL_STORAGE_BUDGET)}</span>
+          </div>
+          <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(100, localRatio * 100)}%` }} />
+          </div>
+        </div>
+      </div>
+      
+      {health && health.messages.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg bg-amber-500/10 text-sm text-amber-400 space-y-1">
+          {health.messages.map((text, i) => (
+            <p key={i}>⚠️ {text}</p>
+          ))}
+        </div>
+      )}
+      
+      {/* Per-store sizes */}
+      {breakdown ? (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {[
+            { title: 'IndexedDB', sizes: breakdown.stores },
+            { title: 'localStorage', sizes: breakdown.localStorage }
+          ].map(({ title, sizes }) => (
+            <div key={title}>
+              <h4 className="text-xs text-zinc-500 uppercase tracking-wider mb-2">{title}</h4>
+              <div className="space-y-1">
+                {sizes.filter(size => size.bytes > 0).slice(0, 8).map(size => (
+                  <div key={size.name} className="flex items-center gap-2 text-xs p-1.5 bg-zinc-800/50 rounded">
+                    <span className="flex-1 text-zinc-300 truncate">{size.name}</span>
+                    {title === 'IndexedDB' && <span className="text-cyan-400 font-mono">{size.records}</span>}
+                    <span className="text-zinc-500 w-16 text-right">{formatBytes(size.bytes)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <button
+          onClick={handleMeasure}
+          disabled={busy !== null}
+          className="mb-4 text-sm text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+        >
+          {busy === 'Measuring' ? 'Measuring...' : 'Measure each store →'}
+        </button>
+      )}
+      
+      {/* Archival */}
+      <div className="p-4 bg-zinc-800/30 rounded-lg mb-4">
+        <h4 className="text-sm text-zinc-300 mb-1">Archive old records</h4>
+        <p className="text-xs text-zinc-500 mb-3">
+          Compresses old logs ({ARCHIVABLE_STORES.join(', ')}) into cold storage. Archived records leave
+          totals and search until restored, but stay in backups.
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={archiveAge}
+            onChange={(e) => setArchiveAge(parseInt(e.target.value))}
+            className="px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-200 focus:outline-none focus:border-cyan-500"
+          >
+            {ARCHIVE_AGES.map(age => (
+              <option key={age.days} value={age.days}>Older than {age.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleArchive}
+            disabled={busy !== null}
+            className="px-4 py-1.5 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 disabled:opacity-50 text-sm transition-colors"
+          >
+            {busy === 'Archiving' ? 'Archiving...' : 'Archive'}
+          </button>
+          <button
+            onClick={handleCompact}
+            disabled={busy !== null}
+            className="px-4 py-1.5 bg-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-700 disabled:opacity-50 text-sm transition-colors"
+            title="Remove references to deleted memories and records"
+          >
+            {busy === 'Compacting' ? 'Compacting...' : 'Compact'}
+          </button>
+        </div>
+      </div>
+      
+      {archives.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs text-zinc-500 uppercase tracking-wider mb-2">Cold Storage</h4>
+          {archives.map(archive => (
+            <div key={archive.id} className="flex items-center gap-3 p-2 bg-zinc-800/50 rounded text-sm">
+              <span className="flex-1 text-zinc-300">{archive.store}</span>
+              <span className="text-xs text-zinc-500">
+                {new Date(archive.from).toLocaleDateString()} – {new Date(archive.to).toLocaleDateString()}
+              </span>
+              <span className="text-cyan-400 font-mono text-xs">{archive.count}</span>
+              <span className="text-zinc-600 text-xs w-16 text-right">{formatBytes(archive.bytes)}</span>
+              <button
+                onClick={() => handleRestore(archive.id)}
+                disabled={busy !== null}
+                className="text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ============================================================================
 // MAIN PAGE
 // ============================================================================
 
 export default function BackupPage() {
+  const importState = useCASCADEStore(state => state.importState)
   const [backups, setBackups] = useState<BackupInfo[]>([])
   const [importing, setImporting] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [lastBackup, setLastBackup] = useState<string | null>(null)
+  const [encrypt, setEncrypt] = useState(false)
+  const [exportPassphrase, setExportPassphrase] = useState('')
+  const [exportingMarkdown, setExportingMarkdown] = useState(false)
   
-  const storageKeys = [
-    { key: 'cascade-microorcims', label: 'Microorcims' },
-    { key: 'cascade-focus-sessions', label: 'Focus Sessions' },
-    { key: 'cascade-journal', label: 'Journal Entries' },
-    { key: 'cascade-rituals', label: 'Rituals' },
-    { key: 'cascade-goals', label: 'Goals' },
-    { key: 'cascade-commitments', label: 'Commitments' },
-    { key: 'cascade-values', label: 'Values' },
-    { key: 'cascade-quick-captures', label: 'Quick Captures' },
-    { key: 'cascade-energy-logs', label: 'Energy Logs' },
-    { key: 'cascade-memories', label: 'Memories' },
-    { key: 'cascade-weekly-reviews', label: 'Weekly Reviews' },
-    { key: 'cascade-connections', label: 'Connections' },
-    { key: 'cascade-decisions', label: 'Decisions' },
-    { key: 'cascade-projections', label: 'Projections' },
-    { key: 'cascade-breath-sessions', label: 'Breath Sessions' },
-    { key: 'cascade-llm-config', label: 'LLM Config' }
-  ]
+  const [pending, setPending] = useState<PendingRestore | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [strategy, setStrategy] = useState<MergeStrategy>('newer')
+  const [results, setResults] = useState<SectionRestoreResult[] | null>(null)
   
   // Load backup info
+  const loadInfo = useCallback(async () => {
+    const { manifest, data } = await createArchive()
+    setBackups(Object.entries(manifest.sections).map(([key, section]) => ({
+      key,
+      label: section.label,
+      count: section.count,
+      size: section.count > 0 ? new Blob([JSON.stringify(data[key])]).size : 0
+    })))
+  }, [])
+  
   useEffect(() => {
     if (typeof window === 'undefined') return
     
-    const info: BackupInfo[] = storageKeys.map(({ key, label }) => {
-      const data = localStorage.getItem(key)
-      let count = 0
-      let size = 0
-      
-      if (data) {
-        size = new Blob([data]).size
-        try {
-          const parsed = JSON.parse(data)
-          count = Array.isArray(parsed) ? parsed.length : 1
-        } catch {
-          count = 1
-        }
-      }
-      
-      return { key, label, count, size }
-    })
-    
-    setBackups(info)
+    loadInfo().catch(error => console.error('Failed to load backup info:', error))
     
     // Check last backup
     const last = localStorage.getItem('cascade-last-backup')
     if (last) setLastBackup(last)
-  }, [])
+  }, [loadInfo])
   
-  const handleExport = () => {
-    const data = exportCascadeData()
+  const handleExport = async () => {
+    if (encrypt && exportPassphrase.length < 8) {
+      setMessage({ type: 'error', text: 'Use a passphrase of at least 8 characters for encrypted backups.' })
+      return
+    }
+    
+    const plain = JSON.stringify(await createArchive(), null, 2)
+    const data = encrypt ? await encryptExport(plain, exportPassphrase) : plain
     const blob = new Blob([data], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `cascade-backup-${new Date().toISOString().split('T')[0]}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    downloadBlob(blob, `cascade-archive-${new Date().toISOString().split('T')[0]}${encrypt ? '.encrypted' : ''}.json`)
     
     // Save timestamp
     const now = new Date().toISOString()
     localStorage.setItem('cascade-last-backup', now)
     setLastBackup(now)
-    setMessage({ type: 'success', text: 'Backup downloaded successfully!' })
+    setExportPassphrase('')
+    setMessage({ type: 'success', text: encrypt ? 'Encrypted archive downloaded successfully!' : 'Archive downloaded successfully!' })
     setTimeout(() => setMessage(null), 3000)
   }
   
+  const handleMarkdownExport = async () => {
+    setExportingMarkdown(true)
+    try {
+      const { blob, notes } = await exportMarkdownVault()
+      downloadBlob(blob, `cascade-vault-${new Date().toISOString().split('T')[0]}.zip`)
+      setMessage({ type: 'success', text: `Exported ${notes} notes as a Markdown vault.` })
+      setTimeout(() => setMessage(null), 3000)
+    } catch (error) {
+      console.error('Markdown export failed:', error)
+      setMessage({ type: 'error', text: 'Markdown export failed. Check the console for details.' })
+    } finally {
+      setExportingMarkdown(false)
+    }
+  }
+  
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
     
     setImporting(true)
+    setResults(null)
     const reader = new FileReader()
     
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
-        const content = event.target?.result as string
-        const success = importCascadeData(content)
+        let content = event.target?.result as string
         
-        if (success) {
-          setMessage({ type: 'success', text: 'Data imported successfully! Refreshing...' })
-          setTimeout(() => window.location.reload(), 1500)
-        } else {
-          setMessage({ type: 'error', text: 'Import failed. Invalid file format.' })
+        if (isEncryptedExport(content)) {
+          const passphrase = prompt('This backup is encrypted. Enter its passphrase:')
+          if (!passphrase) {
+            setMessage({ type: 'error', text: 'Import cancelled.' })
+            return
+          }
+          content = await decryptExport(content, passphrase)
         }
+        
+        const archive = await parseArchive(content)
+        const verification = await verifyArchive(archive)
+        
+        setPending({ fileName: file.name, archive, verification })
+        setSelected(verification.sections.filter(s => s.checksumMatches && s.count > 0).map(s => s.id))
+        setMessage(null)
       } catch (error) {
-        setMessage({ type: 'error', text: 'Import failed. Could not parse file.' })
+        setMessage({ type: 'error', text: `Import failed. ${error instanceof Error ? error.message : 'Could not parse file.'}` })
       } finally {
         setImporting(false)
       }
@@ -121,7 +396,31 @@ export default function BackupPage() {
     e.target.value = '' // Reset input
   }
   
-  const handleClearAll = () => {
+  const handleRestore = async () => {
+    if (!pending || selected.length === 0) return
+    
+    try {
+      const restored = await restoreArchive(pending.archive, {
+        sections: selected,
+        strategy,
+        applyState: json => {
+          importState(json)
+        }
+      })
+      setResults(restored)
+      setPending(null)
+      setMessage({ type: 'success', text: `Restored ${restored.length} section${restored.length === 1 ? '' : 's'}.` })
+      await loadInfo()
+    } catch (error) {
+      setMessage({ type: 'error', text: `Restore failed. ${error instanceof Error ? error.message : ''}` })
+    }
+  }
+  
+  const toggleSection = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+  
+  const handleClearAll = async () => {
     if (!confirm('Are you sure you want to clear ALL CASCADE data? This cannot be undone.')) return
     if (!confirm('Really sure? Type "DELETE" in the next prompt to confirm.')) return
     
@@ -131,7 +430,9 @@ export default function BackupPage() {
       return
     }
     
-    storageKeys.forEach(({ key }) => localStorage.removeItem(key))
+    await clearArchivedData()
+    // Otherwise the deletes would be pushed to every synced device
+    await disconnectSync()
     localStorage.removeItem('cascade-last-backup')
     
     setMessage({ type: 'success', text: 'All data cleared. Refreshing...' })
@@ -182,14 +483,14 @@ export default function BackupPage() {
       </div>
       
       {/* Actions */}
-      <div className="grid grid-cols-2 gap-4 mb-8">
+      <div className="grid grid-cols-3 gap-4 mb-8">
         <button
           onClick={handleExport}
           className="cascade-card p-6 hover:border-cyan-500/30 transition-all text-left"
         >
           <span className="text-3xl mb-3 block">📤</span>
-          <h3 className="text-lg font-medium text-zinc-200 mb-1">Export Backup</h3>
-          <p className="text-sm text-zinc-500">Download all your CASCADE data as JSON</p>
+          <h3 className="text-lg font-medium text-zinc-200 mb-1">Export Archive</h3>
+          <p className="text-sm text-zinc-500">Download every store with a checksummed manifest</p>
         </button>
         
         <label className="cascade-card p-6 hover:border-purple-500/30 transition-all text-left cursor-pointer">
@@ -202,12 +503,142 @@ export default function BackupPage() {
           />
           <span className="text-3xl mb-3 block">📥</span>
           <h3 className="text-lg font-medium text-zinc-200 mb-1">
-            {importing ? 'Importing...' : 'Import Backup'}
+            {importing ? 'Verifying...' : 'Restore Archive'}
           </h3>
-          <p className="text-sm text-zinc-500">Restore from a previous backup file</p>
+          <p className="text-sm text-zinc-500">Verify a backup and choose what to merge back</p>
         </label>
+        
+        <button
+          onClick={handleMarkdownExport}
+          disabled={exportingMarkdown}
+          className="cascade-card p-6 hover:border-amber-500/30 transition-all text-left disabled:opacity-50"
+        >
+          <span className="text-3xl mb-3 block">📝</span>
+          <h3 className="text-lg font-medium text-zinc-200 mb-1">
+            {exportingMarkdown ? 'Exporting...' : 'Export Markdown'}
+          </h3>
+          <p className="text-sm text-zinc-500">Journal and records as linked notes for Obsidian</p>
+        </button>
       </div>
       
+      {/* Encryption */}
+      <div className="cascade-card p-4 mb-8 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={encrypt}
+            onChange={(e) => setEncrypt(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          🔐 Encrypt backup with a passphrase
+        </label>
+        {encrypt && (
+          <input
+            type="password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            className="flex-1 min-w-[200px] px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-200 focus:outline-none focus:border-cyan-500"
+          />
+        )}
+      </div>
+      
+      {/* Restore */}
+      {pending && (
+        <div className="cascade-card p-6 mb-8 border-purple-500/20">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-medium text-zinc-200">Restore from {pending.fileName}</h3>
+              <p className="text-xs text-zinc-500">
+                {pending.archive.manifest.source === 'legacy-export'
+                  ? 'Legacy export (checksums computed on import)'
+                  : `Created ${new Date(pending.archive.manifest.createdAt).toLocaleString()} · schema v${pending.archive.manifest.schemaVersion} · state ${pending.archive.manifest.stateVersion}`}
+              </p>
+            </div>
+            <button onClick={() => setPending(null)} className="text-zinc-500 hover:text-zinc-300">✕</button>
+          </div>
+          
+          {pending.verification.errors.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-red-500/10 text-sm text-red-400 space-y-1">
+              {pending.verification.errors.map((error, i) => (
+                <p key={i}>⚠️ {error}</p>
+              ))}
+            </div>
+          )}
+          
+          <div className="space-y-1 mb-4">
+            {pending.verification.sections.map(section => (
+              <label
+                key={section.id}
+                className={`flex items-center gap-3 p-2 rounded ${
+                  section.checksumMatches ? 'bg-zinc-800/50 cursor-pointer' : 'bg-red-500/5 opacity-60'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(section.id)}
+                  onChange={() => toggleSection(section.id)}
+                  disabled={!section.checksumMatches}
+                  className="accent-purple-500"
+                />
+                <span className="flex-1 text-sm text-zinc-300">{section.label}</span>
+                <span className="text-sm text-cyan-400 font-mono">{section.count}</span>
+                <span className={`text-xs w-20 text-right ${section.checksumMatches ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {section.checksumMatches ? '✓ SHA-256' : '✗ damaged'}
+                </span>
+              </label>
+            ))}
+          </div>
+          
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {STRATEGIES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setStrategy(option.value)}
+                className={`p-3 rounded-lg text-left transition-colors ${
+                  strategy === option.value
+                    ? 'bg-purple-500/20 border border-purple-500/30'
+                    : 'bg-zinc-800/50 border border-transparent hover:bg-zinc-800'
+                }`}
+              >
+                <p className="text-sm text-zinc-200">{option.label}</p>
+                <p className="text-xs text-zinc-500">{option.description}</p>
+              </button>
+            ))}
+          </div>
+          
+          <button
+            onClick={handleRestore}
+            disabled={selected.length === 0}
+            className="w-full py-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30 disabled:opacity-50 transition-colors"
+          >
+            Restore {selected.length} Section{selected.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+      
+      {/* Restore Summary */}
+      {results && (
+        <div className="cascade-card p-6 mb-8">
+          <h3 className="text-lg font-medium text-zinc-200 mb-4">Restore Summary</h3>
+          <div className="space-y-1">
+            {results.map(result => (
+              <div key={result.id} className="p-2 bg-zinc-800/50 rounded text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 text-zinc-300">{backups.find(b => b.key === result.id)?.label ?? result.id}</span>
+                  <span className="text-emerald-400 text-xs">+{result.added}</span>
+                  <span className="text-amber-400 text-xs">~{result.updated}</span>
+                  <span className="text-cyan-400 text-xs">⧉{result.duplicated}</span>
+                  <span className="text-zinc-500 text-xs">={result.skipped}</span>
+                </div>
+                {result.note && <p className="text-xs text-zinc-500 mt-1">{result.note}</p>}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-600 mt-3">+ added · ~ updated · ⧉ kept both · = unchanged or skipped</p>
+        </div>
+      )}
+      
       {/* Data Breakdown */}
       <div className="cascade-card p-6 mb-8">
         <h3 className="text-lg font-medium text-zinc-200 mb-4">Data Breakdown</h3>
@@ -222,6 +653,8 @@ export default function BackupPage() {
         </div>
       </div>
       
+      <StorageHealthPanel onMessage={setMessage} />
+      
       {/* Danger Zone */}
       <div className="cascade-card p-6 border-red-500/20">
         <h3 className="text-lg font-medium text-red-400 mb-4">⚠️ Danger Zone</h3>
@@ -243,8 +676,9 @@ export default function BackupPage() {
         <ul className="text-sm text-zinc-400 space-y-2">
           <li>• Export backups regularly (weekly recommended)</li>
           <li>• Store backups in multiple locations (cloud, local)</li>
-          <li>• Backup files are JSON and can be inspected/edited</li>
-          <li>• Import merges with existing data (doesn't replace)</li>
+          <li>• Archives carry a SHA-256 checksum per section; edited sections are refused on restore</li>
+          <li>• Encrypted backups (AES-GCM) can only be restored with their passphrase</li>
+          <li>• Restore merges by id; pick how to resolve entries that exist on both sides</li>
         </ul>
       </div>
     </div>
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -203,26 +204,11 @@ export default function BreathPage() {
   const [phase, setPhase] = useState<'inhale' | 'holdIn' | 'exhale' | 'holdOut' | 'idle'>('idle')
   const [progress, setProgress] = useState(0)
   const [currentCycle, setCurrentCycle] = useState(0)
-  const [sessions, setSessions] = useState<BreathSession[]>([])
+  const [sessions, setSessions] = useCollection<BreathSession>('breath-sessions', { sort: (a, b) => b.timestamp - a.timestamp })
   
   const startTimeRef = useRef<number>(0)
   const phaseStartRef = useRef<number>(0)
   
-  // Load sessions
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-breath-sessions')
-      if (saved) setSessions(JSON.parse(saved))
-    }
-  }, [])
-  
-  // Save sessions
-  useEffect(() => {
-    if (typeof window !== 'undefined' && sessions.length > 0) {
-      localStorage.setItem('cascade-breath-sessions', JSON.stringify(sessions))
-    }
-  }, [sessions])
-  
   // Breathing timer
   useEffect(() => {
     if (!isRunning) return
@@ -286,7 +272,7 @@ export default function BreathPage() {
     
     const interval = setInterval(tick, 50)
     return () => clearInterval(interval)
-  }, [isRunning, selectedPattern])
+  }, [isRunning, selectedPattern, setSessions])
   
   const startSession = () => {
     startTimeRef.current = Date.now()
@@ -1,24 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-type CommitmentStatus = 'active' | 'kept' | 'broken' | 'renegotiated'
-
-interface Commitment {
-  id: string
-  to: string // Who is this commitment to? (self, person, org)
-  content: string
-  deadline?: number
-  status: CommitmentStatus
-  createdAt: number
-  resolvedAt?: number
-  note?: string
-  lamague: string
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { CommitmentStatus, Commitment } from '@/types/entities'
 
 // ============================================================================
 // COMMITMENT CARD
@@ -122,26 +106,13 @@ function CommitmentCard({
 // ============================================================================
 
 export default function CommitmentsPage() {
-  const [commitments, setCommitments] = useState<Commitment[]>([])
+  const [commitments, setCommitments] = useCollection<Commitment>('commitments', { sort: (a, b) => b.createdAt - a.createdAt })
   const [showForm, setShowForm] = useState(false)
   const [to, setTo] = useState('')
   const [content, setContent] = useState('')
   const [deadline, setDeadline] = useState('')
   const [filter, setFilter] = useState<CommitmentStatus | 'all'>('active')
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-commitments')
-      if (saved) setCommitments(JSON.parse(saved))
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-commitments', JSON.stringify(commitments))
-    }
-  }, [commitments])
-  
   const addCommitment = () => {
     if (!content.trim()) return
     
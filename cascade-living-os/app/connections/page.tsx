@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -238,7 +239,7 @@ function ConnectionDetail({
 // ============================================================================
 
 export default function ConnectionsPage() {
-  const [connections, setConnections] = useState<Connection[]>([])
+  const [connections, setConnections] = useCollection<Connection>('connections', { sort: (a, b) => b.createdAt - a.createdAt })
   const [showForm, setShowForm] = useState(false)
   const [selectedConnection, setSelectedConnection] = useState<Connection | null>(null)
   const [filterType, setFilterType] = useState<ConnectionType | 'all' | 'overdue'>('all')
@@ -248,19 +249,6 @@ export default function ConnectionsPage() {
   const [type, setType] = useState<ConnectionType>('friend')
   const [frequency, setFrequency] = useState(30)
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-connections')
-      if (saved) setConnections(JSON.parse(saved))
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-connections', JSON.stringify(connections))
-    }
-  }, [connections])
-  
   const addConnection = () => {
     if (!name.trim()) return
     
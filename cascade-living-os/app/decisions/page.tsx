@@ -1,30 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-type DecisionStatus = 'pending' | 'made' | 'reviewed'
-type DecisionOutcome = 'positive' | 'negative' | 'neutral' | 'unknown'
-
-interface Decision {
-  id: string
-  title: string
-  context: string
-  options: string[]
-  chosenOption: number | null
-  reasoning: string
-  status: DecisionStatus
-  outcome?: DecisionOutcome
-  outcomeNote?: string
-  lamague: string
-  createdAt: number
-  decidedAt?: number
-  reviewedAt?: number
-  reviewAfter?: number // timestamp when to review
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { DecisionStatus, DecisionOutcome, Decision } from '@/types/entities'
 
 // ============================================================================
 // DECISION CARD
@@ -177,7 +155,7 @@ function DecisionCard({
 // ============================================================================
 
 export default function DecisionsPage() {
-  const [decisions, setDecisions] = useState<Decision[]>([])
+  const [decisions, setDecisions] = useCollection<Decision>('decisions', { sort: (a, b) => b.createdAt - a.createdAt })
   const [showForm, setShowForm] = useState(false)
   const [filter, setFilter] = useState<'all' | DecisionStatus | 'needs-review'>('all')
   
@@ -187,19 +165,6 @@ export default function DecisionsPage() {
   const [options, setOptions] = useState<string[]>(['', ''])
   const [reviewDays, setReviewDays] = useState(30)
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-decisions')
-      if (saved) setDecisions(JSON.parse(saved))
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-decisions', JSON.stringify(decisions))
-    }
-  }, [decisions])
-  
   const addDecision = () => {
     if (!title.trim() || options.filter(o => o.trim()).length < 2) return
     
@@ -1,6 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useMemo } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { DreamEntry } from '@/types/entities'
 
 // ============================================================================
 // TYPES
@@ -13,20 +15,6 @@ interface DreamSymbol {
   lamague?: string
 }
 
-interface DreamEntry {
-  id: string
-  title: string
-  narrative: string
-  emotions: string[]
-  symbols: string[]
-  clarity: number  // 1-5 how vivid
-  lucid: boolean
-  recurring: boolean
-  interpretation?: string
-  timestamp: number
-  sleepQuality?: number
-}
-
 interface DreamPattern {
   type: 'symbol' | 'emotion' | 'theme'
   value: string
@@ -310,58 +298,45 @@ function DreamCard({ dream }: { dream: DreamEntry }) {
   )
 }
 
+// Symbols and emotions by how often they recur
+function findPatterns(dreamList: DreamEntry[]): DreamPattern[] {
+  const symbolCounts: Record<string, number> = {}
+  const emotionCounts: Record<string, number> = {}
+  
+  dreamList.forEach(dream => {
+    dream.symbols.forEach(sym => {
+      symbolCounts[sym] = (symbolCounts[sym] || 0) + 1
+    })
+    dream.emotions.forEach(emo => {
+      emotionCounts[emo] = (emotionCounts[emo] || 0) + 1
+    })
+  })
+  
+  return [
+    ...Object.entries(symbolCounts).map(([value, count]) => ({
+      type: 'symbol' as const,
+      value,
+      count,
+      lastSeen: dreamList.find(d => d.symbols.includes(value))?.timestamp || 0
+    })),
+    ...Object.entries(emotionCounts).map(([value, count]) => ({
+      type: 'emotion' as const,
+      value,
+      count,
+      lastSeen: dreamList.find(d => d.emotions.includes(value))?.timestamp || 0
+    }))
+  ].sort((a, b) => b.count - a.count)
+}
+
 // ============================================================================
 // MAIN PAGE
 // ============================================================================
 
 export default function DreamsPage() {
-  const [dreams, setDreams] = useState<DreamEntry[]>([])
-  const [patterns, setPatterns] = useState<DreamPattern[]>([])
+  const [dreams, setDreams] = useCollection<DreamEntry>('dreams', { sort: (a, b) => b.timestamp - a.timestamp })
+  const patterns = useMemo(() => findPatterns(dreams), [dreams])
   const [showForm, setShowForm] = useState(false)
   
-  // Load dreams
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-dreams')
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setDreams(parsed)
-        calculatePatterns(parsed)
-      }
-    }
-  }, [])
-  
-  const calculatePatterns = (dreamList: DreamEntry[]) => {
-    const symbolCounts: Record<string, number> = {}
-    const emotionCounts: Record<string, number> = {}
-    
-    dreamList.forEach(dream => {
-      dream.symbols.forEach(sym => {
-        symbolCounts[sym] = (symbolCounts[sym] || 0) + 1
-      })
-      dream.emotions.forEach(emo => {
-        emotionCounts[emo] = (emotionCounts[emo] || 0) + 1
-      })
-    })
-    
-    const newPatterns: DreamPattern[] = [
-      ...Object.entries(symbolCounts).map(([value, count]) => ({
-        type: 'symbol' as const,
-        value,
-        count,
-        lastSeen: dreamList.find(d => d.symbols.includes(value))?.timestamp || 0
-      })),
-      ...Object.entries(emotionCounts).map(([value, count]) => ({
-        type: 'emotion' as const,
-        value,
-        count,
-        lastSeen: dreamList.find(d => d.emotions.includes(value))?.timestamp || 0
-      }))
-    ].sort((a, b) => b.count - a.count)
-    
-    setPatterns(newPatterns)
-  }
-  
   const saveDream = (entry: Omit<DreamEntry, 'id' | 'timestamp'>) => {
     // Generate simple interpretation based on symbols
     let interpretation = ''
@@ -382,8 +357,6 @@ export default function DreamsPage() {
     
     const updated = [newDream, ...dreams]
     setDreams(updated)
-    localStorage.setItem('cascade-dreams', JSON.stringify(updated))
-    calculatePatterns(updated)
     setShowForm(false)
   }
   
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { calculateCoherenceField, validateAURA, AURA_PRESETS } from '@/lib/aura/protocol'
+import { getAll } from '@/lib/db/repository'
+import { EntityStoreName } from '@/lib/db/schema'
 
 // ============================================================================
 // TYPES
@@ -235,53 +237,56 @@ export default function EmergencePage() {
     const streams: DataStream[] = []
     
     // Check each data source
-    const sources = [
-      { key: 'cascade-journal', name: 'Journal Entries' },
-      { key: 'cascade-microorcim', name: 'Microorcim Events' },
-      { key: 'cascade-dreams', name: 'Dreams' },
-      { key: 'cascade-shadows', name: 'Shadow Aspects' },
-      { key: 'cascade-synchronicities', name: 'Synchronicities' },
-      { key: 'cascade-life-scripts', name: 'Life Scripts' },
-      { key: 'cascade-temporal-anchors', name: 'Temporal Anchors' },
-      { key: 'cascade-gratitude', name: 'Gratitude Entries' },
-      { key: 'cascade-goals', name: 'Goals' },
-      { key: 'cascade-decisions', name: 'Decisions' },
-      { key: 'cascade-focus', name: 'Focus Sessions' },
-      { key: 'cascade-rituals', name: 'Rituals' }
+    const sources: { store: EntityStoreName; name: string }[] = [
+      { store: 'journal-entries', name: 'Journal Entries' },
+      { store: 'microorcims', name: 'Microorcim Events' },
+      { store: 'dreams', name: 'Dreams' },
+      { store: 'shadows', name: 'Shadow Aspects' },
+      { store: 'synchronicities', name: 'Synchronicities' },
+      { store: 'life-scripts', name: 'Life Scripts' },
+      { store: 'temporal-anchors', name: 'Temporal Anchors' },
+      { store: 'gratitude', name: 'Gratitude Entries' },
+      { store: 'goals', name: 'Goals' },
+      { store: 'decisions', name: 'Decisions' },
+      { store: 'focus-sessions', name: 'Focus Sessions' },
+      { store: 'rituals', name: 'Rituals' }
     ]
     
-    sources.forEach(source => {
-      const data = localStorage.getItem(source.key)
-      if (data) {
-        const parsed = JSON.parse(data)
-        const count = Array.isArray(parsed) ? parsed.length : Object.keys(parsed).length
-        const lastItem = Array.isArray(parsed) && parsed.length > 0 ? parsed[0] : null
+    const loadStreams = async () => {
+      for (const source of sources) {
+        const records = await getAll<any>(source.store)
+        if (records.length === 0) continue
+        
+        // Primary keys embed creation time, so the last record is the newest
+        const lastItem = records[records.length - 1]
         
         streams.push({
           source: source.name,
-          count,
+          count: records.length,
           lastUpdated: lastItem?.timestamp || lastItem?.createdAt || Date.now(),
           trend: 'stable'
         })
       }
-    })
-    
-    setDataStreams(streams.sort((a, b) => b.count - a.count))
-    
-    // Calculate field state from data
-    const totalEntries = streams.reduce((sum, s) => sum + s.count, 0)
-    const activeSources = streams.filter(s => s.count > 0).length
-    
-    setFieldState({
-      coherence: Math.min(1, activeSources / 8),
-      momentum: Math.min(1, totalEntries / 100),
-      alignment: 0.7, // Would calculate from actual alignment data
-      entropy: Math.max(0.1, 1 - (activeSources / sources.length)),
-      timestamp: Date.now()
-    })
+      
+      setDataStreams(streams.sort((a, b) => b.count - a.count))
+      
+      // Calculate field state from data
+      const totalEntries = streams.reduce((sum, s) => sum + s.count, 0)
+      const activeSources = streams.filter(s => s.count > 0).length
+      
+      setFieldState({
+        coherence: Math.min(1, activeSources / 8),
+        momentum: Math.min(1, totalEntries / 100),
+        alignment: 0.7, // Would calculate from actual alignment data
+        entropy: Math.max(0.1, 1 - (activeSources / sources.length)),
+        timestamp: Date.now()
+      })
+      
+      // Generate patterns from data
+      generatePatterns(streams)
+    }
     
-    // Generate patterns from data
-    generatePatterns(streams)
+    loadStreams().catch(error => console.error('Failed to load data streams:', error))
   }, [])
   
   const generatePatterns = (streams: DataStream[]) => {
@@ -1,44 +1,19 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-interface EnergyLog {
-  id: string
-  timestamp: number
-  energy: 1 | 2 | 3 | 4 | 5
-  mood: 1 | 2 | 3 | 4 | 5
-  note?: string
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { EnergyLog } from '@/types/entities'
 
 // ============================================================================
 // ENERGY TRACKER PAGE
 // ============================================================================
 
 export default function EnergyPage() {
-  const [logs, setLogs] = useState<EnergyLog[]>([])
+  const [logs, setLogs] = useCollection<EnergyLog>('energy-logs', { sort: (a, b) => b.timestamp - a.timestamp })
   const [energy, setEnergy] = useState<number>(3)
   const [mood, setMood] = useState<number>(3)
   const [note, setNote] = useState('')
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-energy-logs')
-      if (saved) setLogs(JSON.parse(saved))
-    }
-  }, [])
-  
-  // Save to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined' && logs.length > 0) {
-      localStorage.setItem('cascade-energy-logs', JSON.stringify(logs))
-    }
-  }, [logs])
-  
   const logEnergy = () => {
     const log: EnergyLog = {
       id: `energy-${Date.now()}`,
@@ -1,27 +1,15 @@
 'use client'
 
 import { useState, useEffect, useRef, useCallback } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { FocusMode, FocusSession } from '@/types/entities'
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type FocusMode = 'work' | 'break' | 'idle'
 type TimerPreset = 'pomodoro' | 'deep' | 'sprint' | 'custom'
 
-interface FocusSession {
-  id: string
-  startTime: number
-  endTime?: number
-  duration: number
-  mode: FocusMode
-  intent: string
-  completed: boolean
-  microorcimsFired: number
-  distractions: number
-  phase: string
-}
-
 interface FocusStats {
   totalSessions: number
   totalFocusTime: number
@@ -198,7 +186,7 @@ export default function FocusPage() {
   const [mode, setMode] = useState<FocusMode>('idle')
   const [isRunning, setIsRunning] = useState(false)
   const [intent, setIntent] = useState('')
-  const [sessions, setSessions] = useState<FocusSession[]>([])
+  const [sessions, setSessions] = useCollection<FocusSession>('focus-sessions', { sort: (a, b) => a.startTime - b.startTime })
   const [currentSession, setCurrentSession] = useState<FocusSession | null>(null)
   const [distractions, setDistractions] = useState(0)
   const [showComplete, setShowComplete] = useState(false)
@@ -209,23 +197,6 @@ export default function FocusPage() {
   
   const duration = mode === 'work' ? settings.work * 60 : mode === 'break' ? settings.break * 60 : settings.work * 60
   
-  // Load sessions from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-focus-sessions')
-      if (saved) {
-        setSessions(JSON.parse(saved))
-      }
-    }
-  }, [])
-  
-  // Save sessions to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-focus-sessions', JSON.stringify(sessions))
-    }
-  }, [sessions])
-  
   const startFocus = () => {
     const session: FocusSession = {
       id: `focus-${Date.now()}`,
@@ -292,7 +263,7 @@ export default function FocusPage() {
       setIsRunning(false)
       setCurrentSession(null)
     }
-  }, [mode, currentSession, distractions])
+  }, [mode, currentSession, distractions, setSessions])
   
   const recordDistraction = () => {
     setDistractions(d => d + 1)
@@ -1,37 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-type GoalStatus = 'active' | 'completed' | 'paused' | 'abandoned'
-type GoalTimeframe = 'phase' | 'quarter' | 'year' | 'lifetime'
-
-interface Milestone {
-  id: string
-  title: string
-  completed: boolean
-  completedAt?: number
-  order: number
-}
-
-interface Goal {
-  id: string
-  title: string
-  description: string
-  why: string // Core motivation
-  timeframe: GoalTimeframe
-  status: GoalStatus
-  milestones: Milestone[]
-  lamague: string
-  targetPhase?: number // Complete by this phase
-  createdAt: number
-  completedAt?: number
-  microorcimsFired: number
-  reflections: string[]
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { GoalStatus, GoalTimeframe, Milestone, Goal } from '@/types/entities'
 
 // ============================================================================
 // GOAL CARD
@@ -498,28 +469,11 @@ function CreateGoalForm({
 // ============================================================================
 
 export default function GoalsPage() {
-  const [goals, setGoals] = useState<Goal[]>([])
+  const [goals, setGoals] = useCollection<Goal>('goals', { sort: (a, b) => a.createdAt - b.createdAt })
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null)
   const [filter, setFilter] = useState<GoalStatus | 'all'>('all')
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-goals')
-      if (saved) {
-        setGoals(JSON.parse(saved))
-      }
-    }
-  }, [])
-  
-  // Save to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-goals', JSON.stringify(goals))
-    }
-  }, [goals])
-  
   const handleSaveGoal = (data: Partial<Goal>) => {
     const newGoal: Goal = {
       ...data as Omit<Goal, 'id' | 'createdAt'>,
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -18,30 +19,25 @@ interface GratitudeEntry {
 // ============================================================================
 
 export default function GratitudePage() {
-  const [entries, setEntries] = useState<GratitudeEntry[]>([])
+  const [entries, setEntries, loading] = useCollection<GratitudeEntry>('gratitude', { sort: (a, b) => b.timestamp - a.timestamp })
   const [todayItems, setTodayItems] = useState<string[]>(['', '', ''])
   const [saved, setSaved] = useState(false)
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
   
   const today = new Date().toDateString()
   
+  // Check if today already has entry
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedEntries = localStorage.getItem('cascade-gratitude')
-      if (savedEntries) {
-        const parsed = JSON.parse(savedEntries)
-        setEntries(parsed)
-        
-        // Check if today already has entry
-        const todayEntry = parsed.find((e: GratitudeEntry) => 
-          new Date(e.timestamp).toDateString() === today
-        )
-        if (todayEntry) {
-          setTodayItems(todayEntry.items)
-          setSaved(true)
-        }
-      }
+    if (loading) return
+    const todayEntry = entriesRef.current.find(e => 
+      new Date(e.timestamp).toDateString() === today
+    )
+    if (todayEntry) {
+      setTodayItems(todayEntry.items)
+      setSaved(true)
     }
-  }, [today])
+  }, [loading, today])
   
   const saveToday = () => {
     const filledItems = todayItems.filter(i => i.trim())
@@ -61,7 +57,6 @@ export default function GratitudePage() {
     
     const updated = [entry, ...filtered]
     setEntries(updated)
-    localStorage.setItem('cascade-gratitude', JSON.stringify(updated))
     setSaved(true)
   }
   
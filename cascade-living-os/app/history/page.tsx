@@ -0,0 +1,282 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+import {
+  HistoryPoint,
+  Subsystem,
+  SUBSYSTEMS,
+  listHistory,
+  getStateAt,
+  diffHistoryPoints,
+  compactHistory
+} from '@/lib/db/state-history'
+import { PatchOperation, parsePointer } from '@/lib/db/json-patch'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBSYSTEM_LABELS: Record<Subsystem, string> = {
+  pyramid: 'Knowledge Pyramid',
+  sovereignty: 'Sovereignty',
+  realityBridge: 'Reality Bridge',
+  oracle: 'Oracle',
+  journal: 'Journal',
+  patterns: 'Patterns',
+  aura: 'AURA'
+}
+
+const OP_STYLES: Record<PatchOperation['op'], string> = {
+  add: 'text-emerald-400',
+  remove: 'text-red-400',
+  replace: 'text-amber-400'
+}
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function HistoryPage() {
+  const restoreFromHistory = useCASCADEStore(state => state.restoreFromHistory)
+
+  const [points, setPoints] = useState<HistoryPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [compareWith, setCompareWith] = useState<number | null>(null)
+  const [changes, setChanges] = useState<PatchOperation[] | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadPoints = () => {
+    setLoading(true)
+    listHistory()
+      .then(setPoints)
+      .catch(error => console.error('Failed to load history:', error))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(loadPoints, [])
+
+  // Compare the selected point against another point, or against the one before it
+  useEffect(() => {
+    if (selected === null) {
+      setChanges(null)
+      return
+    }
+
+    const index = points.findIndex(p => p.timestamp === selected)
+    const base = compareWith ?? points[index + 1]?.timestamp
+    if (base === undefined) {
+      setChanges([])
+      return
+    }
+
+    const [from, to] = base < selected ? [base, selected] : [selected, base]
+    setChanges(null)
+    diffHistoryPoints(from, to)
+      .then(setChanges)
+      .catch(error => console.error('Failed to compare history points:', error))
+  }, [selected, compareWith, points])
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
+    setTimeout(() => setMessage(null), 3000)
+  }
+
+  const handleRestore = async (subsystem?: Subsystem) => {
+    if (selected === null) return
+    const when = new Date(selected).toLocaleString()
+    const what = subsystem ? SUBSYSTEM_LABELS[subsystem] : 'the entire state'
+    if (!confirm(`Restore ${what} to how it was at ${when}?`)) return
+
+    try {
+      const snapshot = await getStateAt(selected)
+      if (!snapshot) {
+        showMessage('error', 'This history point could not be rebuilt.')
+        return
+      }
+      restoreFromHistory(snapshot, subsystem ? [subsystem] : undefined)
+      showMessage('success', `Restored ${what} from ${when}.`)
+    } catch (error) {
+      showMessage('error', `Restore failed: ${(error as Error).message}`)
+    }
+  }
+
+  const handleCompact = async () => {
+    const removed = await compactHistory()
+    showMessage('success', removed > 0 ? `Compacted ${removed} history points.` : 'History is already compact.')
+    loadPoints()
+  }
+
+  const grouped = groupBySubsystem(changes ?? [])
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-zinc-100 mb-2">State History</h1>
+          <p className="text-zinc-500">Browse, compare and restore earlier versions of your CASCADE state</p>
+        </div>
+        <button
+          onClick={handleCompact}
+          className="px-4 py-2 bg-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-700 transition-colors text-sm"
+        >
+          Compact Now
+        </button>
+      </header>
+
+      {/* Message */}
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-6">
+        {/* Points */}
+        <div className="col-span-2 cascade-card p-4 max-h-[70vh] overflow-y-auto">
+          <h3 className="text-sm font-medium text-zinc-400 mb-3">
+            {points.length} point{points.length === 1 ? '' : 's'}
+          </h3>
+
+          {loading ? (
+            <p className="text-sm text-zinc-500">Loading history...</p>
+          ) : points.length === 0 ? (
+            <p className="text-sm text-zinc-500">No history yet. Changes are recorded as you use CASCADE.</p>
+          ) : (
+            <div className="space-y-1">
+              {points.map(point => (
+                <div
+                  key={point.timestamp}
+                  className={`p-2 rounded cursor-pointer transition-colors ${
+                    point.timestamp === selected
+                      ? 'bg-cyan-500/20 border border-cyan-500/30'
+                      : point.timestamp === compareWith
+                        ? 'bg-purple-500/20 border border-purple-500/30'
+                        : 'hover:bg-zinc-800/50 border border-transparent'
+                  }`}
+                  onClick={() => {
+                    setSelected(point.timestamp)
+                    if (compareWith === point.timestamp) setCompareWith(null)
+                  }}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-zinc-200">{new Date(point.timestamp).toLocaleString()}</span>
+                    {point.kind === 'keyframe' && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-700 text-zinc-400">keyframe</span>
+                    )}
+                  </div>
+                  {point.kind === 'delta' && (
+                    <p className="text-xs text-zinc-500 mt-1">
+                      {point.changeCount} change{point.changeCount === 1 ? '' : 's'}
+                      {point.subsystems.length > 0 && ` · ${point.subsystems.join(', ')}`}
+                    </p>
+                  )}
+                  {selected !== null && point.timestamp !== selected && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setCompareWith(compareWith === point.timestamp ? null : point.timestamp)
+                      }}
+                      className="text-[10px] text-purple-400 hover:text-purple-300 mt-1"
+                    >
+                      {compareWith === point.timestamp ? 'Stop comparing' : 'Compare with selected'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Details */}
+        <div className="col-span-3 space-y-6">
+          {selected === null ? (
+            <div className="cascade-card p-6 text-center text-zinc-500">
+              Select a point to see what changed and restore from it.
+            </div>
+          ) : (
+            <>
+              <div className="cascade-card p-6">
+                <h3 className="text-lg font-medium text-zinc-200 mb-1">
+                  {new Date(selected).toLocaleString()}
+                </h3>
+                <p className="text-sm text-zinc-500 mb-4">
+                  {compareWith !== null
+                    ? `Compared with ${new Date(compareWith).toLocaleString()}`
+                    : 'Compared with the previous point'}
+                </p>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => handleRestore()}
+                    className="px-4 py-2 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 transition-colors text-sm"
+                  >
+                    Restore Everything
+                  </button>
+                  {SUBSYSTEMS.map(subsystem => (
+                    <button
+                      key={subsystem}
+                      onClick={() => handleRestore(subsystem)}
+                      className="px-3 py-2 bg-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-700 transition-colors text-xs"
+                    >
+                      {SUBSYSTEM_LABELS[subsystem]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="cascade-card p-6">
+                <h3 className="text-lg font-medium text-zinc-200 mb-4">Changes</h3>
+
+                {changes === null ? (
+                  <p className="text-sm text-zinc-500">Comparing...</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No differences.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {Object.entries(grouped).map(([subsystem, ops]) => (
+                      <div key={subsystem}>
+                        <h4 className="text-sm font-medium text-zinc-300 mb-2">
+                          {SUBSYSTEM_LABELS[subsystem as Subsystem] ?? subsystem}
+                          <span className="text-zinc-600 ml-2">{ops.length}</span>
+                        </h4>
+                        <div className="space-y-1 font-mono text-xs">
+                          {ops.slice(0, 50).map((op, i) => (
+                            <div key={i} className="flex gap-2 p-1.5 bg-zinc-800/50 rounded">
+                              <span className={`w-14 shrink-0 ${OP_STYLES[op.op]}`}>{op.op}</span>
+                              <span className="text-zinc-400 truncate">{op.path}</span>
+                            </div>
+                          ))}
+                          {ops.length > 50 && (
+                            <p className="text-zinc-600">…and {ops.length - 50} more</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function groupBySubsystem(ops: PatchOperation[]): Record<string, PatchOperation[]> {
+  const groups: Record<string, PatchOperation[]> = {}
+  for (const op of ops) {
+    const subsystem = parsePointer(op.path)[0] ?? ''
+    if (!groups[subsystem]) groups[subsystem] = []
+    groups[subsystem].push(op)
+  }
+  return groups
+}
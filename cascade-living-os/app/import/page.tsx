@@ -0,0 +1,370 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+import {
+  ImportFile,
+  ImportParser,
+  ImportTarget,
+  ImportPreview,
+  FieldMapping,
+  MappableField,
+  MeasurementAnchor,
+  SourceData,
+  DuplicateStatus,
+  IMPORT_TARGETS,
+  MAPPABLE_FIELDS,
+  getImportParsers,
+  getImportParser,
+  detectImportParser,
+  readImportFiles,
+  readSourceRows,
+  defaultMapping,
+  previewImport,
+  commitImport
+} from '@/lib/import'
+
+const FIELD_LABELS: Record<MappableField, string> = {
+  date: 'Date',
+  title: 'Title',
+  text: 'Entry text',
+  mood: 'Mood',
+  energy: 'Energy',
+  sleepHours: 'Sleep hours',
+  bedtime: 'Bedtime',
+  waketime: 'Wake time',
+  sleepQuality: 'Sleep quality',
+  notes: 'Notes',
+  measurement: 'Measurement value'
+}
+
+const STATUS_STYLES: Record<DuplicateStatus, string> = {
+  new: 'bg-emerald-500/20 text-emerald-400',
+  duplicate: 'bg-zinc-700 text-zinc-400',
+  similar: 'bg-amber-500/20 text-amber-400'
+}
+
+const TARGETS = Object.keys(IMPORT_TARGETS) as ImportTarget[]
+
+// ============================================================================
+// IMPORT PAGE
+// ============================================================================
+
+export default function ImportPage() {
+  const practices = useCASCADEStore(state => state.realityBridge.practices)
+  const [files, setFiles] = useState<ImportFile[]>([])
+  const [parser, setParser] = useState<ImportParser | null>(null)
+  const [source, setSource] = useState<SourceData | null>(null)
+  const [mapping, setMapping] = useState<FieldMapping | null>(null)
+  const [targets, setTargets] = useState<ImportTarget[]>(['journal', 'energy'])
+  const [scale, setScale] = useState<5 | 10>(10)
+  const [anchorId, setAnchorId] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const anchors = useMemo(() => practices.flatMap(practice =>
+    practice.anchors.map(anchor => ({
+      id: anchor.id,
+      label: `${practice.practiceName} · ${anchor.measurementType}`,
+      value: { practiceId: practice.id, anchorId: anchor.id, type: anchor.measurementType } as MeasurementAnchor
+    }))
+  ), [practices])
+
+  const loadSource = (next: ImportParser, from: ImportFile[]) => {
+    const data = readSourceRows(next, from)
+    setParser(next)
+    setSource(data)
+    setMapping(defaultMapping(next, data.columns))
+    setPreview(null)
+  }
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (chosen.length === 0) return
+
+    setMessage(null)
+    const read = await readImportFiles(chosen)
+    const detected = detectImportParser(read[0])
+    setFiles(read)
+    if (detected) {
+      loadSource(detected, read)
+    } else {
+      setParser(null)
+      setSource(null)
+      setMessage({ type: 'error', text: 'Format not recognized. Choose a format below.' })
+    }
+  }
+
+  const toggleTarget = (target: ImportTarget) => {
+    setTargets(prev => prev.includes(target) ? prev.filter(t => t !== target) : [...prev, target])
+    setPreview(null)
+  }
+
+  const handlePreview = async () => {
+    if (!source || !mapping) return
+    if (!mapping.date) {
+      setMessage({ type: 'error', text: 'Map a column to Date first.' })
+      return
+    }
+
+    setWorking(true)
+    setMessage(null)
+    try {
+      const result = await previewImport(source.rows, {
+        mapping,
+        targets,
+        scale,
+        anchor: anchors.find(a => a.id === anchorId)?.value ?? null
+      })
+      setPreview(result)
+      setSelected(new Set(result.records.flatMap((record, i) => record.status === 'new' ? [i] : [])))
+    } catch (error) {
+      console.error('Import preview failed:', error)
+      setMessage({ type: 'error', text: 'Preview failed. Check the console for details.' })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+    const chosen = preview.records.filter((_, i) => selected.has(i))
+    if (chosen.length === 0) return
+
+    setWorking(true)
+    try {
+      const counts = await commitImport(chosen)
+      const summary = TARGETS
+        .filter(target => counts[target] > 0)
+        .map(target => `${counts[target]} ${IMPORT_TARGETS[target].label.toLowerCase()}`)
+        .join(', ')
+      setMessage({ type: 'success', text: `Imported ${summary}. Undo with Ctrl+Z.` })
+      setPreview(null)
+    } catch (error) {
+      console.error('Import failed:', error)
+      setMessage({ type: 'error', text: `Import failed. ${error instanceof Error ? error.message : ''}` })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const toggleRecord = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  return (
+    <div className="p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-zinc-100 mb-2">Import</h1>
+        <p className="text-zinc-500">Bring in journals and tracking data from other apps</p>
+      </header>
+
+      {/* Message */}
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Source */}
+      <div className="cascade-card p-6 mb-8">
+        <h3 className="text-lg font-medium text-zinc-200 mb-4">1. Source</h3>
+        <label className="block p-6 mb-4 border border-dashed border-zinc-700 rounded-lg text-center cursor-pointer hover:border-cyan-500/50 transition-all">
+          <input
+            type="file"
+            multiple
+            accept=".json,.md,.markdown,.txt,.csv"
+            onChange={handleFiles}
+            className="hidden"
+          />
+          <p className="text-zinc-300">
+            {files.length > 0 ? `${files.length} file${files.length === 1 ? '' : 's'} selected` : 'Choose files'}
+          </p>
+          <p className="text-xs text-zinc-500 mt-1">Day One JSON, Markdown daily notes, CSV or Google Takeout</p>
+        </label>
+
+        {files.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-zinc-500">Format</span>
+            <select
+              value={parser?.id ?? ''}
+              onChange={(e) => {
+                const next = getImportParser(e.target.value)
+                if (next) loadSource(next, files)
+              }}
+              className="px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-200"
+            >
+              <option value="" disabled>Choose a format</option>
+              {getImportParsers().map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            {parser && <span className="text-xs text-zinc-500">{parser.description}</span>}
+            {source && <span className="text-xs text-zinc-400 ml-auto">{source.rows.length} rows found</span>}
+          </div>
+        )}
+
+        {source && source.errors.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-red-400">
+            {source.errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {/* Mapping */}
+      {source && mapping && source.rows.length > 0 && (
+        <div className="cascade-card p-6 mb-8">
+          <h3 className="text-lg font-medium text-zinc-200 mb-4">2. Field Mapping</h3>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            {MAPPABLE_FIELDS.map(field => (
+              <label key={field} className="block">
+                <span className="text-xs text-zinc-500">{FIELD_LABELS[field]}</span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field]: e.target.value || null })
+                    setPreview(null)
+                  }}
+                  className="w-full mt-1 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-200"
+                >
+                  <option value="">Not imported</option>
+                  {source.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <span className="text-sm text-zinc-500">Create</span>
+            {TARGETS.map(target => (
+              <label key={target} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={targets.includes(target)}
+                  onChange={() => toggleTarget(target)}
+                  className="accent-cyan-500"
+                />
+                {IMPORT_TARGETS[target].label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-zinc-500">
+              Mood and energy are on a scale of
+              <select
+                value={scale}
+                onChange={(e) => {
+                  setScale(Number(e.target.value) as 5 | 10)
+                  setPreview(null)
+                }}
+                className="px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-200"
+              >
+                <option value={5}>1–5</option>
+                <option value={10}>1–10</option>
+              </select>
+            </label>
+
+            {targets.includes('measurement') && (
+              <label className="flex items-center gap-2 text-sm text-zinc-500">
+                Measurements go to
+                <select
+                  value={anchorId}
+                  onChange={(e) => {
+                    setAnchorId(e.target.value)
+                    setPreview(null)
+                  }}
+                  className="px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-200"
+                >
+                  <option value="">Choose a reality anchor</option>
+                  {anchors.map(anchor => (
+                    <option key={anchor.id} value={anchor.id}>{anchor.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <button
+              onClick={handlePreview}
+              disabled={working || targets.length === 0}
+              className="ml-auto px-4 py-2 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {working && !preview ? 'Checking...' : 'Preview (dry run)'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="cascade-card p-6">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <h3 className="text-lg font-medium text-zinc-200">3. Preview</h3>
+            {(Object.keys(preview.counts) as DuplicateStatus[]).map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[status]}`}>
+                {preview.counts[status]} {status}
+              </span>
+            ))}
+            <button
+              onClick={handleImport}
+              disabled={working || selected.size === 0}
+              className="ml-auto px-4 py-2 bg-emerald-500/20 text-emerald-400 rounded-lg hover:bg-emerald-500/30 transition-all disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${selected.size} selected`}
+            </button>
+          </div>
+
+          {preview.skipped.length > 0 && (
+            <details className="mb-4 text-sm text-zinc-500">
+              <summary className="cursor-pointer">{preview.skipped.length} rows skipped</summary>
+              <ul className="mt-2 space-y-1">
+                {preview.skipped.map((reason, i) => <li key={i}>{reason}</li>)}
+              </ul>
+            </details>
+          )}
+
+          {preview.records.length === 0 ? (
+            <p className="text-zinc-500 text-center py-8">Nothing to import with this mapping</p>
+          ) : (
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {preview.records.map((record, i) => (
+                <label
+                  key={`${record.entity.id}-${i}`}
+                  className="flex items-start gap-3 p-3 bg-zinc-900/50 rounded-lg cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(i)}
+                    onChange={() => toggleRecord(i)}
+                    className="mt-1 accent-cyan-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[record.status]}`}>{record.status}</span>
+                      <span className="text-xs text-zinc-500">{IMPORT_TARGETS[record.target].label}</span>
+                      <span className="text-xs text-zinc-600">{new Date(record.entity.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm text-zinc-300 truncate">{record.summary}</p>
+                    {record.reason && <p className="text-xs text-zinc-500 mt-1">{record.reason}</p>}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
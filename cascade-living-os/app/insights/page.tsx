@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { getJournalRange } from '@/lib/db/journal'
 
 // ============================================================================
 // TYPES
@@ -244,7 +245,21 @@ export default function InsightsPage() {
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d')
   
   useEffect(() => {
-    setDailyData(generateMockDailyData())
+    const data = generateMockDailyData()
+    setDailyData(data)
+    
+    // Journal counts are real: one range read over the days shown
+    const from = new Date(data[0].date).getTime()
+    getJournalRange(from)
+      .then(entries => {
+        const perDay: Record<string, number> = {}
+        entries.forEach(entry => {
+          const date = new Date(entry.timestamp).toISOString().split('T')[0]
+          perDay[date] = (perDay[date] || 0) + 1
+        })
+        setDailyData(data.map(d => ({ ...d, journalEntries: perDay[d.date] || 0 })))
+      })
+      .catch(error => console.error('Failed to load journal for insights:', error))
   }, [])
   
   // Calculate aggregates
@@ -3,6 +3,8 @@
 import { useState } from 'react'
 import { useCASCADEStore } from '@/lib/store/cascade-store'
 import { useCascadeAI, fallbackJournalAnalysis } from '@/lib/hooks/use-cascade-ai'
+import { useJournal } from '@/lib/hooks/use-journal'
+import { AuditActor, USER_ACTOR, runAs } from '@/lib/db/audit'
 import { JournalEntry, Pattern, ShadowInsight, PyramidIntegration } from '@/types/cascade'
 
 // Brain Dump Input with AI Analysis
@@ -18,7 +20,7 @@ function BrainDumpInput() {
   const patterns = useCASCADEStore(state => state.patterns)
   const sovereigntyScore = useCASCADEStore(state => state.sovereignty.humanSovereignty.value)
   
-  const { analyzeJournal, isLoading, error } = useCascadeAI()
+  const { analyzeJournal, provider, isLoading, error } = useCascadeAI()
   
   const handleSubmit = async () => {
     if (!text.trim()) return
@@ -26,6 +28,7 @@ function BrainDumpInput() {
     let analysisPatterns: Pattern[] = []
     let analysisShadows: ShadowInsight[] = []
     let analysisIntegrations: PyramidIntegration[] = []
+    let analyzedBy: AuditActor = USER_ACTOR
     
     if (useAI) {
       // Try AI analysis
@@ -37,6 +40,8 @@ function BrainDumpInput() {
       })
       
       if (aiAnalysis) {
+        analyzedBy = { kind: 'ai', provider }
+        
         // Convert AI response to our types
         analysisPatterns = aiAnalysis.patterns.map(p => ({
           type: p.type as Pattern['type'],
@@ -132,7 +137,8 @@ function BrainDumpInput() {
         allPatterns.push(newPattern)
       }
     }
-    updatePatterns(allPatterns)
+    // Patterns the AI found are its changes, not the user's
+    runAs(analyzedBy, () => updatePatterns(allPatterns))
     
     setText('')
   }
@@ -463,10 +469,94 @@ function MoodEnergyChart() {
   )
 }
 
+// Date input value (yyyy-mm-dd) to a local-time timestamp
+function parseDay(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime()
+}
+
+// Entry history, paged from the journal store
+function JournalHistory() {
+  const [fromDay, setFromDay] = useState('')
+  const [toDay, setToDay] = useState('')
+  
+  const { entries, loading, hasMore, loadMore } = useJournal({
+    from: parseDay(fromDay, false),
+    to: parseDay(toDay, true)
+  })
+  const filtered = fromDay !== '' || toDay !== ''
+  
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-medium text-zinc-200">{filtered ? 'Entries' : 'Recent Entries'}</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={fromDay}
+            max={toDay || undefined}
+            onChange={(e) => setFromDay(e.target.value)}
+            className="px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-zinc-300 focus:outline-none focus:border-cyan-500"
+          />
+          <span className="text-zinc-500">to</span>
+          <input
+            type="date"
+            value={toDay}
+            min={fromDay || undefined}
+            onChange={(e) => setToDay(e.target.value)}
+            className="px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-zinc-300 focus:outline-none focus:border-cyan-500"
+          />
+          {filtered && (
+            <button
+              onClick={() => { setFromDay(''); setToDay('') }}
+              className="text-xs text-zinc-500 hover:text-zinc-300"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      
+      {entries.length === 0 && !loading ? (
+        <div className="cascade-card p-12 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-zinc-800 flex items-center justify-center">
+            <svg className="w-8 h-8 text-zinc-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+            </svg>
+          </div>
+          <h3 className="text-lg font-medium text-zinc-300 mb-2">
+            {filtered ? 'No entries in this range' : 'No entries yet'}
+          </h3>
+          <p className="text-sm text-zinc-500">
+            {filtered ? 'Try a wider date range' : 'Start writing to discover patterns in your thoughts'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) => (
+            <EntryCard key={entry.id} entry={entry} />
+          ))}
+          
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={loading}
+              className="w-full py-2 text-sm text-zinc-400 hover:text-zinc-200 bg-zinc-800/50 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load older entries'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Main Journal Page
 export default function JournalPage() {
-  const journal = useCASCADEStore(state => state.journal)
-  
   return (
     <div className="p-8">
       <header className="mb-8">
@@ -478,29 +568,7 @@ export default function JournalPage() {
         {/* Left column - Input & Entries */}
         <div className="lg:col-span-2 space-y-6">
           <BrainDumpInput />
-          
-          <div>
-            <h3 className="text-lg font-medium text-zinc-200 mb-4">Recent Entries</h3>
-            {journal.length === 0 ? (
-              <div className="cascade-card p-12 text-center">
-                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-zinc-800 flex items-center justify-center">
-                  <svg className="w-8 h-8 text-zinc-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                  </svg>
-                </div>
-                <h3 className="text-lg font-medium text-zinc-300 mb-2">No entries yet</h3>
-                <p className="text-sm text-zinc-500">
-                  Start writing to discover patterns in your thoughts
-                </p>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                {journal.slice(0, 10).map((entry) => (
-                  <EntryCard key={entry.id} entry={entry} />
-                ))}
-              </div>
-            )}
-          </div>
+          <JournalHistory />
         </div>
         
         {/* Right column - Analytics */}
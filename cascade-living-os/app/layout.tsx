@@ -8,6 +8,8 @@ import { CommandPalette } from '@/components/command-palette'
 import { NotificationProvider, ToastContainer } from '@/components/notifications'
 import { QuickCaptureWidget } from '@/components/quick-capture'
 import { ErrorBoundary } from '@/components/error-boundary'
+import { StorageWarnings } from '@/components/storage-warnings'
+import { UndoShortcuts } from '@/components/undo-shortcuts'
 
 const inter = Inter({ 
   subsets: ['latin'],
@@ -49,6 +51,8 @@ export default function RootLayout({
             <QuickCaptureWidget />
             <CommandPalette />
             <ToastContainer />
+            <StorageWarnings />
+            <UndoShortcuts />
           </NotificationProvider>
         </Providers>
       </body>
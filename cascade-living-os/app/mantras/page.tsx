@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -97,38 +98,22 @@ function MantraCard({
 // ============================================================================
 
 export default function MantrasPage() {
-  const [mantras, setMantras] = useState<Mantra[]>([])
+  const [mantras, setMantras] = useCollection<Mantra>('mantras', {
+    sort: (a, b) => b.createdAt - a.createdAt,
+    // Initialize with defaults
+    seed: () => DEFAULT_MANTRAS.map((m, i) => ({
+      ...m,
+      id: `mantra-default-${i}`,
+      usageCount: 0,
+      createdAt: Date.now()
+    }))
+  })
   const [showForm, setShowForm] = useState(false)
   const [text, setText] = useState('')
   const [category, setCategory] = useState<Mantra['category']>('custom')
   const [todaysMantra, setTodaysMantra] = useState<Mantra | null>(null)
   const [speaking, setSpeaking] = useState(false)
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-mantras')
-      if (saved) {
-        setMantras(JSON.parse(saved))
-      } else {
-        // Initialize with defaults
-        const defaults = DEFAULT_MANTRAS.map((m, i) => ({
-          ...m,
-          id: `mantra-default-${i}`,
-          usageCount: 0,
-          createdAt: Date.now()
-        }))
-        setMantras(defaults)
-        localStorage.setItem('cascade-mantras', JSON.stringify(defaults))
-      }
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined' && mantras.length > 0) {
-      localStorage.setItem('cascade-mantras', JSON.stringify(mantras))
-    }
-  }, [mantras])
-  
   // Pick today's mantra
   useEffect(() => {
     if (mantras.length > 0 && !todaysMantra) {
@@ -13,6 +13,8 @@ import {
   type MicroorcimMetrics
 } from '@/lib/cascade/microorcim'
 import { toSovereignDate } from '@/lib/cascade/seven-phase'
+import { DOCUMENTS } from '@/lib/db/schema'
+import { useCollection, useDocument } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // MICROORCIM INPUT PANEL
@@ -457,25 +459,15 @@ function MicroorcimHeatmap({ microorcims }: { microorcims: Microorcim[] }) {
 // ============================================================================
 
 export default function MicroorcimPage() {
-  const [willpowerState, setWillpowerState] = useState<WillpowerState>(initializeWillpowerState())
-  const [microorcims, setMicroorcims] = useState<Microorcim[]>([])
+  const [willpowerState, setWillpowerState] = useDocument<WillpowerState>(
+    DOCUMENTS.WILLPOWER_STATE.key,
+    initializeWillpowerState()
+  )
+  const [microorcims, setMicroorcims] = useCollection<Microorcim>('microorcims', {
+    sort: (a, b) => a.timestamp - b.timestamp
+  })
   const [metrics, setMetrics] = useState<MicroorcimMetrics | null>(null)
   
-  // Load from localStorage on mount
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedState = localStorage.getItem('cascade-willpower-state')
-      const savedMicroorcims = localStorage.getItem('cascade-microorcims')
-      
-      if (savedState) {
-        setWillpowerState(JSON.parse(savedState))
-      }
-      if (savedMicroorcims) {
-        setMicroorcims(JSON.parse(savedMicroorcims))
-      }
-    }
-  }, [])
-  
   // Update metrics when state changes
   useEffect(() => {
     const todayMicroorcims = microorcims.filter(m => {
@@ -487,14 +479,6 @@ export default function MicroorcimPage() {
     setMetrics(getMicroorcimMetrics(willpowerState, todayMicroorcims))
   }, [willpowerState, microorcims])
   
-  // Save to localStorage when state changes
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-willpower-state', JSON.stringify(willpowerState))
-      localStorage.setItem('cascade-microorcims', JSON.stringify(microorcims))
-    }
-  }, [willpowerState, microorcims])
-  
   const handleFireMicroorcim = (microorcim: Microorcim) => {
     // Update state
     const newState = recordMicroorcim(willpowerState, microorcim)
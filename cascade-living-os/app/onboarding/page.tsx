@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { put } from '@/lib/db/repository'
 
 // ============================================================================
 // TYPES
@@ -353,7 +354,7 @@ export default function OnboardingPage() {
     }
   }, [router])
   
-  const completeOnboarding = () => {
+  const completeOnboarding = async () => {
     // Save onboarding state
     const state: OnboardingState = {
       completed: true,
@@ -371,7 +372,7 @@ export default function OnboardingPage() {
     
     // Create first value
     if (primaryValue) {
-      const values = [{
+      await put('values', {
         id: `value-${Date.now()}`,
         title: primaryValue,
         description: 'My primary invariant value',
@@ -380,13 +381,12 @@ export default function OnboardingPage() {
         examples: [],
         violations: [],
         createdAt: Date.now()
-      }]
-      localStorage.setItem('cascade-values', JSON.stringify(values))
+      })
     }
     
     // Create first goal
     if (firstGoal) {
-      const goals = [{
+      await put('goals', {
         id: `goal-${Date.now()}`,
         title: firstGoal,
         description: '',
@@ -395,21 +395,19 @@ export default function OnboardingPage() {
         status: 'active',
         milestones: [],
         createdAt: Date.now()
-      }]
-      localStorage.setItem('cascade-goals', JSON.stringify(goals))
+      })
     }
     
     // Create first mantra
     if (firstMantra) {
-      const mantras = [{
+      await put('mantras', {
         id: `mantra-${Date.now()}`,
         text: firstMantra,
         lamague: '✧',
         category: 'custom',
         usageCount: 0,
         createdAt: Date.now()
-      }]
-      localStorage.setItem('cascade-mantras', JSON.stringify(mantras))
+      })
     }
     
     router.push('/today')
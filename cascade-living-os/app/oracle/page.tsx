@@ -3,6 +3,7 @@
 import { useState, useMemo } from 'react'
 import { useCASCADEStore } from '@/lib/store/cascade-store'
 import { useCascadeAI } from '@/lib/hooks/use-cascade-ai'
+import type { OracleReading } from '@/lib/llm/schemas'
 import { TrajectoryPoint, TrajectoryPrediction, OracleWarning } from '@/types/cascade'
 
 // Trajectory calculation (simplified differential equations model)
@@ -353,8 +354,8 @@ function WarningsPanel({ warnings }: { warnings: OracleWarning[] }) {
 // AI Oracle Consultation
 function AIConsultation() {
   const [query, setQuery] = useState('')
-  const [oracleResponse, setOracleResponse] = useState<string | null>(null)
-  const { consultOracle, isLoading, error } = useCascadeAI()
+  const [reading, setReading] = useState<OracleReading | null>(null)
+  const { readOracle, isLoading, error } = useCascadeAI()
   
   const sovereigntyScore = useCASCADEStore(state => state.sovereignty.humanSovereignty.value)
   const patterns = useCASCADEStore(state => state.patterns)
@@ -362,12 +363,13 @@ function AIConsultation() {
   const handleConsult = async () => {
     if (!query.trim()) return
     
-    const response = await consultOracle(query, {
+    // Null when the Oracle failed; `error` says why
+    const result = await readOracle(query, {
       sovereigntyScore,
       recentPatterns: patterns.slice(0, 5).map(p => p.content)
     })
     
-    setOracleResponse(response)
+    setReading(result)
   }
   
   return (
@@ -419,14 +421,29 @@ function AIConsultation() {
           <p className="text-xs text-red-400 text-center">{error}</p>
         )}
         
-        {oracleResponse && (
+        {reading && (
           <div className="mt-4 p-4 bg-purple-500/5 border border-purple-500/20 rounded-lg animate-fade-in">
             <div className="flex items-start gap-3">
               <div className="w-8 h-8 rounded-full bg-purple-500/20 flex items-center justify-center flex-shrink-0">
                 <span className="text-purple-400 text-lg">Ψ</span>
               </div>
-              <div className="flex-1">
-                <p className="text-sm text-zinc-300 whitespace-pre-wrap">{oracleResponse}</p>
+              <div className="flex-1 space-y-3">
+                <p className="text-sm text-zinc-300 whitespace-pre-wrap">{reading.assessment}</p>
+                {([
+                  ['Cascade points', reading.cascadePoints],
+                  ['Early warnings', reading.warnings],
+                  ['Recommendations', reading.recommendations]
+                ] as const).filter(([, items]) => items.length > 0).map(([title, items]) => (
+                  <div key={title}>
+                    <p className="text-xs text-purple-400 mb-1">{title}</p>
+                    <ul className="space-y-1">
+                      {items.map((item, i) => (
+                        <li key={i} className="text-sm text-zinc-400">• {item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                <p className="font-mono text-purple-400">{reading.lamague}</p>
               </div>
             </div>
           </div>
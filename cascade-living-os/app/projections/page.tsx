@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -190,7 +191,7 @@ function ProjectionCard({
 // ============================================================================
 
 export default function ProjectionsPage() {
-  const [projections, setProjections] = useState<Projection[]>([])
+  const [projections, setProjections] = useCollection<Projection>('projections', { sort: (a, b) => b.createdAt - a.createdAt })
   const [showForm, setShowForm] = useState(false)
   const [filter, setFilter] = useState<'all' | 'active' | 'resolved'>('active')
   
@@ -202,19 +203,6 @@ export default function ProjectionsPage() {
   const [realistic, setRealistic] = useState('')
   const [pessimistic, setPessimistic] = useState('')
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-projections')
-      if (saved) setProjections(JSON.parse(saved))
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-projections', JSON.stringify(projections))
-    }
-  }, [projections])
-  
   const addProjection = () => {
     if (!title.trim()) return
     
@@ -425,7 +425,7 @@ function ExportImportControls() {
         setShowImport(false)
         setImportJson('')
       } catch (e) {
-        alert('Invalid JSON format')
+        alert(e instanceof Error ? e.message : 'Invalid JSON format')
       }
     }
   }
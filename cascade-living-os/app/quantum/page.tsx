@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -389,21 +390,10 @@ function CreateDecisionForm({
 // ============================================================================
 
 export default function QuantumOraclePage() {
-  const [decisions, setDecisions] = useState<QuantumDecision[]>([])
+  const [decisions, setDecisions] = useCollection<QuantumDecision>('quantum-decisions', { sort: (a, b) => b.createdAt - a.createdAt })
   const [activeDecision, setActiveDecision] = useState<QuantumDecision | null>(null)
   const [showCreate, setShowCreate] = useState(false)
-  const [history, setHistory] = useState<CollapseHistory[]>([])
-  
-  // Load data
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-quantum-decisions')
-      if (saved) setDecisions(JSON.parse(saved))
-      
-      const hist = localStorage.getItem('cascade-collapse-history')
-      if (hist) setHistory(JSON.parse(hist))
-    }
-  }, [])
+  const [history, setHistory] = useCollection<CollapseHistory>('collapse-history', { sort: (a, b) => b.timestamp - a.timestamp })
   
   const saveDecision = (decision: Omit<QuantumDecision, 'id' | 'createdAt'>) => {
     const newDecision: QuantumDecision = {
@@ -414,7 +404,6 @@ export default function QuantumOraclePage() {
     
     const updated = [newDecision, ...decisions]
     setDecisions(updated)
-    localStorage.setItem('cascade-quantum-decisions', JSON.stringify(updated))
     setActiveDecision(newDecision)
     setShowCreate(false)
   }
@@ -427,7 +416,6 @@ export default function QuantumOraclePage() {
     
     const newDecisions = decisions.map(d => d.id === updated.id ? updated : d)
     setDecisions(newDecisions)
-    localStorage.setItem('cascade-quantum-decisions', JSON.stringify(newDecisions))
   }
   
   const collapseWavefunction = (stateId: string, method: string) => {
@@ -448,7 +436,6 @@ export default function QuantumOraclePage() {
     
     const newDecisions = decisions.map(d => d.id === updated.id ? updated : d)
     setDecisions(newDecisions)
-    localStorage.setItem('cascade-quantum-decisions', JSON.stringify(newDecisions))
     
     // Add to history
     const newHistory: CollapseHistory = {
@@ -461,7 +448,6 @@ export default function QuantumOraclePage() {
     }
     const updatedHistory = [newHistory, ...history].slice(0, 50)
     setHistory(updatedHistory)
-    localStorage.setItem('cascade-collapse-history', JSON.stringify(updatedHistory))
   }
   
   // Stats
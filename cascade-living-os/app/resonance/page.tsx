@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 import {
   calculateCoherenceField,
   validateAURA,
@@ -295,17 +296,9 @@ export default function ResonancePage() {
   const [field, setField] = useState<CoherenceField | null>(null)
   const [auraMetrics, setAuraMetrics] = useState<AURAMetrics | null>(null)
   const [earnedLight, setEarnedLight] = useState<EarnedLight | null>(null)
-  const [logs, setLogs] = useState<ResonanceLog[]>([])
+  const [logs, setLogs] = useCollection<ResonanceLog>('resonance-logs', { sort: (a, b) => b.timestamp - a.timestamp })
   const [note, setNote] = useState('')
   
-  // Load logs
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-resonance-logs')
-      if (saved) setLogs(JSON.parse(saved))
-    }
-  }, [])
-  
   // Recalculate on dimension change
   useEffect(() => {
     const newField = calculateCoherenceField(dimensions)
@@ -348,9 +341,8 @@ export default function ResonancePage() {
     
     const updated = [newLog, ...logs].slice(0, 50)
     setLogs(updated)
-    localStorage.setItem('cascade-resonance-logs', JSON.stringify(updated))
     setNote('')
-  }, [field, auraMetrics, earnedLight, note, logs])
+  }, [field, auraMetrics, earnedLight, note, logs, setLogs])
   
   if (!field || !auraMetrics || !earnedLight) {
     return <div className="p-8">Loading...</div>
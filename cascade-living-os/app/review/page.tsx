@@ -1,42 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-interface WeeklyReview {
-  id: string
-  weekStart: string // ISO date string
-  weekEnd: string
-  completedAt?: number
-  
-  // Reflection sections
-  wins: string[]
-  challenges: string[]
-  lessons: string[]
-  gratitude: string[]
-  
-  // Metrics snapshot
-  microorcimsFired: number
-  focusHours: number
-  ritualsCompleted: number
-  goalsProgressed: number
-  
-  // Ratings
-  overallRating: 1 | 2 | 3 | 4 | 5
-  energyLevel: 1 | 2 | 3 | 4 | 5
-  alignmentScore: 1 | 2 | 3 | 4 | 5
-  
-  // Planning
-  nextWeekIntentions: string[]
-  focusAreas: string[]
-  
-  // Notes
-  notes: string
-  lamague: string
-}
+import { useState, useEffect, useRef } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { WeeklyReview } from '@/types/entities'
 
 // ============================================================================
 // REVIEW SECTION COMPONENT
@@ -156,9 +122,13 @@ function RatingSelector({
 // ============================================================================
 
 export default function ReviewPage() {
-  const [reviews, setReviews] = useState<WeeklyReview[]>([])
+  const [reviews, setReviews, loading] = useCollection<WeeklyReview>('weekly-reviews', {
+    sort: (a, b) => a.weekStart.localeCompare(b.weekStart)
+  })
   const [currentReview, setCurrentReview] = useState<WeeklyReview | null>(null)
   const [showHistory, setShowHistory] = useState(false)
+  const reviewsRef = useRef(reviews)
+  reviewsRef.current = reviews
   
   // Get current week boundaries
   const getWeekBoundaries = () => {
@@ -178,30 +148,15 @@ export default function ReviewPage() {
     }
   }
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-weekly-reviews')
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setReviews(parsed)
-        
-        // Check if current week has a review
-        const { start } = getWeekBoundaries()
-        const existing = parsed.find((r: WeeklyReview) => r.weekStart === start)
-        if (existing) {
-          setCurrentReview(existing)
-        }
-      }
-    }
-  }, [])
-  
-  // Save to localStorage
+  // Resume this week's review once loaded
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-weekly-reviews', JSON.stringify(reviews))
+    if (loading) return
+    const { start } = getWeekBoundaries()
+    const existing = reviewsRef.current.find(r => r.weekStart === start)
+    if (existing) {
+      setCurrentReview(existing)
     }
-  }, [reviews])
+  }, [loading])
   
   // Initialize new review
   const startNewReview = () => {
@@ -1,37 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-type RitualFrequency = 'daily' | 'weekly' | 'phase' | 'custom'
-type RitualCategory = 'body' | 'mind' | 'spirit' | 'work' | 'relationship'
-
-interface Ritual {
-  id: string
-  name: string
-  description: string
-  frequency: RitualFrequency
-  category: RitualCategory
-  lamague: string
-  targetCount: number // per period
-  currentStreak: number
-  bestStreak: number
-  completions: RitualCompletion[]
-  createdAt: number
-  active: boolean
-  microorcimOnComplete: boolean
-}
-
-interface RitualCompletion {
-  id: string
-  ritualId: string
-  timestamp: number
-  note?: string
-  quality: 1 | 2 | 3 | 4 | 5
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { Ritual, RitualCategory, RitualCompletion, RitualFrequency } from '@/types/entities'
 
 // ============================================================================
 // DEFAULT RITUALS
@@ -359,39 +330,22 @@ function CreateRitualForm({
 // ============================================================================
 
 export default function RitualsPage() {
-  const [rituals, setRituals] = useState<Ritual[]>([])
+  const [rituals, setRituals] = useCollection<Ritual>('rituals', {
+    sort: (a, b) => a.createdAt - b.createdAt,
+    // Initialize with defaults
+    seed: () => DEFAULT_RITUALS.map((r, i) => ({
+      ...r,
+      id: `ritual-${i}`,
+      currentStreak: 0,
+      bestStreak: 0,
+      completions: [],
+      createdAt: Date.now()
+    }))
+  })
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [editingRitual, setEditingRitual] = useState<Ritual | null>(null)
   const [filter, setFilter] = useState<RitualCategory | 'all'>('all')
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-rituals')
-      if (saved) {
-        setRituals(JSON.parse(saved))
-      } else {
-        // Initialize with defaults
-        const initial = DEFAULT_RITUALS.map((r, i) => ({
-          ...r,
-          id: `ritual-${i}`,
-          currentStreak: 0,
-          bestStreak: 0,
-          completions: [],
-          createdAt: Date.now()
-        }))
-        setRituals(initial)
-      }
-    }
-  }, [])
-  
-  // Save to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined' && rituals.length > 0) {
-      localStorage.setItem('cascade-rituals', JSON.stringify(rituals))
-    }
-  }, [rituals])
-  
   const getTodayCompletions = (ritual: Ritual): number => {
     const today = new Date().toDateString()
     return ritual.completions.filter(c => 
@@ -1,43 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { LifeScript, ScriptCategory } from '@/types/entities'
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface LifeScript {
-  id: string
-  original: string         // The limiting belief/story
-  rewritten: string        // The new empowering version
-  category: ScriptCategory
-  origin?: string          // Where this came from
-  evidence: {
-    supporting: string[]   // Evidence for original
-    contradicting: string[] // Evidence against original
-  }
-  strength: number         // 1-10 how strongly held
-  newStrength: number      // 1-10 strength of rewrite
-  triggers: string[]
-  affirmations: string[]
-  status: 'identified' | 'questioning' | 'rewriting' | 'integrated'
-  practiceCount: number
-  lastPracticed?: number
-  createdAt: number
-}
-
-type ScriptCategory = 
-  | 'self_worth'
-  | 'capability'
-  | 'relationships'
-  | 'money'
-  | 'success'
-  | 'health'
-  | 'creativity'
-  | 'safety'
-  | 'belonging'
-  | 'other'
-
 interface ScriptPractice {
   id: string
   scriptId: string
@@ -562,19 +532,11 @@ function CreateScriptForm({
 // ============================================================================
 
 export default function LifeScriptPage() {
-  const [scripts, setScripts] = useState<LifeScript[]>([])
+  const [scripts, setScripts] = useCollection<LifeScript>('life-scripts', { sort: (a, b) => b.createdAt - a.createdAt })
   const [selectedScript, setSelectedScript] = useState<LifeScript | null>(null)
   const [showCreate, setShowCreate] = useState(false)
   const [filter, setFilter] = useState<'all' | LifeScript['status']>('all')
   
-  // Load scripts
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-life-scripts')
-      if (saved) setScripts(JSON.parse(saved))
-    }
-  }, [])
-  
   const saveScript = (script: Omit<LifeScript, 'id' | 'createdAt'>) => {
     const newScript: LifeScript = {
       ...script,
@@ -584,14 +546,12 @@ export default function LifeScriptPage() {
     
     const updated = [newScript, ...scripts]
     setScripts(updated)
-    localStorage.setItem('cascade-life-scripts', JSON.stringify(updated))
     setShowCreate(false)
   }
   
   const updateScript = (updated: LifeScript) => {
     const newScripts = scripts.map(s => s.id === updated.id ? updated : s)
     setScripts(newScripts)
-    localStorage.setItem('cascade-life-scripts', JSON.stringify(newScripts))
     setSelectedScript(updated)
   }
   
@@ -2,6 +2,9 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
+import { getAll } from '@/lib/db/repository'
+import { getJournalRange } from '@/lib/db/journal'
+import type { Memory } from '@/lib/llm/memory'
 
 // ============================================================================
 // TYPES
@@ -77,152 +80,156 @@ export default function SearchPage() {
   useEffect(() => {
     if (typeof window === 'undefined') return
     
-    setLoading(true)
-    const results: SearchResult[] = []
-    
-    // Journal entries
-    const journal = JSON.parse(localStorage.getItem('cascade-journal') || '[]')
-    journal.forEach((j: any) => {
-      results.push({
-        id: j.id || `j-${j.timestamp}`,
-        type: 'journal',
-        title: j.title || new Date(j.timestamp).toLocaleDateString(),
-        content: j.content || '',
-        timestamp: j.timestamp,
-        lamague: j.lamague,
-        link: '/journal'
+    const loadSearchable = async () => {
+      setLoading(true)
+      const results: SearchResult[] = []
+      
+      // Journal entries
+      const journal = await getJournalRange()
+      journal.forEach((j: any) => {
+        results.push({
+          id: j.id || `j-${j.timestamp}`,
+          type: 'journal',
+          title: j.title || new Date(j.timestamp).toLocaleDateString(),
+          content: j.rawText || j.content || '',
+          timestamp: j.timestamp,
+          lamague: j.lamague,
+          link: '/journal'
+        })
       })
-    })
-    
-    // Memories
-    const memories = JSON.parse(localStorage.getItem('cascade-memories') || '[]')
-    memories.forEach((m: any) => {
-      results.push({
-        id: m.id,
-        type: 'memory',
-        title: m.content.substring(0, 50) + '...',
-        content: m.content,
-        timestamp: m.timestamp,
-        lamague: m.lamague,
-        link: '/memory'
+      
+      // Memories
+      const memories = await getAll<Memory>('memories')
+      memories.forEach(m => {
+        results.push({
+          id: m.id,
+          type: 'memory',
+          title: m.content.substring(0, 50) + '...',
+          content: m.content,
+          timestamp: m.createdAt,
+          lamague: m.lamagueTags.join(' '),
+          link: '/memory'
+        })
       })
-    })
-    
-    // Goals
-    const goals = JSON.parse(localStorage.getItem('cascade-goals') || '[]')
-    goals.forEach((g: any) => {
-      results.push({
-        id: g.id,
-        type: 'goal',
-        title: g.title,
-        content: g.description + ' | Why: ' + g.why,
-        timestamp: g.createdAt,
-        lamague: g.lamague,
-        link: '/goals'
+      
+      // Goals
+      const goals = await getAll<any>('goals')
+      goals.forEach((g: any) => {
+        results.push({
+          id: g.id,
+          type: 'goal',
+          title: g.title,
+          content: g.description + ' | Why: ' + g.why,
+          timestamp: g.createdAt,
+          lamague: g.lamague,
+          link: '/goals'
+        })
       })
-    })
-    
-    // Rituals
-    const rituals = JSON.parse(localStorage.getItem('cascade-rituals') || '[]')
-    rituals.forEach((r: any) => {
-      results.push({
-        id: r.id,
-        type: 'ritual',
-        title: r.name,
-        content: r.description || '',
-        timestamp: r.createdAt || Date.now(),
-        lamague: r.lamague,
-        link: '/rituals'
+      
+      // Rituals
+      const rituals = await getAll<any>('rituals')
+      rituals.forEach((r: any) => {
+        results.push({
+          id: r.id,
+          type: 'ritual',
+          title: r.name,
+          content: r.description || '',
+          timestamp: r.createdAt || Date.now(),
+          lamague: r.lamague,
+          link: '/rituals'
+        })
       })
-    })
-    
-    // Values
-    const values = JSON.parse(localStorage.getItem('cascade-values') || '[]')
-    values.forEach((v: any) => {
-      results.push({
-        id: v.id,
-        type: 'value',
-        title: v.title,
-        content: v.description + (v.examples ? ' | Examples: ' + v.examples.join(', ') : ''),
-        timestamp: v.createdAt || Date.now(),
-        lamague: v.lamague,
-        link: '/values'
+      
+      // Values
+      const values = await getAll<any>('values')
+      values.forEach((v: any) => {
+        results.push({
+          id: v.id,
+          type: 'value',
+          title: v.title,
+          content: v.description + (v.examples ? ' | Examples: ' + v.examples.join(', ') : ''),
+          timestamp: v.createdAt || Date.now(),
+          lamague: v.lamague,
+          link: '/values'
+        })
       })
-    })
-    
-    // Commitments
-    const commitments = JSON.parse(localStorage.getItem('cascade-commitments') || '[]')
-    commitments.forEach((c: any) => {
-      results.push({
-        id: c.id,
-        type: 'commitment',
-        title: `To ${c.to}: ${c.content.substring(0, 40)}...`,
-        content: c.content,
-        timestamp: c.createdAt,
-        lamague: c.lamague,
-        link: '/commitments'
+      
+      // Commitments
+      const commitments = await getAll<any>('commitments')
+      commitments.forEach((c: any) => {
+        results.push({
+          id: c.id,
+          type: 'commitment',
+          title: `To ${c.to}: ${c.content.substring(0, 40)}...`,
+          content: c.content,
+          timestamp: c.createdAt,
+          lamague: c.lamague,
+          link: '/commitments'
+        })
       })
-    })
-    
-    // Connections
-    const connections = JSON.parse(localStorage.getItem('cascade-connections') || '[]')
-    connections.forEach((c: any) => {
-      results.push({
-        id: c.id,
-        type: 'connection',
-        title: c.name,
-        content: `${c.type} | ${c.notes || 'No notes'}`,
-        timestamp: c.createdAt,
-        lamague: c.lamague,
-        link: '/connections'
+      
+      // Connections
+      const connections = await getAll<any>('connections')
+      connections.forEach((c: any) => {
+        results.push({
+          id: c.id,
+          type: 'connection',
+          title: c.name,
+          content: `${c.type} | ${c.notes || 'No notes'}`,
+          timestamp: c.createdAt,
+          lamague: c.lamague,
+          link: '/connections'
+        })
       })
-    })
-    
-    // Decisions
-    const decisions = JSON.parse(localStorage.getItem('cascade-decisions') || '[]')
-    decisions.forEach((d: any) => {
-      results.push({
-        id: d.id,
-        type: 'decision',
-        title: d.title,
-        content: d.context + ' | Options: ' + d.options.join(', '),
-        timestamp: d.createdAt,
-        lamague: d.lamague,
-        link: '/decisions'
+      
+      // Decisions
+      const decisions = await getAll<any>('decisions')
+      decisions.forEach((d: any) => {
+        results.push({
+          id: d.id,
+          type: 'decision',
+          title: d.title,
+          content: d.context + ' | Options: ' + d.options.join(', '),
+          timestamp: d.createdAt,
+          lamague: d.lamague,
+          link: '/decisions'
+        })
       })
-    })
-    
-    // Projections
-    const projections = JSON.parse(localStorage.getItem('cascade-projections') || '[]')
-    projections.forEach((p: any) => {
-      results.push({
-        id: p.id,
-        type: 'projection',
-        title: p.title,
-        content: p.description,
-        timestamp: p.createdAt,
-        lamague: p.lamague,
-        link: '/projections'
+      
+      // Projections
+      const projections = await getAll<any>('projections')
+      projections.forEach((p: any) => {
+        results.push({
+          id: p.id,
+          type: 'projection',
+          title: p.title,
+          content: p.description,
+          timestamp: p.createdAt,
+          lamague: p.lamague,
+          link: '/projections'
+        })
       })
-    })
-    
-    // Quick captures
-    const captures = JSON.parse(localStorage.getItem('cascade-quick-captures') || '[]')
-    captures.forEach((c: any) => {
-      results.push({
-        id: c.id,
-        type: 'capture',
-        title: c.type + ': ' + c.content.substring(0, 30) + '...',
-        content: c.content,
-        timestamp: c.timestamp,
-        link: '/today'
+      
+      // Quick captures
+      const captures = await getAll<any>('quick-captures')
+      captures.forEach((c: any) => {
+        results.push({
+          id: c.id,
+          type: 'capture',
+          title: c.type + ': ' + c.content.substring(0, 30) + '...',
+          content: c.content,
+          timestamp: c.timestamp,
+          link: '/today'
+        })
       })
-    })
+      
+      // Sort by timestamp descending
+      results.sort((a, b) => b.timestamp - a.timestamp)
+      setAllData(results)
+      setLoading(false)
+    }
     
-    // Sort by timestamp descending
-    results.sort((a, b) => b.timestamp - a.timestamp)
-    setAllData(results)
-    setLoading(false)
+    loadSearchable().catch(error => console.error('Failed to load search data:', error))
   }, [])
   
   // Filter and search
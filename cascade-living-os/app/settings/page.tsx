@@ -2,94 +2,258 @@
 
 import { useState, useEffect } from 'react'
 import { useCASCADEStore } from '@/lib/store/cascade-store'
+import { describeMigration } from '@/lib/store/migrations'
+import { getDocument, putDocument } from '@/lib/db/repository'
+import { DOCUMENTS, LLMSettings } from '@/lib/db/schema'
+import { countJournalEntries } from '@/lib/db/journal'
+import { LineDiff, diffLines, getDateKey } from '@/lib/utils'
+import { CASCADEProviderName, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '@/lib/llm/provider'
+import type { CircuitState, ProviderHealth } from '@/lib/llm/resilience'
+import { CredentialName, CredentialStatus, SessionResponse } from '@/lib/credentials/protocol'
+import {
+  getCredentialStatus,
+  getSession,
+  migrateBrowserKeys,
+  saveCredentials,
+  signIn
+} from '@/lib/credentials/client'
+import {
+  PromptId,
+  PromptOverrides,
+  PROMPT_TEMPLATES,
+  promptVersion,
+  readPromptOverrides,
+  unknownPromptVariables
+} from '@/lib/llm/prompts'
+import {
+  VaultStatus,
+  DEFAULT_IDLE_MINUTES,
+  getVaultStatus,
+  getVaultIdleMinutes,
+  onVaultChange,
+  enableVault,
+  disableVault,
+  lockVault,
+  rekeyVault,
+  setVaultIdleMinutes
+} from '@/lib/db/vault'
+import {
+  SyncStatus,
+  SyncConflict,
+  getSyncSettings,
+  saveSyncSettings,
+  getSyncSummary,
+  getSyncStatus,
+  onSyncStatus,
+  syncNow,
+  clearSyncConflicts,
+  disconnectSync,
+  DEFAULT_SYNC_INTERVAL
+} from '@/lib/sync/engine'
+import {
+  RetentionAction,
+  RetentionRules,
+  RetentionRun,
+  RetentionPreviewItem,
+  RETENTION_TARGETS,
+  DEFAULT_RETENTION_DAYS,
+  getRetentionSettings,
+  saveRetentionRules,
+  previewRetention,
+  enforceRetention
+} from '@/lib/db/retention'
+import {
+  BudgetAction,
+  PriceRule,
+  UsageBudgets,
+  UsageFeature,
+  UsageRecord,
+  UsageSpend,
+  USAGE_FEATURES,
+  DEFAULT_BUDGETS,
+  DEFAULT_PRICING,
+  getUsageSettings,
+  saveUsageSettings,
+  readUsage,
+  getSpend,
+  clearUsageLedger,
+  budgetExceeded
+} from '@/lib/db/usage-ledger'
 
 // ============================================================================
 // LLM PROVIDER CONFIGURATION
 // ============================================================================
 
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: 'Anthropic Claude',
+  gemini: 'Google Gemini',
+  local: 'Local Model',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (No API)'
+}
+
 function LLMConfigPanel() {
   const [anthropicKey, setAnthropicKey] = useState('')
   const [geminiKey, setGeminiKey] = useState('')
   const [localUrl, setLocalUrl] = useState('http://localhost:11434')
   const [localModel, setLocalModel] = useState('llama2')
+  const [openaiUrl, setOpenaiUrl] = useState(DEFAULT_OPENAI_BASE_URL)
+  const [openaiModel, setOpenaiModel] = useState(DEFAULT_OPENAI_MODEL)
+  const [openaiKey, setOpenaiKey] = useState('')
   const [primaryProvider, setPrimaryProvider] = useState('mock')
+  const [fallbackProviders, setFallbackProviders] = useState<string[]>([])
   const [agentsEnabled, setAgentsEnabled] = useState(true)
+  const [rememberSummaries, setRememberSummaries] = useState(false)
   const [saved, setSaved] = useState(false)
   const [testResult, setTestResult] = useState<{ provider: string; status: 'success' | 'error' | 'testing'; message: string } | null>(null)
+  // Keys are held by the server; the inputs only carry new ones on their way there
+  const [session, setSession] = useState<SessionResponse | null>(null)
+  const [password, setPassword] = useState('')
+  const [credentials, setCredentials] = useState<CredentialStatus[]>([])
+  const [keyMessage, setKeyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  const loadCredentials = async () => {
+    const current = await getSession()
+    setSession(current)
+    if (current.authenticated) setCredentials(await getCredentialStatus())
+  }
   
-  // Load from localStorage on mount
+  // Load from IndexedDB on mount, after moving any keys it still holds to the server
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const config = localStorage.getItem('cascade-llm-config')
-      if (config) {
-        const parsed = JSON.parse(config)
-        setAnthropicKey(parsed.anthropicKey || '')
-        setGeminiKey(parsed.geminiKey || '')
+    migrateBrowserKeys()
+      .catch(error => console.error('Failed to move API keys to the server:', error))
+      .then(() => loadCredentials())
+      .catch(error => setKeyMessage({ type: 'error', text: `Provider keys unavailable: ${error instanceof Error ? error.message : error}` }))
+    
+    getDocument<LLMSettings>(DOCUMENTS.LLM_CONFIG.key)
+      .then(parsed => {
+        if (!parsed) return
         setLocalUrl(parsed.localUrl || 'http://localhost:11434')
         setLocalModel(parsed.localModel || 'llama2')
+        setOpenaiUrl(parsed.openaiUrl || DEFAULT_OPENAI_BASE_URL)
+        setOpenaiModel(parsed.openaiModel || DEFAULT_OPENAI_MODEL)
         setPrimaryProvider(parsed.primaryProvider || 'mock')
+        setFallbackProviders(parsed.fallbackProviders || [])
         setAgentsEnabled(parsed.agentsEnabled !== false)
-      }
-    }
+        setRememberSummaries(parsed.rememberSummaries === true)
+      })
+      .catch(error => console.error('Failed to load LLM config:', error))
   }, [])
   
-  const handleSave = () => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-llm-config', JSON.stringify({
-        anthropicKey,
-        geminiKey,
+  const credential = (name: CredentialName) => credentials.find(c => c.name === name)
+  const configured = (name: CredentialName) => credential(name)?.configured === true
+  
+  const unlock = async () => {
+    try {
+      setSession(await signIn(password))
+      setPassword('')
+      setCredentials(await getCredentialStatus())
+      setKeyMessage(null)
+    } catch (error) {
+      setKeyMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  
+  const removeKey = async (name: CredentialName) => {
+    try {
+      setCredentials(await saveCredentials({ [name]: null }))
+      setKeyMessage({ type: 'success', text: `Removed the stored ${PROVIDER_LABELS[name]} key` })
+    } catch (error) {
+      setKeyMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  
+  // Where a provider's key comes from, never the key
+  const keyStatus = (name: CredentialName) => {
+    const status = credential(name)
+    return (
+      <div className="flex items-center justify-between text-xs">
+        <span className={status?.configured ? 'text-emerald-400' : 'text-zinc-500'}>
+          {status?.source === 'store' ? `🔒 Stored on the server${status.updatedAt ? ` · set ${new Date(status.updatedAt).toLocaleDateString()}` : ''}`
+            : status?.source === 'env' ? '🔒 From the server environment'
+            : 'No key on the server'}
+        </span>
+        {status?.source === 'store' && (
+          <button onClick={() => removeKey(name)} className="text-zinc-500 hover:text-red-400">
+            Remove
+          </button>
+        )}
+      </div>
+    )
+  }
+  
+  const handleSave = async () => {
+    const keys = { anthropic: anthropicKey.trim(), gemini: geminiKey.trim(), openai: openaiKey.trim() }
+    const update = Object.fromEntries(Object.entries(keys).filter(([, key]) => key))
+    
+    try {
+      // New keys go to the server only; the browser keeps no copy
+      if (Object.keys(update).length > 0) {
+        if (!session?.authenticated) {
+          setKeyMessage({ type: 'error', text: 'Unlock provider keys before saving new ones' })
+          return
+        }
+        setCredentials(await saveCredentials(update))
+        setAnthropicKey('')
+        setGeminiKey('')
+        setOpenaiKey('')
+        setKeyMessage({ type: 'success', text: 'Keys saved on the server' })
+      }
+      
+      // Sealed by the vault when it is enabled
+      await putDocument(DOCUMENTS.LLM_CONFIG.key, {
         localUrl,
         localModel,
+        openaiUrl,
+        openaiModel,
         primaryProvider,
-        agentsEnabled
-      }))
-      
-      // Also store individual keys for API routes
-      if (anthropicKey) {
-        localStorage.setItem('anthropic-api-key', anthropicKey)
-      }
-      if (geminiKey) {
-        localStorage.setItem('gemini-api-key', geminiKey)
-      }
+        fallbackProviders: fallbackProviders.filter(p => p !== primaryProvider),
+        agentsEnabled,
+        rememberSummaries
+      })
       
       setSaved(true)
       setTimeout(() => setSaved(false), 2000)
+    } catch (error) {
+      console.error('Failed to save LLM config:', error)
+      setKeyMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) })
     }
   }
   
   const testProvider = async (provider: string) => {
     setTestResult({ provider, status: 'testing', message: 'Testing connection...' })
     
-    try {
-      // For now, just validate API key format
-      if (provider === 'anthropic') {
-        if (!anthropicKey || anthropicKey.length < 10) {
-          setTestResult({ provider, status: 'error', message: 'Invalid API key format' })
-          return
-        }
-        // Test with a minimal request
-        const response = await fetch('/api/claude', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            messages: [{ role: 'user', content: 'Say "test" only' }],
-            maxTokens: 10,
-            apiKey: anthropicKey
-          })
+    // Send a minimal request through the AI gateway with only this provider;
+    // the gateway uses the key stored on the server
+    const testGateway = async (endpoint: Record<string, string>, success: string) => {
+      const response = await fetch('/api/ai', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: 'Say "test" only' }],
+          provider,
+          maxTokens: 10,
+          ...endpoint
         })
-        
-        if (response.ok) {
-          setTestResult({ provider, status: 'success', message: 'Connection successful!' })
-        } else {
-          setTestResult({ provider, status: 'error', message: 'API request failed' })
-        }
-      } else if (provider === 'gemini') {
-        if (!geminiKey || geminiKey.length < 10) {
-          setTestResult({ provider, status: 'error', message: 'Invalid API key format' })
+      })
+      
+      if (response.ok) {
+        setTestResult({ provider, status: 'success', message: success })
+      } else {
+        const data = await response.json().catch(() => ({}))
+        setTestResult({ provider, status: 'error', message: data.error || 'API request failed' })
+      }
+    }
+    
+    try {
+      if (provider === 'anthropic' || provider === 'gemini') {
+        if (!configured(provider)) {
+          setTestResult({ provider, status: 'error', message: 'Save a key first' })
           return
         }
-        // Gemini test would go here
-        setTestResult({ provider, status: 'success', message: 'Key format valid (full test requires API route)' })
+        await testGateway({}, 'Connection successful!')
+      } else if (provider === 'openai') {
+        await testGateway({ openaiUrl, openaiModel }, `Connected to ${openaiModel}`)
       } else if (provider === 'local') {
         // Test local connection
         try {
@@ -108,13 +272,64 @@ function LLMConfigPanel() {
     }
   }
   
+  // Chosen fallbacks in order, then the rest; never the primary itself
+  const orderedFallbacks = [
+    ...fallbackProviders,
+    ...Object.keys(PROVIDER_LABELS).filter(p => !fallbackProviders.includes(p))
+  ].filter(p => p !== primaryProvider)
+  
+  const toggleFallback = (provider: string) => {
+    setFallbackProviders(current => current.includes(provider)
+      ? current.filter(p => p !== provider)
+      : [...current, provider])
+  }
+  
+  const moveFallback = (provider: string, offset: number) => {
+    setFallbackProviders(current => {
+      const next = [...current]
+      const index = next.indexOf(provider)
+      next.splice(index, 1)
+      next.splice(index + offset, 0, provider)
+      return next
+    })
+  }
+  
   return (
     <div className="cascade-card p-6 col-span-2">
       <h3 className="text-lg font-medium text-zinc-200 mb-4">🤖 LLM Provider Configuration</h3>
       <p className="text-sm text-zinc-400 mb-6">
         Configure AI providers for CASCADE Living OS. Supports multiple providers with automatic failover.
+        API keys are kept encrypted on the server and never stored in this browser.
       </p>
       
+      {/* Stored keys need a session, and sessions the settings password */}
+      {session && !session.passwordConfigured && (
+        <div className="mb-6 p-3 bg-zinc-800/50 rounded-lg text-sm text-zinc-300">
+          Set CASCADE_SETTINGS_PASSWORD on the server to store provider keys from here. Keys in the server
+          environment work without it.
+        </div>
+      )}
+      {session?.passwordConfigured && !session.authenticated && (
+        <div className="mb-6 p-3 bg-zinc-800/50 rounded-lg flex items-center gap-3">
+          <span className="text-sm text-zinc-300 flex-1">Enter the settings password to manage provider keys</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlock()}
+            placeholder="Settings password"
+            className="px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-200 focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={unlock}
+            disabled={!password}
+            className="px-4 py-1.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded-lg text-sm transition-colors"
+          >
+            Unlock
+          </button>
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Anthropic Claude */}
         <div className="space-y-3">
@@ -128,12 +343,14 @@ function LLMConfigPanel() {
             type="password"
             value={anthropicKey}
             onChange={(e) => setAnthropicKey(e.target.value)}
-            placeholder="sk-ant-..."
+            placeholder={configured('anthropic') ? 'New key (replaces the current one)' : 'sk-ant-...'}
+            autoComplete="off"
             className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
           />
+          {keyStatus('anthropic')}
           <button
             onClick={() => testProvider('anthropic')}
-            disabled={!anthropicKey}
+            disabled={!configured('anthropic')}
             className="w-full py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded-lg text-sm transition-colors"
           >
             Test Connection
@@ -152,12 +369,14 @@ function LLMConfigPanel() {
             type="password"
             value={geminiKey}
             onChange={(e) => setGeminiKey(e.target.value)}
-            placeholder="AIza..."
+            placeholder={configured('gemini') ? 'New key (replaces the current one)' : 'AIza...'}
+            autoComplete="off"
             className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
           />
+          {keyStatus('gemini')}
           <button
             onClick={() => testProvider('gemini')}
-            disabled={!geminiKey}
+            disabled={!configured('gemini')}
             className="w-full py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded-lg text-sm transition-colors"
           >
             Test Connection
@@ -194,6 +413,46 @@ function LLMConfigPanel() {
           </button>
         </div>
         
+        {/* OpenAI-compatible */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded bg-teal-500/20 flex items-center justify-center">
+              <span className="text-sm">🔌</span>
+            </div>
+            <span className="font-medium text-zinc-200">OpenAI-compatible</span>
+          </div>
+          <input
+            type="text"
+            value={openaiUrl}
+            onChange={(e) => setOpenaiUrl(e.target.value)}
+            placeholder={DEFAULT_OPENAI_BASE_URL}
+            className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
+          />
+          <input
+            type="text"
+            value={openaiModel}
+            onChange={(e) => setOpenaiModel(e.target.value)}
+            placeholder={`Model name (e.g., ${DEFAULT_OPENAI_MODEL})`}
+            className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
+          />
+          <input
+            type="password"
+            value={openaiKey}
+            onChange={(e) => setOpenaiKey(e.target.value)}
+            placeholder={configured('openai') ? 'New key (replaces the current one)' : 'API key (optional for LM Studio, llama.cpp, vLLM, LocalAI)'}
+            autoComplete="off"
+            className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
+          />
+          {keyStatus('openai')}
+          <button
+            onClick={() => testProvider('openai')}
+            disabled={!openaiUrl}
+            className="w-full py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded-lg text-sm transition-colors"
+          >
+            Test Connection
+          </button>
+        </div>
+        
         {/* Primary Provider Selection */}
         <div className="space-y-3">
           <div className="flex items-center gap-2">
@@ -208,11 +467,55 @@ function LLMConfigPanel() {
             className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
           >
             <option value="mock">Mock (No API)</option>
-            <option value="anthropic" disabled={!anthropicKey}>Anthropic Claude</option>
-            <option value="gemini" disabled={!geminiKey}>Google Gemini</option>
+            <option value="anthropic" disabled={!configured('anthropic')}>Anthropic Claude</option>
+            <option value="gemini" disabled={!configured('gemini')}>Google Gemini</option>
             <option value="local">Local Model</option>
+            <option value="openai" disabled={!openaiUrl}>OpenAI-compatible</option>
           </select>
           
+          {/* Fallback Order */}
+          <div className="p-3 bg-zinc-800/50 rounded-lg">
+            <span className="text-sm text-zinc-300">Fallback Order</span>
+            <p className="text-xs text-zinc-500 mb-2">Tried in this order when the primary provider fails</p>
+            <div className="space-y-1">
+              {orderedFallbacks.map(provider => {
+                const index = fallbackProviders.indexOf(provider)
+                return (
+                  <div key={provider} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={index >= 0}
+                      onChange={() => toggleFallback(provider)}
+                      className="accent-cyan-500"
+                    />
+                    <span className={`flex-1 ${index >= 0 ? 'text-zinc-200' : 'text-zinc-500'}`}>
+                      {index >= 0 && <span className="text-zinc-500 mr-1">{index + 1}.</span>}
+                      {PROVIDER_LABELS[provider]}
+                    </span>
+                    {index >= 0 && (
+                      <>
+                        <button
+                          onClick={() => moveFallback(provider, -1)}
+                          disabled={index === 0}
+                          className="px-1 text-zinc-400 hover:text-zinc-200 disabled:opacity-30"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => moveFallback(provider, 1)}
+                          disabled={index === fallbackProviders.length - 1}
+                          className="px-1 text-zinc-400 hover:text-zinc-200 disabled:opacity-30"
+                        >
+                          ↓
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+          
           {/* Autonomous Agents Toggle */}
           <div className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg">
             <div>
@@ -226,6 +529,20 @@ function LLMConfigPanel() {
               <div className={`w-5 h-5 rounded-full bg-white transition-transform ${agentsEnabled ? 'translate-x-6' : 'translate-x-0.5'}`} />
             </button>
           </div>
+          
+          {/* Conversation Summaries Toggle */}
+          <div className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg">
+            <div>
+              <span className="text-sm text-zinc-300">Remember Conversation Summaries</span>
+              <p className="text-xs text-zinc-500">Save chat summaries as memories when long chats are condensed</p>
+            </div>
+            <button
+              onClick={() => setRememberSummaries(!rememberSummaries)}
+              className={`w-12 h-6 rounded-full transition-colors ${rememberSummaries ? 'bg-cyan-500' : 'bg-zinc-600'}`}
+            >
+              <div className={`w-5 h-5 rounded-full bg-white transition-transform ${rememberSummaries ? 'translate-x-6' : 'translate-x-0.5'}`} />
+            </button>
+          </div>
         </div>
       </div>
       
@@ -251,6 +568,12 @@ function LLMConfigPanel() {
         </div>
       )}
       
+      {keyMessage && (
+        <p className={`mt-4 text-sm ${keyMessage.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+          {keyMessage.text}
+        </p>
+      )}
+      
       {/* Save Button */}
       <div className="mt-6 flex justify-end">
         <button
@@ -264,6 +587,257 @@ function LLMConfigPanel() {
   )
 }
 
+// Provider Health Panel
+const CIRCUIT_STATES: Record<CircuitState, { label: string; className: string }> = {
+  'closed': { label: 'Healthy', className: 'text-emerald-400' },
+  'half-open': { label: 'Probing', className: 'text-amber-400' },
+  'open': { label: 'Paused', className: 'text-red-400' }
+}
+
+function ProviderHealthPanel() {
+  const [health, setHealth] = useState<ProviderHealth[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  
+  const refresh = async (url: string = '/api/ai/health', init?: RequestInit) => {
+    setError(null)
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Health check failed')
+      setHealth(data.providers)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Health check failed')
+    }
+  }
+  
+  useEffect(() => {
+    refresh()
+  }, [])
+  
+  const handleReset = (provider: string) => {
+    refresh(`/api/ai/health?provider=${encodeURIComponent(provider)}`, { method: 'DELETE' })
+  }
+  
+  return (
+    <div className="cascade-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-zinc-200">🩺 Provider Health</h3>
+        <button onClick={() => refresh()} className="text-xs text-cyan-400 hover:text-cyan-300">
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-zinc-400 mb-4">
+        Failed requests are retried with backoff. A provider that keeps failing is paused and
+        skipped in favour of your fallbacks, then tried again once the pause ends.
+      </p>
+      
+      {health && health.length === 0 && (
+        <p className="text-sm text-zinc-500">No provider has been called since the server started.</p>
+      )}
+      
+      <div className="space-y-2">
+        {health?.map(item => (
+          <div key={item.provider} className="p-3 bg-zinc-800/50 rounded-lg text-sm">
+            <div className="flex justify-between">
+              <span className="text-zinc-300">{PROVIDER_LABELS[item.provider] ?? item.provider}</span>
+              <span className={CIRCUIT_STATES[item.state].className}>
+                {CIRCUIT_STATES[item.state].label}
+                {item.state === 'open' && item.retryAt !== null && ` until ${new Date(item.retryAt).toLocaleTimeString()}`}
+              </span>
+            </div>
+            {item.lastFailure && (
+              <p className="text-xs text-zinc-500 truncate" title={item.lastFailure.message}>
+                Last failure ({item.lastFailure.kind.replace('_', ' ')}) at {new Date(item.lastFailure.at).toLocaleTimeString()}: {item.lastFailure.message}
+              </p>
+            )}
+            {item.lastSuccessAt !== null && (
+              <p className="text-xs text-zinc-500">Last success at {new Date(item.lastSuccessAt).toLocaleTimeString()}</p>
+            )}
+            {item.state !== 'closed' && (
+              <button
+                onClick={() => handleReset(item.provider)}
+                className="mt-1 text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                Resume now
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      
+      {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+// Prompt Templates Panel
+const DIFF_LINE_STYLES: Record<LineDiff['type'], string> = {
+  same: 'text-zinc-500',
+  added: 'text-emerald-400 bg-emerald-500/10',
+  removed: 'text-red-400 bg-red-500/10 line-through'
+}
+
+function PromptTemplatesPanel() {
+  const [overrides, setOverrides] = useState<PromptOverrides>({})
+  const [selected, setSelected] = useState<PromptId>('system')
+  const [draft, setDraft] = useState(PROMPT_TEMPLATES.system.text)
+  const [showDiff, setShowDiff] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  useEffect(() => {
+    getDocument<PromptOverrides>(DOCUMENTS.PROMPT_OVERRIDES.key)
+      .then(stored => {
+        const loaded = readPromptOverrides(stored)
+        setOverrides(loaded)
+        setDraft(loaded.system?.text ?? PROMPT_TEMPLATES.system.text)
+      })
+      .catch(error => console.error('Failed to load prompt overrides:', error))
+  }, [])
+  
+  const template = PROMPT_TEMPLATES[selected]
+  const override = overrides[selected]
+  const unknown = unknownPromptVariables(selected, draft)
+  const dirty = draft !== (override?.text ?? template.text)
+  
+  const select = (id: PromptId) => {
+    if (dirty && !confirm('Discard your unsaved changes to this prompt?')) return
+    setSelected(id)
+    setDraft(overrides[id]?.text ?? PROMPT_TEMPLATES[id].text)
+    setMessage(null)
+  }
+  
+  const store = async (next: PromptOverrides, text: string) => {
+    setMessage(null)
+    try {
+      await putDocument(DOCUMENTS.PROMPT_OVERRIDES.key, next)
+      setOverrides(next)
+      setMessage({ type: 'success', text })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save the prompt' })
+    }
+  }
+  
+  // Saving the default text is the same as resetting
+  const handleSave = () => {
+    const { [selected]: _, ...rest } = overrides
+    if (draft === template.text) {
+      store(rest, `${template.name} uses the default prompt.`)
+      return
+    }
+    const next = { ...rest, [selected]: { text: draft, baseVersion: template.version, updatedAt: Date.now() } }
+    store(next, `${template.name} saved as ${promptVersion(selected, next)}.`)
+  }
+  
+  const handleReset = () => {
+    if (!confirm(`Reset ${template.name} to the default prompt?`)) return
+    const { [selected]: _, ...rest } = overrides
+    setDraft(template.text)
+    store(rest, `${template.name} reset to ${promptVersion(selected)}.`)
+  }
+  
+  return (
+    <div className="cascade-card p-6 col-span-2">
+      <h3 className="text-lg font-medium text-zinc-200 mb-4">📝 Prompt Templates</h3>
+      <p className="text-sm text-zinc-400 mb-4">
+        Every prompt CASCADE sends is a versioned template. Edit one to change how the AI responds; the
+        usage dashboard records which version produced each reply, so changes can be compared over time.
+      </p>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          {Object.values(PROMPT_TEMPLATES).map(item => {
+            const edited = overrides[item.id]
+            return (
+              <button
+                key={item.id}
+                onClick={() => select(item.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  item.id === selected ? 'bg-cyan-500/10 text-cyan-300' : 'text-zinc-300 hover:bg-zinc-800/50'
+                }`}
+              >
+                <span>{item.name}</span>
+                {edited && <span className="ml-2 text-xs text-amber-400">edited</span>}
+              </button>
+            )
+          })}
+        </div>
+        
+        <div className="md:col-span-2 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="text-sm text-zinc-300">{template.description}</p>
+              <p className="text-xs text-zinc-500 font-mono">{promptVersion(selected, overrides)}</p>
+            </div>
+            <button
+              onClick={() => setShowDiff(!showDiff)}
+              className="text-xs text-cyan-400 hover:text-cyan-300 whitespace-nowrap"
+            >
+              {showDiff ? 'Edit' : 'Diff against default'}
+            </button>
+          </div>
+          
+          {override && override.baseVersion < template.version && (
+            <p className="text-xs text-amber-400">
+              The default has changed since this prompt was edited (v{override.baseVersion} → v{template.version}). Check the diff.
+            </p>
+          )}
+          
+          {showDiff ? (
+            <pre className="h-72 overflow-auto p-3 bg-zinc-800/50 rounded-lg text-xs font-mono whitespace-pre-wrap">
+              {diffLines(template.text, draft).map((line, i) => (
+                <div key={i} className={DIFF_LINE_STYLES[line.type]}>
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="w-full h-72 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-xs font-mono text-zinc-200 focus:outline-none focus:border-cyan-500"
+            />
+          )}
+          
+          {template.variables.length > 0 && (
+            <p className="text-xs text-zinc-500">
+              Variables: {template.variables.map(name => `{{${name}}}`).join(' ')}
+            </p>
+          )}
+          {unknown.length > 0 && (
+            <p className="text-xs text-amber-400">
+              Not provided for this prompt, so left empty: {unknown.map(name => `{{${name}}}`).join(' ')}
+            </p>
+          )}
+          
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!dirty || !draft.trim()}
+              className="px-4 py-2 bg-cyan-500 hover:bg-cyan-400 text-zinc-900 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={!override && !dirty}
+              className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset to default
+            </button>
+          </div>
+          
+          {message && (
+            <p className={`text-xs ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
 // Export Panel
 function ExportPanel() {
   const [copied, setCopied] = useState(false)
@@ -324,18 +898,21 @@ function ExportPanel() {
 function ImportPanel() {
   const [importJson, setImportJson] = useState('')
   const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle')
+  const [detail, setDetail] = useState<string | null>(null)
   const importState = useCASCADEStore(state => state.importState)
   
   const handleImport = () => {
     if (!importJson.trim()) return
     
     try {
-      importState(importJson)
+      const report = importState(importJson)
       setStatus('success')
+      setDetail(`Imported: ${describeMigration(report)}`)
       setImportJson('')
       setTimeout(() => setStatus('idle'), 3000)
     } catch (e) {
       setStatus('error')
+      setDetail(e instanceof Error ? e.message : 'Could not read import data')
       setTimeout(() => setStatus('idle'), 3000)
     }
   }
@@ -398,11 +975,946 @@ function ImportPanel() {
            status === 'error' ? '✗ Import Failed' :
            'Import State'}
         </button>
+        
+        {detail && (
+          <p className="text-xs text-zinc-500">{detail}</p>
+        )}
       </div>
     </div>
   )
 }
 
+// Vault Panel
+const IDLE_OPTIONS = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' }
+]
+
+function VaultPanel() {
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+  const [idleMinutes, setIdleMinutes] = useState(DEFAULT_IDLE_MINUTES)
+  const [passphrase, setPassphrase] = useState('')
+  const [nextPassphrase, setNextPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [mode, setMode] = useState<'idle' | 'rekey' | 'disable'>('idle')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  useEffect(() => {
+    getVaultStatus().then(setStatus).catch(error => console.error('Failed to read vault status:', error))
+    getVaultIdleMinutes().then(setIdleMinutes).catch(error => console.error('Failed to read idle timeout:', error))
+    return onVaultChange(setStatus)
+  }, [])
+  
+  const resetForm = () => {
+    setPassphrase('')
+    setNextPassphrase('')
+    setConfirmPassphrase('')
+    setMode('idle')
+  }
+  
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      await action()
+      setMessage({ type: 'success', text: success })
+      resetForm()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Vault operation failed' })
+    } finally {
+      setBusy(false)
+    }
+  }
+  
+  const handleEnable = () => {
+    if (passphrase.length < 8) {
+      setMessage({ type: 'error', text: 'Use a passphrase of at least 8 characters' })
+      return
+    }
+    if (passphrase !== confirmPassphrase) {
+      setMessage({ type: 'error', text: 'Passphrases do not match' })
+      return
+    }
+    void run(() => enableVault(passphrase, idleMinutes), 'Vault enabled. Sensitive data is now encrypted.')
+  }
+  
+  const handleRekey = () => {
+    if (nextPassphrase.length < 8) {
+      setMessage({ type: 'error', text: 'Use a passphrase of at least 8 characters' })
+      return
+    }
+    if (nextPassphrase !== confirmPassphrase) {
+      setMessage({ type: 'error', text: 'New passphrases do not match' })
+      return
+    }
+    void run(() => rekeyVault(passphrase, nextPassphrase), 'Passphrase changed and data re-encrypted.')
+  }
+  
+  const handleIdleChange = (minutes: number) => {
+    setIdleMinutes(minutes)
+    if (status === 'unlocked') {
+      setVaultIdleMinutes(minutes).catch(error => console.error('Failed to save idle timeout:', error))
+    }
+  }
+  
+  const inputClass = 'w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500'
+  
+  return (
+    <div className="cascade-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-zinc-200">🔐 Vault</h3>
+        {status && (
+          <span className={`text-xs px-2 py-1 rounded ${
+            status === 'unlocked' ? 'bg-emerald-500/20 text-emerald-400' :
+            status === 'locked' ? 'bg-amber-500/20 text-amber-400' :
+            'bg-zinc-800 text-zinc-400'
+          }`}>
+            {status === 'disabled' ? 'Off' : status === 'unlocked' ? 'Unlocked' : 'Locked'}
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-zinc-400 mb-4">
+        Encrypts journal entries, dreams, shadow work, life scripts, AI provider settings and the CASCADE
+        state with a key derived from your passphrase. There is no way to recover data if the passphrase is lost.
+      </p>
+      
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm text-zinc-400 mb-2">Lock after inactivity</label>
+          <select
+            value={idleMinutes}
+            onChange={(e) => handleIdleChange(Number(e.target.value))}
+            className={inputClass}
+          >
+            {IDLE_OPTIONS.map(option => (
+              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        
+        {status === 'disabled' && (
+          <>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              placeholder="Confirm passphrase"
+              className={inputClass}
+            />
+            <button
+              onClick={handleEnable}
+              disabled={busy || !passphrase}
+              className="w-full py-2 bg-cyan-500 hover:bg-cyan-400 disabled:opacity-50 text-zinc-900 rounded-lg transition-colors"
+            >
+              {busy ? 'Encrypting...' : 'Enable Vault'}
+            </button>
+          </>
+        )}
+        
+        {status === 'unlocked' && mode === 'idle' && (
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => void lockVault()}
+              className="py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+            >
+              Lock Now
+            </button>
+            <button
+              onClick={() => setMode('rekey')}
+              className="py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+            >
+              Change Passphrase
+            </button>
+            <button
+              onClick={() => setMode('disable')}
+              className="py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg text-sm transition-colors"
+            >
+              Disable
+            </button>
+          </div>
+        )}
+        
+        {status === 'unlocked' && mode !== 'idle' && (
+          <>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Current passphrase"
+              className={inputClass}
+            />
+            {mode === 'rekey' && (
+              <>
+                <input
+                  type="password"
+                  value={nextPassphrase}
+                  onChange={(e) => setNextPassphrase(e.target.value)}
+                  placeholder="New passphrase"
+                  className={inputClass}
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm new passphrase"
+                  className={inputClass}
+                />
+              </>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={resetForm}
+                className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={mode === 'rekey'
+                  ? handleRekey
+                  : () => void run(() => disableVault(passphrase), 'Vault disabled. Data is stored unencrypted.')}
+                disabled={busy || !passphrase}
+                className={`flex-1 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                  mode === 'rekey'
+                    ? 'bg-cyan-500 hover:bg-cyan-400 text-zinc-900'
+                    : 'bg-red-500 hover:bg-red-400 text-white'
+                }`}
+              >
+                {busy ? 'Working...' : mode === 'rekey' ? 'Re-key Vault' : 'Decrypt & Disable'}
+              </button>
+            </div>
+          </>
+        )}
+        
+        {message && (
+          <p className={`text-xs ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Sync Panel
+const SYNC_INTERVAL_OPTIONS = [
+  { minutes: 5, label: 'Every 5 minutes' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 0, label: 'Manually' }
+]
+
+function SyncPanel() {
+  const [endpoint, setEndpoint] = useState('')
+  const [token, setToken] = useState('')
+  const [intervalMinutes, setIntervalMinutes] = useState(DEFAULT_SYNC_INTERVAL)
+  const [deviceId, setDeviceId] = useState('')
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus())
+  const [summary, setSummary] = useState<{ lastSyncedAt: number | null; pending: number; conflicts: SyncConflict[] } | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  const refreshSummary = () => {
+    getSyncSummary().then(setSummary).catch(error => console.error('Failed to read sync summary:', error))
+  }
+  
+  useEffect(() => {
+    getSyncSettings()
+      .then(settings => {
+        setEndpoint(settings.endpoint)
+        setToken(settings.token)
+        setIntervalMinutes(settings.intervalMinutes)
+        setDeviceId(settings.deviceId)
+      })
+      .catch(error => console.error('Failed to read sync settings:', error))
+    refreshSummary()
+    
+    return onSyncStatus(next => {
+      setStatus(next)
+      if (next.phase === 'idle' || next.phase === 'error') refreshSummary()
+    })
+  }, [])
+  
+  const handleSave = async () => {
+    try {
+      await saveSyncSettings({ endpoint: endpoint.trim(), token, intervalMinutes })
+      setMessage({ type: 'success', text: endpoint.trim() ? 'Sync settings saved.' : 'Sync turned off.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save sync settings' })
+    }
+  }
+  
+  const handleSync = async () => {
+    setMessage(null)
+    try {
+      await saveSyncSettings({ endpoint: endpoint.trim(), token, intervalMinutes })
+      await syncNow()
+    } catch {
+      // Reported through the status
+    }
+  }
+  
+  const handleDisconnect = async () => {
+    if (!confirm('Stop syncing this device? Local data is kept; the sync history of this device is forgotten.')) return
+    await disconnectSync()
+    setEndpoint('')
+    setToken('')
+    setIntervalMinutes(DEFAULT_SYNC_INTERVAL)
+    setMessage({ type: 'success', text: 'This device no longer syncs.' })
+    refreshSummary()
+  }
+  
+  const busy = status.phase === 'pulling' || status.phase === 'pushing'
+  const inputClass = 'w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500'
+  
+  return (
+    <div className="cascade-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-zinc-200">🔄 Device Sync</h3>
+        <span className={`text-xs px-2 py-1 rounded ${
+          status.phase === 'error' ? 'bg-red-500/20 text-red-400' :
+          busy ? 'bg-cyan-500/20 text-cyan-400' :
+          'bg-zinc-800 text-zinc-400'
+        }`}>
+          {status.phase === 'pulling' ? 'Pulling...' :
+           status.phase === 'pushing' ? 'Pushing...' :
+           status.phase === 'error' ? 'Failed' : 'Idle'}
+        </span>
+      </div>
+      <p className="text-sm text-zinc-400 mb-4">
+        Keeps entries in step across your devices through a self-hosted endpoint. This app serves a reference
+        endpoint at /api/sync, enabled by setting CASCADE_SYNC_TOKEN on the server. The most recent edit of an
+        entry wins. Synced data leaves the device unencrypted, so only use an endpoint you control.
+      </p>
+      
+      <div className="space-y-3">
+        <input
+          type="url"
+          value={endpoint}
+          onChange={(e) => setEndpoint(e.target.value)}
+          placeholder="https://cascade.example.com/api/sync"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Access token"
+          className={inputClass}
+        />
+        <select
+          value={intervalMinutes}
+          onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+          className={inputClass}
+        >
+          {SYNC_INTERVAL_OPTIONS.map(option => (
+            <option key={option.minutes} value={option.minutes}>{option.label}</option>
+          ))}
+        </select>
+        
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+          >
+            Save
+          </button>
+          <button
+            onClick={handleSync}
+            disabled={busy || !endpoint}
+            className="flex-1 py-2 bg-cyan-500 hover:bg-cyan-400 disabled:opacity-50 text-zinc-900 rounded-lg text-sm transition-colors"
+          >
+            {busy ? 'Syncing...' : 'Sync Now'}
+          </button>
+        </div>
+        
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-zinc-500">Last synced</span>
+            <span className="text-zinc-200">
+              {summary?.lastSyncedAt ? new Date(summary.lastSyncedAt).toLocaleString() : 'Never'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-zinc-500">Waiting to push</span>
+            <span className="text-zinc-200">{summary?.pending ?? 0}</span>
+          </div>
+          {(busy || status.pulled > 0 || status.pushed > 0) && (
+            <div className="flex justify-between">
+              <span className="text-zinc-500">This sync</span>
+              <span className="text-zinc-200">↓ {status.pulled} · ↑ {status.pushed}</span>
+            </div>
+          )}
+          {deviceId && (
+            <div className="flex justify-between">
+              <span className="text-zinc-500">Device</span>
+              <span className="text-zinc-400 font-mono text-xs">{deviceId}</span>
+            </div>
+          )}
+        </div>
+        
+        {status.error && <p className="text-xs text-red-400">{status.error}</p>}
+        
+        {summary && summary.conflicts.length > 0 && (
+          <div className="pt-3 border-t border-zinc-800">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-amber-400">{summary.conflicts.length} conflict{summary.conflicts.length === 1 ? '' : 's'}</span>
+              <button
+                onClick={() => void clearSyncConflicts().then(refreshSummary)}
+                className="text-xs text-zinc-500 hover:text-zinc-300"
+              >
+                Dismiss
+              </button>
+            </div>
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {summary.conflicts.map(conflict => (
+                <div key={`${conflict.ref}-${conflict.resolvedAt}`} className="p-2 bg-zinc-800/50 rounded text-xs">
+                  <div className="flex justify-between text-zinc-300">
+                    <span className="truncate">{conflict.store} · {conflict.key}</span>
+                    <span className={conflict.winner === 'local' ? 'text-emerald-400' : 'text-amber-400'}>
+                      {conflict.winner === 'local' ? 'kept this device' : 'took other device'}
+                    </span>
+                  </div>
+                  <p className="text-zinc-500">
+                    Here {new Date(conflict.localModifiedAt).toLocaleString()} · {conflict.remoteDeviceId} {new Date(conflict.remoteModifiedAt).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {deviceId && endpoint && (
+          <button
+            onClick={handleDisconnect}
+            className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-400 rounded-lg text-sm transition-colors"
+          >
+            Disconnect This Device
+          </button>
+        )}
+        
+        {message && (
+          <p className={`text-xs ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Retention Panel
+const RETENTION_ACTIONS: Array<{ action: RetentionAction; label: string }> = [
+  { action: 'keep', label: 'Keep forever' },
+  { action: 'delete', label: 'Delete after' },
+  { action: 'summarize', label: 'Summarize, then delete after' }
+]
+
+function RetentionPanel() {
+  const [rules, setRules] = useState<RetentionRules>({})
+  const [lastRun, setLastRun] = useState<RetentionRun | null>(null)
+  const [preview, setPreview] = useState<RetentionPreviewItem[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  useEffect(() => {
+    getRetentionSettings()
+      .then(settings => {
+        setRules(settings.rules)
+        setLastRun(settings.lastRun)
+      })
+      .catch(error => console.error('Failed to read retention rules:', error))
+  }, [])
+  
+  const setRule = (target: keyof RetentionRules, action: RetentionAction, days: number) => {
+    setRules(prev => ({ ...prev, [target]: { action, days } }))
+    setPreview(null)
+  }
+  
+  const handleSave = async () => {
+    setMessage(null)
+    try {
+      await saveRetentionRules(rules)
+      setMessage({ type: 'success', text: 'Retention rules saved. They run once a day.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save retention rules' })
+    }
+  }
+  
+  const handlePreview = async () => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      setPreview(await previewRetention(rules))
+    } catch (error) {
+      console.error('Retention preview failed:', error)
+      setMessage({ type: 'error', text: 'Preview failed. Check the console for details.' })
+    } finally {
+      setBusy(false)
+    }
+  }
+  
+  const handleRun = async () => {
+    if (!confirm('Apply the saved retention rules now? Expired records are permanently deleted.')) return
+    setBusy(true)
+    setMessage(null)
+    try {
+      const run = await enforceRetention()
+      setLastRun(run)
+      setPreview(null)
+      setMessage(run.errors.length > 0
+        ? { type: 'error', text: `Removed ${run.deleted} records; ${run.errors.length} rule${run.errors.length === 1 ? '' : 's'} failed.` }
+        : { type: 'success', text: `Removed ${run.deleted} records.` })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Retention failed' })
+    } finally {
+      setBusy(false)
+    }
+  }
+  
+  const selectClass = 'px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-sm text-zinc-200'
+  const expiring = preview?.filter(item => item.count + item.archived > 0) ?? []
+  
+  return (
+    <div className="cascade-card p-6 col-span-2">
+      <h3 className="text-lg font-medium text-zinc-200 mb-4">⏳ Data Retention</h3>
+      <p className="text-sm text-zinc-400 mb-4">
+        Choose how long each kind of record is kept. Summarizing asks your AI provider to condense expiring
+        records into a semantic memory before they are deleted. Invariant memories are always kept.
+      </p>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 max-h-80 overflow-y-auto mb-4">
+        {RETENTION_TARGETS.map(target => {
+          const rule = rules[target.id] ?? { action: 'keep' as RetentionAction, days: DEFAULT_RETENTION_DAYS }
+          return (
+            <div key={target.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-zinc-300 truncate">{target.label}</span>
+              <select
+                value={rule.action}
+                onChange={(e) => setRule(target.id, e.target.value as RetentionAction, rule.days)}
+                className={selectClass}
+              >
+                {RETENTION_ACTIONS
+                  .filter(option => option.action !== 'summarize' || target.summarizable)
+                  .map(option => (
+                    <option key={option.action} value={option.action}>{option.label}</option>
+                  ))}
+              </select>
+              {rule.action !== 'keep' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.days}
+                    onChange={(e) => setRule(target.id, rule.action, Number(e.target.value))}
+                    className={`${selectClass} w-20`}
+                  />
+                  <span className="text-zinc-500">days</span>
+                </>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={handleSave}
+          className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={handlePreview}
+          disabled={busy}
+          className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-300 rounded-lg text-sm transition-colors"
+        >
+          Preview
+        </button>
+        <button
+          onClick={handleRun}
+          disabled={busy}
+          className="flex-1 py-2 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-400 rounded-lg text-sm transition-colors"
+        >
+          {busy ? 'Working...' : 'Run Now'}
+        </button>
+      </div>
+      
+      {preview && (
+        <div className="mb-4 space-y-2">
+          {expiring.length === 0 ? (
+            <p className="text-sm text-zinc-500">Nothing would be removed.</p>
+          ) : expiring.map(item => (
+            <div key={item.target} className="p-3 bg-zinc-800/50 rounded-lg text-sm">
+              <div className="flex justify-between text-zinc-300">
+                <span>{item.label}</span>
+                <span className={item.rule.action === 'summarize' ? 'text-cyan-400' : 'text-red-400'}>
+                  {item.rule.action === 'summarize' ? 'summarize and delete' : 'delete'} {item.count + item.archived}
+                </span>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Before {new Date(item.cutoff).toLocaleDateString()}
+                {item.oldest !== null && ` · oldest ${new Date(item.oldest).toLocaleDateString()}`}
+                {item.archived > 0 && ` · ${item.archived} in cold storage`}
+              </p>
+              {item.samples.map((sample, i) => (
+                <p key={i} className="text-xs text-zinc-400 truncate">{sample}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Last run</span>
+          <span className="text-zinc-200">{lastRun ? new Date(lastRun.ranAt).toLocaleString() : 'Never'}</span>
+        </div>
+        {lastRun && (
+          <div className="flex justify-between">
+            <span className="text-zinc-500">Removed</span>
+            <span className="text-zinc-200">
+              {lastRun.deleted} records{lastRun.memoriesCreated > 0 && ` · ${lastRun.memoriesCreated} summaries`}
+            </span>
+          </div>
+        )}
+        {lastRun?.errors.map((error, i) => (
+          <p key={i} className="text-xs text-red-400">{error}</p>
+        ))}
+      </div>
+      
+      {message && (
+        <p className={`mt-3 text-xs ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Usage Panel
+const USAGE_DAYS = 30
+
+const BUDGET_ACTIONS: Array<{ action: BudgetAction; label: string }> = [
+  { action: 'block', label: 'Block paid requests' },
+  { action: 'downgrade-local', label: 'Switch to the local model' },
+  { action: 'downgrade-mock', label: 'Switch to the mock provider' }
+]
+
+const PRICED_PROVIDERS: CASCADEProviderName[] = ['anthropic', 'gemini', 'openai']
+
+function formatCost(amount: number): string {
+  return amount > 0 && amount < 0.01 ? '<$0.01' : `$${amount.toFixed(2)}`
+}
+
+function UsagePanel() {
+  const [pricing, setPricing] = useState<PriceRule[]>([])
+  const [budgets, setBudgets] = useState<UsageBudgets>(DEFAULT_BUDGETS)
+  const [records, setRecords] = useState<UsageRecord[]>([])
+  const [spend, setSpend] = useState<UsageSpend>({ today: 0, month: 0 })
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  
+  const refresh = async () => {
+    const [usage, current] = await Promise.all([readUsage(USAGE_DAYS), getSpend()])
+    setRecords(usage)
+    setSpend(current)
+  }
+  
+  useEffect(() => {
+    getUsageSettings()
+      .then(settings => {
+        setPricing(settings.pricing)
+        setBudgets(settings.budgets)
+      })
+      .catch(error => console.error('Failed to read usage settings:', error))
+    refresh().catch(error => console.error('Failed to read AI usage:', error))
+  }, [])
+  
+  const setRule = (index: number, change: Partial<PriceRule>) => {
+    setPricing(prev => prev.map((rule, i) => i === index ? { ...rule, ...change } : rule))
+  }
+  
+  const handleSave = async () => {
+    setMessage(null)
+    try {
+      await saveUsageSettings({ pricing, budgets })
+      setMessage({ type: 'success', text: 'Pricing and budgets saved. New prices apply to future requests.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save usage settings' })
+    }
+  }
+  
+  const handleClear = async () => {
+    if (!confirm('Clear the AI usage history? Budgets start again from zero.')) return
+    setMessage(null)
+    try {
+      await clearUsageLedger()
+      await refresh()
+      setMessage({ type: 'success', text: 'Usage history cleared.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not clear usage history' })
+    }
+  }
+  
+  // Daily spend for the chart, oldest first, with empty days included
+  const days = Array.from({ length: USAGE_DAYS }, (_, i) => getDateKey(Date.now() - (USAGE_DAYS - 1 - i) * 24 * 60 * 60 * 1000))
+  const dailyCost = days.map(day => records.filter(record => record.day === day).reduce((sum, record) => sum + record.cost, 0))
+  const peak = Math.max(...dailyCost, 0)
+  
+  const byModel = new Map<string, { label: string; calls: number; tokens: number; cost: number }>()
+  const byFeature = new Map<UsageFeature, { calls: number; cost: number }>()
+  const byPrompt = new Map<string, { calls: number; tokens: number; cost: number; since: string }>()
+  for (const record of records) {
+    const key = `${record.provider}|${record.model}`
+    const model = byModel.get(key) ?? { label: `${PROVIDER_LABELS[record.provider] ?? record.provider} · ${record.model}`, calls: 0, tokens: 0, cost: 0 }
+    byModel.set(key, {
+      ...model,
+      calls: model.calls + record.calls,
+      tokens: model.tokens + record.inputTokens + record.outputTokens,
+      cost: model.cost + record.cost
+    })
+    const feature = byFeature.get(record.feature) ?? { calls: 0, cost: 0 }
+    byFeature.set(record.feature, { calls: feature.calls + record.calls, cost: feature.cost + record.cost })
+    if (record.prompts) {
+      const prompt = byPrompt.get(record.prompts) ?? { calls: 0, tokens: 0, cost: 0, since: record.day }
+      byPrompt.set(record.prompts, {
+        calls: prompt.calls + record.calls,
+        tokens: prompt.tokens + record.inputTokens + record.outputTokens,
+        cost: prompt.cost + record.cost,
+        since: record.day < prompt.since ? record.day : prompt.since
+      })
+    }
+  }
+  const estimated = records.reduce((sum, record) => sum + record.estimatedCalls, 0)
+  const overBudget = budgetExceeded(budgets, spend)
+  
+  const selectClass = 'px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-sm text-zinc-200'
+  
+  return (
+    <div className="cascade-card p-6 col-span-2">
+      <h3 className="text-lg font-medium text-zinc-200 mb-4">💰 AI Usage &amp; Budgets</h3>
+      <p className="text-sm text-zinc-400 mb-4">
+        Every AI request is priced from the table below and counted per provider, model and feature.
+        When a budget is reached, paid providers are blocked or swapped for a free one.
+      </p>
+      
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        {([
+          { label: 'Today', spent: spend.today, limit: budgets.daily },
+          { label: 'This month', spent: spend.month, limit: budgets.monthly }
+        ]).map(item => (
+          <div key={item.label} className="p-3 bg-zinc-800/50 rounded-lg">
+            <div className="flex justify-between text-sm">
+              <span className="text-zinc-500">{item.label}</span>
+              <span className="text-zinc-200">
+                {formatCost(item.spent)}{item.limit !== null && ` of ${formatCost(item.limit)}`}
+              </span>
+            </div>
+            {item.limit !== null && (
+              <div className="h-1.5 mt-2 bg-zinc-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${item.spent >= item.limit ? 'bg-red-500' : 'bg-cyan-500'}`}
+                  style={{ width: `${Math.min(100, (item.spent / item.limit) * 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {overBudget && <p className="text-xs text-amber-400 mb-4">{overBudget}</p>}
+      
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-zinc-500 mb-1">
+          <span>Spend, last {USAGE_DAYS} days</span>
+          <span>Peak {formatCost(peak)}</span>
+        </div>
+        <div className="flex items-end gap-0.5 h-24 p-2 bg-zinc-800/50 rounded-lg">
+          {days.map((day, i) => (
+            <div
+              key={day}
+              title={`${day}: ${formatCost(dailyCost[i])}`}
+              className="flex-1 bg-cyan-500/60 hover:bg-cyan-400 rounded-sm"
+              style={{ height: peak > 0 ? `${Math.max(2, (dailyCost[i] / peak) * 100)}%` : '2%' }}
+            />
+          ))}
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4 text-sm">
+        <div className="space-y-1">
+          <h4 className="text-zinc-400 mb-1">By model</h4>
+          {byModel.size === 0 && <p className="text-zinc-500">No AI requests yet.</p>}
+          {Array.from(byModel.entries()).sort((a, b) => b[1].cost - a[1].cost).map(([key, model]) => (
+            <div key={key} className="flex justify-between gap-2">
+              <span className="text-zinc-300 truncate">{model.label}</span>
+              <span className="text-zinc-500 whitespace-nowrap">
+                {model.calls} calls · {model.tokens.toLocaleString()} tokens · <span className="text-zinc-200">{formatCost(model.cost)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <h4 className="text-zinc-400 mb-1">By feature</h4>
+          {USAGE_FEATURES.filter(feature => byFeature.has(feature.id)).map(feature => {
+            const usage = byFeature.get(feature.id)!
+            return (
+              <div key={feature.id} className="flex justify-between">
+                <span className="text-zinc-300">{feature.label}</span>
+                <span className="text-zinc-500">
+                  {usage.calls} calls · <span className="text-zinc-200">{formatCost(usage.cost)}</span>
+                </span>
+              </div>
+            )
+          })}
+          {estimated > 0 && (
+            <p className="text-xs text-zinc-500">{estimated} cancelled replies counted from an estimate.</p>
+          )}
+        </div>
+      </div>
+      
+      {byPrompt.size > 0 && (
+        <div className="mb-4 text-sm space-y-1">
+          <h4 className="text-zinc-400 mb-1">By prompt version (per call)</h4>
+          {Array.from(byPrompt.entries()).sort((a, b) => a[0].localeCompare(b[0])).map(([prompts, usage]) => (
+            <div key={prompts} className="flex justify-between gap-2">
+              <span className="text-zinc-300 font-mono text-xs truncate" title={`In use since ${usage.since}`}>{prompts}</span>
+              <span className="text-zinc-500 whitespace-nowrap">
+                {usage.calls} calls · {Math.round(usage.tokens / usage.calls).toLocaleString()} tokens · <span className="text-zinc-200">{formatCost(usage.cost / usage.calls)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-500">Daily $</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={budgets.daily ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setBudgets(prev => ({ ...prev, daily: e.target.value === '' ? null : Number(e.target.value) }))}
+            className={`${selectClass} w-full`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-500">Monthly $</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={budgets.monthly ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setBudgets(prev => ({ ...prev, monthly: e.target.value === '' ? null : Number(e.target.value) }))}
+            className={`${selectClass} w-full`}
+          />
+        </label>
+        <select
+          value={budgets.action}
+          onChange={(e) => setBudgets(prev => ({ ...prev, action: e.target.value as BudgetAction }))}
+          className={selectClass}
+        >
+          {BUDGET_ACTIONS.map(option => (
+            <option key={option.action} value={option.action}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-zinc-500 mb-1">
+          <span>Price per million tokens (USD) · model * prices any model of the provider</span>
+          <button onClick={() => setPricing(DEFAULT_PRICING)} className="text-cyan-400 hover:text-cyan-300">
+            Reset prices
+          </button>
+        </div>
+        <div className="space-y-1 max-h-60 overflow-y-auto">
+          {pricing.map((rule, i) => (
+            <div key={i} className="flex items-center gap-2 text-sm">
+              <select
+                value={rule.provider}
+                onChange={(e) => setRule(i, { provider: e.target.value as CASCADEProviderName })}
+                className={selectClass}
+              >
+                {PRICED_PROVIDERS.map(provider => (
+                  <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+                ))}
+              </select>
+              <input
+                value={rule.model}
+                onChange={(e) => setRule(i, { model: e.target.value })}
+                className={`${selectClass} flex-1`}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={rule.input}
+                title="Input"
+                onChange={(e) => setRule(i, { input: Number(e.target.value) })}
+                className={`${selectClass} w-20`}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={rule.output}
+                title="Output"
+                onChange={(e) => setRule(i, { output: Number(e.target.value) })}
+                className={`${selectClass} w-20`}
+              />
+              <button
+                onClick={() => setPricing(prev => prev.filter((_, j) => j !== i))}
+                className="text-zinc-500 hover:text-red-400"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setPricing(prev => [...prev, { provider: 'openai', model: '', input: 0, output: 0 }])}
+          className="mt-2 text-xs text-cyan-400 hover:text-cyan-300"
+        >
+          + Add price
+        </button>
+      </div>
+      
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={handleClear}
+          className="flex-1 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg text-sm transition-colors"
+        >
+          Clear History
+        </button>
+      </div>
+      
+      {message && (
+        <p className={`mt-3 text-xs ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
 // Reset Panel
 function ResetPanel() {
   const [confirmReset, setConfirmReset] = useState(false)
@@ -447,9 +1959,19 @@ function SystemInfo() {
     userId: state.userId,
     pyramidBlocks: state.pyramid.foundation.length + state.pyramid.theory.length + state.pyramid.edge.length,
     cascadeCount: state.pyramid.cascadeHistory.length,
-    journalEntries: state.journal.length,
-    practices: state.realityBridge.practices.length
+    newestEntry: state.journal[0]?.id,
+    practices: state.realityBridge.practices.length,
+    migrationReport: state.migrationReport,
+    migrationError: state.migrationError
   }))
+  const [journalEntries, setJournalEntries] = useState(0)
+  
+  // The state only holds recent entries; count the whole journal store
+  useEffect(() => {
+    countJournalEntries()
+      .then(setJournalEntries)
+      .catch(error => console.error('Failed to count journal entries:', error))
+  }, [state.newestEntry])
   
   return (
     <div className="cascade-card p-6">
@@ -460,6 +1982,19 @@ function SystemInfo() {
           <span className="text-zinc-400">Version</span>
           <span className="font-mono text-zinc-200">{state.version}</span>
         </div>
+        {state.migrationReport && (
+          <div className="flex justify-between text-sm">
+            <span className="text-zinc-400">Last Migration</span>
+            <span className="text-zinc-200 text-xs">
+              {state.migrationReport.source}: {describeMigration(state.migrationReport)}
+            </span>
+          </div>
+        )}
+        {state.migrationError && (
+          <div className="p-2 bg-red-500/10 border border-red-500/20 rounded text-xs text-red-400">
+            Stored state was not loaded: {state.migrationError}. A copy was kept aside.
+          </div>
+        )}
         <div className="flex justify-between text-sm">
           <span className="text-zinc-400">User ID</span>
           <span className="font-mono text-zinc-200 text-xs">{state.userId.slice(0, 16)}...</span>
@@ -482,7 +2017,7 @@ function SystemInfo() {
             </div>
             <div className="p-2 bg-zinc-800/50 rounded">
               <span className="text-xs text-zinc-500">Journal Entries</span>
-              <p className="font-mono text-zinc-200">{state.journalEntries}</p>
+              <p className="font-mono text-zinc-200">{journalEntries}</p>
             </div>
             <div className="p-2 bg-zinc-800/50 rounded">
               <span className="text-xs text-zinc-500">Practices</span>
@@ -634,8 +2169,14 @@ export default function SettingsPage() {
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <LLMConfigPanel />
+        <ProviderHealthPanel />
+        <PromptTemplatesPanel />
         <ExportPanel />
         <ImportPanel />
+        <VaultPanel />
+        <SyncPanel />
+        <RetentionPanel />
+        <UsagePanel />
         <AURAStatus />
         <SystemInfo />
         <AboutCASCADE />
@@ -1,33 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { ShadowAspect, ShadowEncounter } from '@/types/entities'
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface ShadowAspect {
-  id: string
-  name: string
-  description: string
-  triggers: string[]
-  manifestations: string[]  // How it shows up in behavior
-  gifts: string[]          // The gold hidden in the shadow
-  integrationLevel: number // 0-100
-  encounters: ShadowEncounter[]
-  lamague: string
-  createdAt: number
-}
-
-interface ShadowEncounter {
-  id: string
-  context: string
-  triggered: boolean
-  response: 'projected' | 'suppressed' | 'acknowledged' | 'integrated'
-  reflection?: string
-  timestamp: number
-}
-
 interface ShadowPrompt {
   question: string
   category: 'discovery' | 'trigger' | 'gift' | 'integration'
@@ -503,18 +483,10 @@ function CreateShadowForm({
 // ============================================================================
 
 export default function ShadowWorkPage() {
-  const [shadows, setShadows] = useState<ShadowAspect[]>([])
+  const [shadows, setShadows] = useCollection<ShadowAspect>('shadows', { sort: (a, b) => b.createdAt - a.createdAt })
   const [selectedShadow, setSelectedShadow] = useState<ShadowAspect | null>(null)
   const [showCreate, setShowCreate] = useState(false)
   
-  // Load shadows
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-shadows')
-      if (saved) setShadows(JSON.parse(saved))
-    }
-  }, [])
-  
   const saveShadow = (shadow: Omit<ShadowAspect, 'id' | 'createdAt' | 'encounters'>) => {
     const newShadow: ShadowAspect = {
       ...shadow,
@@ -525,14 +497,12 @@ export default function ShadowWorkPage() {
     
     const updated = [newShadow, ...shadows]
     setShadows(updated)
-    localStorage.setItem('cascade-shadows', JSON.stringify(updated))
     setShowCreate(false)
   }
   
   const updateShadow = (updated: ShadowAspect) => {
     const newShadows = shadows.map(s => s.id === updated.id ? updated : s)
     setShadows(newShadows)
-    localStorage.setItem('cascade-shadows', JSON.stringify(newShadows))
     setSelectedShadow(updated)
   }
   
@@ -1,27 +1,15 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-interface SleepEntry {
-  id: string
-  bedtime: string // HH:MM
-  waketime: string
-  quality: 1 | 2 | 3 | 4 | 5
-  duration: number // hours
-  notes?: string
-  timestamp: number
-}
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
+import { SleepEntry } from '@/types/entities'
 
 // ============================================================================
 // MAIN PAGE
 // ============================================================================
 
 export default function SleepPage() {
-  const [entries, setEntries] = useState<SleepEntry[]>([])
+  const [entries, setEntries] = useCollection<SleepEntry>('sleep', { sort: (a, b) => b.timestamp - a.timestamp })
   const [bedtime, setBedtime] = useState('22:30')
   const [waketime, setWaketime] = useState('06:30')
   const [quality, setQuality] = useState<1|2|3|4|5>(3)
@@ -32,19 +20,6 @@ export default function SleepPage() {
     new Date(e.timestamp).toDateString() === today
   )
   
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-sleep')
-      if (saved) setEntries(JSON.parse(saved))
-    }
-  }, [])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined' && entries.length > 0) {
-      localStorage.setItem('cascade-sleep', JSON.stringify(entries))
-    }
-  }, [entries])
-  
   const calculateDuration = (bed: string, wake: string): number => {
     const [bedH, bedM] = bed.split(':').map(Number)
     const [wakeH, wakeM] = wake.split(':').map(Number)
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useMemo } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -324,56 +325,43 @@ function CreateSyncForm({
   )
 }
 
+// Tags shared by at least two synchronicities, most frequent first
+function findPatterns(syncList: Synchronicity[]): SyncPattern[] {
+  const tagCounts: Record<string, { count: number; lastSeen: number; syncs: string[] }> = {}
+  
+  syncList.forEach(sync => {
+    sync.tags.forEach(tag => {
+      if (!tagCounts[tag]) {
+        tagCounts[tag] = { count: 0, lastSeen: 0, syncs: [] }
+      }
+      tagCounts[tag].count++
+      tagCounts[tag].lastSeen = Math.max(tagCounts[tag].lastSeen, sync.timestamp)
+      tagCounts[tag].syncs.push(sync.id)
+    })
+  })
+  
+  return Object.entries(tagCounts)
+    .filter(([, data]) => data.count >= 2)
+    .map(([pattern, data]) => ({
+      pattern,
+      count: data.count,
+      lastSeen: data.lastSeen,
+      syncs: data.syncs
+    }))
+    .sort((a, b) => b.count - a.count)
+}
+
 // ============================================================================
 // MAIN PAGE
 // ============================================================================
 
 export default function SynchronicityPage() {
-  const [syncs, setSyncs] = useState<Synchronicity[]>([])
-  const [patterns, setPatterns] = useState<SyncPattern[]>([])
+  const [syncs, setSyncs] = useCollection<Synchronicity>('synchronicities', { sort: (a, b) => b.timestamp - a.timestamp })
+  const patterns = useMemo(() => findPatterns(syncs), [syncs])
   const [showCreate, setShowCreate] = useState(false)
   const [selectedSync, setSelectedSync] = useState<Synchronicity | null>(null)
   const [filterCategory, setFilterCategory] = useState<SyncCategory | 'all'>('all')
   
-  // Load syncs
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-synchronicities')
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setSyncs(parsed)
-        analyzePatterns(parsed)
-      }
-    }
-  }, [])
-  
-  const analyzePatterns = (syncList: Synchronicity[]) => {
-    const tagCounts: Record<string, { count: number; lastSeen: number; syncs: string[] }> = {}
-    
-    syncList.forEach(sync => {
-      sync.tags.forEach(tag => {
-        if (!tagCounts[tag]) {
-          tagCounts[tag] = { count: 0, lastSeen: 0, syncs: [] }
-        }
-        tagCounts[tag].count++
-        tagCounts[tag].lastSeen = Math.max(tagCounts[tag].lastSeen, sync.timestamp)
-        tagCounts[tag].syncs.push(sync.id)
-      })
-    })
-    
-    const newPatterns = Object.entries(tagCounts)
-      .filter(([, data]) => data.count >= 2)
-      .map(([pattern, data]) => ({
-        pattern,
-        count: data.count,
-        lastSeen: data.lastSeen,
-        syncs: data.syncs
-      }))
-      .sort((a, b) => b.count - a.count)
-    
-    setPatterns(newPatterns)
-  }
-  
   const saveSync = (sync: Omit<Synchronicity, 'id' | 'timestamp'>) => {
     const newSync: Synchronicity = {
       ...sync,
@@ -383,8 +371,6 @@ export default function SynchronicityPage() {
     
     const updated = [newSync, ...syncs]
     setSyncs(updated)
-    localStorage.setItem('cascade-synchronicities', JSON.stringify(updated))
-    analyzePatterns(updated)
     setShowCreate(false)
   }
   
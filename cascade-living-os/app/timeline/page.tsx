@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
+import { getAll } from '@/lib/db/repository'
+import { getJournalRange } from '@/lib/db/journal'
 
 // ============================================================================
 // TYPES
@@ -114,130 +116,134 @@ export default function TimelinePage() {
   useEffect(() => {
     if (typeof window === 'undefined') return
     
-    setLoading(true)
-    const allEvents: TimelineEvent[] = []
-    
-    // Microorcims
-    const microorcims = JSON.parse(localStorage.getItem('cascade-microorcims') || '[]')
-    microorcims.forEach((m: any) => {
-      allEvents.push({
-        id: m.id || `mu-${m.timestamp}`,
-        type: 'microorcim',
-        title: m.description || 'Microorcim fired',
-        timestamp: m.timestamp,
-        lamague: m.lamague,
-        metadata: { intent: m.intent, drift: m.drift }
-      })
-    })
-    
-    // Journal entries
-    const journal = JSON.parse(localStorage.getItem('cascade-journal') || '[]')
-    journal.forEach((j: any) => {
-      allEvents.push({
-        id: j.id || `j-${j.timestamp}`,
-        type: 'journal',
-        title: j.title || 'Journal Entry',
-        description: j.content?.substring(0, 100),
-        timestamp: j.timestamp,
-        lamague: j.lamague
+    const loadEvents = async () => {
+      setLoading(true)
+      const allEvents: TimelineEvent[] = []
+      
+      // Microorcims
+      const microorcims = await getAll<any>('microorcims')
+      microorcims.forEach((m: any) => {
+        allEvents.push({
+          id: m.id || `mu-${m.timestamp}`,
+          type: 'microorcim',
+          title: m.description || 'Microorcim fired',
+          timestamp: m.timestamp,
+          lamague: m.lamague,
+          metadata: { intent: m.intent, drift: m.drift }
+        })
       })
-    })
-    
-    // Focus sessions
-    const focus = JSON.parse(localStorage.getItem('cascade-focus-sessions') || '[]')
-    focus.forEach((f: any) => {
-      allEvents.push({
-        id: f.id || `f-${f.startTime}`,
-        type: 'focus',
-        title: f.intent || 'Focus Session',
-        description: `${f.duration} minutes`,
-        timestamp: f.startTime,
-        lamague: '⟟'
+      
+      // Journal entries
+      const journal = await getJournalRange()
+      journal.forEach((j: any) => {
+        allEvents.push({
+          id: j.id || `j-${j.timestamp}`,
+          type: 'journal',
+          title: j.title || 'Journal Entry',
+          description: (j.rawText || j.content)?.substring(0, 100),
+          timestamp: j.timestamp,
+          lamague: j.lamague
+        })
       })
-    })
-    
-    // Rituals completed (from ritual completions in rituals data)
-    const rituals = JSON.parse(localStorage.getItem('cascade-rituals') || '[]')
-    rituals.forEach((r: any) => {
-      r.completions?.forEach((c: number) => {
+      
+      // Focus sessions
+      const focus = await getAll<any>('focus-sessions')
+      focus.forEach((f: any) => {
         allEvents.push({
-          id: `r-${r.id}-${c}`,
-          type: 'ritual',
-          title: `${r.name} completed`,
-          timestamp: c,
-          lamague: r.lamague
+          id: f.id || `f-${f.startTime}`,
+          type: 'focus',
+          title: f.intent || 'Focus Session',
+          description: `${f.duration} minutes`,
+          timestamp: f.startTime,
+          lamague: '⟟'
         })
       })
-    })
-    
-    // Gratitude
-    const gratitude = JSON.parse(localStorage.getItem('cascade-gratitude') || '[]')
-    gratitude.forEach((g: any) => {
-      allEvents.push({
-        id: g.id,
-        type: 'gratitude',
-        title: 'Gratitude logged',
-        description: g.items?.slice(0, 2).join(', '),
-        timestamp: g.timestamp,
-        lamague: '✧'
+      
+      // Rituals completed (from ritual completions in rituals data)
+      const rituals = await getAll<any>('rituals')
+      rituals.forEach((r: any) => {
+        r.completions?.forEach((c: number) => {
+          allEvents.push({
+            id: `r-${r.id}-${c}`,
+            type: 'ritual',
+            title: `${r.name} completed`,
+            timestamp: c,
+            lamague: r.lamague
+          })
+        })
       })
-    })
-    
-    // Energy logs
-    const energy = JSON.parse(localStorage.getItem('cascade-energy-logs') || '[]')
-    energy.forEach((e: any) => {
-      allEvents.push({
-        id: `e-${e.timestamp}`,
-        type: 'energy',
-        title: `Energy: ${e.energy}/5, Mood: ${e.mood}/5`,
-        description: e.note,
-        timestamp: e.timestamp,
-        lamague: '≋'
+      
+      // Gratitude
+      const gratitude = await getAll<any>('gratitude')
+      gratitude.forEach((g: any) => {
+        allEvents.push({
+          id: g.id,
+          type: 'gratitude',
+          title: 'Gratitude logged',
+          description: g.items?.slice(0, 2).join(', '),
+          timestamp: g.timestamp,
+          lamague: '✧'
+        })
       })
-    })
-    
-    // Sleep
-    const sleep = JSON.parse(localStorage.getItem('cascade-sleep') || '[]')
-    sleep.forEach((s: any) => {
-      allEvents.push({
-        id: s.id,
-        type: 'sleep',
-        title: `Slept ${s.duration?.toFixed(1)}h`,
-        description: `${s.bedtime} → ${s.waketime}`,
-        timestamp: s.timestamp,
-        lamague: '⟟'
+      
+      // Energy logs
+      const energy = await getAll<any>('energy-logs')
+      energy.forEach((e: any) => {
+        allEvents.push({
+          id: `e-${e.timestamp}`,
+          type: 'energy',
+          title: `Energy: ${e.energy}/5, Mood: ${e.mood}/5`,
+          description: e.note,
+          timestamp: e.timestamp,
+          lamague: '≋'
+        })
       })
-    })
-    
-    // Breath sessions
-    const breath = JSON.parse(localStorage.getItem('cascade-breath-sessions') || '[]')
-    breath.forEach((b: any) => {
-      allEvents.push({
-        id: b.id,
-        type: 'breath',
-        title: 'Breathwork completed',
-        description: `${Math.round(b.duration / 60)} minutes`,
-        timestamp: b.timestamp,
-        lamague: '⟟'
+      
+      // Sleep
+      const sleep = await getAll<any>('sleep')
+      sleep.forEach((s: any) => {
+        allEvents.push({
+          id: s.id,
+          type: 'sleep',
+          title: `Slept ${s.duration?.toFixed(1)}h`,
+          description: `${s.bedtime} → ${s.waketime}`,
+          timestamp: s.timestamp,
+          lamague: '⟟'
+        })
       })
-    })
-    
-    // Quick captures
-    const captures = JSON.parse(localStorage.getItem('cascade-quick-captures') || '[]')
-    captures.forEach((c: any) => {
-      allEvents.push({
-        id: c.id,
-        type: 'capture',
-        title: `${c.type}: ${c.content?.substring(0, 40)}...`,
-        description: c.content,
-        timestamp: c.timestamp
+      
+      // Breath sessions
+      const breath = await getAll<any>('breath-sessions')
+      breath.forEach((b: any) => {
+        allEvents.push({
+          id: b.id,
+          type: 'breath',
+          title: 'Breathwork completed',
+          description: `${Math.round(b.duration / 60)} minutes`,
+          timestamp: b.timestamp,
+          lamague: '⟟'
+        })
       })
-    })
+      
+      // Quick captures
+      const captures = await getAll<any>('quick-captures')
+      captures.forEach((c: any) => {
+        allEvents.push({
+          id: c.id,
+          type: 'capture',
+          title: `${c.type}: ${c.content?.substring(0, 40)}...`,
+          description: c.content,
+          timestamp: c.timestamp
+        })
+      })
+      
+      // Sort by timestamp descending
+      allEvents.sort((a, b) => b.timestamp - a.timestamp)
+      setEvents(allEvents)
+      setLoading(false)
+    }
     
-    // Sort by timestamp descending
-    allEvents.sort((a, b) => b.timestamp - a.timestamp)
-    setEvents(allEvents)
-    setLoading(false)
+    loadEvents().catch(error => console.error('Failed to load timeline:', error))
   }, [])
   
   // Group events by day
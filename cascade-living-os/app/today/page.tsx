@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
+import { getAll, getById, put } from '@/lib/db/repository'
+import { countJournalEntries } from '@/lib/db/journal'
 
 // ============================================================================
 // TYPES
@@ -155,21 +157,21 @@ export default function TodayPage() {
     day: 'numeric' 
   })
   
-  // Load data from various localStorage keys
+  // Load data from the entity stores
   useEffect(() => {
     setMounted(true)
     
-    if (typeof window !== 'undefined') {
+    const loadToday = async () => {
       const todayStr = new Date().toDateString()
       
       // Microorcims
-      const microorcims = JSON.parse(localStorage.getItem('cascade-microorcims') || '[]')
+      const microorcims = await getAll<any>('microorcims')
       const todayMicroorcims = microorcims.filter((m: any) => 
         new Date(m.timestamp).toDateString() === todayStr
       )
       
       // Focus sessions
-      const focusSessions = JSON.parse(localStorage.getItem('cascade-focus-sessions') || '[]')
+      const focusSessions = await getAll<any>('focus-sessions')
       const todayFocus = focusSessions.filter((s: FocusSession) => 
         new Date(s.startTime).toDateString() === todayStr
       )
@@ -181,7 +183,7 @@ export default function TodayPage() {
       }, 0)
       
       // Rituals
-      const rituals = JSON.parse(localStorage.getItem('cascade-rituals') || '[]')
+      const rituals = await getAll<any>('rituals')
       const activeRituals = rituals.filter((r: any) => r.active && r.frequency === 'daily')
       const completedRituals = activeRituals.filter((r: any) => {
         const todayCompletions = (r.completions || []).filter((c: any) => 
@@ -191,14 +193,15 @@ export default function TodayPage() {
       })
       
       // Journal
-      const journal = JSON.parse(localStorage.getItem('cascade-journal') || '[]')
-      const todayEntry = journal.some((e: any) => 
-        new Date(e.timestamp).toDateString() === todayStr
-      )
+      const startOfToday = new Date()
+      startOfToday.setHours(0, 0, 0, 0)
+      const todayEntry = await countJournalEntries(startOfToday.getTime()) > 0
       
       // Quick captures
-      const quickCaptures = JSON.parse(localStorage.getItem('cascade-quick-captures') || '[]')
-      const unprocessed = quickCaptures.filter((c: QuickCapture) => !c.processed)
+      const quickCaptures = await getAll<any>('quick-captures')
+      const unprocessed = quickCaptures
+        .filter((c: QuickCapture) => !c.processed)
+        .sort((a: QuickCapture, b: QuickCapture) => b.timestamp - a.timestamp)
       
       setCaptures(unprocessed.slice(0, 5))
       
@@ -213,14 +216,15 @@ export default function TodayPage() {
         capturesUnprocessed: unprocessed.length
       })
     }
+    
+    loadToday().catch(error => console.error('Failed to load today:', error))
   }, [])
   
-  const processCapture = (id: string) => {
-    const all = JSON.parse(localStorage.getItem('cascade-quick-captures') || '[]')
-    const updated = all.map((c: QuickCapture) => 
-      c.id === id ? { ...c, processed: true } : c
-    )
-    localStorage.setItem('cascade-quick-captures', JSON.stringify(updated))
+  const processCapture = async (id: string) => {
+    const capture = await getById<QuickCapture>('quick-captures', id)
+    if (capture) {
+      await put('quick-captures', { ...capture, processed: true })
+    }
     setCaptures(prev => prev.filter(c => c.id !== id))
     setStats(prev => ({ ...prev, capturesUnprocessed: prev.capturesUnprocessed - 1 }))
   }
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useCollection } from '@/lib/hooks/use-collection'
 
 // ============================================================================
 // TYPES
@@ -352,31 +353,12 @@ function ValueForm({
 // ============================================================================
 
 export default function ValuesPage() {
-  const [values, setValues] = useState<CoreValue[]>([])
-  const [reflections, setReflections] = useState<ValueReflection[]>([])
+  const [values, setValues] = useCollection<CoreValue>('values', { sort: (a, b) => a.createdAt - b.createdAt })
+  const [reflections, setReflections] = useCollection<ValueReflection>('value-reflections', { sort: (a, b) => a.timestamp - b.timestamp })
   const [showForm, setShowForm] = useState(false)
   const [editingValue, setEditingValue] = useState<CoreValue | null>(null)
   const [selectedValue, setSelectedValue] = useState<CoreValue | null>(null)
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedValues = localStorage.getItem('cascade-values')
-      const savedReflections = localStorage.getItem('cascade-value-reflections')
-      
-      if (savedValues) setValues(JSON.parse(savedValues))
-      if (savedReflections) setReflections(JSON.parse(savedReflections))
-    }
-  }, [])
-  
-  // Save to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-values', JSON.stringify(values))
-      localStorage.setItem('cascade-value-reflections', JSON.stringify(reflections))
-    }
-  }, [values, reflections])
-  
   const handleSaveValue = (data: Partial<CoreValue>) => {
     if (editingValue) {
       setValues(prev => prev.map(v => 
@@ -1,30 +1,188 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { useCascadeAI } from '@/lib/hooks/use-cascade-ai'
+import { ChatContext, ChatToolHandlers, useCascadeAI } from '@/lib/hooks/use-cascade-ai'
 import { useCASCADEStore } from '@/lib/store/cascade-store'
+import { describeToolCall, isWriteTool } from '@/lib/llm/cascade-tools'
+import { estimateMessageTokens } from '@/lib/llm/context'
+import type { LLMToolCall, ToolTurn } from '@/lib/llm/tool-use'
+
+type ToolStatus = 'pending' | 'running' | 'declined' | 'done' | 'failed'
+
+interface ToolCard {
+  call: LLMToolCall
+  status: ToolStatus
+  result?: string
+}
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: number
+  tools?: ToolCard[]
+}
+
+const welcomeMessage = (): Message => ({
+  id: 'welcome',
+  role: 'assistant',
+  content: 'Greetings, sovereign one. I am CASCADE, your AI companion in this living operating system. How may I support your journey today? ∇cas → Ao',
+  timestamp: Date.now()
+})
+
+// ============================================================================
+// TOOL CARD
+// ============================================================================
+
+const TOOL_STATUS_LABELS: Record<ToolStatus, string> = {
+  pending: 'Awaiting your approval',
+  running: 'Running…',
+  declined: 'Declined',
+  done: 'Done',
+  failed: 'Failed'
+}
+
+function ToolCallCard({
+  card,
+  onDecide
+}: {
+  card: ToolCard
+  onDecide: (approved: boolean) => void
+}) {
+  // Reads need no approval; a compact line says what was looked up
+  if (!isWriteTool(card.call.name)) {
+    return (
+      <p className={`text-xs ${card.status === 'failed' ? 'text-red-400' : 'text-zinc-500'}`}>
+        ⌕ {describeToolCall(card.call)}{card.status === 'failed' ? ` — ${card.result}` : ''}
+      </p>
+    )
+  }
+
+  return (
+    <div className={`mt-2 p-2 rounded border text-xs ${
+      card.status === 'pending' ? 'border-amber-500/40 bg-amber-500/5' : 'border-zinc-700 bg-zinc-900/50'
+    }`}>
+      <p className="text-zinc-200">{describeToolCall(card.call)}</p>
+      <p className={`mt-1 ${
+        card.status === 'failed' ? 'text-red-400' : card.status === 'done' ? 'text-emerald-400' : 'text-zinc-500'
+      }`}>
+        {TOOL_STATUS_LABELS[card.status]}
+        {card.status === 'failed' && card.result ? `: ${card.result}` : ''}
+        {card.status !== 'pending' && card.status !== 'declined' && ' · recorded as an AI action'}
+      </p>
+      {card.status === 'pending' && (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => onDecide(true)}
+            className="px-2 py-1 bg-cyan-500 hover:bg-cyan-400 text-zinc-900 rounded transition-colors"
+          >
+            Approve
+          </button>
+          <button
+            onClick={() => onDecide(false)}
+            className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded transition-colors"
+          >
+            Decline
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// CONTEXT INSPECTOR
+// ============================================================================
+
+// What a kept turn was, in a few words
+function describeTurn(turn: ToolTurn): string {
+  if (turn.toolResults?.length) return `Tool results: ${turn.toolResults.map(r => r.name).join(', ')}`
+  if (turn.toolCalls?.length) return `${turn.content ? `${turn.content} ` : ''}[calls ${turn.toolCalls.map(c => c.name).join(', ')}]`
+  return turn.content
+}
+
+function ContextInspector({ context }: { context: ChatContext | null }) {
+  if (!context) {
+    return (
+      <p className="text-xs text-zinc-500 text-center mt-8">
+        Nothing sent yet. What the next message sends will show here.
+      </p>
+    )
+  }
+
+  const { tokens } = context
+  const rows: Array<[string, number]> = [
+    ['System prompt', tokens.system],
+    ['Summary', tokens.summary],
+    ['History', tokens.history],
+    ['Kept free for the reply', tokens.reply]
+  ]
+  const historyShare = tokens.budget > 0 ? Math.min(1, tokens.history / tokens.budget) : 1
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div>
+        <p className="text-zinc-400 mb-2">
+          Last request · {context.provider} · window {tokens.window.toLocaleString()} tokens (estimated)
+        </p>
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between text-zinc-300">
+            <span>{label}</span>
+            <span className="text-zinc-500">{value.toLocaleString()}</span>
+          </div>
+        ))}
+        <div className="mt-2 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${historyShare >= 1 ? 'bg-amber-500' : 'bg-cyan-500'}`}
+            style={{ width: `${historyShare * 100}%` }}
+          />
+        </div>
+        <p className="text-zinc-500 mt-1">
+          History {tokens.history.toLocaleString()} of {tokens.budget.toLocaleString()} budgeted
+        </p>
+      </div>
+
+      <div>
+        <p className="text-zinc-400 mb-1">
+          Running summary{context.summarizedTurns > 0 ? ` · ${context.summarizedTurns} earlier turns` : ''}
+        </p>
+        <p className="text-zinc-300 whitespace-pre-wrap bg-zinc-800/50 rounded p-2">
+          {context.summary || 'None yet: every turn still fits.'}
+        </p>
+      </div>
+
+      <div>
+        <p className="text-zinc-400 mb-1">Sent in full ({context.messages.length})</p>
+        <div className="space-y-1">
+          {context.messages.map((turn, index) => (
+            <div key={index} className="flex gap-2 text-zinc-300">
+              <span className={`w-16 shrink-0 ${turn.role === 'user' ? 'text-cyan-400' : 'text-purple-400'}`}>
+                {turn.toolResults?.length ? 'tools' : turn.role === 'user' ? 'you' : 'cascade'}
+              </span>
+              <span className="flex-1 truncate">{describeTurn(turn)}</span>
+              <span className="text-zinc-500">{estimateMessageTokens(turn, context.provider)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
 }
 
+// ============================================================================
+// CHAT
+// ============================================================================
+
 export function CascadeChat() {
   const [isOpen, setIsOpen] = useState(false)
   const [input, setInput] = useState('')
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: 'Greetings, sovereign one. I am CASCADE, your AI companion in this living operating system. How may I support your journey today? ∇cas → Ao',
-      timestamp: Date.now()
-    }
-  ])
+  const [messages, setMessages] = useState<Message[]>(() => [welcomeMessage()])
+  const [inspecting, setInspecting] = useState(false)
   
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const { chat, isLoading, error } = useCascadeAI()
+  // Write calls waiting on the user, by call id
+  const pendingRef = useRef<Map<string, (approved: boolean) => void>>(new Map())
+  const { streamChat, cancel, context, resetConversation, isLoading, isStreaming, error, budgetNotice } = useCascadeAI()
   
   const sovereigntyScore = useCASCADEStore(state => state.sovereignty.humanSovereignty.value)
   const patterns = useCASCADEStore(state => state.patterns)
@@ -47,22 +205,72 @@ export function CascadeChat() {
       timestamp: Date.now()
     }
 
-    setMessages(prev => [...prev, userMessage])
+    const assistantId = `assistant-${Date.now()}`
+    const updateReply = (update: (content: string) => string) => {
+      setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, content: update(m.content) } : m))
+    }
+
+    // A declined card keeps saying so
+    const updateCard = (callId: string, update: Partial<ToolCard>) => {
+      setMessages(prev => prev.map(m => m.id === assistantId
+        ? { ...m, tools: m.tools?.map(card => card.call.id === callId && card.status !== 'declined' ? { ...card, ...update } : card) }
+        : m))
+    }
+    const addCard = (card: ToolCard) => {
+      setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, tools: [...(m.tools ?? []), card] } : m))
+    }
+
+    // Writes wait for Approve or Decline on their card
+    const tools: ChatToolHandlers = {
+      confirm: call => new Promise(resolve => {
+        pendingRef.current.set(call.id, approved => {
+          pendingRef.current.delete(call.id)
+          updateCard(call.id, { status: approved ? 'running' : 'declined' })
+          resolve(approved)
+        })
+        addCard({ call, status: 'pending' })
+      }),
+      onResult: (call, result) => {
+        const status: ToolStatus = result.isError ? 'failed' : 'done'
+        if (isWriteTool(call.name)) {
+          updateCard(call.id, { status, result: result.content })
+        } else {
+          addCard({ call, status, result: result.content })
+        }
+      }
+    }
+
+    setMessages(prev => [...prev, userMessage, { id: assistantId, role: 'assistant', content: '', timestamp: Date.now() }])
     setInput('')
 
-    const response = await chat(input, {
+    // Tokens are shown as they arrive; the final text replaces them
+    const response = await streamChat(input, token => updateReply(content => content + token), {
       sovereigntyScore,
       recentPatterns: patterns.slice(0, 5).map(p => p.content)
-    })
+    }, tools)
 
-    const assistantMessage: Message = {
-      id: `assistant-${Date.now()}`,
-      role: 'assistant',
-      content: response,
-      timestamp: Date.now()
+    if (response) {
+      updateReply(() => response)
+    } else {
+      setMessages(prev => prev.filter(m => m.id !== assistantId || m.tools?.length))
     }
+  }
+
+  const decideTool = (callId: string, approved: boolean) => {
+    pendingRef.current.get(callId)?.(approved)
+  }
+
+  // Stopping declines whatever still waits for approval
+  const handleCancel = () => {
+    Array.from(pendingRef.current.values()).forEach(settle => settle(false))
+    cancel()
+  }
 
-    setMessages(prev => [...prev, assistantMessage])
+  // A new conversation starts without the old history or its summary
+  const handleReset = () => {
+    Array.from(pendingRef.current.values()).forEach(settle => settle(false))
+    resetConversation()
+    setMessages([welcomeMessage()])
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -108,15 +316,37 @@ export function CascadeChat() {
               <h3 className="font-medium text-zinc-200">CASCADE AI</h3>
               <p className="text-xs text-zinc-500">Sovereign AI Companion</p>
             </div>
-            <div className="ml-auto flex items-center gap-1">
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => setInspecting(!inspecting)}
+                title="Inspect context"
+                className={`text-xs px-1.5 py-0.5 rounded transition-colors ${
+                  inspecting ? 'bg-cyan-500/20 text-cyan-300' : 'text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                ⧉ Context
+              </button>
+              <button
+                onClick={handleReset}
+                title="New conversation"
+                className="text-xs px-1.5 py-0.5 rounded text-zinc-500 hover:text-zinc-300 transition-colors"
+              >
+                ↺
+              </button>
               <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-              <span className="text-xs text-zinc-500">Online</span>
             </div>
           </div>
 
+          {/* Context inspector */}
+          {inspecting && (
+            <div className="flex-1 overflow-y-auto p-4">
+              <ContextInspector context={context} />
+            </div>
+          )}
+
           {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.map((message) => (
+          <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${inspecting ? 'hidden' : ''}`}>
+            {messages.filter(message => message.content || message.tools?.length).map((message) => (
               <div
                 key={message.id}
                 className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -128,7 +358,10 @@ export function CascadeChat() {
                       : 'bg-zinc-800 text-zinc-200'
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                  {message.tools?.map(card => (
+                    <ToolCallCard key={card.call.id} card={card} onDecide={approved => decideTool(card.call.id, approved)} />
+                  ))}
                   <p className="text-xs text-zinc-500 mt-1">
                     {new Date(message.timestamp).toLocaleTimeString([], { 
                       hour: '2-digit', 
@@ -139,7 +372,7 @@ export function CascadeChat() {
               </div>
             ))}
             
-            {isLoading && (
+            {isLoading && !messages[messages.length - 1]?.content && !messages[messages.length - 1]?.tools?.length && (
               <div className="flex justify-start">
                 <div className="bg-zinc-800 rounded-lg px-4 py-3">
                   <div className="flex gap-1">
@@ -158,6 +391,10 @@ export function CascadeChat() {
               </div>
             )}
             
+            {budgetNotice && (
+              <p className="text-center text-xs text-amber-400">{budgetNotice}</p>
+            )}
+            
             <div ref={messagesEndRef} />
           </div>
 
@@ -173,15 +410,27 @@ export function CascadeChat() {
                 className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-cyan-500"
                 disabled={isLoading}
               />
-              <button
-                onClick={handleSend}
-                disabled={!input.trim() || isLoading}
-                className="px-4 py-2 bg-cyan-500 hover:bg-cyan-400 text-zinc-900 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                </svg>
-              </button>
+              {isStreaming ? (
+                <button
+                  onClick={handleCancel}
+                  title="Stop generating"
+                  className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="6" y="6" width="12" height="12" rx="1" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim() || isLoading}
+                  className="px-4 py-2 bg-cyan-500 hover:bg-cyan-400 text-zinc-900 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                  </svg>
+                </button>
+              )}
             </div>
             <p className="text-xs text-zinc-600 text-center mt-2">
               Sovereignty: {(sovereigntyScore * 100).toFixed(0)}% • Phase-locked partnership
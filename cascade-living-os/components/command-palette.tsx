@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
+import { useUndo } from '@/lib/hooks/use-undo'
 
 // ============================================================================
 // TYPES
@@ -27,6 +28,7 @@ export function CommandPalette() {
   const [selectedIndex, setSelectedIndex] = useState(0)
   const inputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
+  const { status: undoStatus, undo, redo } = useUndo()
   
   // Commands
   const commands: Command[] = [
@@ -59,6 +61,9 @@ export function CommandPalette() {
     { id: 'nav-cycle', label: 'Go to 36-Part Cycle', icon: '🔄', category: 'navigation', action: () => router.push('/cycle') },
     { id: 'nav-agents', label: 'Go to Agents', icon: '🤖', category: 'navigation', action: () => router.push('/agents') },
     { id: 'nav-backup', label: 'Go to Backup', icon: '💾', category: 'navigation', action: () => router.push('/backup') },
+    { id: 'nav-import', label: 'Go to Import', icon: '📥', category: 'navigation', action: () => router.push('/import') },
+    { id: 'nav-audit', label: 'Go to Audit Log', icon: '🧾', category: 'navigation', action: () => router.push('/audit') },
+    { id: 'nav-history', label: 'Go to History', icon: '🕰️', category: 'navigation', action: () => router.push('/history') },
     { id: 'nav-settings', label: 'Go to Settings', icon: '⚙️', category: 'navigation', action: () => router.push('/settings') },
     
     // Actions
@@ -81,6 +86,12 @@ export function CommandPalette() {
     { id: 'lamague-return', label: '⟲ Return', description: 'Complete the cycle', icon: '⟲', category: 'lamague', action: () => {} },
     
     // System
+    ...(undoStatus.undo ? [
+      { id: 'system-undo', label: `Undo: ${undoStatus.undo.label}`, description: 'Revert the last change', icon: '↶', category: 'system' as const, shortcut: 'Z', action: undo }
+    ] : []),
+    ...(undoStatus.redo ? [
+      { id: 'system-redo', label: `Redo: ${undoStatus.redo.label}`, description: 'Reapply the last undone change', icon: '↷', category: 'system' as const, shortcut: '⇧Z', action: redo }
+    ] : []),
     { id: 'system-theme', label: 'Toggle Theme', description: 'Switch dark/light mode', icon: '🌓', category: 'system', action: () => {} },
     { id: 'system-export', label: 'Export Data', description: 'Download your CASCADE state', icon: '📤', category: 'system', action: () => router.push('/backup') },
     { id: 'system-help', label: 'Help & Documentation', description: 'Learn about CASCADE', icon: '❓', category: 'system', action: () => {} },
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, createContext, useContext, useCallback } from 'react'
+import { saveToLocalStorage } from '@/lib/utils'
 
 // ============================================================================
 // TYPES
@@ -67,11 +68,24 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     }
   }, [])
   
-  // Save to localStorage
+  // Follow notifications pushed, read or cleared in other tabs
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-notifications', JSON.stringify(notifications))
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'cascade-notifications' || !event.newValue) return
+      try {
+        setNotifications(JSON.parse(event.newValue))
+      } catch {
+        // Ignore a malformed write
+      }
     }
+    
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+  
+  // Save to localStorage
+  useEffect(() => {
+    saveToLocalStorage('cascade-notifications', notifications)
   }, [notifications])
   
   const push = useCallback((notification: Omit<Notification, 'id' | 'timestamp' | 'read' | 'dismissed'>) => {
@@ -349,16 +363,16 @@ export function ToastContainer() {
   
   // Show new notifications as toasts
   useEffect(() => {
-    const newNotifications = notifications.filter(n => 
+    const recent = notifications.filter(n => 
       !n.read && 
       !n.dismissed && 
-      Date.now() - n.timestamp < 10000 &&
-      !toasts.find(t => t.id === n.id)
+      Date.now() - n.timestamp < 10000
     )
     
-    if (newNotifications.length > 0) {
-      setToasts(prev => [...prev, ...newNotifications].slice(-3))
-    }
+    setToasts(prev => {
+      const newNotifications = recent.filter(n => !prev.find(t => t.id === n.id))
+      return newNotifications.length > 0 ? [...prev, ...newNotifications].slice(-3) : prev
+    })
   }, [notifications])
   
   const removeToast = (id: string) => {
@@ -1,7 +1,13 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useCallback, useEffect } from 'react'
 import { useCASCADEStore } from '@/lib/store/cascade-store'
+import { VaultGate } from '@/components/vault-gate'
+import { startCrossTabState } from '@/lib/store/cross-tab'
+import { joinSyncElection } from '@/lib/sync/engine'
+import { startStorageMonitor } from '@/lib/db/storage-health'
+import { joinRetentionElection } from '@/lib/db/retention'
+import { initializeCASCADELLM, shutdownCASCADELLM } from '@/lib/llm'
 
 interface ProvidersProps {
   children: React.ReactNode
@@ -9,11 +15,30 @@ interface ProvidersProps {
 
 export function Providers({ children }: ProvidersProps) {
   const initialize = useCASCADEStore(state => state.initialize)
-  
-  useEffect(() => {
-    // Initialize store from localStorage on mount
+
+  const handleReady = useCallback(async (unlocked: boolean) => {
+    // Hydration fails while the vault is locked; retry now that the key is loaded
+    if (unlocked) await useCASCADEStore.persist.rehydrate()
+    // Initialize store from IndexedDB
     initialize()
+    // Merge state written by other open tabs
+    startCrossTabState()
+    // Background sync needs decrypted data, so it waits for the vault too
+    joinSyncElection()
+    // Warn before browser storage runs out
+    startStorageMonitor()
+    // Expire records past their retention rules, once a day from one tab
+    joinRetentionElection()
+    // Background agents run in whichever tab wins their election
+    initializeCASCADELLM()
   }, [initialize])
-  
-  return <>{children}</>
+
+  // Stop the agents and hand their election to another tab
+  useEffect(() => shutdownCASCADELLM, [])
+
+  return (
+    <VaultGate onReady={(unlocked) => void handleReady(unlocked)}>
+      {children}
+    </VaultGate>
+  )
 }
@@ -1,21 +1,8 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-type CaptureType = 'thought' | 'task' | 'idea' | 'question' | 'gratitude' | 'microorcim'
-
-interface QuickCapture {
-  id: string
-  type: CaptureType
-  content: string
-  timestamp: number
-  processed: boolean
-  lamague?: string
-}
+import { useCollection } from '@/lib/hooks/use-collection'
+import { CaptureType, QuickCapture } from '@/types/entities'
 
 // ============================================================================
 // QUICK CAPTURE WIDGET
@@ -25,25 +12,10 @@ export function QuickCaptureWidget() {
   const [isOpen, setIsOpen] = useState(false)
   const [type, setType] = useState<CaptureType>('thought')
   const [content, setContent] = useState('')
-  const [captures, setCaptures] = useState<QuickCapture[]>([])
+  const [captures, setCaptures] = useCollection<QuickCapture>('quick-captures', { sort: (a, b) => b.timestamp - a.timestamp })
   const [showHistory, setShowHistory] = useState(false)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   
-  // Load from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-quick-captures')
-      if (saved) setCaptures(JSON.parse(saved))
-    }
-  }, [])
-  
-  // Save to localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('cascade-quick-captures', JSON.stringify(captures))
-    }
-  }, [captures])
-  
   // Keyboard shortcut to open (Cmd/Ctrl + .)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -283,14 +255,7 @@ export function QuickCaptureWidget() {
 // ============================================================================
 
 export function InboxView() {
-  const [captures, setCaptures] = useState<QuickCapture[]>([])
-  
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('cascade-quick-captures')
-      if (saved) setCaptures(JSON.parse(saved))
-    }
-  }, [])
+  const [captures, setCaptures] = useCollection<QuickCapture>('quick-captures', { sort: (a, b) => b.timestamp - a.timestamp })
   
   const unprocessed = captures.filter(c => !c.processed)
   
@@ -299,7 +264,6 @@ export function InboxView() {
       c.id === id ? { ...c, processed: true } : c
     )
     setCaptures(updated)
-    localStorage.setItem('cascade-quick-captures', JSON.stringify(updated))
   }
   
   const typeConfig: Record<CaptureType, { icon: string; color: string }> = {
@@ -0,0 +1,35 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useNotifications } from '@/components/notifications'
+import { StorageLevel, onStorageHealth } from '@/lib/db/storage-health'
+
+// ============================================================================
+// STORAGE WARNINGS
+// ============================================================================
+
+/**
+ * Turns storage health checks into notifications, once per escalation
+ */
+export function StorageWarnings() {
+  const { push } = useNotifications()
+  const notified = useRef<StorageLevel>('ok')
+  
+  useEffect(() => onStorageHealth(health => {
+    const escalated = health.level === 'critical'
+      ? notified.current !== 'critical'
+      : health.level === 'warning' && notified.current === 'ok'
+    notified.current = health.level
+    if (!escalated) return
+    
+    push({
+      type: health.level === 'critical' ? 'error' : 'warning',
+      title: health.level === 'critical' ? 'Storage almost full' : 'Storage filling up',
+      message: `${health.messages.join('. ')}. Archive old records or compact storage to free space.`,
+      source: 'storage',
+      action: { label: 'Manage storage', href: '/backup' }
+    })
+  }), [push])
+  
+  return null
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useUndo } from '@/lib/hooks/use-undo'
+
+// ============================================================================
+// UNDO SHORTCUTS
+// ============================================================================
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes store changes.
+ * Text fields keep their own undo.
+ */
+export function UndoShortcuts() {
+  const { undo, redo } = useUndo()
+  
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || isEditable(e.target)) return
+      const key = e.key.toLowerCase()
+      
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+  
+  return null
+}
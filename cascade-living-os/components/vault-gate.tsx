@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import {
+  VaultStatus,
+  VaultError,
+  getVaultStatus,
+  onVaultChange,
+  unlockVault,
+  touchVault
+} from '@/lib/db/vault'
+
+// User input that counts as activity for the idle lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const
+
+interface VaultGateProps {
+  children: React.ReactNode
+  // Called once the vault is disabled or unlocked, with whether a key was just entered
+  onReady: (unlocked: boolean) => void
+}
+
+// ============================================================================
+// VAULT GATE
+// ============================================================================
+
+/**
+ * Shows an unlock screen instead of the app while the vault is locked.
+ *
+ * Locking after the app was unlocked reloads the page, which is the only
+ * reliable way to drop every decrypted copy held in React and zustand state.
+ */
+export function VaultGate({ children, onReady }: VaultGateProps) {
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+  const wasUnlocked = useRef(false)
+  const onReadyRef = useRef(onReady)
+  onReadyRef.current = onReady
+
+  useEffect(() => {
+    let cancelled = false
+
+    getVaultStatus()
+      .then(initial => {
+        if (cancelled) return
+        setStatus(initial)
+        if (initial === 'disabled') onReadyRef.current(false)
+      })
+      .catch(error => {
+        console.error('Failed to read vault status:', error)
+        if (!cancelled) {
+          setStatus('disabled')
+          onReadyRef.current(false)
+        }
+      })
+
+    const unsubscribe = onVaultChange(next => {
+      if (next === 'locked' && wasUnlocked.current) {
+        window.location.reload()
+        return
+      }
+      wasUnlocked.current = next === 'unlocked'
+      setStatus(next)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  // Reset the idle timer on user activity
+  useEffect(() => {
+    if (status !== 'unlocked') return
+
+    let last = 0
+    const handleActivity = () => {
+      const now = Date.now()
+      if (now - last < 5000) return
+      last = now
+      void touchVault()
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+    }
+  }, [status])
+
+  if (status === 'locked') {
+    return (
+      <UnlockScreen
+        onUnlocked={() => {
+          wasUnlocked.current = true
+          onReadyRef.current(true)
+        }}
+      />
+    )
+  }
+
+  return <>{children}</>
+}
+
+// ============================================================================
+// UNLOCK SCREEN
+// ============================================================================
+
+function UnlockScreen({ onUnlocked }: { onUnlocked: () => void }) {
+  const [passphrase, setPassphrase] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+
+    setUnlocking(true)
+    setError(null)
+    try {
+      await unlockVault(passphrase)
+      onUnlocked()
+    } catch (err) {
+      setError(err instanceof VaultError ? err.message : 'Could not unlock the vault')
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8">
+      <form onSubmit={handleUnlock} className="cascade-card p-8 w-full max-w-sm text-center">
+        <span className="text-4xl mb-4 block">🔐</span>
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">CASCADE is locked</h1>
+        <p className="text-sm text-zinc-500 mb-6">Enter your vault passphrase to decrypt your data.</p>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-4 py-2 mb-3 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-200 focus:outline-none focus:border-cyan-500"
+        />
+
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          className="w-full py-2 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 disabled:opacity-50 transition-colors"
+        >
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  )
+}
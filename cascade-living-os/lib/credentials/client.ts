@@ -0,0 +1,78 @@
+// CASCADE Living OS - Credentials Client
+// Browser side of the server-held provider keys: sessions, key status, updates
+
+import { getDocument, putDocument } from '@/lib/db/repository'
+import { DOCUMENTS } from '@/lib/db/schema'
+import {
+  CREDENTIAL_NAMES,
+  CredentialStatus,
+  CredentialUpdate,
+  CredentialsResponse,
+  SessionResponse
+} from './protocol'
+
+export class CredentialsError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'CredentialsError'
+  }
+}
+
+async function request<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+  // The session cookie is HttpOnly: sent along, never readable here
+  const response = await fetch(url, {
+    method,
+    credentials: 'same-origin',
+    ...(body !== undefined ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {})
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new CredentialsError(data.error || `Request failed (${response.status})`, response.status)
+  return data as T
+}
+
+export function getSession(): Promise<SessionResponse> {
+  return request<SessionResponse>('/api/credentials/session')
+}
+
+export function signIn(password: string): Promise<SessionResponse> {
+  return request<SessionResponse>('/api/credentials/session', 'POST', { password })
+}
+
+export function signOut(): Promise<SessionResponse> {
+  return request<SessionResponse>('/api/credentials/session', 'DELETE')
+}
+
+export async function getCredentialStatus(): Promise<CredentialStatus[]> {
+  return (await request<CredentialsResponse>('/api/credentials')).credentials
+}
+
+export async function saveCredentials(update: CredentialUpdate): Promise<CredentialStatus[]> {
+  return (await request<CredentialsResponse>('/api/credentials', 'PUT', update)).credentials
+}
+
+/**
+ * Move keys that earlier versions kept in the LLM config to the server,
+ * then drop them from the browser. Without a session they stay put until
+ * the next try.
+ */
+export async function migrateBrowserKeys(): Promise<void> {
+  const config = await getDocument<Record<string, unknown>>(DOCUMENTS.LLM_CONFIG.key)
+  if (!config) return
+
+  const update: CredentialUpdate = {}
+  for (const name of CREDENTIAL_NAMES) {
+    const key = config[`${name}Key`]
+    if (typeof key === 'string' && key.trim()) update[name] = key
+  }
+  if (Object.keys(update).length === 0 && !CREDENTIAL_NAMES.some(name => `${name}Key` in config)) return
+
+  if (Object.keys(update).length > 0) {
+    const session = await getSession()
+    if (!session.authenticated) return
+    await saveCredentials(update)
+  }
+
+  const rest = { ...config }
+  CREDENTIAL_NAMES.forEach(name => delete rest[`${name}Key`])
+  await putDocument(DOCUMENTS.LLM_CONFIG.key, rest)
+}
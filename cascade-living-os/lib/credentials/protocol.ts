@@ -0,0 +1,46 @@
+// CASCADE Living OS - Credentials Protocol
+// Wire format shared by the settings page and the credentials routes
+
+/**
+ * Providers whose API keys the server holds
+ */
+export type CredentialName = 'anthropic' | 'gemini' | 'openai'
+
+export const CREDENTIAL_NAMES: CredentialName[] = ['anthropic', 'gemini', 'openai']
+
+// HttpOnly cookie holding the opaque session token; scripts never see it
+export const SESSION_COOKIE = 'cascade-session'
+
+export type CredentialErrorCode = 'bad_request' | 'unauthorized' | 'forbidden' | 'unavailable'
+
+/**
+ * Whether a key is set and where it comes from; never the key itself
+ */
+export interface CredentialStatus {
+  name: CredentialName
+  configured: boolean
+  source: 'store' | 'env' | null   // a stored key wins over the environment
+  updatedAt: number | null         // when the stored key was last set
+}
+
+export interface CredentialsResponse {
+  credentials: CredentialStatus[]
+}
+
+export interface SessionResponse {
+  authenticated: boolean
+  passwordConfigured: boolean      // CASCADE_SETTINGS_PASSWORD is set; no sessions without it
+  expiresAt: number | null
+}
+
+/**
+ * Keys to set; null removes a stored key, a missing name leaves it alone
+ */
+export type CredentialUpdate = Partial<Record<CredentialName, string | null>>
+
+export function isCredentialUpdate(value: unknown): value is CredentialUpdate {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.entries(value as Record<string, unknown>).every(([name, key]) =>
+    CREDENTIAL_NAMES.includes(name as CredentialName) && (key === null || typeof key === 'string')
+  )
+}
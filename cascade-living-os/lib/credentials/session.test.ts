@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { SESSION_COOKIE } from './protocol'
+import {
+  SESSION_TTL_MS,
+  checkPassword,
+  createSession,
+  endSession,
+  originProblem,
+  passwordConfigured,
+  sessionExpiry
+} from './session'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+function withCookie(token: string, headers: Record<string, string> = {}): Headers {
+  return new Headers({ ...headers, cookie: `theme=dark; ${SESSION_COOKIE}=${token}` })
+}
+
+describe('passwords', () => {
+  it('accepts no password while none is configured', () => {
+    vi.stubEnv('CASCADE_SETTINGS_PASSWORD', '')
+
+    expect(passwordConfigured()).toBe(false)
+    expect(checkPassword(undefined)).toBe(false)
+    expect(checkPassword('')).toBe(false)
+  })
+
+  it('accepts only the configured password', () => {
+    vi.stubEnv('CASCADE_SETTINGS_PASSWORD', 'open sesame')
+
+    expect(passwordConfigured()).toBe(true)
+    expect(checkPassword('open sesame')).toBe(true)
+    expect(checkPassword('open sesame ')).toBe(false)
+    expect(checkPassword(42)).toBe(false)
+  })
+})
+
+describe('sessions', () => {
+  it('recognizes a session token until it expires or ends', () => {
+    const { token, expiresAt } = createSession(1000)
+
+    expect(expiresAt).toBe(1000 + SESSION_TTL_MS)
+    expect(sessionExpiry(withCookie(token), 2000)).toBe(expiresAt)
+    expect(sessionExpiry(withCookie('forged'), 2000)).toBeNull()
+    expect(sessionExpiry(withCookie(token), expiresAt)).toBeNull()
+
+    const second = createSession(Date.now())
+    endSession(withCookie(second.token))
+    expect(sessionExpiry(withCookie(second.token))).toBeNull()
+  })
+})
+
+describe('originProblem', () => {
+  it('allows the server origin and configured extra origins', () => {
+    vi.stubEnv('CASCADE_ALLOWED_ORIGINS', 'https://cascade.example.com')
+
+    expect(originProblem(new Headers({ origin: 'http://localhost:3000', host: 'localhost:3000' }))).toBeNull()
+    expect(originProblem(new Headers({ origin: 'https://cascade.example.com', host: 'internal:3000' }))).toBeNull()
+    expect(originProblem(new Headers({
+      origin: 'https://proxy.example.com',
+      host: 'internal:3000',
+      'x-forwarded-host': 'proxy.example.com'
+    }))).toBeNull()
+  })
+
+  it('refuses other origins', () => {
+    expect(originProblem(new Headers({ origin: 'https://evil.example', host: 'localhost:3000' }))).toMatch(/not allowed/)
+    expect(originProblem(new Headers({ origin: 'null', host: 'localhost:3000' }))).toMatch(/Malformed/)
+    expect(originProblem(new Headers({ 'sec-fetch-site': 'cross-site', host: 'localhost:3000' }))).toMatch(/Cross-site/)
+  })
+
+  it('needs Origin or Sec-Fetch-Site from requests that carry a session', () => {
+    expect(originProblem(withCookie('token', { 'sec-fetch-site': 'same-origin' }))).toBeNull()
+    expect(originProblem(withCookie('token'))).toMatch(/must say where they come from/)
+    // Without a session the request reaches no stored credentials
+    expect(originProblem(new Headers())).toBeNull()
+  })
+})
@@ -0,0 +1,99 @@
+// CASCADE Living OS - Credential Sessions
+// Opaque session tokens and origin checks for the credentials routes (Node only)
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { SESSION_COOKIE } from './protocol'
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+// Digest of each live token -> when it expires; the tokens themselves are not kept
+const sessions = new Map<string, number>()
+
+function digest(text: string): Buffer {
+  return createHash('sha256').update(text).digest()
+}
+
+function readCookie(headers: Headers, name: string): string | undefined {
+  for (const part of (headers.get('cookie') ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return value.join('=')
+  }
+  return undefined
+}
+
+/**
+ * CASCADE_SETTINGS_PASSWORD - a session needs it. Until it is set no
+ * sessions are handed out, so stored keys are neither used nor managed.
+ */
+export function passwordConfigured(): boolean {
+  return !!process.env.CASCADE_SETTINGS_PASSWORD
+}
+
+export function checkPassword(password: unknown): boolean {
+  const expected = process.env.CASCADE_SETTINGS_PASSWORD
+  if (!expected) return false
+  // Equal-length digests, so the comparison takes the same time either way
+  return typeof password === 'string' && timingSafeEqual(digest(password), digest(expected))
+}
+
+export function createSession(now: number = Date.now()): { token: string; expiresAt: number } {
+  sessions.forEach((expiresAt, key) => {
+    if (expiresAt <= now) sessions.delete(key)
+  })
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = now + SESSION_TTL_MS
+  sessions.set(digest(token).toString('hex'), expiresAt)
+  return { token, expiresAt }
+}
+
+/**
+ * When the request's session expires, or null without a live one
+ */
+export function sessionExpiry(headers: Headers, now: number = Date.now()): number | null {
+  const token = readCookie(headers, SESSION_COOKIE)
+  if (!token) return null
+  const key = digest(token).toString('hex')
+  const expiresAt = sessions.get(key)
+  if (expiresAt === undefined) return null
+  if (expiresAt <= now) {
+    sessions.delete(key)
+    return null
+  }
+  return expiresAt
+}
+
+export function endSession(headers: Headers): void {
+  const token = readCookie(headers, SESSION_COOKIE)
+  if (token) sessions.delete(digest(token).toString('hex'))
+}
+
+/**
+ * Why a request may not act on stored credentials, or null if it may.
+ * Browsers send Origin with every POST and cross-origin request, and
+ * Sec-Fetch-Site with every request; a page elsewhere cannot fake either.
+ * A request with neither passes only without a session cookie, as it
+ * then reaches no stored credentials. CASCADE_ALLOWED_ORIGINS adds
+ * origins (comma-separated) besides the server's own, e.g. behind a proxy
+ * that rewrites Host.
+ */
+export function originProblem(headers: Headers): string | null {
+  const site = headers.get('sec-fetch-site')
+  if (site === 'cross-site') return 'Cross-site requests are not allowed'
+
+  const origin = headers.get('origin')
+  if (!origin) {
+    // Same-origin GETs carry no Origin; Sec-Fetch-Site vouches for them instead
+    if (site === 'same-origin' || !readCookie(headers, SESSION_COOKIE)) return null
+    return 'Requests with a session must say where they come from'
+  }
+
+  let host: string
+  try {
+    host = new URL(origin).host
+  } catch {
+    return 'Malformed Origin header'
+  }
+  const allowed = (process.env.CASCADE_ALLOWED_ORIGINS ?? '').split(',').map(entry => entry.trim()).filter(Boolean)
+  if (host === (headers.get('x-forwarded-host') || headers.get('host')) || allowed.includes(origin)) return null
+  return `Origin ${origin} is not allowed`
+}
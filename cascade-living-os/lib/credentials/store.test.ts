@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CredentialStore, CredentialStoreError } from './store'
+
+const SECRET = 'correct horse battery staple'
+const ANTHROPIC_KEY = 'sk-ant-test-0123456789'
+
+let dir: string
+let file: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cascade-credentials-'))
+  file = path.join(dir, 'credentials.json')
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('CredentialStore', () => {
+  it('stores keys encrypted and hands them back', async () => {
+    const store = new CredentialStore(file, SECRET, {})
+    await store.update({ anthropic: ANTHROPIC_KEY })
+
+    expect(await store.get('anthropic')).toBe(ANTHROPIC_KEY)
+    expect(await fs.readFile(file, 'utf8')).not.toContain(ANTHROPIC_KEY)
+    expect(await new CredentialStore(file, SECRET, {}).get('anthropic')).toBe(ANTHROPIC_KEY)
+  })
+
+  it('keeps only the store file on disk', async () => {
+    await new CredentialStore(file, SECRET, {}).update({ anthropic: ANTHROPIC_KEY })
+
+    expect(await fs.readdir(dir)).toEqual(['credentials.json'])
+  })
+
+  it('reports where each key comes from, never the key', async () => {
+    const store = new CredentialStore(file, SECRET, { GEMINI_API_KEY: 'env-gemini' })
+    await store.update({ anthropic: ANTHROPIC_KEY })
+
+    const status = await store.status()
+
+    expect(status).toEqual([
+      { name: 'anthropic', configured: true, source: 'store', updatedAt: expect.any(Number) },
+      { name: 'gemini', configured: true, source: 'env', updatedAt: null },
+      { name: 'openai', configured: false, source: null, updatedAt: null }
+    ])
+    expect(JSON.stringify(status)).not.toContain(ANTHROPIC_KEY)
+  })
+
+  it('prefers a stored key to the environment and falls back once it is removed', async () => {
+    const store = new CredentialStore(file, SECRET, { OPENAI_API_KEY: 'env-openai' })
+
+    await store.update({ openai: 'stored-openai' })
+    expect(await store.get('openai')).toBe('stored-openai')
+
+    await store.update({ openai: null })
+    expect(await store.get('openai')).toBe('env-openai')
+  })
+
+  it('leaves keys missing from an update alone', async () => {
+    const store = new CredentialStore(file, SECRET, {})
+    await store.update({ anthropic: ANTHROPIC_KEY })
+
+    await store.update({ gemini: 'gemini-key' })
+
+    expect(await store.get('anthropic')).toBe(ANTHROPIC_KEY)
+    expect(await store.get('gemini')).toBe('gemini-key')
+  })
+
+  it('refuses to store keys without CASCADE_CREDENTIALS_KEY', async () => {
+    const store = new CredentialStore(file, undefined, { ANTHROPIC_API_KEY: 'env-anthropic' })
+
+    await expect(store.update({ anthropic: ANTHROPIC_KEY })).rejects.toThrow(CredentialStoreError)
+    await expect(fs.access(file)).rejects.toThrow()
+    expect(await store.get('anthropic')).toBe('env-anthropic')
+  })
+
+  it('cannot open keys with a different secret', async () => {
+    await new CredentialStore(file, SECRET, {}).update({ anthropic: ANTHROPIC_KEY })
+
+    await expect(new CredentialStore(file, 'another secret', {}).get('anthropic')).rejects.toThrow(CredentialStoreError)
+  })
+
+  it('binds each sealed key to its provider', async () => {
+    await new CredentialStore(file, SECRET, {}).update({ anthropic: ANTHROPIC_KEY })
+    const data = JSON.parse(await fs.readFile(file, 'utf8'))
+    data.keys.openai = data.keys.anthropic
+    await fs.writeFile(file, JSON.stringify(data))
+
+    await expect(new CredentialStore(file, SECRET, {}).get('openai')).rejects.toThrow(CredentialStoreError)
+  })
+})
@@ -0,0 +1,178 @@
+// CASCADE Living OS - Credential Store
+// Encrypted, file-backed provider keys behind the credentials routes (Node only)
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CREDENTIAL_NAMES, CredentialName, CredentialStatus, CredentialUpdate } from './protocol'
+
+// Environment variables the gateway has always read; a stored key wins
+export const CREDENTIAL_ENV: Record<CredentialName, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY'
+}
+
+const KEY_BYTES = 32
+const IV_BYTES = 12
+
+export class CredentialStoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CredentialStoreError'
+  }
+}
+
+interface SealedKey {
+  iv: string   // base64
+  tag: string
+  data: string
+  updatedAt: number
+}
+
+interface StoreData {
+  version: 1
+  salt: string // for a master key derived from CASCADE_CREDENTIALS_KEY
+  keys: Partial<Record<CredentialName, SealedKey>>
+}
+
+/**
+ * Provider keys sealed with AES-256-GCM, each bound to its provider name.
+ * The master key is derived from `secret` (CASCADE_CREDENTIALS_KEY), which
+ * never sits on disk next to the store; without it nothing can be stored
+ * and only environment keys are served. Keys never leave the server:
+ * callers get their status, and the gateway the plaintext.
+ */
+export class CredentialStore {
+  private data: StoreData | null = null
+  private masterKey: Buffer | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private readonly file: string,
+    private readonly secret?: string,
+    private readonly env: Record<string, string | undefined> = process.env
+  ) {}
+
+  async status(): Promise<CredentialStatus[]> {
+    const data = await this.load()
+    return CREDENTIAL_NAMES.map(name => {
+      const sealed = data.keys[name]
+      const fromEnv = !!this.env[CREDENTIAL_ENV[name]]
+      return {
+        name,
+        configured: !!sealed || fromEnv,
+        source: sealed ? 'store' : fromEnv ? 'env' : null,
+        updatedAt: sealed?.updatedAt ?? null
+      }
+    })
+  }
+
+  /**
+   * The key for a provider: stored, else from the environment
+   */
+  async get(name: CredentialName): Promise<string | undefined> {
+    const sealed = (await this.load()).keys[name]
+    return sealed ? this.open(name, sealed, await this.key()) : this.env[CREDENTIAL_ENV[name]] || undefined
+  }
+
+  /**
+   * Set or remove keys. Updates are applied one at a time.
+   */
+  update(changes: CredentialUpdate): Promise<CredentialStatus[]> {
+    const result = this.queue.then(() => this.apply(changes))
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async apply(changes: CredentialUpdate): Promise<CredentialStatus[]> {
+    const data = await this.load()
+    // Removing keys needs no master key; setting one does, before anything changes
+    const key = Object.values(changes).some(value => value?.trim()) ? await this.key() : null
+    for (const name of CREDENTIAL_NAMES) {
+      const value = changes[name]
+      if (value === undefined) continue
+      if (value === null || !value.trim() || !key) delete data.keys[name]
+      else data.keys[name] = this.seal(name, value.trim(), key)
+    }
+    await this.save(data)
+    return this.status()
+  }
+
+  // ============================================================================
+  // CRYPTO
+  // ============================================================================
+
+  private seal(name: CredentialName, value: string, key: Buffer): SealedKey {
+    const iv = randomBytes(IV_BYTES)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    cipher.setAAD(Buffer.from(name))
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+      updatedAt: Date.now()
+    }
+  }
+
+  private open(name: CredentialName, sealed: SealedKey, key: Buffer): string {
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'))
+      decipher.setAAD(Buffer.from(name))
+      decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'))
+      return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8')
+    } catch {
+      throw new CredentialStoreError(`The stored ${name} key cannot be decrypted; was the master key changed?`)
+    }
+  }
+
+  private async key(): Promise<Buffer> {
+    if (this.masterKey) return this.masterKey
+    if (!this.secret) throw new CredentialStoreError('Set CASCADE_CREDENTIALS_KEY on the server to store provider keys')
+
+    const { salt } = await this.load()
+    this.masterKey = scryptSync(this.secret, Buffer.from(salt, 'base64'), KEY_BYTES)
+    return this.masterKey
+  }
+
+  // ============================================================================
+  // FILE
+  // ============================================================================
+
+  private async load(): Promise<StoreData> {
+    if (this.data) return this.data
+
+    try {
+      this.data = JSON.parse(await fs.readFile(this.file, 'utf8')) as StoreData
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      this.data = { version: 1, salt: randomBytes(16).toString('base64'), keys: {} }
+    }
+    return this.data
+  }
+
+  private async save(data: StoreData): Promise<void> {
+    // Write then rename, so a crash never leaves a truncated store
+    const temp = `${this.file}.tmp`
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    await fs.writeFile(temp, JSON.stringify(data, null, 2), { mode: 0o600 })
+    await fs.rename(temp, this.file)
+  }
+}
+
+let storeInstance: CredentialStore | null = null
+
+/**
+ * CASCADE_CREDENTIALS_FILE - store location (default .cascade-credentials/credentials.json)
+ * CASCADE_CREDENTIALS_KEY  - master key secret; required to store keys
+ */
+export function getCredentialStore(): CredentialStore {
+  if (!storeInstance) {
+    storeInstance = new CredentialStore(
+      process.env.CASCADE_CREDENTIALS_FILE || path.join(process.cwd(), '.cascade-credentials', 'credentials.json'),
+      process.env.CASCADE_CREDENTIALS_KEY || undefined
+    )
+  }
+  return storeInstance
+}
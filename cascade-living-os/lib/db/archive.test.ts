@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from './testing'
+
+interface Goal {
+  id: string
+  title: string
+  updatedAt: number
+}
+
+const GOAL: Goal = { id: 'goal-1', title: 'Run a marathon', updatedAt: 10 }
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+async function archiveWith(goals: Goal[]) {
+  const { putMany } = await import('./repository')
+  const { createArchive, parseArchive } = await import('./archive')
+  await putMany('goals', goals)
+  // Round-trip through the file format, as a download and upload would
+  return parseArchive(JSON.stringify(await createArchive()))
+}
+
+describe('verifyArchive', () => {
+  it('accepts an archive as written', async () => {
+    const archive = await archiveWith([GOAL])
+    const { verifyArchive } = await import('./archive')
+
+    const verification = await verifyArchive(archive)
+
+    expect(verification.ok).toBe(true)
+    expect(verification.sections.find(s => s.id === 'goals')).toMatchObject({ count: 1, countMatches: true, checksumMatches: true })
+  })
+
+  it('reports sections that were edited or removed', async () => {
+    const archive = await archiveWith([GOAL])
+    const { verifyArchive } = await import('./archive')
+    archive.data.goals = [{ ...GOAL, title: 'Walk a marathon' }]
+    delete archive.data.documents
+
+    const verification = await verifyArchive(archive)
+
+    expect(verification.ok).toBe(false)
+    expect(verification.errors).toEqual(['Goals: checksum mismatch', 'Documents: missing from archive'])
+  })
+
+  it('refuses to restore a damaged section', async () => {
+    const archive = await archiveWith([GOAL])
+    const { restoreArchive, ArchiveError } = await import('./archive')
+    archive.data.goals = []
+
+    await expect(restoreArchive(archive, { sections: ['goals'], strategy: 'newer' })).rejects.toThrow(ArchiveError)
+  })
+})
+
+describe('parseArchive', () => {
+  it('converts a legacy export into checksummed sections', async () => {
+    const { parseArchive, verifyArchive } = await import('./archive')
+
+    const archive = await parseArchive(JSON.stringify({ 'cascade-goals': [GOAL], 'cascade-user': { name: 'Sam' } }))
+
+    expect(archive.manifest.source).toBe('legacy-export')
+    expect(archive.data).toEqual({ goals: [GOAL], local: { 'cascade-user': { name: 'Sam' } } })
+    expect((await verifyArchive(archive)).ok).toBe(true)
+  })
+
+  it('rejects files that are not backups', async () => {
+    const { parseArchive } = await import('./archive')
+
+    await expect(parseArchive('not json')).rejects.toThrow('not valid JSON')
+    await expect(parseArchive('{"settings": {}}')).rejects.toThrow('not a CASCADE backup')
+  })
+})
+
+describe('restoreArchive', () => {
+  const archived = [{ ...GOAL, title: 'Run an ultra', updatedAt: 20 }, { id: 'goal-2', title: 'Read more', updatedAt: 5 }]
+
+  async function restoreOver(local: Goal[], strategy: 'newer' | 'both' | 'overwrite') {
+    const archive = await archiveWith(archived)
+    const { replaceAll, getAll } = await import('./repository')
+    const { restoreArchive } = await import('./archive')
+    await replaceAll('goals', local)
+
+    const [result] = await restoreArchive(archive, { sections: ['goals'], strategy })
+    const goals = await getAll<Goal>('goals')
+    return { result, goals: goals.sort((a, b) => a.id.localeCompare(b.id)) }
+  }
+
+  it('keeps the newer copy of each entity', async () => {
+    const { result, goals } = await restoreOver([{ ...GOAL, updatedAt: 30 }], 'newer')
+
+    expect(result).toMatchObject({ added: 1, updated: 0, skipped: 1 })
+    expect(goals.map(goal => goal.title)).toEqual(['Run a marathon', 'Read more'])
+  })
+
+  it('keeps both copies under separate keys', async () => {
+    const { result, goals } = await restoreOver([GOAL], 'both')
+
+    expect(result).toMatchObject({ added: 1, duplicated: 1 })
+    expect(goals.map(goal => goal.id)).toEqual(['goal-1', 'goal-1-restored', 'goal-2'])
+    expect(goals[1].title).toBe('Run an ultra')
+  })
+
+  it('lets the archive win on overwrite', async () => {
+    const { result, goals } = await restoreOver([{ ...GOAL, updatedAt: 30 }], 'overwrite')
+
+    expect(result).toMatchObject({ added: 1, updated: 1 })
+    expect(goals.map(goal => goal.title)).toEqual(['Run an ultra', 'Read more'])
+  })
+})
@@ -0,0 +1,546 @@
+// CASCADE Living OS - Backup Archives
+// Self-verifying exports of every store, with selective merge-restore
+
+import { CASCADEState } from '@/types/cascade'
+import { CURRENT_STATE_VERSION } from '@/lib/store/migrations'
+import {
+  DB_VERSION,
+  ENTITY_STORES,
+  ENTITY_STORE_NAMES,
+  EntityStoreName,
+  DOCUMENTS,
+  DocumentKey,
+  PERSISTED_STATE_KEY,
+  LIVING_MEMORY_KEY
+} from './schema'
+import {
+  getAll,
+  putMany,
+  replaceAll,
+  getEntityKey,
+  getEntityTimestamp,
+  getDocument,
+  putDocument,
+  removeDocument,
+  EntityKey
+} from './repository'
+import { createIndexedDBStorage } from './state-storage'
+import { exportHistory, importHistory, HistoryEntry } from './state-history'
+import { deepEqual } from './json-patch'
+import { readColdEntities, clearColdStorage } from './cold-storage'
+import { clearAuditLog } from './audit'
+
+export const ARCHIVE_FORMAT = 'cascade-archive'
+export const ARCHIVE_VERSION = 1
+
+// Settings and caches that still live in localStorage
+export const LOCAL_ARCHIVE_KEYS = [
+  'cascade-user',
+  'cascade-onboarding',
+  'cascade-notifications'
+]
+
+export type SectionKind = 'entities' | 'documents' | 'state' | 'history' | 'local'
+
+export interface SectionManifest {
+  kind: SectionKind
+  label: string
+  count: number
+  sha256: string
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  formatVersion: number
+  createdAt: string
+  schemaVersion: number // IndexedDB DB_VERSION of the exporting build
+  stateVersion: string  // CASCADEState schema version of the exporting build
+  source: 'archive' | 'legacy-export'
+  sections: Record<string, SectionManifest>
+}
+
+export interface BackupArchive {
+  manifest: ArchiveManifest
+  data: Record<string, unknown>
+}
+
+/**
+ * How restored entities are merged with entities that share their key:
+ * - newer: keep whichever has the later updatedAt (or timestamp/createdAt)
+ * - both: keep the local entity and add the archived one under a new key
+ * - overwrite: the archived entity replaces the local one
+ */
+export type MergeStrategy = 'newer' | 'both' | 'overwrite'
+
+export interface SectionVerification {
+  id: string
+  label: string
+  kind: SectionKind
+  count: number
+  present: boolean
+  countMatches: boolean
+  checksumMatches: boolean
+}
+
+export interface ArchiveVerification {
+  ok: boolean
+  errors: string[]
+  sections: SectionVerification[]
+}
+
+export interface SectionRestoreResult {
+  id: string
+  added: number
+  updated: number
+  duplicated: number
+  skipped: number
+  note?: string
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArchiveError'
+  }
+}
+
+const SECTION_LABELS: Record<Exclude<SectionKind, 'entities'>, string> = {
+  documents: 'Documents',
+  state: 'CASCADE State',
+  history: 'State History',
+  local: 'Local Settings'
+}
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+/**
+ * JSON with object keys sorted, so equal data always hashes the same
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+async function sha256(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJSON(value)))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+function sectionKind(id: string): SectionKind | null {
+  if (id in ENTITY_STORES) return 'entities'
+  if (id === 'documents' || id === 'state' || id === 'history' || id === 'local') return id
+  return null
+}
+
+function sectionLabel(id: string, kind: SectionKind): string {
+  if (kind !== 'entities') return SECTION_LABELS[kind]
+  return id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+}
+
+function sectionCount(kind: SectionKind, value: unknown): number {
+  if (value === null || value === undefined) return 0
+  if (kind === 'state') return 1
+  if (Array.isArray(value)) return value.length
+  return typeof value === 'object' ? Object.keys(value).length : 0
+}
+
+async function buildManifest(
+  data: Record<string, unknown>,
+  source: ArchiveManifest['source']
+): Promise<ArchiveManifest> {
+  const sections: Record<string, SectionManifest> = {}
+
+  for (const [id, value] of Object.entries(data)) {
+    const kind = sectionKind(id)
+    if (!kind) continue
+    sections[id] = {
+      kind,
+      label: sectionLabel(id, kind),
+      count: sectionCount(kind, value),
+      sha256: await sha256(value)
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: DB_VERSION,
+    stateVersion: CURRENT_STATE_VERSION,
+    source,
+    sections
+  }
+}
+
+async function readPersistedState(): Promise<CASCADEState | null> {
+  const stored = await createIndexedDBStorage<CASCADEState>()?.getItem(PERSISTED_STATE_KEY)
+  return stored?.state ?? null
+}
+
+function readLocal(): Record<string, unknown> {
+  const local: Record<string, unknown> = {}
+  for (const key of LOCAL_ARCHIVE_KEYS) {
+    const raw = localStorage.getItem(key)
+    if (raw === null) continue
+    try {
+      local[key] = JSON.parse(raw)
+    } catch {
+      local[key] = raw
+    }
+  }
+  return local
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Snapshot every store into an archive with a checksummed manifest
+ */
+export async function createArchive(): Promise<BackupArchive> {
+  const data: Record<string, unknown> = {}
+  const cold = await readColdEntities()
+
+  // Archived records are included, so restoring brings them back live
+  for (const store of ENTITY_STORE_NAMES) {
+    const live = await getAll(store)
+    const liveKeys = new Set(live.map(entity => JSON.stringify(getEntityKey(store, entity))))
+    const archived = (cold[store] ?? []).filter(entity => !liveKeys.has(JSON.stringify(getEntityKey(store, entity))))
+    data[store] = [...live, ...archived]
+  }
+
+  const documents: Record<string, unknown> = {}
+  for (const { key } of Object.values(DOCUMENTS)) {
+    const value = await getDocument(key)
+    if (value !== undefined) documents[key] = value
+  }
+  data.documents = documents
+
+  data.state = await readPersistedState()
+  data.history = await exportHistory()
+  data.local = readLocal()
+
+  return { manifest: await buildManifest(data, 'archive'), data }
+}
+
+/**
+ * Convert a pre-archive export (entity arrays under their legacy
+ * localStorage keys) so it can be verified and restored the same way
+ */
+async function fromLegacyExport(legacy: Record<string, unknown>): Promise<BackupArchive> {
+  const data: Record<string, unknown> = {}
+  const documents: Record<string, unknown> = {}
+  const local: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(legacy)) {
+    const store = ENTITY_STORE_NAMES.find(name => {
+      const schema = ENTITY_STORES[name]
+      return 'legacyKey' in schema && schema.legacyKey === key
+    })
+    const document = Object.values(DOCUMENTS).find(doc => 'legacyKey' in doc && doc.legacyKey === key)
+
+    if (store) {
+      if (Array.isArray(value)) data[store] = value
+    } else if (key === LIVING_MEMORY_KEY) {
+      const living = (value ?? {}) as { memories?: unknown; consolidations?: unknown }
+      if (Array.isArray(living.memories)) data.memories = living.memories
+      if (Array.isArray(living.consolidations)) documents[DOCUMENTS.MEMORY_CONSOLIDATIONS.key] = living.consolidations
+    } else if (document) {
+      documents[document.key] = value
+    } else if (key.startsWith('cascade-')) {
+      local[key] = value
+    }
+  }
+
+  if (Object.keys(documents).length > 0) data.documents = documents
+  if (Object.keys(local).length > 0) data.local = local
+
+  return { manifest: await buildManifest(data, 'legacy-export'), data }
+}
+
+/**
+ * Parse an archive, or a legacy export converted to one
+ */
+export async function parseArchive(json: string): Promise<BackupArchive> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new ArchiveError('The file is not valid JSON')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ArchiveError('The file is not a CASCADE backup')
+  }
+
+  const candidate = parsed as Partial<BackupArchive>
+  if (candidate.manifest?.format === ARCHIVE_FORMAT) {
+    if (!candidate.data || typeof candidate.data !== 'object') {
+      throw new ArchiveError('The archive has no data')
+    }
+    return candidate as BackupArchive
+  }
+
+  if (Object.keys(parsed).some(key => key.startsWith('cascade-'))) {
+    return fromLegacyExport(parsed as Record<string, unknown>)
+  }
+
+  throw new ArchiveError('The file is not a CASCADE backup')
+}
+
+/**
+ * Check the archive format and each section's count and checksum
+ */
+export async function verifyArchive(archive: BackupArchive): Promise<ArchiveVerification> {
+  const { manifest, data } = archive
+  const errors: string[] = []
+
+  if (manifest.formatVersion > ARCHIVE_VERSION) {
+    errors.push(`Archive format ${manifest.formatVersion} is newer than this build supports (${ARCHIVE_VERSION})`)
+  }
+  if (manifest.schemaVersion > DB_VERSION) {
+    errors.push(`Archive was written by a newer database schema (${manifest.schemaVersion} > ${DB_VERSION})`)
+  }
+
+  const sections: SectionVerification[] = []
+  for (const [id, section] of Object.entries(manifest.sections)) {
+    const present = id in data
+    const count = present ? sectionCount(section.kind, data[id]) : 0
+    const checksumMatches = present && await sha256(data[id]) === section.sha256
+
+    if (!present) errors.push(`${section.label}: missing from archive`)
+    else if (!checksumMatches) errors.push(`${section.label}: checksum mismatch`)
+
+    sections.push({
+      id,
+      label: section.label,
+      kind: section.kind,
+      count,
+      present,
+      countMatches: count === section.count,
+      checksumMatches
+    })
+  }
+
+  return { ok: errors.length === 0, errors, sections }
+}
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+interface RestoreOptions {
+  sections: string[]
+  strategy: MergeStrategy
+  // Hands the archived CASCADEState to the live store (e.g. its importState)
+  applyState?: (json: string) => void
+}
+
+function freshKey(key: EntityKey, taken: Map<EntityKey, unknown>): EntityKey {
+  if (typeof key === 'number') {
+    let next = key + 1
+    while (taken.has(next)) next++
+    return next
+  }
+
+  let next = `${String(key)}-restored`
+  for (let i = 2; taken.has(next); i++) next = `${String(key)}-restored-${i}`
+  return next
+}
+
+async function mergeEntities(
+  store: EntityStoreName,
+  incoming: unknown,
+  strategy: MergeStrategy
+): Promise<SectionRestoreResult> {
+  const result: SectionRestoreResult = { id: store, added: 0, updated: 0, duplicated: 0, skipped: 0 }
+  if (!Array.isArray(incoming)) return { ...result, note: 'Section is not a list' }
+
+  const { keyPath } = ENTITY_STORES[store]
+  const existing = new Map<EntityKey, unknown>(
+    (await getAll(store)).map(entity => [getEntityKey(store, entity), entity])
+  )
+  const writes: Record<string, unknown>[] = []
+
+  for (const entity of incoming as Record<string, unknown>[]) {
+    const key = entity && typeof entity === 'object' ? getEntityKey(store, entity) : undefined
+    if (key === undefined || key === null) {
+      result.skipped++
+      continue
+    }
+
+    const current = existing.get(key) as Record<string, unknown> | undefined
+    if (current === undefined) {
+      writes.push(entity)
+      existing.set(key, entity)
+      result.added++
+    } else if (deepEqual(current, entity)) {
+      result.skipped++
+    } else if (strategy === 'overwrite' || (strategy === 'newer' && getEntityTimestamp(entity) > getEntityTimestamp(current))) {
+      writes.push(entity)
+      existing.set(key, entity)
+      result.updated++
+    } else if (strategy === 'both') {
+      const copy = { ...entity, [keyPath]: freshKey(key, existing) }
+      writes.push(copy)
+      existing.set(getEntityKey(store, copy), copy)
+      result.duplicated++
+    } else {
+      result.skipped++
+    }
+  }
+
+  await putMany(store, writes)
+  return result
+}
+
+async function mergeDocuments(incoming: unknown, strategy: MergeStrategy): Promise<SectionRestoreResult> {
+  const result: SectionRestoreResult = { id: 'documents', added: 0, updated: 0, duplicated: 0, skipped: 0 }
+  const known = Object.values(DOCUMENTS).map(doc => doc.key as string)
+
+  for (const [key, value] of Object.entries((incoming ?? {}) as Record<string, unknown>)) {
+    if (!known.includes(key)) {
+      result.skipped++
+      continue
+    }
+    const current = await getDocument(key as DocumentKey)
+    if (current === undefined) {
+      await putDocument(key as DocumentKey, value)
+      result.added++
+    } else if (strategy === 'overwrite' && !deepEqual(current, value)) {
+      await putDocument(key as DocumentKey, value)
+      result.updated++
+    } else {
+      result.skipped++
+    }
+  }
+
+  if (strategy !== 'overwrite' && result.skipped > 0) {
+    result.note = 'Existing documents are only replaced with the overwrite strategy'
+  }
+  return result
+}
+
+async function restoreState(
+  incoming: unknown,
+  strategy: MergeStrategy,
+  applyState: RestoreOptions['applyState']
+): Promise<SectionRestoreResult> {
+  const result: SectionRestoreResult = { id: 'state', added: 0, updated: 0, duplicated: 0, skipped: 0 }
+  if (!incoming) return result
+  if (!applyState) return { ...result, skipped: 1, note: 'No live store to restore into' }
+
+  const current = await readPersistedState()
+  const incomingSync = (incoming as Partial<CASCADEState>).lastSync ?? 0
+  if (current && strategy !== 'overwrite' && incomingSync <= current.lastSync) {
+    return { ...result, skipped: 1, note: 'Local state is newer' }
+  }
+
+  // importState migrates and validates; it throws on data it cannot read
+  applyState(JSON.stringify(incoming))
+  return current ? { ...result, updated: 1 } : { ...result, added: 1 }
+}
+
+async function restoreHistory(incoming: unknown, strategy: MergeStrategy): Promise<SectionRestoreResult> {
+  const result: SectionRestoreResult = { id: 'history', added: 0, updated: 0, duplicated: 0, skipped: 0 }
+  const entries = Array.isArray(incoming) ? incoming as HistoryEntry[] : []
+
+  if (strategy !== 'overwrite' && (await exportHistory()).length > 0) {
+    return { ...result, skipped: entries.length, note: 'History chains cannot be merged; use overwrite to replace' }
+  }
+
+  await importHistory(entries)
+  return { ...result, added: entries.length }
+}
+
+function restoreLocal(incoming: unknown, strategy: MergeStrategy): SectionRestoreResult {
+  const result: SectionRestoreResult = { id: 'local', added: 0, updated: 0, duplicated: 0, skipped: 0 }
+
+  for (const [key, value] of Object.entries((incoming ?? {}) as Record<string, unknown>)) {
+    if (!key.startsWith('cascade-')) {
+      result.skipped++
+      continue
+    }
+    const exists = localStorage.getItem(key) !== null
+    if (exists && strategy !== 'overwrite') {
+      result.skipped++
+      continue
+    }
+    localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value))
+    if (exists) result.updated++
+    else result.added++
+  }
+
+  return result
+}
+
+/**
+ * Merge the selected sections of a verified archive into local storage.
+ * Sections whose checksum does not match are refused.
+ */
+export async function restoreArchive(
+  archive: BackupArchive,
+  options: RestoreOptions
+): Promise<SectionRestoreResult[]> {
+  const verification = await verifyArchive(archive)
+  const bad = verification.sections.filter(s => options.sections.includes(s.id) && !s.checksumMatches)
+  if (bad.length > 0) {
+    throw new ArchiveError(`Refusing to restore damaged sections: ${bad.map(s => s.label).join(', ')}`)
+  }
+  if (archive.manifest.schemaVersion > DB_VERSION) {
+    throw new ArchiveError('This archive was written by a newer version of CASCADE')
+  }
+
+  const results: SectionRestoreResult[] = []
+  for (const id of options.sections) {
+    const kind = archive.manifest.sections[id]?.kind
+    const value = archive.data[id]
+
+    if (kind === 'entities' && id in ENTITY_STORES) {
+      results.push(await mergeEntities(id as EntityStoreName, value, options.strategy))
+    } else if (kind === 'documents') {
+      results.push(await mergeDocuments(value, options.strategy))
+    } else if (kind === 'state') {
+      results.push(await restoreState(value, options.strategy, options.applyState))
+    } else if (kind === 'history') {
+      results.push(await restoreHistory(value, options.strategy))
+    } else if (kind === 'local') {
+      results.push(restoreLocal(value, options.strategy))
+    }
+  }
+
+  return results
+}
+
+// ============================================================================
+// CLEAR
+// ============================================================================
+
+/**
+ * Remove everything an archive restores except the live CASCADE state
+ */
+export async function clearArchivedData(): Promise<void> {
+  for (const store of ENTITY_STORE_NAMES) {
+    await replaceAll(store, [])
+  }
+  await clearColdStorage()
+  for (const { key } of Object.values(DOCUMENTS)) {
+    await removeDocument(key)
+  }
+  LOCAL_ARCHIVE_KEYS.forEach(key => localStorage.removeItem(key))
+  // The log would otherwise keep a copy of everything just cleared
+  await clearAuditLog()
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AgentType } from '@/lib/llm/agents'
+import { stubBrowserStorage } from './testing'
+import { AuditActor } from './audit'
+
+const AGENT: AuditActor = { kind: 'agent', agent: AgentType.MEMORY_CONSOLIDATOR }
+const GOAL = { id: 'goal-1', title: 'Run', status: 'active' }
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+describe('repository writes', () => {
+  it('log who created, changed and deleted each record', async () => {
+    const { put, applyChanges } = await import('./repository')
+    const { runAs, queryAuditLog } = await import('./audit')
+
+    await put('goals', GOAL)
+    await runAs(AGENT, () => put('goals', { ...GOAL, status: 'completed' }))
+    await runAs({ kind: 'system', process: 'retention' }, () => applyChanges('goals', { put: [], remove: ['goal-1'] }))
+
+    const { entries } = await queryAuditLog({}, 10)
+    expect(entries.map(e => [e.operation, e.actorKind])).toEqual([['delete', 'system'], ['update', 'agent'], ['create', 'user']])
+    expect(entries[1]).toMatchObject({
+      actor: AGENT,
+      target: 'goals',
+      entityId: 'goal-1',
+      action: 'Updated goals record',
+      changes: [{ path: '/status', before: 'active', after: 'completed' }]
+    })
+  })
+
+  it('skip writes that change nothing', async () => {
+    const { put } = await import('./repository')
+    const { queryAuditLog } = await import('./audit')
+
+    await put('goals', GOAL)
+    await put('goals', { ...GOAL })
+
+    expect((await queryAuditLog({}, 10)).entries).toHaveLength(1)
+  })
+})
+
+describe('runAs', () => {
+  it('restores the previous actor, even when the write throws', async () => {
+    const { runAs, getCurrentActor, USER_ACTOR } = await import('./audit')
+
+    expect(() => runAs(AGENT, () => { throw new Error('failed') })).toThrow('failed')
+    expect(getCurrentActor()).toBe(USER_ACTOR)
+    expect(runAs(AGENT, getCurrentActor)).toBe(AGENT)
+  })
+})
+
+describe('queryAuditLog', () => {
+  it('filters and pages through entries sharing a timestamp', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000)
+    const { appendAudit, queryAuditLog, describeActor } = await import('./audit')
+    await appendAudit(Array.from({ length: 5 }, (_, i) => ({
+      actor: i % 2 ? AGENT : { kind: 'user' as const },
+      target: 'goals',
+      entityId: `goal-${i}`,
+      after: { id: `goal-${i}` }
+    })))
+    vi.restoreAllMocks()
+
+    const first = await queryAuditLog({}, 2)
+    const second = await queryAuditLog({}, 2, first.next)
+    const third = await queryAuditLog({}, 2, second.next)
+    const ids = [...first.entries, ...second.entries, ...third.entries].map(e => e.entityId)
+
+    expect(new Set(ids).size).toBe(5)
+    expect(third.next).toBeNull()
+    expect((await queryAuditLog({ actor: describeActor(AGENT) }, 10)).entries.map(e => e.entityId).sort()).toEqual(['goal-1', 'goal-3'])
+    expect((await queryAuditLog({ text: 'GOAL-4' }, 10)).entries).toHaveLength(1)
+  })
+
+  it('counts entries per actor kind and operation', async () => {
+    const { put } = await import('./repository')
+    const { runAs, getAuditSummary } = await import('./audit')
+    await put('goals', GOAL)
+    await runAs(AGENT, () => put('goals', { ...GOAL, title: 'Walk' }))
+
+    const summary = await getAuditSummary()
+
+    expect(summary.user).toEqual({ create: 1, update: 0, delete: 0 })
+    expect(summary.agent).toEqual({ create: 0, update: 1, delete: 0 })
+  })
+})
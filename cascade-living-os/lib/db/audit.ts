@@ -0,0 +1,297 @@
+// CASCADE Living OS - Audit Log
+// Append-only record of who changed what: the user, an agent, an AI provider or the system
+
+import type { AgentType } from '@/lib/llm/agents'
+import { STORES } from './schema'
+import { initDB } from './indexed-db'
+import { sealRecord, openRecords } from './vault'
+import { diff, deepEqual, parsePointer } from './json-patch'
+import { generateId } from '@/lib/utils'
+
+// Changes kept per entry; a whole-collection rewrite is summarized, not copied
+const MAX_CHANGES = 50
+const READ_BATCH = 200
+
+export type AuditActor =
+  | { kind: 'user' }
+  | { kind: 'agent'; agent: AgentType }
+  | { kind: 'ai'; provider: string; model?: string }
+  | { kind: 'system'; process: string }   // sync, retention, cascades
+
+export type AuditActorKind = AuditActor['kind']
+
+export const AUDIT_ACTOR_KINDS: AuditActorKind[] = ['user', 'agent', 'ai', 'system']
+
+export type AuditOperation = 'create' | 'update' | 'delete'
+
+export interface AuditChange {
+  path: string       // JSON pointer inside the entity; '' for the whole entity
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  timestamp: number
+  actor: AuditActor
+  actorKind: AuditActorKind
+  operation: AuditOperation
+  action: string     // what happened, in words
+  target: string     // entity store, 'documents', 'memory' or 'state'
+  entityId: string   // record key, document key, memory id or state subsystem
+  changes: AuditChange[]
+  truncated?: boolean
+}
+
+/**
+ * A change to log. `before` is undefined for creations, `after` for deletions.
+ */
+export interface AuditDraft {
+  actor: AuditActor
+  action?: string
+  target: string
+  entityId: string
+  before?: unknown
+  after?: unknown
+}
+
+export const USER_ACTOR: AuditActor = { kind: 'user' }
+
+// ============================================================================
+// ATTRIBUTION
+// ============================================================================
+
+let currentActor: AuditActor = USER_ACTOR
+
+/**
+ * Whoever writes started now are attributed to; the user unless inside `runAs`
+ */
+export function getCurrentActor(): AuditActor {
+  return currentActor
+}
+
+/**
+ * Attribute the writes `run` starts to `actor`. Writes read the actor when
+ * they are called, so an async task must wrap each write it makes after an
+ * await; wrapping the whole task would attribute the user's concurrent edits to it.
+ */
+export function runAs<T>(actor: AuditActor, run: () => T): T {
+  const previous = currentActor
+  currentActor = actor
+  try {
+    return run()
+  } finally {
+    currentActor = previous
+  }
+}
+
+/**
+ * Short name of an actor for lists and filters
+ */
+export function describeActor(actor: AuditActor): string {
+  switch (actor.kind) {
+    case 'user': return 'You'
+    case 'agent': return actor.agent.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+    case 'ai': return actor.model ? `${actor.provider} · ${actor.model}` : actor.provider
+    case 'system': return actor.process
+  }
+}
+
+// ============================================================================
+// DIFFS
+// ============================================================================
+
+function valueAt(document: unknown, pointer: string): unknown {
+  let value = document
+  for (const token of parsePointer(pointer)) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[token]
+  }
+  return value
+}
+
+function changesBetween(before: unknown, after: unknown): { changes: AuditChange[]; truncated: boolean } {
+  if (before === undefined) return { changes: [{ path: '', after }], truncated: false }
+  if (after === undefined) return { changes: [{ path: '', before }], truncated: false }
+
+  const changes = diff(before, after).map(op => ({
+    path: op.path,
+    before: op.op === 'add' ? undefined : valueAt(before, op.path),
+    after: op.op === 'remove' ? undefined : op.value
+  }))
+  return { changes: changes.slice(0, MAX_CHANGES), truncated: changes.length > MAX_CHANGES }
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+function toEntry(draft: AuditDraft, timestamp: number): AuditEntry | null {
+  const { actor, target, entityId, before, after } = draft
+  if (before === undefined && after === undefined) return null
+  if (deepEqual(before, after)) return null
+
+  const operation: AuditOperation = before === undefined ? 'create' : after === undefined ? 'delete' : 'update'
+  const { changes, truncated } = changesBetween(before, after)
+  return {
+    id: generateId('audit'),
+    timestamp,
+    actor,
+    actorKind: actor.kind,
+    operation,
+    action: draft.action ?? `${operation.charAt(0).toUpperCase()}${operation.slice(1)}d ${target} record`,
+    target,
+    entityId,
+    changes,
+    ...(truncated ? { truncated } : {})
+  }
+}
+
+/**
+ * Append entries for the given changes; unchanged drafts are skipped.
+ * Never throws: a write that already happened must not fail for its log.
+ */
+export async function appendAudit(drafts: AuditDraft[]): Promise<void> {
+  const timestamp = Date.now()
+  const entries = drafts.map(draft => toEntry(draft, timestamp)).filter((entry): entry is AuditEntry => entry !== null)
+  if (entries.length === 0) return
+
+  try {
+    const sealed = await Promise.all(entries.map(entry => sealRecord(STORES.AUDIT, entry)))
+    const db = await initDB()
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORES.AUDIT, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+
+      const store = transaction.objectStore(STORES.AUDIT)
+      sealed.forEach(entry => store.add(entry))
+    })
+  } catch (error) {
+    console.error('Failed to write audit log:', error)
+  }
+}
+
+/**
+ * Drop the whole log, e.g. when all data is cleared
+ */
+export async function clearAuditLog(): Promise<void> {
+  const db = await initDB()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.AUDIT, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.AUDIT).clear()
+  })
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+export interface AuditFilter {
+  actorKind?: AuditActorKind
+  actor?: string        // describeActor() name
+  target?: string
+  operation?: AuditOperation
+  since?: number
+  text?: string         // matched against the action and entity id
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]
+  next: AuditEntry | null   // pass back as `after` for older entries
+}
+
+// Newest first, strictly older than `after`
+async function readBatch(after: AuditEntry | null, since?: number): Promise<AuditEntry[]> {
+  const db = await initDB()
+  const range = after
+    ? IDBKeyRange.bound(since ?? 0, after.timestamp)
+    : since !== undefined ? IDBKeyRange.lowerBound(since) : null
+
+  const raw = await new Promise<AuditEntry[]>((resolve, reject) => {
+    const request = db.transaction(STORES.AUDIT, 'readonly').objectStore(STORES.AUDIT).index('timestamp').openCursor(range, 'prev')
+    const results: AuditEntry[] = []
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || results.length === READ_BATCH) {
+        resolve(results)
+        return
+      }
+      // Entries sharing `after`'s timestamp come in descending id order
+      const entry = cursor.value as AuditEntry
+      if (!after || entry.timestamp < after.timestamp || entry.id < after.id) results.push(entry)
+      cursor.continue()
+    }
+  })
+
+  return openRecords(raw)
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.actorKind && entry.actorKind !== filter.actorKind) return false
+  if (filter.actor && describeActor(entry.actor) !== filter.actor) return false
+  if (filter.target && entry.target !== filter.target) return false
+  if (filter.operation && entry.operation !== filter.operation) return false
+  if (filter.text) {
+    const text = filter.text.toLowerCase()
+    if (!entry.action.toLowerCase().includes(text) && !entry.entityId.toLowerCase().includes(text)) return false
+  }
+  return true
+}
+
+/**
+ * A page of matching entries, newest first
+ */
+export async function queryAuditLog(filter: AuditFilter, limit: number, after: AuditEntry | null = null): Promise<AuditPage> {
+  const entries: AuditEntry[] = []
+  let cursor = after
+
+  while (entries.length < limit) {
+    const batch = await readBatch(cursor, filter.since)
+    if (batch.length === 0) return { entries, next: null }
+
+    for (const entry of batch) {
+      if (!matches(entry, filter)) continue
+      entries.push(entry)
+      if (entries.length === limit) return { entries, next: entry }
+    }
+    cursor = batch[batch.length - 1]
+  }
+
+  return { entries, next: null }
+}
+
+export type AuditSummary = Record<AuditActorKind, Record<AuditOperation, number>>
+
+/**
+ * Entry counts per actor kind and operation, from the index alone
+ */
+export async function getAuditSummary(): Promise<AuditSummary> {
+  const db = await initDB()
+  const summary = Object.fromEntries(AUDIT_ACTOR_KINDS.map(kind => [kind, { create: 0, update: 0, delete: 0 }])) as AuditSummary
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.AUDIT, 'readonly')
+    const index = transaction.objectStore(STORES.AUDIT).index('actorOperation')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+
+    for (const kind of AUDIT_ACTOR_KINDS) {
+      for (const operation of ['create', 'update', 'delete'] as AuditOperation[]) {
+        const request = index.count([kind, operation])
+        request.onsuccess = () => {
+          summary[kind][operation] = request.result
+        }
+      }
+    }
+  })
+
+  return summary
+}
@@ -0,0 +1,206 @@
+// CASCADE Living OS - Change Log
+// Per-entity modification records that drive multi-device sync
+
+import { initDB } from './indexed-db'
+import { STORES, DOCUMENTS } from './schema'
+import { sealRecord } from './vault'
+
+/**
+ * Sync metadata for one entity, synced document or the persisted state.
+ * Deleted entities keep their record as a tombstone.
+ */
+export interface ChangeRecord {
+  ref: string
+  store: string
+  key: IDBValidKey
+  modifiedAt: number
+  deviceId: string | null // null for edits made on this device
+  deleted: boolean
+  pending: 0 | 1          // 1 until pushed (a number so it can be indexed)
+}
+
+const SYNCED_DOCUMENTS: string[] = Object.values(DOCUMENTS)
+  .filter(doc => 'synced' in doc && doc.synced)
+  .map(doc => doc.key)
+
+export function changeRef(store: string, key: IDBValidKey): string {
+  return `${store}/${JSON.stringify(key)}`
+}
+
+export function isSyncedDocument(key: string): boolean {
+  return SYNCED_DOCUMENTS.includes(key)
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onerror = () => reject(req.error)
+    req.onsuccess = () => resolve(req.result)
+  })
+}
+
+async function withChanges(
+  mode: IDBTransactionMode,
+  run: (changes: IDBObjectStore) => void
+): Promise<void> {
+  const db = await initDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.CHANGES, mode)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+    run(transaction.objectStore(STORES.CHANGES))
+  })
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+export interface ChangeTracker {
+  put: (key: IDBValidKey) => void
+  remove: (key: IDBValidKey) => void
+}
+
+/**
+ * Record local edits inside the caller's transaction, which must include
+ * the changes store. A local edit always supersedes the version it was
+ * made on, even when that version carries a clock from ahead of ours.
+ */
+export function trackChanges(transaction: IDBTransaction, store: string): ChangeTracker {
+  const changes = transaction.objectStore(STORES.CHANGES)
+  const now = Date.now()
+
+  const record = (key: IDBValidKey, deleted: boolean) => {
+    const ref = changeRef(store, key)
+    const existing = changes.get(ref)
+    existing.onsuccess = () => {
+      const previous = existing.result as ChangeRecord | undefined
+      changes.put({
+        ref,
+        store,
+        key,
+        modifiedAt: previous ? Math.max(now, previous.modifiedAt + 1) : now,
+        deviceId: null,
+        deleted,
+        pending: 1
+      } satisfies ChangeRecord)
+    }
+  }
+
+  return {
+    put: key => record(key, false),
+    remove: key => record(key, true)
+  }
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/**
+ * Oldest-first local edits that have not been pushed yet
+ */
+export async function getPendingChanges(limit?: number): Promise<ChangeRecord[]> {
+  const db = await initDB()
+  const index = db.transaction(STORES.CHANGES, 'readonly').objectStore(STORES.CHANGES).index('pending')
+  const records = await request(index.getAll(1, limit))
+  return (records as ChangeRecord[]).sort((a, b) => a.modifiedAt - b.modifiedAt)
+}
+
+export async function countPendingChanges(): Promise<number> {
+  const db = await initDB()
+  const index = db.transaction(STORES.CHANGES, 'readonly').objectStore(STORES.CHANGES).index('pending')
+  return request(index.count(1))
+}
+
+export async function getChangeRecord(ref: string): Promise<ChangeRecord | undefined> {
+  const db = await initDB()
+  const store = db.transaction(STORES.CHANGES, 'readonly').objectStore(STORES.CHANGES)
+  return request(store.get(ref)) as Promise<ChangeRecord | undefined>
+}
+
+/**
+ * Change records of the given refs; refs without one are left out
+ */
+export async function getChangeRecords(refs: string[]): Promise<ChangeRecord[]> {
+  if (refs.length === 0) return []
+  const db = await initDB()
+  const store = db.transaction(STORES.CHANGES, 'readonly').objectStore(STORES.CHANGES)
+  const records = await Promise.all(refs.map(ref => request(store.get(ref)) as Promise<ChangeRecord | undefined>))
+  return records.filter((record): record is ChangeRecord => record !== undefined)
+}
+
+/**
+ * Refs of everything that already has a change record
+ */
+export async function getTrackedRefs(): Promise<Set<string>> {
+  const db = await initDB()
+  const store = db.transaction(STORES.CHANGES, 'readonly').objectStore(STORES.CHANGES)
+  return new Set((await request(store.getAllKeys())) as string[])
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+export async function putChangeRecords(records: ChangeRecord[]): Promise<void> {
+  if (records.length === 0) return
+  await withChanges('readwrite', changes => {
+    records.forEach(record => changes.put(record))
+  })
+}
+
+/**
+ * Clear the pending flag of pushed records, unless they were edited again
+ * while the push was in flight
+ */
+export async function markPushed(records: ChangeRecord[]): Promise<void> {
+  if (records.length === 0) return
+  await withChanges('readwrite', changes => {
+    for (const pushed of records) {
+      const current = changes.get(pushed.ref)
+      current.onsuccess = () => {
+        const record = current.result as ChangeRecord | undefined
+        if (record && record.pending && record.modifiedAt === pushed.modifiedAt) {
+          changes.put({ ...record, pending: 0 })
+        }
+      }
+    }
+  })
+}
+
+/**
+ * Write an entity or document received from another device together with
+ * its change record, so it is not pushed back. `value` is ignored for
+ * tombstones.
+ */
+export async function writeSynced(record: ChangeRecord, value: unknown): Promise<void> {
+  const db = await initDB()
+  const stored = record.deleted
+    ? null
+    : record.store === STORES.DOCUMENTS
+      ? await sealRecord(record.store, { key: record.key, value })
+      : await sealRecord(record.store, value)
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([record.store, STORES.CHANGES], 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+
+    const store = transaction.objectStore(record.store)
+    if (stored) store.put(stored)
+    else store.delete(record.key)
+    transaction.objectStore(STORES.CHANGES).put({ ...record, pending: 0 })
+  })
+}
+
+/**
+ * Forget every change record, e.g. when this device leaves sync
+ */
+export async function clearChangeLog(): Promise<void> {
+  await withChanges('readwrite', changes => {
+    changes.clear()
+  })
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from './testing'
+
+interface Microorcim {
+  id: string
+  timestamp: number
+  intent: string
+}
+
+const STORE = 'microorcims'
+
+function microorcim(id: string, timestamp: number): Microorcim {
+  return { id, timestamp, intent: `Intent ${id}` }
+}
+
+const OLD = [microorcim('old-1', 100), microorcim('old-2', 200)]
+const RECENT = microorcim('recent', 5000)
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+// Records as a synced device holds them, with nothing left to push
+async function synced(records: Microorcim[]) {
+  const { putMany } = await import('./repository')
+  const { getPendingChanges, markPushed } = await import('./change-log')
+  await putMany(STORE, records)
+  await markPushed(await getPendingChanges())
+}
+
+describe('archiveOldRecords', () => {
+  it('moves old records into one cold batch per store', async () => {
+    await synced([...OLD, RECENT])
+    const { getAll } = await import('./repository')
+    const cold = await import('./cold-storage')
+
+    const [batch] = await cold.archiveOldRecords(1000, [STORE])
+
+    expect(batch).toMatchObject({ store: STORE, from: 100, to: 200, count: 2 })
+    expect((await getAll<Microorcim>(STORE)).map(m => m.id)).toEqual(['recent'])
+    expect(await cold.listColdArchives()).toEqual([batch])
+    expect(await cold.readColdArchive(batch.id)).toEqual(OLD)
+    expect(await cold.readColdEntities()).toEqual({ [STORE]: OLD })
+    expect(await cold.getColdKeys(STORE)).toEqual(new Set(['"old-1"', '"old-2"']))
+  })
+
+  it('keeps records with unsynced edits live', async () => {
+    await synced(OLD)
+    const { put, getAll } = await import('./repository')
+    const { archiveOldRecords } = await import('./cold-storage')
+    await put(STORE, { ...OLD[0], intent: 'Edited' })
+
+    const [batch] = await archiveOldRecords(1000, [STORE])
+
+    expect(batch.count).toBe(1)
+    expect((await getAll<Microorcim>(STORE)).map(m => m.id)).toEqual(['old-1'])
+  })
+})
+
+describe('restoreColdArchive', () => {
+  it('puts a batch back, keeping records written again since', async () => {
+    await synced(OLD)
+    const { put, getAll } = await import('./repository')
+    const cold = await import('./cold-storage')
+    const [batch] = await cold.archiveOldRecords(1000, [STORE])
+    await put(STORE, { ...OLD[1], intent: 'Written again' })
+
+    expect(await cold.restoreColdArchive(batch.id)).toBe(1)
+
+    expect(await getAll<Microorcim>(STORE)).toEqual([OLD[0], { ...OLD[1], intent: 'Written again' }])
+    expect(await cold.listColdArchives()).toEqual([])
+    await expect(cold.restoreColdArchive(batch.id)).rejects.toThrow(cold.ColdStorageError)
+  })
+})
@@ -0,0 +1,273 @@
+// CASCADE Living OS - Cold Storage
+// Old records compressed out of the live stores, restorable on demand
+
+import { STORES, ENTITY_STORE_NAMES, EntityStoreName, getEntitySchema } from './schema'
+import { initDB } from './indexed-db'
+import { sealRecord, openRecord } from './vault'
+import { changeRef, getPendingChanges } from './change-log'
+import { EntityKey, getEntityKey, queryByIndex, notifyExternalChange } from './repository'
+import { generateId, toBase64, fromBase64 } from '@/lib/utils'
+
+export const DEFAULT_ARCHIVE_AGE_DAYS = 365
+
+/**
+ * One compressed batch of records from a single store
+ */
+export interface ColdArchive {
+  id: string
+  store: EntityStoreName
+  from: number      // oldest record, by the store's archiveBy index
+  to: number        // newest record
+  count: number
+  bytes: number     // compressed size
+  createdAt: number
+}
+
+interface ColdRecord extends ColdArchive {
+  keys: EntityKey[]
+  encoding: 'gzip' | 'identity'
+  data: string      // base64 of the (compressed) JSON array of records
+}
+
+export class ColdStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ColdStorageError'
+  }
+}
+
+/**
+ * Stores whose records can age out, each with the index that ages them
+ */
+export const ARCHIVABLE_STORES = ENTITY_STORE_NAMES.filter(store => getEntitySchema(store).archiveBy)
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+}
+
+async function encode(records: unknown[]): Promise<Pick<ColdRecord, 'encoding' | 'data' | 'bytes'>> {
+  const json = JSON.stringify(records)
+  if (!canCompress()) {
+    const bytes = new TextEncoder().encode(json)
+    return { encoding: 'identity', data: toBase64(bytes), bytes: bytes.length }
+  }
+
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'))
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  return { encoding: 'gzip', data: toBase64(bytes), bytes: bytes.length }
+}
+
+async function decode(record: ColdRecord): Promise<unknown[]> {
+  const bytes = fromBase64(record.data)
+  if (record.encoding === 'identity') return JSON.parse(new TextDecoder().decode(bytes))
+
+  if (!canCompress()) {
+    throw new ColdStorageError('This browser cannot decompress archived records')
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))
+  return JSON.parse(await new Response(stream).text())
+}
+
+async function readColdRecords(store?: EntityStoreName): Promise<ColdRecord[]> {
+  const db = await initDB()
+
+  const records = await new Promise<ColdRecord[]>((resolve, reject) => {
+    const objectStore = db.transaction(STORES.COLD, 'readonly').objectStore(STORES.COLD)
+    const request = store ? objectStore.index('store').getAll(store) : objectStore.getAll()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  return Promise.all(records.map(record => openRecord(record)))
+}
+
+function summarize({ id, store, from, to, count, bytes, createdAt }: ColdRecord): ColdArchive {
+  return { id, store, from, to, count, bytes, createdAt }
+}
+
+// ============================================================================
+// ARCHIVAL
+// ============================================================================
+
+/**
+ * Move records older than `before` out of each store into one compressed
+ * cold record per store. Records with edits not yet synced stay live until
+ * they have been pushed, so archiving never looks like a deletion to sync.
+ */
+export async function archiveOldRecords(
+  before: number,
+  stores: EntityStoreName[] = ARCHIVABLE_STORES
+): Promise<ColdArchive[]> {
+  const pending = new Set((await getPendingChanges()).map(record => record.ref))
+  const archived: ColdArchive[] = []
+
+  for (const store of stores) {
+    const index = getEntitySchema(store).archiveBy
+    if (!index) continue
+
+    const entities = (await queryByIndex<Record<string, unknown>>(store, index, IDBKeyRange.upperBound(before, true)))
+      .filter(entity => !pending.has(changeRef(store, getEntityKey(store, entity))))
+    if (entities.length === 0) continue
+
+    const times = entities.map(entity => Number(entity[index]))
+    const keys = entities.map(entity => getEntityKey(store, entity))
+    const record: ColdRecord = {
+      id: generateId('cold'),
+      store,
+      from: Math.min(...times),
+      to: Math.max(...times),
+      count: entities.length,
+      createdAt: Date.now(),
+      keys,
+      ...(await encode(entities))
+    }
+    const sealed = await sealRecord(STORES.COLD, record)
+
+    // The live records are deleted without a change record: they still exist here
+    const db = await initDB()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([store, STORES.COLD], 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+
+      const objectStore = transaction.objectStore(store)
+      keys.forEach(key => objectStore.delete(key))
+      transaction.objectStore(STORES.COLD).put(sealed)
+    })
+
+    notifyExternalChange(store)
+    archived.push(summarize(record))
+  }
+
+  return archived
+}
+
+/**
+ * Every cold batch, newest first, without decompressing anything
+ */
+export async function listColdArchives(): Promise<ColdArchive[]> {
+  const db = await initDB()
+
+  const records = await new Promise<ColdRecord[]>((resolve, reject) => {
+    const request = db.transaction(STORES.COLD, 'readonly').objectStore(STORES.COLD).getAll()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  return records.map(summarize).sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Put a cold batch back into its store and drop it from cold storage.
+ * Records that exist live again (recreated or synced since) are kept as they are.
+ * Returns how many records were restored.
+ */
+export async function restoreColdArchive(id: string): Promise<number> {
+  const db = await initDB()
+  const stored = await new Promise<ColdRecord | undefined>((resolve, reject) => {
+    const request = db.transaction(STORES.COLD, 'readonly').objectStore(STORES.COLD).get(id)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+  if (!stored) throw new ColdStorageError('Archived batch not found')
+
+  const record = await openRecord(stored)
+  const entities = await decode(record)
+  const sealed = await Promise.all(entities.map(entity => sealRecord(record.store, entity)))
+  let restored = 0
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([record.store, STORES.COLD], 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+
+    const objectStore = transaction.objectStore(record.store)
+    sealed.forEach((entity, i) => {
+      const exists = objectStore.count(getEntityKey(record.store, entities[i]))
+      exists.onsuccess = () => {
+        if (exists.result > 0) return
+        objectStore.put(entity)
+        restored++
+      }
+    })
+    transaction.objectStore(STORES.COLD).delete(id)
+  })
+
+  notifyExternalChange(record.store)
+  return restored
+}
+
+/**
+ * Permanently delete a cold batch, for retention rules that expire it
+ */
+export async function deleteColdArchive(id: string): Promise<void> {
+  const db = await initDB()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.COLD, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.COLD).delete(id)
+  })
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/**
+ * Decompressed records of one cold batch, leaving it in place
+ */
+export async function readColdArchive(id: string): Promise<unknown[]> {
+  const db = await initDB()
+  const stored = await new Promise<ColdRecord | undefined>((resolve, reject) => {
+    const request = db.transaction(STORES.COLD, 'readonly').objectStore(STORES.COLD).get(id)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+  if (!stored) throw new ColdStorageError('Archived batch not found')
+
+  return decode(await openRecord(stored))
+}
+
+/**
+ * Decompressed archived records per store, for backups
+ */
+export async function readColdEntities(): Promise<Partial<Record<EntityStoreName, unknown[]>>> {
+  const entities: Partial<Record<EntityStoreName, unknown[]>> = {}
+  for (const record of await readColdRecords()) {
+    entities[record.store] = [...(entities[record.store] ?? []), ...(await decode(record))]
+  }
+  return entities
+}
+
+/**
+ * Keys of a store's archived records, which still count as existing
+ */
+export async function getColdKeys(store: EntityStoreName): Promise<Set<string>> {
+  const keys = new Set<string>()
+  for (const record of await readColdRecords(store)) {
+    record.keys.forEach(key => keys.add(JSON.stringify(key)))
+  }
+  return keys
+}
+
+/**
+ * Drop every cold batch
+ */
+export async function clearColdStorage(): Promise<void> {
+  const db = await initDB()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.COLD, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.COLD).clear()
+  })
+}
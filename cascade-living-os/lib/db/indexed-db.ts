@@ -1,35 +1,50 @@
 // CASCADE Living OS - IndexedDB Persistence
 // Persistent storage for all CASCADE state
 
-import { CASCADEState, JournalEntry, Measurement } from '@/types/cascade'
-
-const DB_NAME = 'cascade-living-os'
-const DB_VERSION = 1
-
-// Store names
-const STORES = {
-  STATE: 'cascade-state',
-  JOURNAL: 'journal-entries',
-  MEASUREMENTS: 'measurements',
-  HISTORY: 'state-history'
-} as const
+import { CASCADEState, Measurement } from '@/types/cascade'
+import {
+  DB_NAME,
+  DB_VERSION,
+  STORES,
+  ENTITY_STORES,
+  EntityStoreSchema
+} from './schema'
+import { migrateLegacyStorage } from './legacy-migration'
+import { sealRecord, openRecord } from './vault'
+import { migrateState } from '@/lib/store/migrations'
 
 // ============================================================================
 // DATABASE INITIALIZATION
 // ============================================================================
 
-let dbInstance: IDBDatabase | null = null
+let dbPromise: Promise<IDBDatabase> | null = null
 
 /**
  * Initialize the IndexedDB database
+ *
+ * The first open also moves any legacy localStorage data into IndexedDB,
+ * so every read through this module sees migrated data.
  */
 export function initDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    if (dbInstance) {
-      resolve(dbInstance)
-      return
-    }
+  if (!dbPromise) {
+    dbPromise = openDatabase()
+      .then(async (db) => {
+        // Legacy keys stay in localStorage if the copy fails, so it is retried next load
+        await migrateLegacyStorage(db).catch((error) => {
+          console.error('Legacy storage migration failed:', error)
+        })
+        return db
+      })
+      .catch((error) => {
+        dbPromise = null
+        throw error
+      })
+  }
+  return dbPromise
+}
 
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION)
 
     request.onerror = () => {
@@ -38,224 +53,132 @@ export function initDB(): Promise<IDBDatabase> {
     }
 
     request.onsuccess = () => {
-      dbInstance = request.result
-      resolve(dbInstance)
+      const db = request.result
+      // Another tab upgraded the schema; let it proceed and reopen lazily
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
     }
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result
+      const transaction = (event.target as IDBOpenDBRequest).transaction!
 
       // Main state store
       if (!db.objectStoreNames.contains(STORES.STATE)) {
         db.createObjectStore(STORES.STATE, { keyPath: 'id' })
       }
 
-      // Journal entries with timestamp index
-      if (!db.objectStoreNames.contains(STORES.JOURNAL)) {
-        const journalStore = db.createObjectStore(STORES.JOURNAL, { keyPath: 'id' })
-        journalStore.createIndex('timestamp', 'timestamp', { unique: false })
-      }
-
-      // Measurements with practice and timestamp indexes
-      if (!db.objectStoreNames.contains(STORES.MEASUREMENTS)) {
-        const measurementStore = db.createObjectStore(STORES.MEASUREMENTS, { keyPath: 'id' })
-        measurementStore.createIndex('practiceId', 'practiceId', { unique: false })
-        measurementStore.createIndex('timestamp', 'timestamp', { unique: false })
-      }
-
       // State history for undo/time travel
       if (!db.objectStoreNames.contains(STORES.HISTORY)) {
         const historyStore = db.createObjectStore(STORES.HISTORY, { keyPath: 'timestamp' })
         historyStore.createIndex('timestamp', 'timestamp', { unique: true })
       }
-    }
-  })
-}
 
-// ============================================================================
-// STATE PERSISTENCE
-// ============================================================================
-
-/**
- * Save the full CASCADE state
- */
-export async function saveState(state: CASCADEState): Promise<void> {
-  const db = await initDB()
-  
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORES.STATE, STORES.HISTORY], 'readwrite')
-    
-    transaction.onerror = () => reject(transaction.error)
-    transaction.oncomplete = () => resolve()
-
-    // Save current state
-    const stateStore = transaction.objectStore(STORES.STATE)
-    stateStore.put({ id: 'current', ...state })
-
-    // Save to history (for time travel / undo)
-    const historyStore = transaction.objectStore(STORES.HISTORY)
-    historyStore.put({ 
-      timestamp: Date.now(), 
-      state: JSON.stringify(state)
-    })
+      // Singleton documents (willpower state, achievements, ...)
+      if (!db.objectStoreNames.contains(STORES.DOCUMENTS)) {
+        db.createObjectStore(STORES.DOCUMENTS, { keyPath: 'key' })
+      }
 
-    // Clean old history (keep last 100 entries)
-    const historyIndex = historyStore.index('timestamp')
-    const countRequest = historyIndex.count()
-    
-    countRequest.onsuccess = () => {
-      if (countRequest.result > 100) {
-        const cursor = historyIndex.openCursor()
-        let deleteCount = countRequest.result - 100
-        
-        cursor.onsuccess = () => {
-          const result = cursor.result
-          if (result && deleteCount > 0) {
-            result.delete()
-            deleteCount--
-            result.continue()
-          }
-        }
+      // Per-entity change records for multi-device sync
+      if (!db.objectStoreNames.contains(STORES.CHANGES)) {
+        const changesStore = db.createObjectStore(STORES.CHANGES, { keyPath: 'ref' })
+        changesStore.createIndex('pending', 'pending', { unique: false })
       }
-    }
-  })
-}
 
-/**
- * Load the current CASCADE state
- */
-export async function loadState(): Promise<CASCADEState | null> {
-  const db = await initDB()
-  
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORES.STATE, 'readonly')
-    const store = transaction.objectStore(STORES.STATE)
-    const request = store.get('current')
+      // Compressed batches of old records moved out of the entity stores
+      if (!db.objectStoreNames.contains(STORES.COLD)) {
+        const coldStore = db.createObjectStore(STORES.COLD, { keyPath: 'id' })
+        coldStore.createIndex('store', 'store', { unique: false })
+      }
 
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => {
-      if (request.result) {
-        // Remove the 'id' key we added for storage
-        const { id, ...state } = request.result
-        resolve(state as CASCADEState)
-      } else {
-        resolve(null)
+      // Append-only log of who changed what
+      if (!db.objectStoreNames.contains(STORES.AUDIT)) {
+        const auditStore = db.createObjectStore(STORES.AUDIT, { keyPath: 'id' })
+        auditStore.createIndex('timestamp', 'timestamp', { unique: false })
+        auditStore.createIndex('actorOperation', ['actorKind', 'operation'], { unique: false })
       }
-    }
-  })
-}
 
-/**
- * Get state history for time travel
- */
-export async function getStateHistory(limit: number = 10): Promise<Array<{
-  timestamp: number
-  state: CASCADEState
-}>> {
-  const db = await initDB()
-  
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORES.HISTORY, 'readonly')
-    const store = transaction.objectStore(STORES.HISTORY)
-    const index = store.index('timestamp')
-    
-    const results: Array<{ timestamp: number; state: CASCADEState }> = []
-    const request = index.openCursor(null, 'prev') // Newest first
+      // Daily AI token usage and spend per provider, model and feature
+      if (!db.objectStoreNames.contains(STORES.USAGE)) {
+        const usageStore = db.createObjectStore(STORES.USAGE, { keyPath: 'id' })
+        usageStore.createIndex('day', 'day', { unique: false })
+      }
 
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => {
-      const cursor = request.result
-      if (cursor && results.length < limit) {
-        results.push({
-          timestamp: cursor.value.timestamp,
-          state: JSON.parse(cursor.value.state)
-        })
-        cursor.continue()
-      } else {
-        resolve(results)
+      // Entity stores are reconciled against the schema registry
+      for (const [name, schema] of Object.entries(ENTITY_STORES)) {
+        upgradeEntityStore(db, transaction, name, schema)
       }
     }
   })
 }
 
 /**
- * Restore state from a specific timestamp
+ * Create a missing entity store and add any indexes declared since it was created
  */
-export async function restoreState(timestamp: number): Promise<CASCADEState | null> {
-  const db = await initDB()
-  
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORES.HISTORY, 'readonly')
-    const store = transaction.objectStore(STORES.HISTORY)
-    const request = store.get(timestamp)
-
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => {
-      if (request.result) {
-        resolve(JSON.parse(request.result.state))
-      } else {
-        resolve(null)
-      }
+function upgradeEntityStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+  schema: EntityStoreSchema
+): void {
+  const store = db.objectStoreNames.contains(name)
+    ? transaction.objectStore(name)
+    : db.createObjectStore(name, { keyPath: schema.keyPath })
+
+  for (const index of schema.indexes) {
+    if (!store.indexNames.contains(index.name)) {
+      store.createIndex(index.name, index.keyPath, {
+        unique: index.unique ?? false,
+        multiEntry: index.multiEntry ?? false
+      })
     }
-  })
+  }
 }
 
 // ============================================================================
-// JOURNAL PERSISTENCE
+// STATE PERSISTENCE
 // ============================================================================
 
 /**
- * Save a journal entry
+ * Save the full CASCADE state.
+ * History is recorded separately as deltas; see state-history.ts.
  */
-export async function saveJournalEntry(entry: JournalEntry): Promise<void> {
+export async function saveState(state: CASCADEState): Promise<void> {
   const db = await initDB()
+  const record = await sealRecord(STORES.STATE, { id: 'current', ...state })
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORES.JOURNAL, 'readwrite')
-    const store = transaction.objectStore(STORES.JOURNAL)
-    const request = store.put(entry)
+    const transaction = db.transaction(STORES.STATE, 'readwrite')
+    
+    transaction.onerror = () => reject(transaction.error)
+    transaction.oncomplete = () => resolve()
 
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => resolve()
+    transaction.objectStore(STORES.STATE).put(record)
   })
 }
 
 /**
- * Get journal entries within a date range
+ * Load the current CASCADE state, migrated to the current schema version
  */
-export async function getJournalEntries(
-  startDate?: number,
-  endDate?: number
-): Promise<JournalEntry[]> {
+export async function loadState(): Promise<CASCADEState | null> {
   const db = await initDB()
   
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORES.JOURNAL, 'readonly')
-    const store = transaction.objectStore(STORES.JOURNAL)
-    const index = store.index('timestamp')
-    
-    const range = startDate && endDate
-      ? IDBKeyRange.bound(startDate, endDate)
-      : startDate
-        ? IDBKeyRange.lowerBound(startDate)
-        : endDate
-          ? IDBKeyRange.upperBound(endDate)
-          : null
-
-    const results: JournalEntry[] = []
-    const request = index.openCursor(range, 'prev')
+  const record = await new Promise<Record<string, unknown> | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORES.STATE, 'readonly')
+    const store = transaction.objectStore(STORES.STATE)
+    const request = store.get('current')
 
     request.onerror = () => reject(request.error)
-    request.onsuccess = () => {
-      const cursor = request.result
-      if (cursor) {
-        results.push(cursor.value)
-        cursor.continue()
-      } else {
-        resolve(results)
-      }
-    }
+    request.onsuccess = () => resolve(request.result)
   })
+  if (!record) return null
+
+  // Remove the 'id' key we added for storage
+  const { id, ...state } = await openRecord(record)
+  return migrateState(state, 'load').state as CASCADEState
 }
 
 // ============================================================================
@@ -306,40 +229,10 @@ export async function getMeasurements(practiceId: string): Promise<Measurement[]
 }
 
 // ============================================================================
-// EXPORT / IMPORT
+// RESET
 // ============================================================================
 
-/**
- * Export all data as JSON
- */
-export async function exportAllData(): Promise<string> {
-  const state = await loadState()
-  const history = await getStateHistory(100)
-  
-  const exportData = {
-    version: DB_VERSION,
-    exportedAt: Date.now(),
-    state,
-    history
-  }
-  
-  return JSON.stringify(exportData, null, 2)
-}
-
-/**
- * Import data from JSON export
- */
-export async function importData(json: string): Promise<void> {
-  const data = JSON.parse(json)
-  
-  if (data.version !== DB_VERSION) {
-    console.warn('Import version mismatch, attempting migration...')
-  }
-  
-  if (data.state) {
-    await saveState(data.state)
-  }
-}
+// Full exports and restores live in archive.ts
 
 /**
  * Clear all data
@@ -348,15 +241,13 @@ export async function clearAllData(): Promise<void> {
   const db = await initDB()
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(
-      [STORES.STATE, STORES.JOURNAL, STORES.MEASUREMENTS, STORES.HISTORY],
-      'readwrite'
-    )
+    const storeNames = Array.from(db.objectStoreNames)
+    const transaction = db.transaction(storeNames, 'readwrite')
     
     transaction.onerror = () => reject(transaction.error)
     transaction.oncomplete = () => resolve()
 
-    for (const storeName of Object.values(STORES)) {
+    for (const storeName of storeNames) {
       transaction.objectStore(storeName).clear()
     }
   })
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { JournalEntry } from '@/types/cascade'
+import { stubBrowserStorage } from './testing'
+import { STORES } from './schema'
+
+function entry(id: string, timestamp: number, rawText = `Entry ${id}`): JournalEntry {
+  return { id, timestamp, rawText, extractedPatterns: [], shadowMaterial: [], suggestedIntegrations: [] }
+}
+
+// Ten entries, two per timestamp, so pages end between entries that tie
+const ENTRIES = Array.from({ length: 10 }, (_, i) => entry(`entry-${i}`, Math.floor(i / 2) * 100))
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+async function journalWith(entries: JournalEntry[]) {
+  const { putMany } = await import('./repository')
+  await putMany(STORES.JOURNAL, entries)
+  return import('./journal')
+}
+
+describe('getJournalPage', () => {
+  it('pages newest first without skipping or repeating tied entries', async () => {
+    const journal = await journalWith(ENTRIES)
+    const ids: string[] = []
+
+    let page = await journal.getJournalPage({ limit: 3 })
+    ids.push(...page.items.map(e => e.id))
+    while (page.next) {
+      page = await journal.getJournalPage({ limit: 3, after: page.next })
+      ids.push(...page.items.map(e => e.id))
+    }
+
+    expect(ids).toEqual([...ENTRIES].reverse().map(e => e.id))
+  })
+
+  it('pages oldest first within a date range', async () => {
+    const journal = await journalWith(ENTRIES)
+
+    const first = await journal.getJournalPage({ from: 100, to: 300, order: 'oldest', limit: 4 })
+    const second = await journal.getJournalPage({ from: 100, to: 300, order: 'oldest', limit: 4, after: first.next })
+
+    expect(first.items.map(e => e.id)).toEqual(['entry-2', 'entry-3', 'entry-4', 'entry-5'])
+    expect(second.items.map(e => e.id)).toEqual(['entry-6', 'entry-7'])
+    expect(second.next).toBeNull()
+  })
+})
+
+describe('getJournalRange and countJournalEntries', () => {
+  it('read and count every entry in a range', async () => {
+    const journal = await journalWith(ENTRIES)
+
+    expect((await journal.getJournalRange(200)).map(e => e.id)).toEqual(
+      ['entry-9', 'entry-8', 'entry-7', 'entry-6', 'entry-5', 'entry-4']
+    )
+    expect(await journal.countJournalEntries(200)).toBe(6)
+    expect(await journal.countJournalEntries(undefined, 0)).toBe(2)
+  })
+})
+
+describe('absorbJournalEntries', () => {
+  it('adds missing entries and leaves stored ones as they are', async () => {
+    const journal = await journalWith([entry('kept', 1, 'Stored text')])
+    const { getAll } = await import('./repository')
+
+    const added = await journal.absorbJournalEntries([entry('kept', 1, 'Older text'), entry('new', 2)])
+
+    expect(added).toBe(1)
+    expect(await getAll<JournalEntry>(STORES.JOURNAL)).toEqual([entry('kept', 1, 'Stored text'), entry('new', 2)])
+  })
+
+  it('leaves entries deleted from the store deleted', async () => {
+    const journal = await journalWith([entry('gone', 1)])
+    const { applyChanges, getAll } = await import('./repository')
+    await applyChanges(STORES.JOURNAL, { put: [], remove: ['gone'] })
+
+    expect(await journal.absorbJournalEntries([entry('gone', 1)])).toBe(0)
+    expect(await getAll(STORES.JOURNAL)).toEqual([])
+  })
+})
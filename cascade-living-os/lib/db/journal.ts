@@ -0,0 +1,113 @@
+// CASCADE Living OS - Journal Store
+// Cursor-paged, date-ranged access to every journal entry ever written
+
+import { JournalEntry } from '@/types/cascade'
+import { STORES } from './schema'
+import {
+  Page,
+  PageCursor,
+  queryPage,
+  countByIndex,
+  getAllKeys,
+  put,
+  putMany
+} from './repository'
+import { changeRef, getChangeRecords } from './change-log'
+
+export const JOURNAL_PAGE_SIZE = 20
+
+// Page size for reads that walk a whole range
+const SCAN_PAGE_SIZE = 200
+
+export interface JournalQuery {
+  from?: number // inclusive timestamp
+  to?: number   // inclusive timestamp
+  order?: 'newest' | 'oldest'
+  limit?: number
+  after?: PageCursor | null
+}
+
+export type JournalPage = Page<JournalEntry>
+
+function timestampRange(from?: number, to?: number): IDBKeyRange | null {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to)
+  if (from !== undefined) return IDBKeyRange.lowerBound(from)
+  if (to !== undefined) return IDBKeyRange.upperBound(to)
+  return null
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/**
+ * Read one page of entries, newest first unless `order` says otherwise
+ */
+export function getJournalPage(query: JournalQuery = {}): Promise<JournalPage> {
+  return queryPage<JournalEntry>(STORES.JOURNAL, 'timestamp', {
+    range: timestampRange(query.from, query.to),
+    direction: query.order === 'oldest' ? 'next' : 'prev',
+    limit: query.limit ?? JOURNAL_PAGE_SIZE,
+    after: query.after
+  })
+}
+
+/**
+ * Read every entry in a date range, newest first, a page at a time
+ */
+export async function getJournalRange(from?: number, to?: number): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = []
+  let after: PageCursor | null = null
+
+  do {
+    const page: JournalPage = await getJournalPage({ from, to, limit: SCAN_PAGE_SIZE, after })
+    entries.push(...page.items)
+    after = page.next
+  } while (after)
+
+  return entries
+}
+
+/**
+ * Count entries in a date range without decrypting them
+ */
+export function countJournalEntries(from?: number, to?: number): Promise<number> {
+  return countByIndex(STORES.JOURNAL, 'timestamp', timestampRange(from, to))
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Save a single journal entry
+ */
+export function saveJournalEntry(entry: JournalEntry): Promise<void> {
+  return put(STORES.JOURNAL, entry)
+}
+
+/**
+ * Write entries that are not in the store yet, e.g. the journal that
+ * older builds kept inside the persisted state. Existing entries win.
+ *
+ * Entries deleted from the store (by retention or on another device) are
+ * left deleted unless `restoreDeleted` is set, as an explicit import does.
+ */
+export async function absorbJournalEntries(
+  entries: JournalEntry[],
+  options: { restoreDeleted?: boolean } = {}
+): Promise<number> {
+  if (entries.length === 0) return 0
+
+  const stored = new Set(await getAllKeys(STORES.JOURNAL))
+  let missing = entries.filter(entry => !stored.has(entry.id))
+
+  if (!options.restoreDeleted) {
+    const changes = await getChangeRecords(missing.map(entry => changeRef(STORES.JOURNAL, entry.id)))
+    const deleted = new Set(changes.filter(change => change.deleted).map(change => change.ref))
+    missing = missing.filter(entry => !deleted.has(changeRef(STORES.JOURNAL, entry.id)))
+  }
+
+  await putMany(STORES.JOURNAL, missing)
+  return missing.length
+}
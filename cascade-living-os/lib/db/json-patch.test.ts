@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { applyPatch, deepEqual, diff, parsePointer } from './json-patch'
+
+const ENTRY = (id: number) => ({ id: `entry-${id}`, text: `Entry ${id}` })
+
+function roundTrip(from: unknown, to: unknown) {
+  const ops = diff(from, to)
+  expect(applyPatch(from, ops)).toEqual(to)
+  return ops
+}
+
+describe('diff and applyPatch', () => {
+  it('round-trip nested objects', () => {
+    const ops = roundTrip(
+      { a: 1, nested: { keep: true, drop: 'x' }, list: [1, 2] },
+      { a: 2, nested: { keep: true, added: [3] }, list: [1, 2], extra: null }
+    )
+
+    expect(ops).toEqual([
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'remove', path: '/nested/drop' },
+      { op: 'add', path: '/nested/added', value: [3] },
+      { op: 'add', path: '/extra', value: null }
+    ])
+  })
+
+  it('turn a prepend or append into a single operation', () => {
+    const journal = [ENTRY(2), ENTRY(1)]
+
+    expect(roundTrip(journal, [ENTRY(3), ...journal])).toEqual([{ op: 'add', path: '/0', value: ENTRY(3) }])
+    expect(roundTrip(journal, [...journal, ENTRY(0)])).toEqual([{ op: 'add', path: '/2', value: ENTRY(0) }])
+    expect(roundTrip(journal, journal.slice(1))).toEqual([{ op: 'remove', path: '/0' }])
+  })
+
+  it('round-trip arrays that change in the middle', () => {
+    roundTrip([ENTRY(1), ENTRY(2), ENTRY(3), ENTRY(4)], [ENTRY(1), { ...ENTRY(2), text: 'Edited' }, ENTRY(4)])
+    roundTrip([1, 2, 3], [4, 5, 6, 7, 8])
+    roundTrip([1, 2, 3, 4, 5], [])
+  })
+
+  it('escape keys holding slashes and tildes', () => {
+    const ops = roundTrip({}, { 'a/b': 1, 'c~d': 2 })
+
+    expect(ops.map(op => op.path)).toEqual(['/a~1b', '/c~0d'])
+    expect(parsePointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d'])
+  })
+
+  it('treat undefined fields as absent', () => {
+    expect(diff({ a: 1, b: undefined }, { a: 1 })).toEqual([])
+    expect(deepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+  })
+
+  it('replace the whole document at the root', () => {
+    expect(roundTrip('before', 'after')).toEqual([{ op: 'replace', path: '', value: 'after' }])
+  })
+})
+
+describe('applyPatch', () => {
+  it('leaves its input untouched', () => {
+    const document = { list: [1], nested: { value: 1 } }
+
+    applyPatch(document, [
+      { op: 'add', path: '/list/-', value: 2 },
+      { op: 'replace', path: '/nested/value', value: 2 }
+    ])
+
+    expect(document).toEqual({ list: [1], nested: { value: 1 } })
+  })
+
+  it('rejects paths that do not exist', () => {
+    expect(() => applyPatch({ list: [] }, [{ op: 'add', path: '/missing/key', value: 1 }])).toThrow('does not exist')
+    expect(() => applyPatch({ list: [] }, [{ op: 'add', path: '/list/3', value: 1 }])).toThrow('Invalid array index')
+  })
+})
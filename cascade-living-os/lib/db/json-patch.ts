@@ -0,0 +1,180 @@
+// CASCADE Living OS - JSON Patch
+// Minimal RFC 6902 diff/apply (add, remove, replace) for state history
+
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+
+type Container = Record<string, unknown> | unknown[]
+
+// ============================================================================
+// POINTERS
+// ============================================================================
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapeToken(token: string): string {
+  return token.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Split a JSON pointer into unescaped tokens
+ */
+export function parsePointer(path: string): string[] {
+  if (path === '') return []
+  return path.slice(1).split('/').map(unescapeToken)
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Compute the operations that turn `from` into `to`.
+ *
+ * Arrays are aligned on their common prefix and suffix first, so the
+ * prepend/append updates the store makes produce a single add or remove
+ * instead of rewriting every index.
+ */
+export function diff(from: unknown, to: unknown, path = ''): PatchOperation[] {
+  if (from === to) return []
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    return diffArrays(from, to, path)
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const ops: PatchOperation[] = []
+    for (const key of Object.keys(from)) {
+      const childPath = `${path}/${escapeToken(key)}`
+      if (!(key in to) || to[key] === undefined) {
+        if (from[key] !== undefined) ops.push({ op: 'remove', path: childPath })
+      } else {
+        ops.push(...diff(from[key], to[key], childPath))
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if ((!(key in from) || from[key] === undefined) && to[key] !== undefined) {
+        ops.push({ op: 'add', path: `${path}/${escapeToken(key)}`, value: to[key] })
+      }
+    }
+    return ops
+  }
+
+  return deepEqual(from, to) ? [] : [{ op: 'replace', path, value: to }]
+}
+
+function diffArrays(from: unknown[], to: unknown[], path: string): PatchOperation[] {
+  let start = 0
+  while (start < from.length && start < to.length && deepEqual(from[start], to[start])) {
+    start++
+  }
+
+  let endFrom = from.length
+  let endTo = to.length
+  while (endFrom > start && endTo > start && deepEqual(from[endFrom - 1], to[endTo - 1])) {
+    endFrom--
+    endTo--
+  }
+
+  const ops: PatchOperation[] = []
+  const shared = Math.min(endFrom - start, endTo - start)
+
+  for (let i = start; i < start + shared; i++) {
+    ops.push(...diff(from[i], to[i], `${path}/${i}`))
+  }
+
+  // Remove surplus from the back so earlier indexes stay valid
+  for (let i = endFrom - 1; i >= start + shared; i--) {
+    ops.push({ op: 'remove', path: `${path}/${i}` })
+  }
+  for (let i = start + shared; i < endTo; i++) {
+    ops.push({ op: 'add', path: `${path}/${i}`, value: to[i] })
+  }
+
+  return ops
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Apply operations to a document, returning a new document.
+ * The input is never mutated.
+ */
+export function applyPatch<T>(document: T, ops: PatchOperation[]): T {
+  let root: unknown = clone(document)
+
+  for (const operation of ops) {
+    const tokens = parsePointer(operation.path)
+
+    if (tokens.length === 0) {
+      root = operation.op === 'remove' ? undefined : clone(operation.value)
+      continue
+    }
+
+    const parent = resolveParent(root, tokens, operation.path)
+    const key = tokens[tokens.length - 1]
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key)
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Invalid array index in patch path: ${operation.path}`)
+      }
+      if (operation.op === 'add') parent.splice(index, 0, clone(operation.value))
+      else if (operation.op === 'remove') parent.splice(index, 1)
+      else parent[index] = clone(operation.value)
+    } else {
+      if (operation.op === 'remove') delete parent[key]
+      else parent[key] = clone(operation.value)
+    }
+  }
+
+  return root as T
+}
+
+function resolveParent(root: unknown, tokens: string[], path: string): Container {
+  let current: unknown = root
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) current = current[Number(token)]
+    else if (isPlainObject(current)) current = current[token]
+    else current = undefined
+
+    if (current === undefined || current === null) {
+      throw new Error(`Patch path does not exist: ${path}`)
+    }
+  }
+  if (!Array.isArray(current) && !isPlainObject(current)) {
+    throw new Error(`Patch target is not a container: ${path}`)
+  }
+  return current
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a).filter(k => a[k] !== undefined)
+    const keysB = Object.keys(b).filter(k => b[k] !== undefined)
+    return keysA.length === keysB.length && keysA.every(k => deepEqual(a[k], b[k]))
+  }
+  return false
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value)
+}
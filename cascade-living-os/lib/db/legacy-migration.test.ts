@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from './testing'
+import { DOCUMENTS, LIVING_MEMORY_KEY } from './schema'
+
+let storage: Storage
+
+beforeEach(() => {
+  vi.resetModules()
+  storage = stubBrowserStorage()
+})
+
+describe('migrateLegacyStorage', () => {
+  it('moves entity lists into their stores and drops the keys', async () => {
+    storage.setItem('cascade-goals', JSON.stringify([{ id: 'goal-1', title: 'Run', createdAt: 1 }]))
+    const { getAll } = await import('./repository')
+
+    expect(await getAll('goals')).toEqual([{ id: 'goal-1', title: 'Run', createdAt: 1 }])
+    expect(storage.getItem('cascade-goals')).toBeNull()
+  })
+
+  it('moves the living memory into the memories store and its consolidations into a document', async () => {
+    const memory = { id: 'mem-1', type: 'EPISODIC', content: 'Walked before work', createdAt: 1, lamagueTags: [] }
+    const consolidation = { sourceMemories: ['mem-0'], resultMemory: memory, consolidationType: 'MERGE', timestamp: 2 }
+    storage.setItem(LIVING_MEMORY_KEY, JSON.stringify({ memories: [memory], consolidations: [consolidation] }))
+    const { getAll, getDocument } = await import('./repository')
+
+    expect(await getAll('memories')).toEqual([memory])
+    expect(await getDocument(DOCUMENTS.MEMORY_CONSOLIDATIONS.key)).toEqual([consolidation])
+    expect(storage.getItem(LIVING_MEMORY_KEY)).toBeNull()
+  })
+
+  it('keeps keys it cannot read', async () => {
+    storage.setItem('cascade-goals', '{"not": "a list"}')
+    storage.setItem(LIVING_MEMORY_KEY, 'not json')
+    const { getAll } = await import('./repository')
+
+    expect(await getAll('goals')).toEqual([])
+    expect(storage.getItem('cascade-goals')).toBe('{"not": "a list"}')
+    expect(storage.getItem(LIVING_MEMORY_KEY)).toBe('not json')
+  })
+})
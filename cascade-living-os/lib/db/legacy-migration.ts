@@ -0,0 +1,152 @@
+// CASCADE Living OS - Legacy localStorage Migration
+// One-time move of the per-page localStorage silos into IndexedDB
+
+import {
+  STORES,
+  ENTITY_STORES,
+  DOCUMENTS,
+  PERSISTED_STATE_KEY,
+  LIVING_MEMORY_KEY
+} from './schema'
+
+interface PendingWrite {
+  legacyKey: string
+  store: string
+  records: unknown[]
+}
+
+// Plaintext copies of the API keys; the server's credential store holds them now
+const OBSOLETE_KEYS = ['anthropic-api-key', 'gemini-api-key']
+
+export interface LegacyMigrationReport {
+  migratedKeys: string[]
+  skippedKeys: string[]
+  recordCount: number
+}
+
+/**
+ * Copy legacy localStorage data into IndexedDB, then drop the legacy keys.
+ *
+ * Existing IndexedDB records are never overwritten, so a stale tab that
+ * still writes to localStorage cannot roll newer data back. Keys that fail
+ * to parse, or do not hold the shape expected, are left in place and
+ * reported as skipped.
+ */
+export function migrateLegacyStorage(db: IDBDatabase): Promise<LegacyMigrationReport> {
+  const report: LegacyMigrationReport = { migratedKeys: [], skippedKeys: [], recordCount: 0 }
+  if (typeof localStorage === 'undefined') return Promise.resolve(report)
+
+  OBSOLETE_KEYS.forEach(key => localStorage.removeItem(key))
+
+  const pending = collectPendingWrites(report)
+  if (pending.length === 0) return Promise.resolve(report)
+
+  const storeNames = Array.from(new Set(pending.map(p => p.store)))
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite')
+
+    transaction.onerror = () => reject(transaction.error)
+    transaction.oncomplete = () => {
+      for (const { legacyKey, records } of pending) {
+        localStorage.removeItem(legacyKey)
+        if (!report.migratedKeys.includes(legacyKey)) report.migratedKeys.push(legacyKey)
+        report.recordCount += records.length
+      }
+      resolve(report)
+    }
+
+    for (const { store, records } of pending) {
+      const objectStore = transaction.objectStore(store)
+      for (const record of records) {
+        const request = objectStore.add(record)
+        // ConstraintError: IndexedDB already holds this record - keep it
+        request.onerror = (event) => {
+          event.preventDefault()
+          event.stopPropagation()
+        }
+      }
+    }
+  })
+}
+
+function collectPendingWrites(report: LegacyMigrationReport): PendingWrite[] {
+  const pending: PendingWrite[] = []
+
+  for (const [store, schema] of Object.entries(ENTITY_STORES)) {
+    if (!('legacyKey' in schema)) continue
+    const parsed = readLegacyKey(schema.legacyKey, report)
+    if (parsed === undefined) continue
+
+    // Not the list this page wrote: keep it rather than drop data we cannot read
+    if (!Array.isArray(parsed)) {
+      report.skippedKeys.push(schema.legacyKey)
+      continue
+    }
+    const records = parsed.filter(r => r && typeof r === 'object' && schema.keyPath in r)
+    pending.push({ legacyKey: schema.legacyKey, store, records })
+  }
+
+  for (const document of Object.values(DOCUMENTS)) {
+    if (!('legacyKey' in document)) continue
+    const parsed = readLegacyKey(document.legacyKey, report)
+    if (parsed === undefined) continue
+    pending.push({ legacyKey: document.legacyKey, store: STORES.DOCUMENTS, records: [{ key: document.key, value: parsed }] })
+  }
+
+  // zustand persist blob: { state, version }
+  const persisted = readLegacyKey(PERSISTED_STATE_KEY, report) as
+    | { state?: unknown; version?: number }
+    | undefined
+  if (persisted !== undefined) {
+    if (persisted && typeof persisted === 'object' && persisted.state) {
+      pending.push({
+        legacyKey: PERSISTED_STATE_KEY,
+        store: STORES.STATE,
+        records: [{ id: PERSISTED_STATE_KEY, state: persisted.state, version: persisted.version ?? 0 }]
+      })
+    } else {
+      report.skippedKeys.push(PERSISTED_STATE_KEY)
+    }
+  }
+
+  // Living memory blob: { memories, consolidations }
+  const living = readLegacyKey(LIVING_MEMORY_KEY, report) as
+    | { memories?: unknown; consolidations?: unknown }
+    | undefined
+  if (living !== undefined) {
+    if (living && typeof living === 'object' && Array.isArray(living.memories)) {
+      pending.push({
+        legacyKey: LIVING_MEMORY_KEY,
+        store: 'memories',
+        records: living.memories.filter(m => m && typeof m === 'object' && 'id' in m)
+      })
+      if (Array.isArray(living.consolidations)) {
+        pending.push({
+          legacyKey: LIVING_MEMORY_KEY,
+          store: STORES.DOCUMENTS,
+          records: [{ key: DOCUMENTS.MEMORY_CONSOLIDATIONS.key, value: living.consolidations }]
+        })
+      }
+    } else {
+      report.skippedKeys.push(LIVING_MEMORY_KEY)
+    }
+  }
+
+  return pending
+}
+
+/**
+ * Parse a legacy key; undefined means absent or unreadable
+ */
+function readLegacyKey(key: string, report: LegacyMigrationReport): unknown {
+  const raw = localStorage.getItem(key)
+  if (raw === null) return undefined
+
+  try {
+    return JSON.parse(raw)
+  } catch {
+    report.skippedKeys.push(key)
+    return undefined
+  }
+}
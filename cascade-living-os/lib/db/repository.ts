@@ -0,0 +1,517 @@
+// CASCADE Living OS - Entity Repository
+// Typed access to the per-entity IndexedDB object stores
+
+import { initDB } from './indexed-db'
+import { STORES, EntityStoreName, DocumentKey, getEntitySchema } from './schema'
+import { sealRecord, openRecord, openRecords } from './vault'
+import { ChangeTracker, trackChanges, isSyncedDocument } from './change-log'
+import { broadcast, onTabMessage } from './tab-channel'
+import { appendAudit, getCurrentActor } from './audit'
+import { isQuotaExceededError, notifyQuotaExceeded } from '@/lib/utils'
+
+export type EntityKey = IDBValidKey
+
+export interface EntityChanges<T> {
+  put: T[]
+  remove: EntityKey[]
+}
+
+// Position of a record in an index, used to resume paged reads
+export interface PageCursor {
+  key: IDBValidKey
+  primaryKey: EntityKey
+}
+
+export interface PageQuery {
+  range?: IDBKeyRange | null
+  direction?: IDBCursorDirection
+  limit: number
+  after?: PageCursor | null
+}
+
+export interface Page<T> {
+  items: T[]
+  next: PageCursor | null
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function withStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await initDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode)
+    let result: T | undefined
+
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => {
+      if (isQuotaExceededError(transaction.error)) notifyQuotaExceeded(store)
+      reject(transaction.error)
+    }
+    transaction.oncomplete = () => {
+      if (mode === 'readwrite') broadcast({ type: 'store-changed', store })
+      resolve(result)
+    }
+
+    const request = run(transaction.objectStore(store))
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result
+      }
+    }
+  })
+}
+
+/**
+ * Run a write and record what it changed in the sync change log.
+ * Other tabs are told about every committed write.
+ */
+async function withTrackedStore(
+  store: string,
+  run: (objectStore: IDBObjectStore, changes: ChangeTracker) => void
+): Promise<void> {
+  const db = await initDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([store, STORES.CHANGES], 'readwrite')
+
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => {
+      if (isQuotaExceededError(transaction.error)) notifyQuotaExceeded(store)
+      reject(transaction.error)
+    }
+    transaction.oncomplete = () => {
+      broadcast({ type: 'store-changed', store })
+      resolve()
+    }
+
+    run(transaction.objectStore(store), trackChanges(transaction, store))
+  })
+}
+
+// A record as a write leaves it; undefined for deletions
+interface AuditedWrite {
+  key: EntityKey
+  after: unknown
+}
+
+async function readPrevious(store: string, keys: EntityKey[] | null): Promise<Map<string, unknown>> {
+  const db = await initDB()
+  const records = await new Promise<unknown[]>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readonly')
+    const objectStore = transaction.objectStore(store)
+    const results: unknown[] = []
+    transaction.oncomplete = () => resolve(results)
+    transaction.onerror = () => reject(transaction.error)
+
+    if (keys === null) {
+      const request = objectStore.getAll()
+      request.onsuccess = () => results.push(...request.result)
+      return
+    }
+    keys.forEach(key => {
+      const request = objectStore.get(key)
+      request.onsuccess = () => {
+        if (request.result !== undefined) results.push(request.result)
+      }
+    })
+  })
+
+  const opened = await openRecords(records)
+  const keyOf = (record: unknown) => store === STORES.DOCUMENTS
+    ? (record as { key: string }).key
+    : getEntityKey(store as EntityStoreName, record)
+  return new Map(opened.map(record => [
+    JSON.stringify(keyOf(record)),
+    store === STORES.DOCUMENTS ? (record as { value: unknown }).value : record
+  ]))
+}
+
+/**
+ * Run a write and log it, with previous values, in the audit log.
+ * The actor is read before anything is awaited, so `runAs` around the call applies.
+ * With `replacing`, records missing from `writes` are logged as deleted.
+ */
+async function audited(
+  store: string,
+  writes: AuditedWrite[],
+  write: () => Promise<void>,
+  replacing = false
+): Promise<void> {
+  const actor = getCurrentActor()
+  const previous = await readPrevious(store, replacing ? null : writes.map(w => w.key))
+  await write()
+
+  const written = new Set(writes.map(w => JSON.stringify(w.key)))
+  const removed = replacing
+    ? Array.from(previous.keys()).filter(id => !written.has(id)).map(id => ({ key: JSON.parse(id), after: undefined }))
+    : []
+
+  await appendAudit([...writes, ...removed].map(({ key, after }) => ({
+    actor,
+    target: store,
+    entityId: String(key),
+    before: previous.get(JSON.stringify(key)),
+    after
+  })))
+}
+
+function sealAll<T>(store: string, entities: T[]): Promise<T[]> {
+  return Promise.all(entities.map(entity => sealRecord(store, entity)))
+}
+
+/**
+ * Read the primary key of an entity using its store's keyPath
+ */
+export function getEntityKey<T>(store: EntityStoreName, entity: T): EntityKey {
+  const { keyPath } = getEntitySchema(store)
+  return (entity as Record<string, EntityKey>)[keyPath]
+}
+
+/**
+ * When an entity was last modified: updatedAt, else timestamp, else createdAt
+ */
+export function getEntityTimestamp(entity: unknown): number {
+  const record = (entity ?? {}) as Record<string, unknown>
+  for (const field of ['updatedAt', 'timestamp', 'createdAt']) {
+    const value = record[field]
+    if (typeof value === 'number') return value
+    if (typeof value === 'string' && !isNaN(Date.parse(value))) return Date.parse(value)
+  }
+  return 0
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/**
+ * Get every entity in a store (primary key order)
+ */
+export async function getAll<T>(store: EntityStoreName): Promise<T[]> {
+  return openRecords((await withStore<T[]>(store, 'readonly', s => s.getAll())) ?? [])
+}
+
+/**
+ * Get a single entity by primary key
+ */
+export async function getById<T>(store: EntityStoreName, key: EntityKey): Promise<T | undefined> {
+  const entity = await withStore<T>(store, 'readonly', s => s.get(key))
+  return entity === undefined ? undefined : openRecord(entity)
+}
+
+/**
+ * Get entities through an index, optionally bounded and newest-first
+ */
+export async function queryByIndex<T>(
+  store: EntityStoreName,
+  index: string,
+  range?: IDBKeyRange | IDBValidKey | null,
+  direction: IDBCursorDirection = 'next'
+): Promise<T[]> {
+  const db = await initDB()
+
+  const results = await new Promise<T[]>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readonly')
+    const request = transaction.objectStore(store).index(index).openCursor(range ?? null, direction)
+    const results: T[] = []
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        results.push(cursor.value)
+        cursor.continue()
+      } else {
+        resolve(results)
+      }
+    }
+  })
+
+  return openRecords(results)
+}
+
+/**
+ * Read a page of entities through an index, resuming after `after`.
+ * Pass the returned `next` back for the following page; null means done.
+ */
+export async function queryPage<T>(
+  store: EntityStoreName,
+  index: string,
+  { range, direction = 'next', limit, after }: PageQuery
+): Promise<Page<T>> {
+  const db = await initDB()
+  // Positions ahead of `after` in the direction of travel compare above zero
+  const sign = direction === 'prev' || direction === 'prevunique' ? -1 : 1
+  const compare = (cursor: IDBCursor, position: PageCursor) =>
+    sign * (indexedDB.cmp(cursor.key, position.key) || indexedDB.cmp(cursor.primaryKey, position.primaryKey))
+
+  const page = await new Promise<Page<T>>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readonly')
+    const request = transaction.objectStore(store).index(index).openCursor(range ?? null, direction)
+    const items: T[] = []
+    let last: PageCursor | null = null
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve({ items, next: null })
+        return
+      }
+
+      if (after && items.length === 0) {
+        const offset = compare(cursor, after)
+        if (offset < 0) {
+          cursor.continuePrimaryKey(after.key, after.primaryKey)
+          return
+        }
+        if (offset === 0) {
+          cursor.continue()
+          return
+        }
+      }
+
+      // A record beyond a full page means there is another page
+      if (last) {
+        resolve({ items, next: last })
+        return
+      }
+
+      items.push(cursor.value)
+      if (items.length === limit) last = { key: cursor.key, primaryKey: cursor.primaryKey }
+      cursor.continue()
+    }
+  })
+
+  return { items: await openRecords(page.items), next: page.next }
+}
+
+/**
+ * Count entities in a store
+ */
+export async function count(store: EntityStoreName): Promise<number> {
+  return (await withStore<number>(store, 'readonly', s => s.count())) ?? 0
+}
+
+/**
+ * Count entities through an index, optionally bounded
+ */
+export async function countByIndex(
+  store: EntityStoreName,
+  index: string,
+  range?: IDBKeyRange | IDBValidKey | null
+): Promise<number> {
+  return (await withStore<number>(store, 'readonly', s => s.index(index).count(range ?? undefined))) ?? 0
+}
+
+/**
+ * Get every primary key in a store without reading the entities
+ */
+export async function getAllKeys(store: EntityStoreName): Promise<EntityKey[]> {
+  return (await withStore<EntityKey[]>(store, 'readonly', s => s.getAllKeys())) ?? []
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Insert or replace a single entity
+ */
+export async function put<T>(store: EntityStoreName, entity: T): Promise<void> {
+  await audited(store, [{ key: getEntityKey(store, entity), after: entity }], async () => {
+    const sealed = await sealRecord(store, entity)
+    await withTrackedStore(store, (s, changes) => {
+      s.put(sealed)
+      changes.put(getEntityKey(store, entity))
+    })
+  })
+}
+
+/**
+ * Insert or replace many entities in one transaction
+ */
+export async function putMany<T>(store: EntityStoreName, entities: T[]): Promise<void> {
+  if (entities.length === 0) return
+  const writes = entities.map(entity => ({ key: getEntityKey(store, entity), after: entity }))
+  await audited(store, writes, async () => {
+    const sealed = await sealAll(store, entities)
+    await withTrackedStore(store, (s, changes) => {
+      sealed.forEach(entity => s.put(entity))
+      entities.forEach(entity => changes.put(getEntityKey(store, entity)))
+    })
+  })
+}
+
+/**
+ * Delete a single entity by primary key
+ */
+export async function remove(store: EntityStoreName, key: EntityKey): Promise<void> {
+  await audited(store, [{ key, after: undefined }], () => withTrackedStore(store, (s, changes) => {
+    s.delete(key)
+    changes.remove(key)
+  }))
+}
+
+/**
+ * Apply a batch of puts and deletes atomically
+ */
+export async function applyChanges<T>(
+  store: EntityStoreName,
+  changes: EntityChanges<T>
+): Promise<void> {
+  if (changes.put.length === 0 && changes.remove.length === 0) return
+  const writes = [
+    ...changes.remove.map(key => ({ key, after: undefined })),
+    ...changes.put.map(entity => ({ key: getEntityKey(store, entity), after: entity as unknown }))
+  ]
+  await audited(store, writes, async () => {
+    const sealed = await sealAll(store, changes.put)
+    await withTrackedStore(store, (s, tracker) => {
+      changes.remove.forEach(key => {
+        s.delete(key)
+        tracker.remove(key)
+      })
+      sealed.forEach(entity => s.put(entity))
+      changes.put.forEach(entity => tracker.put(getEntityKey(store, entity)))
+    })
+  })
+}
+
+/**
+ * Replace the whole contents of a store
+ */
+export async function replaceAll<T>(store: EntityStoreName, entities: T[]): Promise<void> {
+  const writes = entities.map(entity => ({ key: getEntityKey(store, entity), after: entity }))
+  await audited(store, writes, async () => {
+    const sealed = await sealAll(store, entities)
+    const kept = new Set(entities.map(entity => JSON.stringify(getEntityKey(store, entity))))
+
+    await withTrackedStore(store, (s, changes) => {
+      const existing = s.getAllKeys()
+      existing.onsuccess = () => {
+        existing.result
+          .filter(key => !kept.has(JSON.stringify(key)))
+          .forEach(key => changes.remove(key))
+        s.clear()
+        sealed.forEach(entity => s.put(entity))
+        entities.forEach(entity => changes.put(getEntityKey(store, entity)))
+      }
+    })
+  }, true)
+}
+
+/**
+ * Compute the puts and deletes that turn `previous` into `next`.
+ * Entities are compared by reference, which matches immutable React updates.
+ */
+export function diffCollections<T>(
+  store: EntityStoreName,
+  previous: T[],
+  next: T[]
+): EntityChanges<T> {
+  const before = new Map(previous.map(e => [getEntityKey(store, e), e]))
+  const changes: EntityChanges<T> = { put: [], remove: [] }
+
+  for (const entity of next) {
+    const key = getEntityKey(store, entity)
+    if (before.get(key) !== entity) changes.put.push(entity)
+    before.delete(key)
+  }
+  changes.remove = Array.from(before.keys())
+
+  return changes
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+/**
+ * Read a singleton document
+ */
+export async function getDocument<T>(key: DocumentKey): Promise<T | undefined> {
+  const record = await withStore<{ key: string; value: T }>(
+    STORES.DOCUMENTS,
+    'readonly',
+    s => s.get(key)
+  )
+  return record === undefined ? undefined : (await openRecord(record)).value
+}
+
+/**
+ * Write a singleton document
+ */
+export async function putDocument<T>(key: DocumentKey, value: T): Promise<void> {
+  await audited(STORES.DOCUMENTS, [{ key, after: value }], async () => {
+    const sealed = await sealRecord(STORES.DOCUMENTS, { key, value })
+    if (!isSyncedDocument(key)) {
+      await withStore(STORES.DOCUMENTS, 'readwrite', s => s.put(sealed))
+      return
+    }
+    await withTrackedStore(STORES.DOCUMENTS, (s, changes) => {
+      s.put(sealed)
+      changes.put(key)
+    })
+  })
+}
+
+/**
+ * Delete a singleton document
+ */
+export async function removeDocument(key: DocumentKey): Promise<void> {
+  await audited(STORES.DOCUMENTS, [{ key, after: undefined }], async () => {
+    if (!isSyncedDocument(key)) {
+      await withStore(STORES.DOCUMENTS, 'readwrite', s => s.delete(key))
+      return
+    }
+    await withTrackedStore(STORES.DOCUMENTS, (s, changes) => {
+      s.delete(key)
+      changes.remove(key)
+    })
+  })
+}
+
+// ============================================================================
+// EXTERNAL CHANGES
+// ============================================================================
+
+const externalListeners = new Set<(store: string) => void>()
+let listeningToTabs = false
+
+function notifyListeners(store: string): void {
+  externalListeners.forEach(listener => listener(store))
+}
+
+/**
+ * Subscribe to stores rewritten behind the page's back: by another tab
+ * or by sync. Returns an unsubscribe function.
+ */
+export function onExternalChange(listener: (store: string) => void): () => void {
+  if (!listeningToTabs) {
+    listeningToTabs = true
+    onTabMessage(message => {
+      if (message.type === 'store-changed') notifyListeners(message.store)
+    })
+  }
+
+  externalListeners.add(listener)
+  return () => {
+    externalListeners.delete(listener)
+  }
+}
+
+/**
+ * Announce a store written outside the repository to this tab and the others
+ */
+export function notifyExternalChange(store: string): void {
+  notifyListeners(store)
+  broadcast({ type: 'store-changed', store })
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { JournalEntry } from '@/types/cascade'
+import { stubBrowserStorage } from './testing'
+import { DOCUMENTS, STORES } from './schema'
+
+const DAY = 24 * 60 * 60 * 1000
+
+function entry(id: string, age: number): JournalEntry {
+  return {
+    id,
+    timestamp: Date.now() - age,
+    rawText: `Entry ${id}`,
+    extractedPatterns: [],
+    shadowMaterial: [],
+    suggestedIntegrations: []
+  }
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('enforceRetention', () => {
+  it('deletes records older than the rule and keeps the rest', async () => {
+    const { putMany, getAll } = await import('./repository')
+    const { saveRetentionRules, enforceRetention, previewRetention } = await import('./retention')
+    await putMany(STORES.JOURNAL, [entry('old', 40 * DAY), entry('new', DAY)])
+    await saveRetentionRules({ [STORES.JOURNAL]: { action: 'delete', days: 30 } })
+
+    expect(await previewRetention()).toEqual([expect.objectContaining({ target: STORES.JOURNAL, count: 1 })])
+    const run = await enforceRetention()
+
+    expect(run).toMatchObject({ deleted: 1, errors: [] })
+    expect((await getAll<JournalEntry>(STORES.JOURNAL)).map(e => e.id)).toEqual(['new'])
+  })
+
+  it('keeps expired journal entries from coming back out of the persisted state', async () => {
+    const { putMany, getAll } = await import('./repository')
+    const { saveRetentionRules, enforceRetention } = await import('./retention')
+    const { absorbJournalEntries } = await import('./journal')
+    const journal = [entry('old', 40 * DAY), entry('new', DAY)]
+    await putMany(STORES.JOURNAL, journal)
+    await saveRetentionRules({ [STORES.JOURNAL]: { action: 'delete', days: 30 } })
+    await enforceRetention()
+
+    // The state still holds its window of recent entries, the expired one included
+    expect(await absorbJournalEntries(journal)).toBe(0)
+    expect((await getAll<JournalEntry>(STORES.JOURNAL)).map(e => e.id)).toEqual(['new'])
+
+    // An explicit import brings it back
+    expect(await absorbJournalEntries(journal, { restoreDeleted: true })).toBe(1)
+  })
+
+  it('refuses rules shorter than a day', async () => {
+    const { saveRetentionRules, RetentionError } = await import('./retention')
+
+    await expect(saveRetentionRules({ [STORES.JOURNAL]: { action: 'delete', days: 0 } })).rejects.toThrow(RetentionError)
+  })
+})
+
+describe('summarizing', () => {
+  it('sends the registered retention prompt, overrides included', async () => {
+    const { putMany, putDocument } = await import('./repository')
+    const { saveRetentionRules, enforceRetention } = await import('./retention')
+    const requests: Array<{ systemPrompt: string }> = []
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      requests.push(JSON.parse(String(init.body)))
+      return new Response(JSON.stringify({ content: 'You wrote a lot.', provider: 'local' }))
+    }))
+    await putDocument(DOCUMENTS.LLM_CONFIG.key, { primaryProvider: 'local' })
+    await putDocument(DOCUMENTS.PROMPT_OVERRIDES.key, { retention_summary: { text: 'Summarize briefly.', baseVersion: 1, updatedAt: 1 } })
+    await putMany(STORES.JOURNAL, [entry('old', 40 * DAY)])
+    await saveRetentionRules({ [STORES.JOURNAL]: { action: 'summarize', days: 30 } })
+
+    const run = await enforceRetention()
+
+    expect(run).toMatchObject({ summarized: 1, memoriesCreated: 1, errors: [] })
+    expect(requests.map(request => request.systemPrompt)).toEqual(['Summarize briefly.'])
+  })
+})
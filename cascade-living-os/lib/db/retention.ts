@@ -0,0 +1,480 @@
+// CASCADE Living OS - Retention
+// Per-domain rules that expire old records, optionally summarizing them first
+
+import { STORES, DOCUMENTS, ENTITY_STORE_NAMES, EntityStoreName, RETENTION_META_KEY, LLMSettings, getEntitySchema } from './schema'
+import { initDB } from './indexed-db'
+import { sealRecord, openRecord } from './vault'
+import { getDocument, queryByIndex, applyChanges, getEntityKey, notifyExternalChange } from './repository'
+import { listColdArchives, readColdArchive, deleteColdArchive } from './cold-storage'
+import { AuditActor, appendAudit, runAs } from './audit'
+import { electLeader, withTabLock } from './tab-channel'
+import { UsageError, applyBudget, recordUsage } from './usage-ledger'
+import { Memory, MemoryType, MemoryImportance, getMemoryStore } from '@/lib/llm/memory'
+import { PromptOverrides, resolvePrompt } from '@/lib/llm/prompts'
+import type { CASCADEProviderName } from '@/lib/llm/provider'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CHECK_INTERVAL_MS = 60 * 60 * 1000   // how often the leading tab looks for a due run
+const RUN_INTERVAL_MS = DAY_MS
+
+const MAX_SUMMARY_CHARS = 12000            // source text per summarization request
+const MAX_RECORD_CHARS = 500
+const SAMPLE_COUNT = 3
+
+export const DEFAULT_RETENTION_DAYS = 90
+
+export type RetentionAction = 'keep' | 'delete' | 'summarize'
+
+export interface RetentionRule {
+  action: RetentionAction
+  days: number  // age after which records expire; ignored for 'keep'
+}
+
+// An entity store, or `memory:<MemoryType>` for living-memory entries
+export type RetentionTarget = EntityStoreName | `memory:${MemoryType}`
+
+export type RetentionRules = Partial<Record<RetentionTarget, RetentionRule>>
+
+export interface RetentionTargetInfo {
+  id: RetentionTarget
+  label: string
+  field: string          // numeric timestamp field records age by
+  summarizable: boolean
+}
+
+export interface RetentionPreviewItem {
+  target: RetentionTarget
+  label: string
+  rule: RetentionRule
+  cutoff: number
+  count: number          // live records older than the cutoff
+  archived: number       // cold-storage records in batches wholly older than it
+  oldest: number | null
+  samples: string[]
+}
+
+export interface RetentionRun {
+  ranAt: number
+  deleted: number
+  summarized: number      // records folded into summaries before deletion
+  memoriesCreated: number
+  errors: string[]
+}
+
+interface RetentionMeta {
+  rules: RetentionRules
+  lastRun: RetentionRun | null
+}
+
+export class RetentionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RetentionError'
+  }
+}
+
+// ============================================================================
+// TARGETS
+// ============================================================================
+
+// Fields records age by, in order of preference, when a store has no archiveBy
+const AGE_INDEXES = ['timestamp', 'createdAt', 'startTime', 'weekStart']
+
+function storeAgeIndex(store: EntityStoreName): string | null {
+  const schema = getEntitySchema(store)
+  if ('archiveBy' in schema && schema.archiveBy) return schema.archiveBy
+  const names = schema.indexes.map(index => index.name)
+  return AGE_INDEXES.find(name => names.includes(name)) ?? null
+}
+
+function titleCase(id: string): string {
+  return id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+}
+
+/**
+ * Everything a rule can apply to. Invariant memories are never expired.
+ */
+export const RETENTION_TARGETS: RetentionTargetInfo[] = [
+  // Memories are listed per type below, so invariants stay out of reach
+  ...ENTITY_STORE_NAMES.filter(store => store !== 'memories').flatMap(store => {
+    const field = storeAgeIndex(store)
+    return field ? [{ id: store, label: titleCase(store), field, summarizable: true }] : []
+  }),
+  ...Object.values(MemoryType)
+    .filter(type => type !== MemoryType.INVARIANT)
+    .map(type => ({
+      id: `memory:${type}` as RetentionTarget,
+      label: `${titleCase(type.toLowerCase())} memories`,
+      field: 'createdAt',
+      // Summaries are semantic memories themselves
+      summarizable: type !== MemoryType.SEMANTIC
+    }))
+]
+
+function memoryType(target: RetentionTarget): MemoryType | null {
+  return target.startsWith('memory:') ? target.slice('memory:'.length) as MemoryType : null
+}
+
+function targetInfo(target: RetentionTarget): RetentionTargetInfo | undefined {
+  return RETENTION_TARGETS.find(info => info.id === target)
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+async function loadMeta(): Promise<RetentionMeta> {
+  const db = await initDB()
+  const stored = await new Promise<unknown>((resolve, reject) => {
+    const request = db.transaction(STORES.DOCUMENTS, 'readonly').objectStore(STORES.DOCUMENTS).get(RETENTION_META_KEY)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  if (!stored) return { rules: {}, lastRun: null }
+  const { rules, lastRun } = await openRecord(stored as RetentionMeta & { key: string })
+  return { rules, lastRun }
+}
+
+async function saveMeta(meta: RetentionMeta): Promise<void> {
+  const db = await initDB()
+  const record = await sealRecord(STORES.DOCUMENTS, { key: RETENTION_META_KEY, ...meta })
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.DOCUMENTS, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.DOCUMENTS).put(record)
+  })
+}
+
+export async function getRetentionSettings(): Promise<RetentionMeta> {
+  return loadMeta()
+}
+
+/**
+ * Replace the rules. Targets without a rule, or set to 'keep', are kept forever.
+ */
+export async function saveRetentionRules(rules: RetentionRules): Promise<void> {
+  const cleaned: RetentionRules = {}
+  for (const [target, rule] of Object.entries(rules) as Array<[RetentionTarget, RetentionRule]>) {
+    const info = targetInfo(target)
+    if (!info || rule.action === 'keep') continue
+    if (!(rule.days >= 1)) throw new RetentionError(`${info.label}: keep records for at least one day`)
+    if (rule.action === 'summarize' && !info.summarizable) {
+      throw new RetentionError(`${info.label} cannot be summarized`)
+    }
+    cleaned[target] = { action: rule.action, days: Math.floor(rule.days) }
+  }
+
+  const meta = await loadMeta()
+  await saveMeta({ ...meta, rules: cleaned })
+}
+
+// ============================================================================
+// EXPIRED RECORDS
+// ============================================================================
+
+interface Expired {
+  records: Array<Record<string, unknown>>
+  cold: Array<{ id: string; count: number }>
+}
+
+async function findExpired(target: RetentionTarget, cutoff: number): Promise<Expired> {
+  const type = memoryType(target)
+  if (type) {
+    const store = getMemoryStore()
+    await store.ready
+    const memories = store.getByType(type).filter(memory => memory.createdAt < cutoff)
+    return { records: memories as unknown as Array<Record<string, unknown>>, cold: [] }
+  }
+
+  const store = target as EntityStoreName
+  const field = targetInfo(target)!.field
+  const records = await queryByIndex<Record<string, unknown>>(store, field, IDBKeyRange.upperBound(cutoff, true))
+  const cold = (await listColdArchives())
+    .filter(archive => archive.store === store && archive.to < cutoff)
+    .map(({ id, count }) => ({ id, count }))
+  return { records, cold }
+}
+
+// Short text for summaries and previews: the record's own words, not its ids
+function describeRecord(record: Record<string, unknown>, field: string): string {
+  const time = typeof record[field] === 'number' ? new Date(record[field] as number).toLocaleDateString() : ''
+  const text = Object.entries(record)
+    .filter(([key, value]) => typeof value === 'string' && value.trim() && key !== 'id' && !key.endsWith('Id'))
+    .map(([key, value]) => `${key}: ${(value as string).replace(/\s+/g, ' ').trim()}`)
+    .join('; ')
+  const line = time ? `${time} — ${text}` : text
+  return line.length > MAX_RECORD_CHARS ? `${line.slice(0, MAX_RECORD_CHARS - 1)}…` : line
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+/**
+ * What the rules would remove if they ran now, without changing anything.
+ * Defaults to the saved rules; pass unsaved ones to preview edits.
+ */
+export async function previewRetention(rules?: RetentionRules): Promise<RetentionPreviewItem[]> {
+  const active = rules ?? (await loadMeta()).rules
+  const now = Date.now()
+  const items: RetentionPreviewItem[] = []
+
+  for (const [target, rule] of Object.entries(active) as Array<[RetentionTarget, RetentionRule]>) {
+    const info = targetInfo(target)
+    if (!info || rule.action === 'keep') continue
+
+    const cutoff = now - rule.days * DAY_MS
+    const { records, cold } = await findExpired(target, cutoff)
+    const times = records.map(record => Number(record[info.field]))
+    items.push({
+      target,
+      label: info.label,
+      rule,
+      cutoff,
+      count: records.length,
+      archived: cold.reduce((sum, archive) => sum + archive.count, 0),
+      oldest: times.length > 0 ? Math.min(...times) : null,
+      samples: records.slice(0, SAMPLE_COUNT).map(record => describeRecord(record, info.field))
+    })
+  }
+
+  return items
+}
+
+// ============================================================================
+// SUMMARIZATION
+// ============================================================================
+
+const RETENTION_ACTOR: AuditActor = { kind: 'system', process: 'retention' }
+
+async function requestSummary(label: string, lines: string[]): Promise<{ content: string; provider: string }> {
+  const config = await getDocument<LLMSettings>(DOCUMENTS.LLM_CONFIG.key)
+  if (!config || !config.primaryProvider || config.primaryProvider === 'mock') {
+    throw new RetentionError('Summarizing needs an AI provider. Choose one under LLM Provider Configuration.')
+  }
+
+  let provider: CASCADEProviderName
+  try {
+    ({ provider } = await applyBudget(config.primaryProvider))
+  } catch (error) {
+    if (error instanceof UsageError) throw new RetentionError(error.message)
+    throw error
+  }
+  if (provider === 'mock') throw new RetentionError('The AI budget is spent; summaries wait until it resets')
+
+  const overrides = await getDocument<PromptOverrides>(DOCUMENTS.PROMPT_OVERRIDES.key)
+  const prompt = resolvePrompt('retention_summary', overrides)
+
+  const response = await fetch('/api/ai', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      messages: [{ role: 'user', content: `${label} (${lines.length} records):\n\n${lines.join('\n')}` }],
+      provider,
+      localUrl: config.localUrl || 'http://localhost:11434',
+      openaiUrl: config.openaiUrl || '',
+      openaiModel: config.openaiModel || '',
+      systemPrompt: prompt.text,
+      maxTokens: 1024,
+      temperature: 0.3
+    })
+  })
+
+  const data = await response.json()
+  if (!response.ok) throw new RetentionError(data.error || 'Summary request failed')
+  if (data.usage) {
+    void recordUsage({
+      feature: 'retention',
+      provider: data.provider,
+      model: data.model,
+      usage: data.usage,
+      promptVersions: [prompt.version]
+    })
+  }
+  const content = String(data.content ?? '').trim()
+  if (!content) throw new RetentionError('The AI provider returned an empty summary')
+  return { content, provider: data.provider ?? provider }
+}
+
+// Consecutive runs of records whose descriptions fit one request
+function chunk<T>(records: T[], describe: (record: T) => string): Array<{ records: T[]; lines: string[] }> {
+  const chunks: Array<{ records: T[]; lines: string[] }> = []
+  let size = Infinity
+
+  for (const record of records) {
+    const line = describe(record)
+    if (size + line.length > MAX_SUMMARY_CHARS) {
+      chunks.push({ records: [], lines: [] })
+      size = 0
+    }
+    chunks[chunks.length - 1].records.push(record)
+    chunks[chunks.length - 1].lines.push(line)
+    size += line.length + 1
+  }
+
+  return chunks
+}
+
+/**
+ * Fold records into semantic memories. Returns the records that were
+ * summarized; the rest stay, so a failed request never loses data.
+ */
+async function summarizeRecords(
+  info: RetentionTargetInfo,
+  records: Array<Record<string, unknown>>,
+  run: RetentionRun
+): Promise<Array<Record<string, unknown>>> {
+  const sorted = [...records].sort((a, b) => Number(a[info.field]) - Number(b[info.field]))
+  const summarized: Array<Record<string, unknown>> = []
+
+  for (const part of chunk(sorted, record => describeRecord(record, info.field))) {
+    const from = new Date(Number(part.records[0][info.field])).toLocaleDateString()
+    const to = new Date(Number(part.records[part.records.length - 1][info.field])).toLocaleDateString()
+
+    try {
+      const { content, provider } = await requestSummary(info.label, part.lines)
+      const tags = new Set<string>()
+      if (memoryType(info.id)) {
+        (part.records as unknown as Memory[]).forEach(memory => memory.lamagueTags.forEach(tag => tags.add(tag)))
+      }
+      runAs({ kind: 'ai', provider }, () => getMemoryStore().create(MemoryType.SEMANTIC, content, {
+        importance: MemoryImportance.MEDIUM,
+        lamagueTags: Array.from(tags),
+        summary: `Summary of ${part.records.length} ${info.label.toLowerCase()}, ${from} – ${to}`
+      }))
+      run.memoriesCreated++
+      summarized.push(...part.records)
+    } catch (error) {
+      console.error(`Failed to summarize ${info.label}:`, error)
+      run.errors.push(`${info.label} (${from} – ${to}): ${error instanceof Error ? error.message : 'summary failed'}`)
+    }
+  }
+
+  return summarized
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+async function removeRecords(target: RetentionTarget, records: Array<Record<string, unknown>>): Promise<void> {
+  if (records.length === 0) return
+  if (memoryType(target)) {
+    const memories = getMemoryStore()
+    runAs(RETENTION_ACTOR, () => records.forEach(record => memories.delete(record.id as string)))
+    await memories.flush()
+    return
+  }
+
+  // Tracked deletions, so the expiry reaches other devices too
+  const store = target as EntityStoreName
+  await runAs(RETENTION_ACTOR, () => applyChanges(store, { put: [], remove: records.map(record => getEntityKey(store, record)) }))
+  notifyExternalChange(store)
+}
+
+// Cold batches are outside the repository, so their records are logged here
+async function removeColdBatch(store: EntityStoreName, batch: { id: string; records: Array<Record<string, unknown>> }): Promise<void> {
+  await deleteColdArchive(batch.id)
+  await appendAudit(batch.records.map(record => ({
+    actor: RETENTION_ACTOR,
+    action: 'Expired archived record',
+    target: store,
+    entityId: String(getEntityKey(store, record)),
+    before: record
+  })))
+}
+
+async function applyRule(target: RetentionTarget, rule: RetentionRule, run: RetentionRun): Promise<void> {
+  const info = targetInfo(target)
+  if (!info || rule.action === 'keep') return
+
+  const { records, cold } = await findExpired(target, Date.now() - rule.days * DAY_MS)
+  const archived: Array<{ id: string; records: Array<Record<string, unknown>> }> = []
+  for (const batch of cold) {
+    archived.push({ id: batch.id, records: (await readColdArchive(batch.id)) as Array<Record<string, unknown>> })
+  }
+
+  if (rule.action === 'delete') {
+    await removeRecords(target, records)
+    for (const batch of archived) await removeColdBatch(target as EntityStoreName, batch)
+    run.deleted += records.length + archived.reduce((sum, batch) => sum + batch.records.length, 0)
+    return
+  }
+
+  // Cold batches go only once all of their records have been summarized
+  const all = [...records, ...archived.flatMap(batch => batch.records)]
+  if (all.length === 0) return
+  const summarized = new Set(await summarizeRecords(info, all, run))
+
+  const live = records.filter(record => summarized.has(record))
+  await removeRecords(target, live)
+  let removed = live.length
+  for (const batch of archived) {
+    if (!batch.records.every(record => summarized.has(record))) continue
+    await removeColdBatch(target as EntityStoreName, batch)
+    removed += batch.records.length
+  }
+  run.deleted += removed
+  run.summarized += removed
+}
+
+/**
+ * Apply every rule now. A rule that fails is reported in the run and the
+ * others still apply.
+ */
+export async function enforceRetention(): Promise<RetentionRun> {
+  return withTabLock('retention', async () => {
+    const meta = await loadMeta()
+    const run: RetentionRun = { ranAt: Date.now(), deleted: 0, summarized: 0, memoriesCreated: 0, errors: [] }
+
+    for (const [target, rule] of Object.entries(meta.rules) as Array<[RetentionTarget, RetentionRule]>) {
+      try {
+        await applyRule(target, rule, run)
+      } catch (error) {
+        console.error(`Retention for ${target} failed:`, error)
+        run.errors.push(`${targetInfo(target)?.label ?? target}: ${error instanceof Error ? error.message : 'failed'}`)
+      }
+    }
+
+    // Rules may have changed while this ran
+    await saveMeta({ ...(await loadMeta()), lastRun: run })
+    return run
+  })
+}
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+let timer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Enforce the rules about once a day, from one tab at a time.
+ * Returns a function that leaves the election.
+ */
+export function joinRetentionElection(): () => void {
+  const check = async () => {
+    const meta = await loadMeta()
+    if (Object.keys(meta.rules).length === 0) return
+    if (meta.lastRun && Date.now() - meta.lastRun.ranAt < RUN_INTERVAL_MS) return
+    await enforceRetention()
+  }
+  const run = () => {
+    check().catch(error => console.error('Scheduled retention failed:', error))
+  }
+
+  return electLeader('retention', {
+    onLead: () => {
+      if (timer) clearInterval(timer)
+      timer = setInterval(run, CHECK_INTERVAL_MS)
+      run()
+    },
+    onResign: () => {
+      if (timer) clearInterval(timer)
+      timer = null
+    }
+  })
+}
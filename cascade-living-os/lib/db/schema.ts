@@ -0,0 +1,276 @@
+// CASCADE Living OS - IndexedDB Schema
+// Object store registry for every persisted entity type
+
+import type { CASCADEProviderName } from '@/lib/llm/provider'
+
+export const DB_NAME = 'cascade-living-os'
+
+/**
+ * Bump this whenever a store or index is added to the registry below.
+ * `onupgradeneeded` reconciles the live database against the registry,
+ * so a version bump plus a registry entry is the whole schema change.
+ */
+export const DB_VERSION = 7
+
+// Core (non-entity) stores
+export const STORES = {
+  STATE: 'cascade-state',
+  JOURNAL: 'journal-entries',
+  MEASUREMENTS: 'measurements',
+  HISTORY: 'state-history',
+  DOCUMENTS: 'documents',
+  CHANGES: 'sync-changes',
+  COLD: 'cold-storage',
+  AUDIT: 'audit-log',
+  USAGE: 'usage-ledger'
+} as const
+
+// ============================================================================
+// ENTITY STORES
+// ============================================================================
+
+export interface IndexSchema {
+  name: string
+  keyPath: string
+  unique?: boolean
+  multiEntry?: boolean
+}
+
+export interface EntityStoreSchema {
+  keyPath: string
+  indexes: IndexSchema[]
+  legacyKey?: string // localStorage key migrated into this store
+  sealed?: boolean   // encrypted at rest while the vault is enabled
+  archiveBy?: string // index whose (numeric) values age records out to cold storage
+}
+
+const byTimestamp: IndexSchema = { name: 'timestamp', keyPath: 'timestamp' }
+const byCreatedAt: IndexSchema = { name: 'createdAt', keyPath: 'createdAt' }
+const byStatus: IndexSchema = { name: 'status', keyPath: 'status' }
+const byCategory: IndexSchema = { name: 'category', keyPath: 'category' }
+
+export const ENTITY_STORES = {
+  'journal-entries': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-journal',
+    sealed: true
+  },
+  'measurements': {
+    keyPath: 'id',
+    indexes: [{ name: 'practiceId', keyPath: 'practiceId' }, byTimestamp],
+    archiveBy: 'timestamp'
+  },
+  'microorcims': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-microorcims',
+    archiveBy: 'timestamp'
+  },
+  'focus-sessions': {
+    keyPath: 'id',
+    indexes: [{ name: 'startTime', keyPath: 'startTime' }],
+    legacyKey: 'cascade-focus-sessions',
+    archiveBy: 'startTime'
+  },
+  'rituals': {
+    keyPath: 'id',
+    indexes: [byCategory, byCreatedAt],
+    legacyKey: 'cascade-rituals'
+  },
+  'goals': {
+    keyPath: 'id',
+    indexes: [byStatus, byCreatedAt],
+    legacyKey: 'cascade-goals'
+  },
+  'commitments': {
+    keyPath: 'id',
+    indexes: [byStatus, byCreatedAt],
+    legacyKey: 'cascade-commitments'
+  },
+  'values': {
+    keyPath: 'id',
+    indexes: [byCreatedAt],
+    legacyKey: 'cascade-values'
+  },
+  'value-reflections': {
+    keyPath: 'id',
+    indexes: [byTimestamp, { name: 'valueId', keyPath: 'valueId' }],
+    legacyKey: 'cascade-value-reflections'
+  },
+  'quick-captures': {
+    keyPath: 'id',
+    indexes: [byTimestamp, { name: 'type', keyPath: 'type' }],
+    legacyKey: 'cascade-quick-captures',
+    archiveBy: 'timestamp'
+  },
+  'energy-logs': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-energy-logs',
+    archiveBy: 'timestamp'
+  },
+  'sleep': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-sleep',
+    archiveBy: 'timestamp'
+  },
+  'breath-sessions': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-breath-sessions',
+    archiveBy: 'timestamp'
+  },
+  'gratitude': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-gratitude'
+  },
+  'weekly-reviews': {
+    keyPath: 'id',
+    indexes: [{ name: 'weekStart', keyPath: 'weekStart' }],
+    legacyKey: 'cascade-weekly-reviews'
+  },
+  'connections': {
+    keyPath: 'id',
+    indexes: [{ name: 'type', keyPath: 'type' }, byCreatedAt],
+    legacyKey: 'cascade-connections'
+  },
+  'decisions': {
+    keyPath: 'id',
+    indexes: [byStatus, byCreatedAt],
+    legacyKey: 'cascade-decisions'
+  },
+  'projections': {
+    keyPath: 'id',
+    indexes: [byCreatedAt],
+    legacyKey: 'cascade-projections'
+  },
+  'dreams': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-dreams',
+    sealed: true
+  },
+  'shadows': {
+    keyPath: 'id',
+    indexes: [byCreatedAt],
+    legacyKey: 'cascade-shadows',
+    sealed: true
+  },
+  'life-scripts': {
+    keyPath: 'id',
+    indexes: [byStatus, byCategory, byCreatedAt],
+    legacyKey: 'cascade-life-scripts',
+    sealed: true
+  },
+  'mantras': {
+    keyPath: 'id',
+    indexes: [byCategory, byCreatedAt],
+    legacyKey: 'cascade-mantras'
+  },
+  'temporal-anchors': {
+    keyPath: 'id',
+    indexes: [byStatus, byCreatedAt],
+    legacyKey: 'cascade-temporal-anchors'
+  },
+  'quantum-decisions': {
+    keyPath: 'id',
+    indexes: [byCreatedAt],
+    legacyKey: 'cascade-quantum-decisions'
+  },
+  'collapse-history': {
+    keyPath: 'timestamp',
+    indexes: [{ name: 'decisionId', keyPath: 'decisionId' }],
+    legacyKey: 'cascade-collapse-history'
+  },
+  'resonance-logs': {
+    keyPath: 'id',
+    indexes: [byTimestamp],
+    legacyKey: 'cascade-resonance-logs',
+    archiveBy: 'timestamp'
+  },
+  'synchronicities': {
+    keyPath: 'id',
+    indexes: [byTimestamp, byCategory],
+    legacyKey: 'cascade-synchronicities'
+  },
+  // Living memory (lib/llm/memory); migrated from LIVING_MEMORY_KEY
+  'memories': {
+    keyPath: 'id',
+    indexes: [byCreatedAt, { name: 'type', keyPath: 'type' }],
+    sealed: true
+  }
+} satisfies Record<string, EntityStoreSchema>
+
+export type EntityStoreName = keyof typeof ENTITY_STORES
+
+export const ENTITY_STORE_NAMES = Object.keys(ENTITY_STORES) as EntityStoreName[]
+
+export function getEntitySchema(store: EntityStoreName): EntityStoreSchema {
+  return ENTITY_STORES[store]
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+/**
+ * Singleton records (not collections) keyed by name in the documents store.
+ * `synced` documents are pushed to other devices; the rest stay local.
+ */
+export const DOCUMENTS = {
+  WILLPOWER_STATE: { key: 'willpower-state', legacyKey: 'cascade-willpower-state', synced: true },
+  ACHIEVEMENTS: { key: 'achievements', legacyKey: 'cascade-achievements', synced: true },
+  LLM_CONFIG: { key: 'llm-config', legacyKey: 'cascade-llm-config', sealed: true },
+  PROMPT_OVERRIDES: { key: 'prompt-overrides', synced: true },
+  MEMORY_CONSOLIDATIONS: { key: 'memory-consolidations', synced: true }
+} as const
+
+export type DocumentKey = typeof DOCUMENTS[keyof typeof DOCUMENTS]['key']
+
+/**
+ * Contents of the LLM_CONFIG document, as Settings saves it. API keys are
+ * not part of it; they are held by the server (lib/credentials).
+ */
+export interface LLMSettings {
+  localUrl?: string
+  localModel?: string
+  openaiUrl?: string
+  openaiModel?: string
+  primaryProvider?: CASCADEProviderName
+  fallbackProviders?: CASCADEProviderName[]
+  agentsEnabled?: boolean
+  rememberSummaries?: boolean
+}
+
+/**
+ * Documents store key of the vault metadata (salt, wrapped keys, idle timeout)
+ */
+export const VAULT_META_KEY = 'vault'
+
+/**
+ * Documents store key of the sync settings (endpoint, device id, cursor, conflicts)
+ */
+export const SYNC_META_KEY = 'sync'
+
+/**
+ * Documents store key of the retention rules and the last enforcement run
+ */
+export const RETENTION_META_KEY = 'retention'
+
+/**
+ * Documents store key of the AI pricing table and spend budgets
+ */
+export const USAGE_META_KEY = 'usage'
+
+/**
+ * zustand persist name of the CASCADEState blob (its former localStorage key)
+ */
+export const PERSISTED_STATE_KEY = 'cascade-living-os'
+
+/**
+ * Former localStorage key of the living memory: { memories, consolidations }
+ */
+export const LIVING_MEMORY_KEY = 'cascade-living-memory'
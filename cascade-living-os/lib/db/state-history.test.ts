@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CASCADEState } from '@/types/cascade'
+import { initializePyramid } from '@/lib/cascade/pyramid'
+import { initializePartnership } from '@/lib/cascade/sovereignty'
+import { initializeRealityBridge } from '@/lib/cascade/reality-bridge'
+import { CURRENT_STATE_VERSION } from '@/lib/store/migrations'
+import { stubBrowserStorage } from './testing'
+import { selectRetained } from './state-history'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// The initializers stamp the current time, so every snapshot starts from this one
+const BASE_STATE: CASCADEState = {
+  pyramid: initializePyramid('personal'),
+  sovereignty: initializePartnership(),
+  realityBridge: initializeRealityBridge(),
+  oracle: null,
+  journal: [],
+  patterns: [],
+  aura: { TES: 1, VTR: 1, PAI: 1, valid: true, warnings: [] },
+  userId: 'user-1',
+  lastSync: 1,
+  version: CURRENT_STATE_VERSION
+}
+
+function stateWithJournal(count: number): CASCADEState {
+  return {
+    ...structuredClone(BASE_STATE),
+    journal: Array.from({ length: count }, (_, i) => ({
+      id: `entry-${i}`,
+      timestamp: i,
+      rawText: `Entry ${i}`,
+      extractedPatterns: [],
+      shadowMaterial: [],
+      suggestedIntegrations: []
+    }))
+  }
+}
+
+// A tab's own copy of the module, sharing the database with every other tab
+async function openTab() {
+  vi.resetModules()
+  return import('./state-history')
+}
+
+beforeEach(() => {
+  stubBrowserStorage()
+})
+
+describe('recordSnapshot', () => {
+  it('stores a keyframe, then deltas that rebuild each point', async () => {
+    const history = await openTab()
+    await history.recordSnapshot(stateWithJournal(0))
+    await history.recordSnapshot(stateWithJournal(1))
+    await history.recordSnapshot(stateWithJournal(2))
+
+    const points = await history.listHistory()
+    expect(points.map(p => p.kind)).toEqual(['delta', 'delta', 'keyframe'])
+    expect(points[0]).toMatchObject({ subsystems: ['journal'], changeCount: 1 })
+    expect((await history.getStateAt(points[1].timestamp))?.journal).toHaveLength(1)
+    expect((await history.getStateAt(points[0].timestamp))?.journal).toHaveLength(2)
+  })
+
+  it('skips snapshots that change nothing', async () => {
+    const history = await openTab()
+    await history.recordSnapshot(stateWithJournal(1))
+    await history.recordSnapshot(stateWithJournal(1))
+
+    expect(await history.listHistory()).toHaveLength(1)
+  })
+
+  it('starts a new keyframe every KEYFRAME_INTERVAL deltas', async () => {
+    const history = await openTab()
+    for (let i = 0; i <= history.KEYFRAME_INTERVAL + 1; i++) {
+      await history.recordSnapshot(stateWithJournal(i))
+    }
+
+    const kinds = (await history.listHistory()).reverse().map(p => p.kind)
+    expect(kinds.filter(kind => kind === 'keyframe')).toHaveLength(2)
+    expect(kinds[history.KEYFRAME_INTERVAL + 1]).toBe('keyframe')
+  })
+
+  it('bases each delta on the newest entry, whichever tab wrote it', async () => {
+    const first = await openTab()
+    await first.recordSnapshot(stateWithJournal(1))
+    const second = await openTab()
+    await second.recordSnapshot(stateWithJournal(2))
+
+    await first.recordSnapshot(stateWithJournal(3))
+
+    const points = await first.listHistory()
+    expect(points).toHaveLength(3)
+    expect((await first.getStateAt(points[0].timestamp))?.journal).toHaveLength(3)
+    expect((await first.getStateAt(points[1].timestamp))?.journal).toHaveLength(2)
+  })
+})
+
+describe('selectRetained', () => {
+  it('keeps everything from the last day and the newest point per bucket after that', () => {
+    const now = 400 * DAY
+    const recent = [now - 2000, now - 1000]
+    const lastWeek = [now - 3 * DAY - 20 * 60 * 1000, now - 3 * DAY - 10 * 60 * 1000]
+
+    const kept = selectRetained([...lastWeek, ...recent], now)
+
+    expect(Array.from(kept).sort()).toEqual([lastWeek[1], ...recent].sort())
+  })
+})
+
+describe('compactHistory', () => {
+  it('thins old points and rebuilds a chain that replays to the same state', async () => {
+    const history = await openTab()
+    for (let i = 0; i < 4; i++) await history.recordSnapshot(stateWithJournal(i))
+    const newest = (await history.listHistory())[0].timestamp
+
+    // A year and a half later the four points share one monthly bucket
+    const removed = await history.compactHistory(newest + 540 * DAY)
+
+    expect(removed).toBe(3)
+    const points = await history.listHistory()
+    expect(points).toEqual([expect.objectContaining({ timestamp: newest, kind: 'keyframe' })])
+    expect((await history.getStateAt(newest))?.journal).toHaveLength(3)
+
+    // Recording carries on from the rewritten chain
+    await history.recordSnapshot(stateWithJournal(4))
+    const latest = (await history.listHistory())[0]
+    expect(latest.kind).toBe('delta')
+    expect((await history.getStateAt(latest.timestamp))?.journal).toHaveLength(4)
+  })
+})
@@ -0,0 +1,410 @@
+// CASCADE Living OS - State History
+// Delta-compressed CASCADEState history with keyframes and time-based retention
+
+import { CASCADEState } from '@/types/cascade'
+import { migrateState } from '@/lib/store/migrations'
+import { initDB } from './indexed-db'
+import { STORES } from './schema'
+import { sealRecord, openRecords } from './vault'
+import { withTabLock } from './tab-channel'
+import { PatchOperation, diff, applyPatch, parsePointer } from './json-patch'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+interface KeyframeEntry {
+  timestamp: number
+  kind: 'keyframe'
+  state: unknown
+}
+
+interface DeltaEntry {
+  timestamp: number
+  kind: 'delta'
+  patch: PatchOperation[]
+  subsystems: string[]
+}
+
+// Full JSON snapshots written before history was delta-based
+interface LegacyEntry {
+  timestamp: number
+  kind?: undefined
+  state: string
+}
+
+export type HistoryEntry = KeyframeEntry | DeltaEntry | LegacyEntry
+
+export interface HistoryPoint {
+  timestamp: number
+  kind: 'keyframe' | 'delta'
+  subsystems: string[]
+  changeCount: number
+}
+
+export interface RetentionTier {
+  maxAge: number   // applies to points younger than this
+  interval: number // keep one point per interval (0 = keep all)
+}
+
+export const SUBSYSTEMS = [
+  'pyramid',
+  'sovereignty',
+  'realityBridge',
+  'oracle',
+  'journal',
+  'patterns',
+  'aura'
+] as const
+
+export type Subsystem = typeof SUBSYSTEMS[number]
+
+// Deltas between keyframes; bounds the work needed to rebuild any point
+export const KEYFRAME_INTERVAL = 50
+
+// Snapshots closer together than this are coalesced into one
+export const SNAPSHOT_INTERVAL = MINUTE
+
+export const RETENTION_TIERS: RetentionTier[] = [
+  { maxAge: DAY, interval: 0 },             // every snapshot from the last day
+  { maxAge: 7 * DAY, interval: HOUR },      // hourly for a week
+  { maxAge: 365 * DAY, interval: DAY },     // daily for a year
+  { maxAge: Infinity, interval: 30 * DAY }  // monthly after that
+]
+
+// Compact after this many snapshots in one session
+const COMPACT_EVERY = 100
+
+// Every tab writes history; the lock keeps each delta based on the entry stored before it
+const HISTORY_LOCK = 'state-history'
+
+// ============================================================================
+// STORAGE HELPERS
+// ============================================================================
+
+async function readEntries(
+  range: IDBKeyRange | null,
+  direction: IDBCursorDirection,
+  until?: (entry: HistoryEntry) => boolean
+): Promise<HistoryEntry[]> {
+  const db = await initDB()
+
+  // `until` only looks at `kind`, which stays readable in sealed entries
+  const entries = await new Promise<HistoryEntry[]>((resolve, reject) => {
+    const request = db.transaction(STORES.HISTORY, 'readonly')
+      .objectStore(STORES.HISTORY)
+      .openCursor(range, direction)
+    const entries: HistoryEntry[] = []
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(entries)
+        return
+      }
+      const entry = cursor.value as HistoryEntry
+      entries.push(entry)
+      if (until?.(entry)) {
+        resolve(entries)
+        return
+      }
+      cursor.continue()
+    }
+  })
+
+  return openRecords(entries)
+}
+
+async function writeEntries(entries: HistoryEntry[], clear = false): Promise<void> {
+  const db = await initDB()
+  const sealed = await Promise.all(entries.map(entry => sealRecord(STORES.HISTORY, entry)))
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.HISTORY, 'readwrite')
+    const store = transaction.objectStore(STORES.HISTORY)
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+
+    if (clear) store.clear()
+    sealed.forEach(entry => store.put(entry))
+  })
+}
+
+function isKeyframe(entry: HistoryEntry): entry is KeyframeEntry | LegacyEntry {
+  return entry.kind !== 'delta'
+}
+
+function keyframeState(entry: KeyframeEntry | LegacyEntry): unknown {
+  return entry.kind === 'keyframe' ? entry.state : JSON.parse(entry.state)
+}
+
+/**
+ * Rebuild the raw state stored by a keyframe followed by its deltas (oldest first)
+ */
+function replay(entries: HistoryEntry[]): unknown {
+  let state: unknown = undefined
+  for (const entry of entries) {
+    state = isKeyframe(entry) ? keyframeState(entry) : applyPatch(state, entry.patch)
+  }
+  return state
+}
+
+function touchedSubsystems(patch: PatchOperation[]): string[] {
+  const touched = new Set<string>()
+  patch.forEach(op => touched.add(parsePointer(op.path)[0] ?? ''))
+  return Array.from(touched).filter(Boolean)
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+interface Head {
+  timestamp: number
+  state: unknown
+  deltasSinceKeyframe: number
+}
+
+let head: Head | null = null
+let recordsThisSession = 0
+let queue: Promise<void> = Promise.resolve()
+
+async function loadHead(): Promise<Head | null> {
+  // Newest entries back to (and including) the latest keyframe
+  const entries = await readEntries(null, 'prev', isKeyframe)
+  if (entries.length === 0 || !isKeyframe(entries[entries.length - 1])) return null
+
+  return {
+    timestamp: entries[0].timestamp,
+    state: replay(entries.reverse()),
+    deltasSinceKeyframe: entries.length - 1
+  }
+}
+
+/**
+ * The cached head if it is still the newest stored entry; another tab
+ * may have written or compacted since, in which case it is reloaded
+ */
+async function currentHead(): Promise<Head | null> {
+  const [newest] = await readEntries(null, 'prev', () => true)
+  if (!newest) return null
+  if (head?.timestamp !== newest.timestamp) head = await loadHead()
+  return head
+}
+
+/**
+ * Append a snapshot as a delta against the previous one, or as a keyframe
+ * every KEYFRAME_INTERVAL deltas
+ */
+export function recordSnapshot(state: CASCADEState): Promise<void> {
+  // Serialize so deltas are always computed against the entry written before
+  queue = queue.then(() => withTabLock(HISTORY_LOCK, async () => {
+    const previous = await currentHead()
+    const snapshot = structuredClone(state)
+    const timestamp = Math.max(Date.now(), (previous?.timestamp ?? 0) + 1)
+    let entry: HistoryEntry
+
+    if (!previous || previous.deltasSinceKeyframe >= KEYFRAME_INTERVAL) {
+      entry = { timestamp, kind: 'keyframe', state: snapshot }
+    } else {
+      const patch = diff(previous.state, snapshot)
+      if (patch.length === 0) return
+      entry = { timestamp, kind: 'delta', patch, subsystems: touchedSubsystems(patch) }
+    }
+
+    await writeEntries([entry])
+    head = {
+      timestamp,
+      state: snapshot,
+      deltasSinceKeyframe: entry.kind === 'keyframe' ? 0 : previous!.deltasSinceKeyframe + 1
+    }
+
+    recordsThisSession++
+    if (recordsThisSession === 1 || recordsThisSession % COMPACT_EVERY === 0) {
+      await compact(Date.now())
+    }
+  })).catch(error => console.error('Failed to record state history:', error))
+
+  return queue
+}
+
+/**
+ * Trailing throttle for recordSnapshot, suitable for calling on every save
+ */
+export const scheduleSnapshot = (() => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let latest: CASCADEState | null = null
+
+  return (state: CASCADEState) => {
+    latest = state
+    if (timer) return
+    timer = setTimeout(() => {
+      timer = null
+      if (latest) void recordSnapshot(latest)
+      latest = null
+    }, SNAPSHOT_INTERVAL)
+  }
+})()
+
+// ============================================================================
+// BROWSING
+// ============================================================================
+
+/**
+ * All history points, newest first
+ */
+export async function listHistory(): Promise<HistoryPoint[]> {
+  const entries = await readEntries(null, 'prev')
+
+  return entries.map(entry => isKeyframe(entry)
+    ? { timestamp: entry.timestamp, kind: 'keyframe' as const, subsystems: [], changeCount: 0 }
+    : {
+        timestamp: entry.timestamp,
+        kind: 'delta' as const,
+        subsystems: entry.subsystems,
+        changeCount: entry.patch.length
+      }
+  )
+}
+
+/**
+ * Rebuild the state as it was at a history point, migrated to the current schema
+ */
+export async function getStateAt(timestamp: number): Promise<CASCADEState | null> {
+  const entries = await readEntries(IDBKeyRange.upperBound(timestamp), 'prev', isKeyframe)
+  if (entries.length === 0 || !isKeyframe(entries[entries.length - 1])) return null
+
+  const raw = replay(entries.reverse())
+  return migrateState(raw, 'load').state as CASCADEState
+}
+
+/**
+ * Operations that turn the state at `from` into the state at `to`
+ */
+export async function diffHistoryPoints(from: number, to: number): Promise<PatchOperation[]> {
+  const [before, after] = await Promise.all([getStateAt(from), getStateAt(to)])
+  if (!before || !after) return []
+
+  const { lastSync: _a, ...beforeRest } = before
+  const { lastSync: _b, ...afterRest } = after
+  return diff(beforeRest, afterRest)
+}
+
+/**
+ * Pick the subsystems of a historical state to restore
+ */
+export function selectSubsystems(
+  state: CASCADEState,
+  subsystems: readonly Subsystem[] = SUBSYSTEMS
+): Partial<CASCADEState> {
+  const selected: Partial<CASCADEState> = {}
+  for (const key of subsystems) {
+    (selected as Record<string, unknown>)[key] = state[key]
+  }
+  return selected
+}
+
+// ============================================================================
+// ARCHIVES
+// ============================================================================
+
+/**
+ * Every history entry, oldest first, for inclusion in a backup archive
+ */
+export function exportHistory(): Promise<HistoryEntry[]> {
+  return readEntries(null, 'next')
+}
+
+/**
+ * Replace the history with entries from a backup archive.
+ * Delta chains cannot be interleaved, so this is all-or-nothing.
+ */
+export async function importHistory(entries: HistoryEntry[]): Promise<void> {
+  await queue
+  await withTabLock(HISTORY_LOCK, () => writeEntries(entries, true))
+  head = null
+}
+
+// ============================================================================
+// RETENTION
+// ============================================================================
+
+/**
+ * Decide which timestamps survive the retention tiers.
+ * Within each interval bucket the newest point is kept.
+ */
+export function selectRetained(
+  timestamps: number[],
+  now: number = Date.now(),
+  tiers: RetentionTier[] = RETENTION_TIERS
+): Set<number> {
+  const kept = new Set<number>()
+  const buckets = new Map<string, number>()
+
+  for (const timestamp of timestamps) {
+    const age = now - timestamp
+    const tierIndex = tiers.findIndex(t => age < t.maxAge)
+    if (tierIndex === -1) continue
+
+    const { interval } = tiers[tierIndex]
+    if (interval === 0) {
+      kept.add(timestamp)
+      continue
+    }
+
+    const bucket = `${tierIndex}:${Math.floor(timestamp / interval)}`
+    const current = buckets.get(bucket)
+    if (current === undefined || timestamp > current) buckets.set(bucket, timestamp)
+  }
+
+  buckets.forEach(timestamp => kept.add(timestamp))
+  return kept
+}
+
+/**
+ * Thin history according to RETENTION_TIERS and rebuild the delta chain
+ * between the surviving points. The newest point is always kept.
+ */
+export async function compactHistory(now: number = Date.now()): Promise<number> {
+  await queue
+  return withTabLock(HISTORY_LOCK, () => compact(now))
+}
+
+// Callers hold HISTORY_LOCK
+async function compact(now: number): Promise<number> {
+  const entries = await readEntries(null, 'next')
+  if (entries.length === 0) return 0
+
+  const retained = selectRetained(entries.map(e => e.timestamp), now)
+  retained.add(entries[entries.length - 1].timestamp)
+  if (retained.size === entries.length) return 0
+
+  const rebuilt: HistoryEntry[] = []
+  let state: unknown = undefined
+  let previousKept: unknown = undefined
+  let deltas = 0
+
+  for (const entry of entries) {
+    state = isKeyframe(entry) ? keyframeState(entry) : applyPatch(state, entry.patch)
+    if (!retained.has(entry.timestamp)) continue
+
+    if (previousKept === undefined || deltas >= KEYFRAME_INTERVAL) {
+      rebuilt.push({ timestamp: entry.timestamp, kind: 'keyframe', state })
+      deltas = 0
+    } else {
+      const patch = diff(previousKept, state)
+      rebuilt.push({ timestamp: entry.timestamp, kind: 'delta', patch, subsystems: touchedSubsystems(patch) })
+      deltas++
+    }
+    previousKept = state
+  }
+
+  await writeEntries(rebuilt, true)
+
+  // The chain was rewritten; rebuild the head lazily
+  head = null
+
+  return entries.length - rebuilt.length
+}
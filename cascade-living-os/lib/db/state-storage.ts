@@ -0,0 +1,117 @@
+// CASCADE Living OS - zustand Persist Storage
+// Stores the persisted CASCADEState in IndexedDB without JSON round-trips
+
+import type { PersistStorage, StorageValue } from 'zustand/middleware'
+import { initDB } from './indexed-db'
+import { STORES } from './schema'
+import { sealRecord, openRecord } from './vault'
+
+interface PersistedRecord<S> {
+  id: string
+  state: S
+  version: number
+}
+
+/**
+ * Copy a persisted value that could not be migrated aside, so the next
+ * write of the live store does not destroy it
+ */
+export async function quarantinePersistedState(name: string, value: unknown): Promise<string> {
+  const db = await initDB()
+  const id = `${name}:unreadable-${Date.now()}`
+  const record = await sealRecord(STORES.STATE, { id, state: value, version: 0 })
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.STATE, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.STATE).put(record)
+  })
+
+  return id
+}
+
+/**
+ * Create a zustand PersistStorage backed by the cascade-state store.
+ *
+ * Values are structured-cloned by IndexedDB instead of stringified, and
+ * writes are coalesced: while one write is in flight only the latest
+ * pending value is kept, so a burst of mutations costs at most two writes.
+ * `onWrite` is called with each state after it has been stored.
+ */
+export function createIndexedDBStorage<S>(
+  options: { onWrite?: (state: S) => void } = {}
+): PersistStorage<S> | undefined {
+  if (typeof indexedDB === 'undefined') return undefined
+
+  const inFlight = new Map<string, Promise<void>>()
+  const pending = new Map<string, StorageValue<S>>()
+
+  const write = async (name: string, value: StorageValue<S>): Promise<void> => {
+    const db = await initDB()
+    // Throws while the vault is locked, so clear text never replaces sealed state
+    const record = await sealRecord<PersistedRecord<S>>(STORES.STATE, {
+      id: name,
+      state: value.state,
+      version: value.version ?? 0
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORES.STATE, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.objectStore(STORES.STATE).put(record)
+    })
+    options.onWrite?.(value.state)
+  }
+
+  const flush = (name: string): Promise<void> => {
+    const value = pending.get(name)
+    if (!value) {
+      inFlight.delete(name)
+      return Promise.resolve()
+    }
+    pending.delete(name)
+
+    const promise = write(name, value)
+      .catch(error => console.error('Failed to persist state:', error))
+      .then(() => flush(name))
+    inFlight.set(name, promise)
+    return promise
+  }
+
+  return {
+    getItem: async (name) => {
+      const db = await initDB()
+
+      const stored = await new Promise<PersistedRecord<S> | undefined>((resolve, reject) => {
+        const request = db.transaction(STORES.STATE, 'readonly').objectStore(STORES.STATE).get(name)
+        request.onerror = () => reject(request.error)
+        request.onsuccess = () => resolve(request.result)
+      })
+      if (!stored) return null
+
+      // Rejects while the vault is locked; the store rehydrates again on unlock
+      const record = await openRecord(stored)
+      return { state: record.state, version: record.version }
+    },
+
+    setItem: (name, value) => {
+      pending.set(name, value)
+      return inFlight.get(name) ?? flush(name)
+    },
+
+    removeItem: async (name) => {
+      pending.delete(name)
+      await inFlight.get(name)
+      const db = await initDB()
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(STORES.STATE, 'readwrite')
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.objectStore(STORES.STATE).delete(name)
+      })
+    }
+  }
+}
@@ -0,0 +1,256 @@
+// CASCADE Living OS - Storage Health
+// Size breakdown, quota warnings and compaction of what the app stores
+
+import { EntityStoreName } from './schema'
+import { initDB } from './indexed-db'
+import { getAll, applyChanges, getEntityKey } from './repository'
+import { runAs } from './audit'
+import { getColdKeys } from './cold-storage'
+import { getMemoryStore } from '@/lib/llm/memory'
+import { onQuotaExceeded } from '@/lib/utils'
+
+// Browsers allow roughly 5 MB of localStorage per origin
+export const LOCAL_STORAGE_BUDGET = 5 * 1024 * 1024
+
+const WARNING_RATIO = 0.8
+const CRITICAL_RATIO = 0.95
+const CHECK_INTERVAL_MS = 30 * 60 * 1000
+
+export interface StoreSize {
+  name: string
+  records: number
+  bytes: number
+}
+
+export interface StorageBreakdown {
+  usage: number | null    // whole origin, as reported by the browser
+  quota: number | null
+  stores: StoreSize[]     // IndexedDB stores, largest first
+  localStorage: StoreSize[]
+}
+
+export type StorageLevel = 'ok' | 'warning' | 'critical'
+
+export interface StorageHealth {
+  level: StorageLevel
+  usage: number | null
+  quota: number | null
+  localStorageBytes: number
+  messages: string[]
+  checkedAt: number
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/**
+ * Rough in-memory size of a stored value; strings count two bytes a character
+ */
+function estimateBytes(value: unknown): number {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'string') return value.length * 2
+  if (typeof value === 'number') return 8
+  if (typeof value === 'boolean') return 4
+  if (value instanceof ArrayBuffer) return value.byteLength
+  if (ArrayBuffer.isView(value)) return value.byteLength
+  if (value instanceof Blob) return value.size
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + estimateBytes(item), 0)
+  if (typeof value === 'object') {
+    return Object.entries(value).reduce((sum, [key, item]) => sum + key.length * 2 + estimateBytes(item), 0)
+  }
+  return 0
+}
+
+async function estimate(): Promise<{ usage: number | null; quota: number | null }> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return { usage: null, quota: null }
+  }
+  const { usage, quota } = await navigator.storage.estimate()
+  return { usage: usage ?? null, quota: quota ?? null }
+}
+
+function measureLocalStorage(): StoreSize[] {
+  if (typeof window === 'undefined') return []
+  const sizes: StoreSize[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key === null) continue
+    sizes.push({ name: key, records: 1, bytes: (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2 })
+  }
+  return sizes.sort((a, b) => b.bytes - a.bytes)
+}
+
+async function measureStore(db: IDBDatabase, name: string): Promise<StoreSize> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(name, 'readonly').objectStore(name).openCursor()
+    const size: StoreSize = { name, records: 0, bytes: 0 }
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(size)
+        return
+      }
+      size.records++
+      size.bytes += estimateBytes(cursor.value)
+      cursor.continue()
+    }
+  })
+}
+
+/**
+ * Size of every IndexedDB store and localStorage key.
+ * Reads every record, so call it on demand rather than on a timer.
+ */
+export async function getStorageBreakdown(): Promise<StorageBreakdown> {
+  const db = await initDB()
+  const stores: StoreSize[] = []
+  for (const name of Array.from(db.objectStoreNames)) {
+    stores.push(await measureStore(db, name))
+  }
+
+  return {
+    ...(await estimate()),
+    stores: stores.sort((a, b) => b.bytes - a.bytes),
+    localStorage: measureLocalStorage()
+  }
+}
+
+// ============================================================================
+// WARNINGS
+// ============================================================================
+
+const listeners = new Set<(health: StorageHealth) => void>()
+let lastHealth: StorageHealth | null = null
+let failedWrite: string | null = null
+
+function levelOf(ratio: number): StorageLevel {
+  if (ratio >= CRITICAL_RATIO) return 'critical'
+  if (ratio >= WARNING_RATIO) return 'warning'
+  return 'ok'
+}
+
+function worst(a: StorageLevel, b: StorageLevel): StorageLevel {
+  const order: StorageLevel[] = ['ok', 'warning', 'critical']
+  return order[Math.max(order.indexOf(a), order.indexOf(b))]
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`
+}
+
+/**
+ * Compare usage against the quota and the localStorage budget, and tell
+ * subscribers. Cheap enough to run periodically.
+ */
+export async function checkStorageHealth(): Promise<StorageHealth> {
+  const { usage, quota } = await estimate()
+  const localStorageBytes = measureLocalStorage().reduce((sum, entry) => sum + entry.bytes, 0)
+  const messages: string[] = []
+  let level: StorageLevel = 'ok'
+
+  if (usage !== null && quota) {
+    const ratio = usage / quota
+    level = worst(level, levelOf(ratio))
+    if (ratio >= WARNING_RATIO) messages.push(`Browser storage is ${percent(ratio)} full`)
+  }
+
+  const localRatio = localStorageBytes / LOCAL_STORAGE_BUDGET
+  level = worst(level, levelOf(localRatio))
+  if (localRatio >= WARNING_RATIO) messages.push(`Local settings storage is ${percent(localRatio)} full`)
+
+  if (failedWrite) {
+    level = 'critical'
+    messages.push(`Could not save ${failedWrite}: storage is full`)
+  }
+
+  const health: StorageHealth = { level, usage, quota, localStorageBytes, messages, checkedAt: Date.now() }
+  lastHealth = health
+  listeners.forEach(listener => listener(health))
+  return health
+}
+
+export function getStorageHealth(): StorageHealth | null {
+  return lastHealth
+}
+
+/**
+ * Subscribe to health checks; returns an unsubscribe function
+ */
+export function onStorageHealth(listener: (health: StorageHealth) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Check now, periodically, and right after any write fails for lack of space.
+ * Returns a function that stops monitoring.
+ */
+export function startStorageMonitor(): () => void {
+  const check = () => {
+    checkStorageHealth().catch(error => console.error('Storage health check failed:', error))
+  }
+
+  const unsubscribe = onQuotaExceeded(where => {
+    failedWrite = where
+    check()
+  })
+  const timer = setInterval(check, CHECK_INTERVAL_MS)
+  check()
+
+  return () => {
+    unsubscribe()
+    clearInterval(timer)
+  }
+}
+
+// ============================================================================
+// COMPACTION
+// ============================================================================
+
+export interface CompactionResult {
+  memoryReferences: number
+  entityReferences: number
+}
+
+// ID-list fields that point at other entities
+const ENTITY_REFERENCES: Array<{ store: EntityStoreName; field: string; target: EntityStoreName }> = [
+  { store: 'synchronicities', field: 'linkedTo', target: 'synchronicities' }
+]
+
+/**
+ * Remove references to records that no longer exist anywhere. Archived
+ * records still exist, so references into cold storage are kept.
+ */
+export async function compactStorage(): Promise<CompactionResult> {
+  const result: CompactionResult = {
+    memoryReferences: getMemoryStore().pruneOrphanReferences(),
+    entityReferences: 0
+  }
+
+  for (const { store, field, target } of ENTITY_REFERENCES) {
+    const entities = await getAll<Record<string, unknown>>(store)
+    const targets = store === target ? entities : await getAll<Record<string, unknown>>(target)
+    const existing = await getColdKeys(target)
+    targets.forEach(entity => existing.add(JSON.stringify(getEntityKey(target, entity))))
+
+    const changed = entities.flatMap(entity => {
+      const ids = entity[field]
+      if (!Array.isArray(ids)) return []
+      const kept = ids.filter(id => existing.has(JSON.stringify(id)))
+      if (kept.length === ids.length) return []
+      result.entityReferences += ids.length - kept.length
+      return [{ ...entity, [field]: kept }]
+    })
+    await runAs({ kind: 'system', process: 'storage compaction' }, () => applyChanges(store, { put: changed, remove: [] }))
+  }
+
+  // A successful cleanup is a good time to re-evaluate warnings
+  failedWrite = null
+  await checkStorageHealth()
+  return result
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage, stubBrowserWindow } from './testing'
+import type { TabMessage } from './tab-channel'
+
+// Each import after a reset is another tab, with its own TAB_ID
+async function openTab() {
+  vi.resetModules()
+  return import('./tab-channel')
+}
+
+beforeEach(() => {
+  stubBrowserStorage()
+  stubBrowserWindow()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('broadcast', () => {
+  it('reaches every other tab but not the sender', async () => {
+    const sender = await openTab()
+    const receiver = await openTab()
+    const sent = vi.fn()
+    const received = new Promise<TabMessage>(resolve => receiver.onTabMessage(resolve))
+    sender.onTabMessage(sent)
+
+    sender.broadcast({ type: 'store-changed', store: 'goals' })
+
+    expect(await received).toEqual({ type: 'store-changed', store: 'goals' })
+    expect(sent).not.toHaveBeenCalled()
+  })
+})
+
+describe('electLeader', () => {
+  // Without the Web Locks API, tabs hold a renewed lease in localStorage
+  beforeEach(() => {
+    vi.stubGlobal('navigator', {})
+    vi.useFakeTimers()
+  })
+
+  it('lets one tab lead and hands over when it leaves', async () => {
+    const first = { onLead: vi.fn(), onResign: vi.fn() }
+    const second = { onLead: vi.fn(), onResign: vi.fn() }
+    const leave = (await openTab()).electLeader('agents', first)
+    const leaveSecond = (await openTab()).electLeader('agents', second)
+
+    expect(first.onLead).toHaveBeenCalledTimes(1)
+    expect(second.onLead).not.toHaveBeenCalled()
+
+    leave()
+    vi.advanceTimersByTime(2000)
+
+    expect(first.onResign).toHaveBeenCalledTimes(1)
+    expect(second.onLead).toHaveBeenCalledTimes(1)
+    leaveSecond()
+  })
+
+  it('takes over the lease of a tab that stopped renewing', async () => {
+    const stale = (await openTab()).TAB_ID
+    localStorage.setItem('cascade-leader:agents', JSON.stringify({ tabId: stale, expires: Date.now() + 6000 }))
+    const callbacks = { onLead: vi.fn() }
+    const leave = (await openTab()).electLeader('agents', callbacks)
+
+    vi.advanceTimersByTime(4000)
+    expect(callbacks.onLead).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(4000)
+    expect(callbacks.onLead).toHaveBeenCalledTimes(1)
+    leave()
+  })
+})
@@ -0,0 +1,196 @@
+// CASCADE Living OS - Tab Channel
+// Change notifications and leader election across open tabs
+
+import { generateId } from '@/lib/utils'
+
+const CHANNEL_NAME = 'cascade-living-os'
+const FALLBACK_KEY = 'cascade-tab-message' // storage-event transport without BroadcastChannel
+const LEASE_MS = 6000
+
+export type TabMessage =
+  | { type: 'store-changed'; store: string }
+  | { type: 'state-written'; lastSync: number }
+  | { type: 'sync-settings-changed' }
+  | { type: 'vault-changed' }
+
+interface Envelope {
+  from: string
+  message: TabMessage
+}
+
+/**
+ * Identifies this tab in messages and leader leases
+ */
+export const TAB_ID = generateId('tab')
+
+// ============================================================================
+// MESSAGING
+// ============================================================================
+
+const listeners = new Set<(message: TabMessage) => void>()
+let channel: BroadcastChannel | null = null
+let connected = false
+
+function deliver(envelope: Envelope | null): void {
+  if (!envelope || envelope.from === TAB_ID) return
+  listeners.forEach(listener => listener(envelope.message))
+}
+
+function connect(): void {
+  if (connected || typeof window === 'undefined') return
+  connected = true
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<Envelope>) => deliver(event.data)
+    return
+  }
+
+  window.addEventListener('storage', event => {
+    if (event.key !== FALLBACK_KEY || !event.newValue) return
+    try {
+      deliver(JSON.parse(event.newValue) as Envelope)
+    } catch {
+      // Not one of ours
+    }
+  })
+}
+
+/**
+ * Send a message to every other open tab
+ */
+export function broadcast(message: TabMessage): void {
+  if (typeof window === 'undefined') return
+  connect()
+
+  const envelope: Envelope = { from: TAB_ID, message }
+  if (channel) {
+    channel.postMessage(envelope)
+    return
+  }
+
+  try {
+    // A unique value so repeated messages still fire storage events
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...envelope, nonce: Math.random() }))
+    localStorage.removeItem(FALLBACK_KEY)
+  } catch (error) {
+    console.error('Failed to broadcast to other tabs:', error)
+  }
+}
+
+/**
+ * Subscribe to messages from other tabs; returns an unsubscribe function
+ */
+export function onTabMessage(listener: (message: TabMessage) => void): () => void {
+  connect()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// LEADER ELECTION
+// ============================================================================
+
+interface LeaderCallbacks {
+  onLead: () => void
+  onResign?: () => void
+}
+
+/**
+ * Make at most one tab at a time the leader for `role`, calling `onLead`
+ * when this tab takes over and `onResign` when it steps down.
+ * Returns a function that leaves the election.
+ *
+ * Uses the Web Locks API, which hands the lock on as soon as the leading
+ * tab closes; otherwise falls back to a renewed lease in localStorage.
+ */
+export function electLeader(role: string, callbacks: LeaderCallbacks): () => void {
+  if (typeof window === 'undefined') return () => undefined
+  const name = `cascade-leader:${role}`
+
+  return typeof navigator !== 'undefined' && navigator.locks
+    ? electWithLock(name, callbacks)
+    : electWithLease(name, callbacks)
+}
+
+function electWithLock(name: string, { onLead, onResign }: LeaderCallbacks): () => void {
+  const controller = new AbortController()
+  let release: (() => void) | null = null
+
+  navigator.locks
+    .request(name, { signal: controller.signal }, () => new Promise<void>(resolve => {
+      release = resolve
+      onLead()
+    }))
+    .catch(error => {
+      if ((error as Error).name !== 'AbortError') console.error(`Leader election for ${name} failed:`, error)
+    })
+
+  return () => {
+    controller.abort()
+    if (release) {
+      release()
+      release = null
+      onResign?.()
+    }
+  }
+}
+
+function electWithLease(name: string, { onLead, onResign }: LeaderCallbacks): () => void {
+  let leading = false
+
+  const readLease = (): { tabId: string; expires: number } | null => {
+    try {
+      return JSON.parse(localStorage.getItem(name) || 'null')
+    } catch {
+      return null
+    }
+  }
+
+  const renew = () => {
+    const lease = readLease()
+    const now = Date.now()
+
+    if (!lease || lease.expires < now || lease.tabId === TAB_ID) {
+      localStorage.setItem(name, JSON.stringify({ tabId: TAB_ID, expires: now + LEASE_MS }))
+      if (!leading) {
+        leading = true
+        onLead()
+      }
+    } else if (leading) {
+      // Another tab claimed the lease in the same instant and won
+      leading = false
+      onResign?.()
+    }
+  }
+
+  const resign = () => {
+    clearInterval(timer)
+    window.removeEventListener('pagehide', resign)
+    if (!leading) return
+    leading = false
+    if (readLease()?.tabId === TAB_ID) localStorage.removeItem(name)
+    onResign?.()
+  }
+
+  const timer = setInterval(renew, LEASE_MS / 3)
+  window.addEventListener('pagehide', resign)
+  renew()
+
+  return resign
+}
+
+// ============================================================================
+// LOCKS
+// ============================================================================
+
+/**
+ * Run `task` while holding a lock shared by every tab, so e.g. two tabs
+ * never sync at once. Runs unguarded where the Web Locks API is missing.
+ */
+export function withTabLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task()
+  return navigator.locks.request(`cascade-lock:${name}`, task)
+}
@@ -0,0 +1,53 @@
+// CASCADE Living OS - Test Support
+// Browser storage for Vitest under Node: a fake IndexedDB and an in-memory localStorage
+
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb'
+import { vi } from 'vitest'
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>()
+
+  get length(): number {
+    return this.items.size
+  }
+
+  clear(): void {
+    this.items.clear()
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key)
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value))
+  }
+}
+
+/**
+ * Give the test an empty database and localStorage. Call `vi.resetModules()`
+ * first and import the modules under test afterwards, so module-level state
+ * (the open connection, vault keys, cached heads) starts over too.
+ */
+export function stubBrowserStorage(): Storage {
+  const storage = new MemoryStorage()
+  vi.stubGlobal('indexedDB', new IDBFactory())
+  vi.stubGlobal('IDBKeyRange', IDBKeyRange)
+  vi.stubGlobal('localStorage', storage)
+  return storage
+}
+
+/**
+ * Run as a browser tab: modules that check for `window` persist and listen
+ */
+export function stubBrowserWindow(): void {
+  vi.stubGlobal('window', new EventTarget())
+}
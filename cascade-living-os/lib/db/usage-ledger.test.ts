@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from './testing'
+import { DEFAULT_PRICING, PriceRule, UsageBudgets, budgetExceeded, costOf, priceFor } from './usage-ledger'
+
+const MARCH_2 = Date.UTC(2026, 2, 2, 12)
+const MARCH_1 = Date.UTC(2026, 2, 1, 12)
+
+const PRICING: PriceRule[] = [
+  { provider: 'anthropic', model: 'claude-3-haiku-20240307', input: 0.25, output: 1.25 },
+  { provider: 'anthropic', model: '*', input: 3, output: 15 }
+]
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('pricing', () => {
+  it('prefers an exact model over the provider wildcard', () => {
+    expect(priceFor(PRICING, 'anthropic', 'claude-3-haiku-20240307')?.input).toBe(0.25)
+    expect(priceFor(PRICING, 'anthropic', 'claude-next')?.model).toBe('*')
+    expect(priceFor(PRICING, 'gemini', 'gemini-1.5-pro')).toBeNull()
+  })
+
+  it('charges per million tokens and nothing for free providers', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 200_000 }
+
+    expect(costOf(PRICING, 'anthropic', 'claude-next', usage)).toBe(6)
+    expect(costOf(DEFAULT_PRICING, 'local', 'llama3', usage)).toBe(0)
+    expect(costOf(PRICING, 'openai', 'gpt-4o', usage)).toBe(0)
+  })
+})
+
+describe('recordUsage', () => {
+  it('adds calls to their day, model and feature', async () => {
+    const { recordUsage, readUsage, getSpend } = await import('./usage-ledger')
+    vi.spyOn(Date, 'now').mockReturnValue(MARCH_1)
+    await recordUsage({ feature: 'chat', provider: 'ANTHROPIC', model: 'claude-next', usage: { inputTokens: 1_000_000, outputTokens: 0 } })
+    vi.spyOn(Date, 'now').mockReturnValue(MARCH_2)
+    await recordUsage({ feature: 'chat', provider: 'anthropic', model: 'claude-next', usage: { inputTokens: 1_000_000, outputTokens: 0 } })
+    await recordUsage({ feature: 'chat', provider: 'anthropic', model: 'claude-next', usage: { inputTokens: 0, outputTokens: 100_000 }, estimated: true })
+    await recordUsage({ feature: 'journal', provider: 'mock', model: 'mock', usage: { inputTokens: 5, outputTokens: 5 }, promptVersions: ['system@1', 'journal@1'] })
+
+    const records = await readUsage(1, MARCH_2)
+
+    expect(records.map(r => r.id).sort()).toEqual([
+      '2026-03-02|anthropic|claude-next|chat',
+      '2026-03-02|mock|mock|journal|system@1 journal@1'
+    ])
+    expect(records.find(r => r.feature === 'chat')).toMatchObject({ calls: 2, inputTokens: 1_000_000, outputTokens: 100_000, cost: 4.5, estimatedCalls: 1 })
+    expect(await getSpend(MARCH_2)).toEqual({ today: 4.5, month: 7.5 })
+  })
+})
+
+describe('budgets', () => {
+  const spend = { today: 2, month: 30 }
+
+  it('name the first budget that is spent', () => {
+    const budgets: UsageBudgets = { daily: 5, monthly: 25, action: 'block' }
+
+    expect(budgetExceeded(budgets, spend)).toBe('Monthly AI budget of $25.00 reached ($30.00 spent this month)')
+    expect(budgetExceeded({ ...budgets, daily: 2 }, spend)).toMatch(/^Daily AI budget of \$2.00/)
+    expect(budgetExceeded({ ...budgets, monthly: null }, spend)).toBeNull()
+  })
+
+  it('block paid providers, or move them to a free one, once spent', async () => {
+    const { applyBudget, recordUsage, saveUsageSettings, BudgetExceededError } = await import('./usage-ledger')
+    await recordUsage({ feature: 'chat', provider: 'anthropic', model: 'claude-next', usage: { inputTokens: 1_000_000, outputTokens: 0 } })
+    await saveUsageSettings({ pricing: DEFAULT_PRICING, budgets: { daily: 1, monthly: null, action: 'block' } })
+
+    await expect(applyBudget('anthropic', ['local'])).rejects.toBeInstanceOf(BudgetExceededError)
+    expect(await applyBudget('local', ['anthropic', 'mock'])).toEqual({ provider: 'local', fallbackProviders: ['mock'], notice: null })
+
+    await saveUsageSettings({ pricing: DEFAULT_PRICING, budgets: { daily: 1, monthly: null, action: 'downgrade-local' } })
+    expect(await applyBudget('anthropic')).toMatchObject({ provider: 'local', fallbackProviders: ['mock'], notice: expect.stringContaining('using the local model') })
+  })
+
+  it('leave requests alone while within budget', async () => {
+    const { applyBudget, saveUsageSettings } = await import('./usage-ledger')
+    await saveUsageSettings({ pricing: DEFAULT_PRICING, budgets: { daily: 1, monthly: 0, action: 'block' } })
+
+    expect(await applyBudget('anthropic', ['openai'])).toEqual({ provider: 'anthropic', fallbackProviders: ['openai'], notice: null })
+  })
+})
@@ -0,0 +1,326 @@
+// CASCADE Living OS - Usage Ledger
+// AI token usage and spend per day, provider, model and feature, with budgets that cap spend
+
+import { STORES, USAGE_META_KEY } from './schema'
+import { initDB } from './indexed-db'
+import { getDateKey } from '@/lib/utils'
+import type { CASCADEProviderName } from '@/lib/llm/provider'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type UsageFeature = 'chat' | 'journal' | 'oracle' | 'pyramid' | 'agents' | 'retention'
+
+export const USAGE_FEATURES: Array<{ id: UsageFeature; label: string }> = [
+  { id: 'chat', label: 'Chat' },
+  { id: 'journal', label: 'Journal analysis' },
+  { id: 'oracle', label: 'Oracle' },
+  { id: 'pyramid', label: 'Pyramid suggestions' },
+  { id: 'agents', label: 'Agent insights' },
+  { id: 'retention', label: 'Retention summaries' }
+]
+
+export interface UsageTokens {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * One day's usage of a model for a feature and prompt. Cost is fixed when
+ * each call is recorded, so editing prices never rewrites history.
+ */
+export interface UsageRecord {
+  id: string                 // day|provider|model|feature, then |prompts when known
+  day: string                // UTC date, YYYY-MM-DD
+  provider: CASCADEProviderName
+  model: string
+  feature: UsageFeature
+  prompts?: string           // prompt template versions, e.g. "system@1 journal@1"
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number               // USD
+  estimatedCalls: number     // cancelled streams, counted from the text received
+}
+
+/**
+ * USD per million tokens; `model: '*'` prices any model of the provider
+ */
+export interface PriceRule {
+  provider: CASCADEProviderName
+  model: string
+  input: number
+  output: number
+}
+
+export type BudgetAction = 'block' | 'downgrade-local' | 'downgrade-mock'
+
+export interface UsageBudgets {
+  daily: number | null       // USD; null for no limit
+  monthly: number | null
+  action: BudgetAction
+}
+
+export interface UsageSettings {
+  pricing: PriceRule[]
+  budgets: UsageBudgets
+}
+
+export interface UsageSpend {
+  today: number
+  month: number
+}
+
+/**
+ * Where a request goes once budgets are applied
+ */
+export interface BudgetDecision {
+  provider: CASCADEProviderName
+  fallbackProviders: CASCADEProviderName[]
+  notice: string | null      // why the request was downgraded
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+/**
+ * A request refused because a budget is spent and the action is 'block'
+ */
+export class BudgetExceededError extends UsageError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+// Providers that never cost anything
+const FREE_PROVIDERS: CASCADEProviderName[] = ['local', 'mock', 'replay']
+
+export const DEFAULT_PRICING: PriceRule[] = [
+  { provider: 'anthropic', model: 'claude-sonnet-4-20250514', input: 3, output: 15 },
+  { provider: 'anthropic', model: 'claude-3-opus-20240229', input: 15, output: 75 },
+  { provider: 'anthropic', model: 'claude-3-sonnet-20240229', input: 3, output: 15 },
+  { provider: 'anthropic', model: 'claude-3-haiku-20240307', input: 0.25, output: 1.25 },
+  { provider: 'anthropic', model: '*', input: 3, output: 15 },
+  { provider: 'gemini', model: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { provider: 'gemini', model: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { provider: 'gemini', model: '*', input: 1.25, output: 5 },
+  { provider: 'openai', model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { provider: 'openai', model: 'gpt-4o', input: 2.5, output: 10 }
+]
+
+export const DEFAULT_BUDGETS: UsageBudgets = { daily: null, monthly: null, action: 'block' }
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getUsageSettings(): Promise<UsageSettings> {
+  const db = await initDB()
+  const stored = await new Promise<(UsageSettings & { key: string }) | undefined>((resolve, reject) => {
+    const request = db.transaction(STORES.DOCUMENTS, 'readonly').objectStore(STORES.DOCUMENTS).get(USAGE_META_KEY)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  return {
+    pricing: stored?.pricing ?? DEFAULT_PRICING,
+    budgets: { ...DEFAULT_BUDGETS, ...stored?.budgets }
+  }
+}
+
+/**
+ * Replace the pricing table and budgets
+ */
+export async function saveUsageSettings(settings: UsageSettings): Promise<void> {
+  for (const rule of settings.pricing) {
+    if (!rule.model.trim()) throw new UsageError('Every price needs a model name, or * for any model')
+  }
+  const pricing = settings.pricing.map(rule => ({
+    provider: rule.provider,
+    model: rule.model.trim(),
+    input: Math.max(0, Number(rule.input) || 0),
+    output: Math.max(0, Number(rule.output) || 0)
+  }))
+  const limit = (value: number | null) => value !== null && value > 0 ? value : null
+  const budgets: UsageBudgets = {
+    daily: limit(settings.budgets.daily),
+    monthly: limit(settings.budgets.monthly),
+    action: settings.budgets.action
+  }
+
+  const db = await initDB()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.DOCUMENTS, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.DOCUMENTS).put({ key: USAGE_META_KEY, pricing, budgets })
+  })
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * The rule pricing a model: an exact match, else the provider's `*` rule
+ */
+export function priceFor(pricing: PriceRule[], provider: CASCADEProviderName, model: string): PriceRule | null {
+  return pricing.find(rule => rule.provider === provider && rule.model === model)
+    ?? pricing.find(rule => rule.provider === provider && rule.model === '*')
+    ?? null
+}
+
+export function costOf(pricing: PriceRule[], provider: CASCADEProviderName, model: string, usage: UsageTokens): number {
+  if (FREE_PROVIDERS.includes(provider)) return 0
+  const rule = priceFor(pricing, provider, model)
+  if (!rule) return 0
+  return (usage.inputTokens * rule.input + usage.outputTokens * rule.output) / 1_000_000
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Add a call to its day's record. Never throws: a reply the user already
+ * has must not fail because its usage could not be written.
+ */
+export async function recordUsage(entry: {
+  feature: UsageFeature
+  provider: string
+  model: string
+  usage: UsageTokens
+  estimated?: boolean
+  promptVersions?: string[]
+}): Promise<void> {
+  const provider = entry.provider.toLowerCase() as CASCADEProviderName
+  const day = getDateKey(Date.now())
+  const prompts = entry.promptVersions?.length ? entry.promptVersions.join(' ') : undefined
+  const id = `${day}|${provider}|${entry.model}|${entry.feature}${prompts ? `|${prompts}` : ''}`
+
+  try {
+    const { pricing } = await getUsageSettings()
+    const cost = costOf(pricing, provider, entry.model, entry.usage)
+    const db = await initDB()
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORES.USAGE, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+
+      const store = transaction.objectStore(STORES.USAGE)
+      const request = store.get(id)
+      request.onsuccess = () => {
+        const current: UsageRecord = request.result ?? {
+          id, day, provider, model: entry.model, feature: entry.feature,
+          ...(prompts ? { prompts } : {}),
+          calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimatedCalls: 0
+        }
+        store.put({
+          ...current,
+          calls: current.calls + 1,
+          inputTokens: current.inputTokens + entry.usage.inputTokens,
+          outputTokens: current.outputTokens + entry.usage.outputTokens,
+          cost: current.cost + cost,
+          estimatedCalls: current.estimatedCalls + (entry.estimated ? 1 : 0)
+        })
+      }
+    })
+  } catch (error) {
+    console.error('Failed to record AI usage:', error)
+  }
+}
+
+async function readDays(range: IDBKeyRange | null): Promise<UsageRecord[]> {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORES.USAGE, 'readonly').objectStore(STORES.USAGE).index('day').getAll(range)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+/**
+ * Records of the last `days` days, today included, oldest first
+ */
+export async function readUsage(days: number, now: number = Date.now()): Promise<UsageRecord[]> {
+  return readDays(IDBKeyRange.lowerBound(getDateKey(now - (days - 1) * DAY_MS)))
+}
+
+/**
+ * Spend so far today and this month (UTC)
+ */
+export async function getSpend(now: number = Date.now()): Promise<UsageSpend> {
+  const today = getDateKey(now)
+  const month = today.slice(0, 7)
+  const records = await readDays(IDBKeyRange.bound(`${month}-01`, `${month}-31`))
+  const sum = (list: UsageRecord[]) => list.reduce((total, record) => total + record.cost, 0)
+
+  return {
+    today: sum(records.filter(record => record.day === today)),
+    month: sum(records)
+  }
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  const db = await initDB()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.USAGE, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.USAGE).clear()
+  })
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+/**
+ * The reason spend must stop, or null while within every budget
+ */
+export function budgetExceeded(budgets: UsageBudgets, spend: UsageSpend): string | null {
+  if (budgets.daily !== null && spend.today >= budgets.daily) {
+    return `Daily AI budget of ${formatUSD(budgets.daily)} reached (${formatUSD(spend.today)} spent today)`
+  }
+  if (budgets.monthly !== null && spend.month >= budgets.monthly) {
+    return `Monthly AI budget of ${formatUSD(budgets.monthly)} reached (${formatUSD(spend.month)} spent this month)`
+  }
+  return null
+}
+
+/**
+ * Route a request within the budgets. Over budget, paid providers are
+ * dropped: the request is blocked with a BudgetExceededError, or moved to
+ * the local or mock provider, as the budget action says.
+ */
+export async function applyBudget(
+  provider: CASCADEProviderName,
+  fallbackProviders: CASCADEProviderName[] = []
+): Promise<BudgetDecision> {
+  const { budgets } = await getUsageSettings()
+  const reason = budgetExceeded(budgets, await getSpend())
+  if (!reason) return { provider, fallbackProviders, notice: null }
+
+  const free = fallbackProviders.filter(p => FREE_PROVIDERS.includes(p))
+  if (FREE_PROVIDERS.includes(provider)) return { provider, fallbackProviders: free, notice: null }
+
+  switch (budgets.action) {
+    case 'downgrade-local':
+      return { provider: 'local', fallbackProviders: ['mock'], notice: `${reason}; using the local model` }
+    case 'downgrade-mock':
+      return { provider: 'mock', fallbackProviders: [], notice: `${reason}; using the mock provider` }
+    case 'block':
+    default:
+      throw new BudgetExceededError(`${reason}. Raise the budget under Settings to continue.`)
+  }
+}
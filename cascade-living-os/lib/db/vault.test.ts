@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage, stubBrowserWindow } from './testing'
+import { STORES } from './schema'
+
+const PASSPHRASE = 'correct horse battery staple'
+const ENTRY = { id: 'entry-1', timestamp: 5, rawText: 'Walked before work' }
+
+// A tab's own copy of the module, sharing the database with every other tab
+async function openTab() {
+  vi.resetModules()
+  return import('./vault')
+}
+
+async function storedEntry(): Promise<Record<string, unknown>> {
+  const { initDB } = await import('./indexed-db')
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORES.JOURNAL, 'readonly').objectStore(STORES.JOURNAL).get(ENTRY.id)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+async function writeEntry(record: unknown): Promise<void> {
+  const { initDB } = await import('./indexed-db')
+  const db = await initDB()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.JOURNAL, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.JOURNAL).put(record)
+  })
+}
+
+beforeEach(() => {
+  stubBrowserStorage()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('sealRecord and openRecord', () => {
+  it('leave records alone while the vault is disabled', async () => {
+    const vault = await openTab()
+
+    expect(await vault.sealRecord(STORES.JOURNAL, ENTRY)).toBe(ENTRY)
+    expect(await vault.getVaultStatus()).toBe('disabled')
+  })
+
+  it('encrypt all but the key and index fields, and decrypt them again', async () => {
+    const vault = await openTab()
+    await vault.enableVault(PASSPHRASE)
+
+    const sealed = await vault.sealRecord(STORES.JOURNAL, ENTRY)
+    expect(sealed).toMatchObject({ id: 'entry-1', timestamp: 5 })
+    expect(sealed).not.toHaveProperty('rawText')
+    expect(JSON.stringify(sealed)).not.toContain('Walked')
+    expect(await vault.openRecord(sealed)).toEqual(ENTRY)
+    // Stores without sensitive data are never sealed
+    expect(await vault.sealRecord('measurements', ENTRY)).toBe(ENTRY)
+  })
+
+  it('refuse to write or read while locked', async () => {
+    const vault = await openTab()
+    await vault.enableVault(PASSPHRASE)
+    const sealed = await vault.sealRecord(STORES.JOURNAL, ENTRY)
+
+    await vault.lockVault()
+
+    await expect(vault.sealRecord(STORES.JOURNAL, ENTRY)).rejects.toMatchObject({ code: 'locked' })
+    await expect(vault.openRecord(sealed)).rejects.toMatchObject({ code: 'locked' })
+  })
+})
+
+describe('vault lifecycle', () => {
+  it('encrypts stored records when enabled and needs the passphrase to unlock', async () => {
+    const vault = await openTab()
+    await writeEntry(ENTRY)
+    await vault.enableVault(PASSPHRASE)
+    await vault.lockVault()
+
+    const stored = await storedEntry()
+    expect(vault.isSealedRecord(stored)).toBe(true)
+    await expect(vault.unlockVault('wrong')).rejects.toMatchObject({ code: 'bad-passphrase' })
+
+    await vault.unlockVault(PASSPHRASE)
+    expect(await vault.getVaultStatus()).toBe('unlocked')
+    expect(await vault.openRecord(stored)).toEqual(ENTRY)
+  })
+
+  it('re-keys every record to a new passphrase', async () => {
+    const vault = await openTab()
+    await writeEntry(ENTRY)
+    await vault.enableVault(PASSPHRASE)
+    const before = await storedEntry()
+
+    await vault.rekeyVault(PASSPHRASE, 'a new passphrase')
+    await vault.lockVault()
+
+    const after = await storedEntry()
+    expect(after).not.toEqual(before)
+    await expect(vault.unlockVault(PASSPHRASE)).rejects.toMatchObject({ code: 'bad-passphrase' })
+    await vault.unlockVault('a new passphrase')
+    expect(await vault.openRecord(after)).toEqual(ENTRY)
+  })
+
+  it('decrypts everything when disabled', async () => {
+    const vault = await openTab()
+    await writeEntry(ENTRY)
+    await vault.enableVault(PASSPHRASE)
+
+    await vault.disableVault(PASSPHRASE)
+
+    expect(await storedEntry()).toEqual(ENTRY)
+    expect(await vault.getVaultStatus()).toBe('disabled')
+  })
+
+  it('does not write clear text from a tab that missed the vault being enabled', async () => {
+    const other = await openTab()
+    expect(await other.getVaultStatus()).toBe('disabled')
+
+    const vault = await openTab()
+    await vault.enableVault(PASSPHRASE)
+
+    await expect(other.sealRecord(STORES.JOURNAL, ENTRY)).rejects.toMatchObject({ code: 'locked' })
+  })
+
+  it('locks other tabs when the vault is re-keyed', async () => {
+    stubBrowserWindow()
+    const vault = await openTab()
+    await vault.enableVault(PASSPHRASE)
+    const other = await openTab()
+    await other.unlockVault(PASSPHRASE)
+    const statuses: string[] = []
+    other.onVaultChange(status => statuses.push(status))
+
+    await vault.rekeyVault(PASSPHRASE, 'a new passphrase')
+
+    await vi.waitFor(() => expect(statuses).toEqual(['locked']))
+    await other.unlockVault('a new passphrase')
+    expect(await other.openRecord(await vault.sealRecord(STORES.JOURNAL, ENTRY))).toEqual(ENTRY)
+  })
+})
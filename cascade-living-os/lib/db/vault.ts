@@ -0,0 +1,553 @@
+// CASCADE Living OS - Vault
+// Optional passphrase encryption of sensitive records at rest
+
+import { initDB } from './indexed-db'
+import { broadcast, onTabMessage } from './tab-channel'
+import { toBase64, fromBase64 } from '@/lib/utils'
+import {
+  STORES,
+  ENTITY_STORES,
+  ENTITY_STORE_NAMES,
+  DOCUMENTS,
+  VAULT_META_KEY,
+  SYNC_META_KEY
+} from './schema'
+
+// Field holding the ciphertext of a sealed record
+export const VAULT_FIELD = '__vault'
+
+// OWASP guidance for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000
+
+export const DEFAULT_IDLE_MINUTES = 15
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked'
+
+export type VaultErrorCode = 'locked' | 'bad-passphrase' | 'disabled' | 'enabled' | 'corrupt'
+
+export class VaultError extends Error {
+  constructor(message: string, public readonly code: VaultErrorCode) {
+    super(message)
+    this.name = 'VaultError'
+  }
+}
+
+interface Ciphertext {
+  iv: Uint8Array
+  data: ArrayBuffer
+}
+
+interface SealedPayload extends Ciphertext {
+  keyId: string
+}
+
+interface WrappedKey extends Ciphertext {
+  id: string
+}
+
+interface VaultMeta {
+  key: typeof VAULT_META_KEY
+  version: 1
+  salt: Uint8Array
+  iterations: number
+  // keys[0] encrypts new records; older keys remain until a re-key finishes
+  keys: WrappedKey[]
+  idleMinutes: number
+  createdAt: number
+  rekeyedAt: number | null
+}
+
+// ============================================================================
+// CRYPTO
+// ============================================================================
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+async function encrypt(key: CryptoKey, plaintext: Uint8Array): Promise<Ciphertext> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext)
+  return { iv, data }
+}
+
+async function decrypt(key: CryptoKey, ciphertext: Ciphertext): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: ciphertext.iv }, key, ciphertext.data)
+  return new Uint8Array(plaintext)
+}
+
+/**
+ * Random data key, returned both as a usable key and wrapped by the passphrase key
+ */
+async function createDataKey(passphraseKey: CryptoKey): Promise<{ key: CryptoKey; wrapped: WrappedKey }> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key))
+  const wrapped = { id: crypto.randomUUID(), ...(await encrypt(passphraseKey, raw)) }
+  return { key, wrapped }
+}
+
+async function unwrapRawKeys(passphraseKey: CryptoKey, meta: VaultMeta): Promise<Map<string, Uint8Array>> {
+  const keys = new Map<string, Uint8Array>()
+  for (const wrapped of meta.keys) {
+    try {
+      keys.set(wrapped.id, await decrypt(passphraseKey, wrapped))
+    } catch {
+      throw new VaultError('Incorrect passphrase', 'bad-passphrase')
+    }
+  }
+  return keys
+}
+
+async function unwrapDataKeys(passphraseKey: CryptoKey, meta: VaultMeta): Promise<Map<string, CryptoKey>> {
+  const keys = new Map<string, CryptoKey>()
+  for (const [id, raw] of Array.from(await unwrapRawKeys(passphraseKey, meta))) {
+    keys.set(id, await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']))
+  }
+  return keys
+}
+
+// ============================================================================
+// KEY STATE
+// ============================================================================
+
+let metaPromise: Promise<VaultMeta | null> | null = null
+let dataKeys: Map<string, CryptoKey> | null = null
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let watchingTabs = false
+const listeners = new Set<(status: VaultStatus) => void>()
+
+async function readStoredMeta(): Promise<VaultMeta | null> {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORES.DOCUMENTS, 'readonly').objectStore(STORES.DOCUMENTS).get(VAULT_META_KEY)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve((request.result as VaultMeta | undefined) ?? null)
+  })
+}
+
+function loadMeta(): Promise<VaultMeta | null> {
+  watchOtherTabs()
+  if (!metaPromise) {
+    metaPromise = readStoredMeta()
+    metaPromise.catch(() => {
+      metaPromise = null
+    })
+  }
+  return metaPromise
+}
+
+/**
+ * Another tab enabled, re-keyed or disabled the vault: the cached meta and
+ * keys no longer match what is stored, so drop them and lock
+ */
+function watchOtherTabs(): void {
+  if (watchingTabs) return
+  watchingTabs = true
+  onTabMessage(message => {
+    if (message.type !== 'vault-changed') return
+    metaPromise = null
+    void lockVault()
+  })
+}
+
+async function saveMeta(meta: VaultMeta | null): Promise<void> {
+  const db = await initDB()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.DOCUMENTS, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+
+    const store = transaction.objectStore(STORES.DOCUMENTS)
+    if (meta) store.put(meta)
+    else store.delete(VAULT_META_KEY)
+  })
+
+  metaPromise = Promise.resolve(meta)
+}
+
+function currentStatus(meta: VaultMeta | null): VaultStatus {
+  if (!meta) return 'disabled'
+  return dataKeys ? 'unlocked' : 'locked'
+}
+
+async function notify(): Promise<void> {
+  const status = currentStatus(await loadMeta())
+  listeners.forEach(listener => listener(status))
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  return currentStatus(await loadMeta())
+}
+
+export async function getVaultIdleMinutes(): Promise<number> {
+  return (await loadMeta())?.idleMinutes ?? DEFAULT_IDLE_MINUTES
+}
+
+/**
+ * Subscribe to lock/unlock/enable/disable transitions
+ */
+export function onVaultChange(listener: (status: VaultStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+async function requireUnlocked(): Promise<VaultMeta> {
+  const meta = await loadMeta()
+  if (!meta) throw new VaultError('The vault is not enabled', 'disabled')
+  if (!dataKeys) throw new VaultError('The vault is locked', 'locked')
+  return meta
+}
+
+// ============================================================================
+// RECORD SEALING
+// ============================================================================
+
+/**
+ * Fields left in clear text so keys and indexes keep working
+ */
+function clearFieldsFor(store: string): string[] | null {
+  if (store === STORES.STATE) return ['id', 'version']
+  if (store === STORES.HISTORY) return ['timestamp', 'kind', 'subsystems']
+  if (store === STORES.DOCUMENTS) return ['key']
+  if (store === STORES.COLD) return ['id', 'store', 'from', 'to', 'count', 'bytes', 'createdAt']
+  if (store === STORES.AUDIT) return ['id', 'timestamp', 'actorKind', 'operation']
+
+  const schema = ENTITY_STORES[store as keyof typeof ENTITY_STORES]
+  if (!schema || !('sealed' in schema) || !schema.sealed) return null
+  return [schema.keyPath, ...schema.indexes.map(index => index.keyPath)]
+}
+
+const SEALED_DOCUMENTS: string[] = [
+  ...Object.values(DOCUMENTS).filter(doc => 'sealed' in doc && doc.sealed).map(doc => doc.key),
+  SYNC_META_KEY // holds the sync endpoint token
+]
+
+function isSealable(store: string, record: unknown): record is Record<string, unknown> {
+  if (!record || typeof record !== 'object') return false
+  if (store === STORES.DOCUMENTS) {
+    return SEALED_DOCUMENTS.includes((record as { key: string }).key)
+  }
+  return clearFieldsFor(store) !== null
+}
+
+export function isSealedRecord(record: unknown): boolean {
+  return !!record && typeof record === 'object' && VAULT_FIELD in record
+}
+
+async function sealWith(
+  keyId: string,
+  key: CryptoKey,
+  store: string,
+  record: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const clearFields = clearFieldsFor(store) ?? []
+  const clear: Record<string, unknown> = {}
+  const secret: Record<string, unknown> = {}
+
+  for (const [field, value] of Object.entries(record)) {
+    if (clearFields.includes(field)) clear[field] = value
+    else secret[field] = value
+  }
+
+  const payload: SealedPayload = { keyId, ...(await encrypt(key, encoder.encode(JSON.stringify(secret)))) }
+  return { ...clear, [VAULT_FIELD]: payload }
+}
+
+async function openWith(keys: Map<string, CryptoKey>, record: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const { [VAULT_FIELD]: payload, ...clear } = record as Record<string, unknown> & { [VAULT_FIELD]: SealedPayload }
+  const key = keys.get(payload.keyId)
+  if (!key) throw new VaultError('Record was sealed with an unknown key', 'corrupt')
+
+  const secret = JSON.parse(decoder.decode(await decrypt(key, payload)))
+  return { ...secret, ...clear }
+}
+
+/**
+ * Encrypt a record before it is written, if its store is sealed and the
+ * vault is enabled. Throws VaultError('locked') rather than writing clear
+ * text while the vault is locked.
+ *
+ * The meta is read from storage rather than the cache, so a write never
+ * goes out in clear text or under a retired key after another tab changed it.
+ */
+export async function sealRecord<T>(store: string, record: T): Promise<T> {
+  if (!isSealable(store, record)) return record
+  const meta = await readStoredMeta()
+  metaPromise = Promise.resolve(meta)
+  if (!meta) return record
+
+  const keyId = meta.keys[0].id
+  const key = dataKeys?.get(keyId)
+  if (!key) throw new VaultError('The vault is locked', 'locked')
+  return await sealWith(keyId, key, store, record) as T
+}
+
+/**
+ * Decrypt a record after it is read. Records written before the vault was
+ * enabled are returned unchanged.
+ */
+export async function openRecord<T>(record: T): Promise<T> {
+  if (!isSealedRecord(record)) return record
+  if (!dataKeys) throw new VaultError('The vault is locked', 'locked')
+  return await openWith(dataKeys, record as Record<string, unknown>) as T
+}
+
+export function openRecords<T>(records: T[]): Promise<T[]> {
+  return Promise.all(records.map(record => openRecord(record)))
+}
+
+// ============================================================================
+// RESEALING
+// ============================================================================
+
+const SEALED_STORES: string[] = [
+  STORES.STATE,
+  STORES.HISTORY,
+  STORES.DOCUMENTS,
+  STORES.COLD,
+  STORES.AUDIT,
+  ...ENTITY_STORE_NAMES.filter(name => clearFieldsFor(name) !== null)
+]
+
+/**
+ * Rewrite every sealable record: opened with the currently loaded keys and
+ * sealed with `target`, or left in clear text when `target` is null.
+ * Each store is rewritten in its own transaction.
+ */
+async function resealAll(target: { id: string; key: CryptoKey } | null): Promise<void> {
+  const db = await initDB()
+  const keys = dataKeys ?? new Map<string, CryptoKey>()
+
+  for (const store of SEALED_STORES) {
+    const records = await new Promise<unknown[]>((resolve, reject) => {
+      const request = db.transaction(store, 'readonly').objectStore(store).getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+    })
+
+    const rewritten: unknown[] = []
+    for (const record of records) {
+      if (!isSealable(store, record)) continue
+      const plain = isSealedRecord(record) ? await openWith(keys, record) : record
+      rewritten.push(target ? await sealWith(target.id, target.key, store, plain) : plain)
+    }
+    if (rewritten.length === 0) continue
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(store, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      const objectStore = transaction.objectStore(store)
+      rewritten.forEach(record => objectStore.put(record))
+    })
+  }
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Turn the vault on and encrypt every sensitive record already stored
+ */
+export async function enableVault(passphrase: string, idleMinutes = DEFAULT_IDLE_MINUTES): Promise<void> {
+  if (await loadMeta()) throw new VaultError('The vault is already enabled', 'enabled')
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const { key, wrapped } = await createDataKey(passphraseKey)
+
+  // Meta is written first so anything saved from here on is sealed
+  await saveMeta({
+    key: VAULT_META_KEY,
+    version: 1,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    keys: [wrapped],
+    idleMinutes,
+    createdAt: Date.now(),
+    rekeyedAt: null
+  })
+  dataKeys = new Map([[wrapped.id, key]])
+
+  await resealAll({ id: wrapped.id, key })
+  resetIdleTimer(idleMinutes)
+  broadcast({ type: 'vault-changed' })
+  await notify()
+}
+
+/**
+ * Unlock with the passphrase. Finishes an interrupted re-key if one is pending.
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const meta = await loadMeta()
+  if (!meta) throw new VaultError('The vault is not enabled', 'disabled')
+
+  const passphraseKey = await derivePassphraseKey(passphrase, meta.salt, meta.iterations)
+  dataKeys = await unwrapDataKeys(passphraseKey, meta)
+
+  if (meta.keys.length > 1) {
+    const current = meta.keys[0].id
+    await resealAll({ id: current, key: dataKeys.get(current)! })
+    await saveMeta({ ...meta, keys: [meta.keys[0]] })
+  }
+
+  resetIdleTimer(meta.idleMinutes)
+  await notify()
+}
+
+/**
+ * Forget the keys. Callers should also drop any decrypted data they hold.
+ */
+export async function lockVault(): Promise<void> {
+  dataKeys = null
+  if (idleTimer) clearTimeout(idleTimer)
+  idleTimer = null
+  await notify()
+}
+
+/**
+ * Replace the passphrase and the data key, re-encrypting every sealed record.
+ *
+ * The old data key stays in the metadata (wrapped by the new passphrase)
+ * until every record is rewritten, so an interrupted re-key is finished on
+ * the next unlock instead of leaving records unreadable.
+ */
+export async function rekeyVault(currentPassphrase: string, nextPassphrase: string): Promise<void> {
+  const meta = await requireUnlocked()
+  const rawKeys = await unwrapRawKeys(
+    await derivePassphraseKey(currentPassphrase, meta.salt, meta.iterations),
+    meta
+  )
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const passphraseKey = await derivePassphraseKey(nextPassphrase, salt, PBKDF2_ITERATIONS)
+  const { key, wrapped } = await createDataKey(passphraseKey)
+
+  const previous: WrappedKey[] = []
+  for (const [id, raw] of Array.from(rawKeys)) {
+    previous.push({ id, ...(await encrypt(passphraseKey, raw)) })
+  }
+
+  const next: VaultMeta = { ...meta, salt, iterations: PBKDF2_ITERATIONS, keys: [wrapped, ...previous] }
+  await saveMeta(next)
+  dataKeys = new Map([[wrapped.id, key], ...Array.from(dataKeys!)])
+
+  await resealAll({ id: wrapped.id, key })
+  await saveMeta({ ...next, keys: [wrapped], rekeyedAt: Date.now() })
+  dataKeys = new Map([[wrapped.id, key]])
+  broadcast({ type: 'vault-changed' })
+  await notify()
+}
+
+/**
+ * Decrypt everything and turn the vault off
+ */
+export async function disableVault(passphrase: string): Promise<void> {
+  const meta = await requireUnlocked()
+  await unwrapDataKeys(await derivePassphraseKey(passphrase, meta.salt, meta.iterations), meta)
+
+  await resealAll(null)
+  await saveMeta(null)
+  broadcast({ type: 'vault-changed' })
+  await lockVault()
+}
+
+// ============================================================================
+// IDLE LOCK
+// ============================================================================
+
+function resetIdleTimer(minutes: number): void {
+  if (idleTimer) clearTimeout(idleTimer)
+  idleTimer = minutes > 0
+    ? setTimeout(() => void lockVault(), minutes * 60 * 1000)
+    : null
+}
+
+/**
+ * Record user activity; the vault locks after `idleMinutes` without any
+ */
+export async function touchVault(): Promise<void> {
+  if (!dataKeys) return
+  resetIdleTimer(await getVaultIdleMinutes())
+}
+
+export async function setVaultIdleMinutes(minutes: number): Promise<void> {
+  const meta = await requireUnlocked()
+  await saveMeta({ ...meta, idleMinutes: minutes })
+  resetIdleTimer(minutes)
+}
+
+// ============================================================================
+// ENCRYPTED EXPORTS
+// ============================================================================
+
+export const ENCRYPTED_EXPORT_FORMAT = 'cascade-encrypted-export'
+
+interface EncryptedExport {
+  format: typeof ENCRYPTED_EXPORT_FORMAT
+  version: 1
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: 'AES-GCM'
+  iv: string
+  data: string
+}
+
+/**
+ * Wrap an export in a self-describing passphrase-encrypted envelope
+ */
+export async function encryptExport(json: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const { iv, data } = await encrypt(key, encoder.encode(json))
+
+  const envelope: EncryptedExport = {
+    format: ENCRYPTED_EXPORT_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: 'AES-GCM',
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data))
+  }
+  return JSON.stringify(envelope, null, 2)
+}
+
+export function isEncryptedExport(json: string): boolean {
+  try {
+    return JSON.parse(json)?.format === ENCRYPTED_EXPORT_FORMAT
+  } catch {
+    return false
+  }
+}
+
+export async function decryptExport(json: string, passphrase: string): Promise<string> {
+  const envelope = JSON.parse(json) as EncryptedExport
+  if (envelope.format !== ENCRYPTED_EXPORT_FORMAT || envelope.version !== 1) {
+    throw new VaultError('Not a CASCADE encrypted export', 'corrupt')
+  }
+
+  const key = await derivePassphraseKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations)
+  try {
+    const plaintext = await decrypt(key, { iv: fromBase64(envelope.iv), data: fromBase64(envelope.data).buffer as ArrayBuffer })
+    return decoder.decode(plaintext)
+  } catch {
+    throw new VaultError('Incorrect passphrase', 'bad-passphrase')
+  }
+}
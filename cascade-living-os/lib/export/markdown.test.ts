@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { JournalEntry } from '@/types/cascade'
+import { Goal, WeeklyReview } from '@/types/entities'
+import { stubBrowserStorage } from '@/lib/db/testing'
+import { STORES } from '@/lib/db/schema'
+
+const MONDAY = new Date('2026-03-02T09:00:00').getTime()
+
+function entry(id: string, rawText: string, timestamp = MONDAY): JournalEntry {
+  return { id, timestamp, rawText, extractedPatterns: [], shadowMaterial: [], suggestedIntegrations: [] }
+}
+
+const GOAL: Goal = {
+  id: 'goal-1',
+  title: 'Run: a marathon?',
+  description: 'Finish one before the year is out',
+  why: 'To prove I can',
+  timeframe: 'year',
+  status: 'active',
+  milestones: [
+    { id: 'm-2', title: 'Half marathon', completed: false, order: 2 },
+    { id: 'm-1', title: 'First 10k', completed: true, order: 1 }
+  ],
+  lamague: '',
+  createdAt: MONDAY + 1000,
+  microorcimsFired: 3,
+  reflections: []
+}
+
+const REVIEW: WeeklyReview = {
+  id: 'review-1',
+  weekStart: '2026-03-02',
+  weekEnd: '2026-03-08',
+  wins: ['Ran three times'],
+  challenges: [],
+  lessons: [],
+  gratitude: [],
+  microorcimsFired: 0,
+  focusHours: 0,
+  ritualsCompleted: 0,
+  goalsProgressed: 1,
+  overallRating: 4,
+  energyLevel: 3,
+  alignmentScore: 4,
+  nextWeekIntentions: [],
+  focusAreas: [],
+  notes: '',
+  lamague: ''
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+async function vault() {
+  const { putMany } = await import('@/lib/db/repository')
+  await putMany(STORES.JOURNAL, [entry('entry-1', 'Walked before work'), entry('entry-2', 'Walked before work', MONDAY + 60000)])
+  await putMany('goals', [GOAL])
+  await putMany('weekly-reviews', [REVIEW])
+  const { buildMarkdownVault } = await import('./markdown')
+  const files = await buildMarkdownVault()
+  return new Map(files.map(file => [file.path, String(file.content)]))
+}
+
+describe('buildMarkdownVault', () => {
+  it('writes one note per record with frontmatter, in its folder', async () => {
+    const files = await vault()
+
+    const goal = files.get('CASCADE/Goals/Run a marathon.md')
+    expect(goal).toContain('id: "goal-1"')
+    expect(goal).toContain('type: "goal"')
+    expect(goal).toContain('  - "cascade/goal"\n  - "status/active"\n  - "timeframe/year"')
+    expect(goal).toContain('- [x] First 10k\n- [ ] Half marathon')
+  })
+
+  it('gives notes with the same name distinct names', async () => {
+    const files = await vault()
+
+    expect(files.has('CASCADE/Journal/2026-03-02 Walked before work.md')).toBe(true)
+    expect(files.has('CASCADE/Journal/2026-03-02 Walked before work (2).md')).toBe(true)
+  })
+
+  it('links notes to their weekly review and back', async () => {
+    const files = await vault()
+
+    expect(files.get('CASCADE/Journal/2026-03-02 Walked before work.md')).toContain('Week: [[Week of 2026-03-02]]')
+    expect(files.get('CASCADE/Weekly Reviews/Week of 2026-03-02.md')).toContain(
+      '- Journal: [[2026-03-02 Walked before work]], [[2026-03-02 Walked before work (2)]]\n- Goals: [[Run a marathon]]'
+    )
+  })
+
+  it('indexes every folder', async () => {
+    const files = await vault()
+
+    expect(files.get('CASCADE/Goals.md')).toContain('- [[Run a marathon]]')
+    expect(files.get('CASCADE/Dreams.md')).toContain('_Nothing yet._')
+    expect(files.get('CASCADE/CASCADE.md')).toContain('- [[Journal]] (2)')
+  })
+})
@@ -0,0 +1,528 @@
+// CASCADE Living OS - Markdown Vault Export
+// Journal entries and page records as Obsidian notes with YAML frontmatter
+
+import { JournalEntry } from '@/types/cascade'
+import {
+  Goal,
+  Decision,
+  Commitment,
+  DreamEntry,
+  ShadowAspect,
+  LifeScript,
+  WeeklyReview
+} from '@/types/entities'
+import { getAll } from '@/lib/db/repository'
+import { getJournalRange } from '@/lib/db/journal'
+import { toSovereignDate } from '@/lib/cascade/seven-phase'
+import { ZipEntry, createZip } from './zip'
+
+// Top-level folder inside the zip, so it can be dropped into an existing vault
+export const VAULT_FOLDER = 'CASCADE'
+
+type NoteKind = 'journal' | 'goal' | 'decision' | 'commitment' | 'dream' | 'shadow' | 'script' | 'review'
+
+const FOLDERS: Record<NoteKind, string> = {
+  journal: 'Journal',
+  goal: 'Goals',
+  decision: 'Decisions',
+  commitment: 'Commitments',
+  dream: 'Dreams',
+  shadow: 'Shadow Work',
+  script: 'Life Scripts',
+  review: 'Weekly Reviews'
+}
+
+type FrontmatterValue = string | number | boolean | string[] | undefined
+
+interface Note {
+  kind: NoteKind
+  id: string
+  title: string
+  filename: string          // before cleanup and de-duplication
+  timestamp: number         // when it happened; sets the sovereign date and week
+  updated?: number
+  lamague?: string
+  tags: string[]
+  fields: Record<string, FrontmatterValue>
+  // Rendered once every note has its final name, so links can resolve
+  body: (links: LinkResolver) => string[]
+  name?: string
+}
+
+interface LinkResolver {
+  journal: (id: string) => string | null
+  week: (timestamp: number) => string | null
+  inWeek: (review: WeeklyReview) => Note[]
+}
+
+export interface MarkdownExport {
+  blob: Blob
+  notes: number
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function localDate(timestamp: number): string {
+  const d = new Date(timestamp)
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+function iso(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString()
+}
+
+function clip(text: string, max: number): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim()
+  return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine
+}
+
+// Obsidian tags: no spaces, no punctuation beyond - _ /
+function tag(...parts: string[]): string {
+  return parts
+    .map(part => part.toLowerCase().replace(/[\s_]+/g, '-').replace(/[^\p{L}\p{N}\-/]/gu, ''))
+    .join('/')
+}
+
+// Characters Obsidian or common filesystems reject in note names
+function noteName(text: string): string {
+  const name = clip(text.replace(/[\\/:*?"<>|#^[\]]/g, ' '), 80).replace(/[.\s]+$/, '')
+  return name || 'Untitled'
+}
+
+function link(name: string | null | undefined): string {
+  return name ? `[[${name}]]` : ''
+}
+
+function section(title: string, content: string | undefined): string[] {
+  return content && content.trim() ? [`## ${title}`, '', content.trim(), ''] : []
+}
+
+function listSection(title: string, items: string[] | undefined): string[] {
+  const filled = (items ?? []).filter(item => item && item.trim())
+  return filled.length > 0 ? [`## ${title}`, '', ...filled.map(item => `- ${item}`), ''] : []
+}
+
+/**
+ * YAML frontmatter; strings are double-quoted, which YAML reads as JSON strings
+ */
+function frontmatter(values: Record<string, FrontmatterValue>): string {
+  const lines = ['---']
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === '') continue
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue
+      lines.push(`${key}:`, ...value.map(item => `  - ${JSON.stringify(item)}`))
+    } else if (typeof value === 'string') {
+      lines.push(`${key}: ${JSON.stringify(value)}`)
+    } else {
+      lines.push(`${key}: ${value}`)
+    }
+  }
+  lines.push('---')
+  return lines.join('\n')
+}
+
+function render(note: Note, links: LinkResolver): string {
+  const sovereign = toSovereignDate(new Date(note.timestamp))
+  const header = frontmatter({
+    id: note.id,
+    type: note.kind,
+    created: iso(note.timestamp),
+    updated: iso(note.updated),
+    lamague: note.lamague,
+    phase: sovereign.phase.name,
+    sovereign_date: sovereign.formatted,
+    ...note.fields,
+    tags: [tag('cascade', note.kind), ...note.tags]
+  })
+
+  const body = note.body(links)
+  const week = note.kind === 'review' ? null : links.week(note.timestamp)
+  const footer = week ? ['---', `Week: ${link(week)}`] : []
+
+  return [header, '', `# ${note.title}`, '', ...body, ...footer].join('\n').trimEnd() + '\n'
+}
+
+// ============================================================================
+// NOTES
+// ============================================================================
+
+const PATTERN_LABELS: Record<string, string> = {
+  RECURRING_THEME: 'Recurring theme',
+  COGNITIVE_DISTORTION: 'Cognitive distortion',
+  INSIGHT: 'Insight',
+  QUESTION: 'Question'
+}
+
+// Entries from quick capture and older builds may lack the analysis fields
+function journalNote(entry: JournalEntry): Note {
+  const text = entry.rawText || (entry as JournalEntry & { content?: string }).content || ''
+  const patterns = entry.extractedPatterns ?? []
+  const shadowMaterial = entry.shadowMaterial ?? []
+  const symbols = shadowMaterial.flatMap(material => material.lamague?.symbols ?? [])
+  return {
+    kind: 'journal',
+    id: entry.id,
+    title: new Date(entry.timestamp).toLocaleString(),
+    filename: `${localDate(entry.timestamp)} ${clip(text, 40)}`,
+    timestamp: entry.timestamp,
+    lamague: symbols.length > 0 ? Array.from(new Set(symbols)).join(' ') : undefined,
+    tags: patterns.map(pattern => tag('pattern', pattern.type)),
+    fields: { mood: entry.mood, energy: entry.energy },
+    body: (links) => [
+      text.trim(),
+      '',
+      ...listSection('Patterns', patterns.map(pattern =>
+        `**${PATTERN_LABELS[pattern.type] ?? pattern.type}**: ${pattern.content}`
+      )),
+      ...listSection('Shadow material', shadowMaterial.map(material => [
+        material.content,
+        material.projection && `projection: ${material.projection}`,
+        material.integration && `integration: ${material.integration}`
+      ].filter(Boolean).join(' · '))),
+      ...listSection('Suggested integrations', (entry.suggestedIntegrations ?? []).map(integration => {
+        const sources = (integration.sourceEntryIds ?? [])
+          .filter(id => id !== entry.id)
+          .map(id => link(links.journal(id)))
+          .filter(Boolean)
+        const from = sources.length > 0 ? ` (from ${sources.join(', ')})` : ''
+        return `${integration.blockContent} · ${integration.suggestedLayer}, evidence ${Math.round(integration.evidenceStrength * 100)}%${from}`
+      }))
+    ]
+  }
+}
+
+function goalNote(goal: Goal): Note {
+  const milestones = [...goal.milestones].sort((a, b) => a.order - b.order)
+  return {
+    kind: 'goal',
+    id: goal.id,
+    title: goal.title,
+    filename: goal.title,
+    timestamp: goal.createdAt,
+    updated: goal.completedAt,
+    lamague: goal.lamague,
+    tags: [tag('status', goal.status), tag('timeframe', goal.timeframe)],
+    fields: {
+      status: goal.status,
+      timeframe: goal.timeframe,
+      target_phase: goal.targetPhase,
+      completed: iso(goal.completedAt),
+      microorcims_fired: goal.microorcimsFired
+    },
+    body: () => [
+      goal.description.trim(),
+      '',
+      ...section('Why', goal.why),
+      ...(milestones.length > 0 ? [
+        '## Milestones',
+        '',
+        ...milestones.map(milestone =>
+          `- [${milestone.completed ? 'x' : ' '}] ${milestone.title}${milestone.completedAt ? ` (${localDate(milestone.completedAt)})` : ''}`
+        ),
+        ''
+      ] : []),
+      ...listSection('Reflections', goal.reflections)
+    ]
+  }
+}
+
+function decisionNote(decision: Decision): Note {
+  return {
+    kind: 'decision',
+    id: decision.id,
+    title: decision.title,
+    filename: decision.title,
+    timestamp: decision.createdAt,
+    updated: decision.reviewedAt ?? decision.decidedAt,
+    lamague: decision.lamague,
+    tags: [tag('status', decision.status), ...(decision.outcome ? [tag('outcome', decision.outcome)] : [])],
+    fields: {
+      status: decision.status,
+      outcome: decision.outcome,
+      decided: iso(decision.decidedAt),
+      reviewed: iso(decision.reviewedAt),
+      review_after: iso(decision.reviewAfter)
+    },
+    body: () => [
+      ...section('Context', decision.context),
+      ...(decision.options.length > 0 ? [
+        '## Options',
+        '',
+        ...decision.options.map((option, i) => `${i + 1}. ${i === decision.chosenOption ? `**${option}** (chosen)` : option}`),
+        ''
+      ] : []),
+      ...section('Reasoning', decision.reasoning),
+      ...section('Outcome', [decision.outcome, decision.outcomeNote].filter(Boolean).join(': '))
+    ]
+  }
+}
+
+function commitmentNote(commitment: Commitment): Note {
+  return {
+    kind: 'commitment',
+    id: commitment.id,
+    title: clip(commitment.content, 60),
+    filename: commitment.content,
+    timestamp: commitment.createdAt,
+    updated: commitment.resolvedAt,
+    lamague: commitment.lamague,
+    tags: [tag('status', commitment.status)],
+    fields: {
+      to: commitment.to,
+      status: commitment.status,
+      deadline: iso(commitment.deadline),
+      resolved: iso(commitment.resolvedAt)
+    },
+    body: () => [
+      commitment.content.trim(),
+      '',
+      `**To:** ${commitment.to}`,
+      '',
+      ...section('Note', commitment.note)
+    ]
+  }
+}
+
+function dreamNote(dream: DreamEntry): Note {
+  return {
+    kind: 'dream',
+    id: dream.id,
+    title: dream.title || 'Untitled dream',
+    filename: `${localDate(dream.timestamp)} ${dream.title || 'Dream'}`,
+    timestamp: dream.timestamp,
+    tags: [
+      ...(dream.lucid ? [tag('dream', 'lucid')] : []),
+      ...(dream.recurring ? [tag('dream', 'recurring')] : []),
+      ...dream.symbols.map(symbol => tag('symbol', symbol))
+    ],
+    fields: {
+      clarity: dream.clarity,
+      lucid: dream.lucid,
+      recurring: dream.recurring,
+      sleep_quality: dream.sleepQuality,
+      emotions: dream.emotions
+    },
+    body: () => [
+      dream.narrative.trim(),
+      '',
+      ...listSection('Symbols', dream.symbols),
+      ...section('Interpretation', dream.interpretation)
+    ]
+  }
+}
+
+function shadowNote(shadow: ShadowAspect): Note {
+  const encounters = [...shadow.encounters].sort((a, b) => a.timestamp - b.timestamp)
+  return {
+    kind: 'shadow',
+    id: shadow.id,
+    title: shadow.name,
+    filename: shadow.name,
+    timestamp: shadow.createdAt,
+    updated: encounters[encounters.length - 1]?.timestamp,
+    lamague: shadow.lamague,
+    tags: [],
+    fields: { integration_level: shadow.integrationLevel },
+    body: () => [
+      shadow.description.trim(),
+      '',
+      ...listSection('Triggers', shadow.triggers),
+      ...listSection('Manifestations', shadow.manifestations),
+      ...listSection('Gifts', shadow.gifts),
+      ...(encounters.length > 0 ? [
+        '## Encounters',
+        '',
+        ...encounters.flatMap(encounter => [
+          `### ${localDate(encounter.timestamp)}: ${encounter.response}${encounter.triggered ? ' (triggered)' : ''}`,
+          '',
+          encounter.context.trim(),
+          '',
+          ...(encounter.reflection ? [`> ${encounter.reflection.trim().replace(/\n/g, '\n> ')}`, ''] : [])
+        ])
+      ] : [])
+    ]
+  }
+}
+
+function scriptNote(script: LifeScript): Note {
+  return {
+    kind: 'script',
+    id: script.id,
+    title: clip(script.rewritten || script.original, 60),
+    filename: script.rewritten || script.original,
+    timestamp: script.createdAt,
+    updated: script.lastPracticed,
+    tags: [tag('script', script.category), tag('status', script.status)],
+    fields: {
+      category: script.category,
+      status: script.status,
+      strength: script.strength,
+      new_strength: script.newStrength,
+      practice_count: script.practiceCount,
+      last_practiced: iso(script.lastPracticed)
+    },
+    body: () => [
+      ...section('Original', script.original),
+      ...section('Rewritten', script.rewritten),
+      ...section('Origin', script.origin),
+      ...listSection('Supporting evidence', script.evidence.supporting),
+      ...listSection('Contradicting evidence', script.evidence.contradicting),
+      ...listSection('Triggers', script.triggers),
+      ...listSection('Affirmations', script.affirmations)
+    ]
+  }
+}
+
+function reviewNote(review: WeeklyReview): Note {
+  return {
+    kind: 'review',
+    id: review.id,
+    title: `Week of ${review.weekStart}`,
+    filename: `Week of ${review.weekStart}`,
+    timestamp: weekBounds(review).start,
+    updated: review.completedAt,
+    lamague: review.lamague,
+    tags: [],
+    fields: {
+      week_start: review.weekStart,
+      week_end: review.weekEnd,
+      completed: iso(review.completedAt),
+      overall_rating: review.overallRating,
+      energy_level: review.energyLevel,
+      alignment_score: review.alignmentScore,
+      microorcims_fired: review.microorcimsFired,
+      focus_hours: review.focusHours,
+      rituals_completed: review.ritualsCompleted,
+      goals_progressed: review.goalsProgressed,
+      focus_areas: review.focusAreas
+    },
+    body: (links) => {
+      const linked = links.inWeek(review)
+      return [
+        ...listSection('Wins', review.wins),
+        ...listSection('Challenges', review.challenges),
+        ...listSection('Lessons', review.lessons),
+        ...listSection('Gratitude', review.gratitude),
+        ...listSection('Intentions for next week', review.nextWeekIntentions),
+        ...section('Notes', review.notes),
+        ...listSection('This week', (Object.keys(FOLDERS) as NoteKind[]).flatMap(kind => {
+          const notes = linked.filter(note => note.kind === kind)
+          return notes.length > 0 ? [`${FOLDERS[kind]}: ${notes.map(note => link(note.name)).join(', ')}`] : []
+        }))
+      ]
+    }
+  }
+}
+
+// weekStart/weekEnd are calendar dates; the week covers both days whole
+function weekBounds(review: WeeklyReview): { start: number; end: number } {
+  return {
+    start: new Date(`${review.weekStart}T00:00:00`).getTime(),
+    end: new Date(`${review.weekEnd}T23:59:59.999`).getTime()
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Every journal entry, goal, decision, commitment, dream, shadow aspect,
+ * life script and weekly review as one Markdown note each, plus an index
+ * note per folder. Notes link to their weekly review and back.
+ */
+export async function buildMarkdownVault(): Promise<ZipEntry[]> {
+  const [journal, goals, decisions, commitments, dreams, shadows, scripts, reviews] = await Promise.all([
+    getJournalRange(),
+    getAll<Goal>('goals'),
+    getAll<Decision>('decisions'),
+    getAll<Commitment>('commitments'),
+    getAll<DreamEntry>('dreams'),
+    getAll<ShadowAspect>('shadows'),
+    getAll<LifeScript>('life-scripts'),
+    getAll<WeeklyReview>('weekly-reviews')
+  ])
+
+  const notes: Note[] = [
+    ...journal.map(journalNote),
+    ...goals.map(goalNote),
+    ...decisions.map(decisionNote),
+    ...commitments.map(commitmentNote),
+    ...dreams.map(dreamNote),
+    ...shadows.map(shadowNote),
+    ...scripts.map(scriptNote),
+    ...reviews.map(reviewNote)
+  ].sort((a, b) => a.timestamp - b.timestamp)
+
+  // Obsidian resolves [[links]] by note name, so names are unique across folders
+  const taken = new Set(Object.values(FOLDERS).map(folder => folder.toLowerCase()))
+  for (const note of notes) {
+    const base = noteName(note.filename)
+    let name = base
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base} (${n})`
+    taken.add(name.toLowerCase())
+    note.name = name
+  }
+
+  const journalNames = new Map(notes.filter(note => note.kind === 'journal').map(note => [note.id, note.name!]))
+  const weeks = reviews.map(review => ({ review, ...weekBounds(review), name: notes.find(note => note.id === review.id)!.name! }))
+  const links: LinkResolver = {
+    journal: (id) => journalNames.get(id) ?? null,
+    week: (timestamp) => weeks.find(week => timestamp >= week.start && timestamp <= week.end)?.name ?? null,
+    inWeek: (review) => {
+      const { start, end } = weekBounds(review)
+      return notes.filter(note => note.kind !== 'review' && note.timestamp >= start && note.timestamp <= end)
+    }
+  }
+
+  const files: ZipEntry[] = notes.map(note => ({
+    path: `${VAULT_FOLDER}/${FOLDERS[note.kind]}/${note.name}.md`,
+    content: render(note, links),
+    modified: note.updated ?? note.timestamp
+  }))
+
+  // One index note per folder, newest first, and a root note linking them
+  const indexes = (Object.keys(FOLDERS) as NoteKind[]).map(kind => {
+    const listed = notes.filter(note => note.kind === kind).reverse()
+    return {
+      path: `${VAULT_FOLDER}/${FOLDERS[kind]}.md`,
+      content: [
+        frontmatter({ type: 'index', tags: [tag('cascade', 'index')] }),
+        '',
+        `# ${FOLDERS[kind]}`,
+        '',
+        ...(listed.length > 0 ? listed.map(note => `- ${link(note.name)}`) : ['_Nothing yet._'])
+      ].join('\n') + '\n'
+    }
+  })
+  files.push(...indexes, {
+    path: `${VAULT_FOLDER}/${VAULT_FOLDER}.md`,
+    content: [
+      frontmatter({ type: 'index', exported: new Date().toISOString(), tags: [tag('cascade', 'index')] }),
+      '',
+      `# ${VAULT_FOLDER}`,
+      '',
+      ...(Object.keys(FOLDERS) as NoteKind[]).map(kind =>
+        `- ${link(FOLDERS[kind])} (${notes.filter(note => note.kind === kind).length})`
+      )
+    ].join('\n') + '\n'
+  })
+
+  return files
+}
+
+/**
+ * The Markdown vault as a zip, ready to download
+ */
+export async function exportMarkdownVault(): Promise<MarkdownExport> {
+  const files = await buildMarkdownVault()
+  const notes = files.length - Object.keys(FOLDERS).length - 1
+  return { blob: await createZip(files), notes }
+}
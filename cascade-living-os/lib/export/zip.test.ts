@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+interface ReadEntry {
+  path: string
+  method: number
+  content: string
+}
+
+// Walk the local file headers of an archive, inflating deflated entries
+async function readZip(blob: Blob): Promise<{ entries: ReadEntry[]; count: number }> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const entries: ReadEntry[] = []
+  let offset = 0
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const method = view.getUint16(offset + 8, true)
+    const size = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    const start = offset + 30 + nameLength
+    const data = bytes.slice(start, start + size)
+    const raw = method === 8
+      ? await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer()
+      : data
+    entries.push({
+      path: new TextDecoder().decode(bytes.slice(offset + 30, start)),
+      method,
+      content: new TextDecoder().decode(raw)
+    })
+    offset = start + size
+  }
+
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  return { entries, count: view.getUint16(end + 10, true) }
+}
+
+describe('createZip', () => {
+  it('stores small entries and deflates ones that shrink', async () => {
+    const long = 'Walked before work. '.repeat(100)
+
+    const { entries, count } = await readZip(await createZip([
+      { path: 'CASCADE/short.md', content: 'hi' },
+      { path: 'CASCADE/Journal/long – ü.md', content: long, modified: 0 }
+    ]))
+
+    expect(count).toBe(2)
+    expect(entries).toEqual([
+      { path: 'CASCADE/short.md', method: 0, content: 'hi' },
+      { path: 'CASCADE/Journal/long – ü.md', method: 8, content: long }
+    ])
+  })
+})
@@ -0,0 +1,143 @@
+// CASCADE Living OS - Zip Writer
+// Builds ZIP archives in the browser, deflating entries where supported
+
+export interface ZipEntry {
+  path: string        // forward slashes, relative to the archive root
+  content: string | Uint8Array
+  modified?: number   // timestamp; defaults to now
+}
+
+// Classic ZIP limits; nothing exported here comes close
+const MAX_ENTRIES = 0xffff
+const MAX_SIZE = 0xffffffff
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const FLAG_UTF8 = 0x0800
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date, local time, two-second resolution
+function dosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp)
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: (Math.max(0, d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  }
+}
+
+/**
+ * Raw DEFLATE via CompressionStream, or null where the browser lacks it
+ */
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// ARCHIVE
+// ============================================================================
+
+/**
+ * Pack entries into a ZIP file. Entries are deflated when that makes them
+ * smaller and stored as-is otherwise.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new ZipError(`Too many files for a zip archive (${entries.length})`)
+  }
+
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content
+    const deflated = await deflateRaw(data)
+    const compressed = deflated && deflated.length < data.length ? deflated : data
+    const method = compressed === data ? METHOD_STORE : METHOD_DEFLATE
+    const crc = crc32(data)
+    const { time, date } = dosDateTime(entry.modified ?? Date.now())
+
+    if (data.length > MAX_SIZE || offset > MAX_SIZE) {
+      throw new ZipError(`${entry.path} does not fit in a zip archive`)
+    }
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, FLAG_UTF8, true)
+    local.setUint16(8, method, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, compressed.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, FLAG_UTF8, true)
+    header.setUint16(10, method, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, compressed.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, compressed)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + compressed.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' })
+}
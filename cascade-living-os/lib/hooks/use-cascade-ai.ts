@@ -1,58 +1,101 @@
 // CASCADE Living OS - Unified AI Hook
 // Client-side hook for interacting with multiple AI providers
 
-import { useState, useCallback, useEffect } from 'react'
-
-interface AnalysisContext {
-  mood?: number
-  energy?: number
-  recentPatterns?: string[]
-  sovereigntyScore?: number
-  currentPhase?: string
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { getDocument } from '@/lib/db/repository'
+import { DOCUMENTS, LLMSettings } from '@/lib/db/schema'
+import { runAs } from '@/lib/db/audit'
+import { readAIStream, isAbortError } from '@/lib/llm/streaming'
+import {
+  AnalysisContext,
+  PromptOverrides,
+  buildSummaryPrompt,
+  buildSystemPrompt,
+  promptVersion
+} from '@/lib/llm/prompts'
+import { ContextTokens, assembleContext, estimateTokens } from '@/lib/llm/context'
+import { getMemoryStore, rememberConversation } from '@/lib/llm/memory'
+import { UsageFeature, BudgetExceededError, applyBudget, recordUsage } from '@/lib/db/usage-ledger'
+import type { LLMToolCall, LLMToolResult, ToolTurn } from '@/lib/llm/tool-use'
+import { isWriteTool } from '@/lib/llm/cascade-tools'
+import { runCascadeTool } from '@/lib/llm/tool-runner'
+import { getCredentialStatus, getSession, migrateBrowserKeys } from '@/lib/credentials/client'
+import type { CredentialName } from '@/lib/credentials/protocol'
+import type {
+  JournalAnalysis,
+  JournalPattern,
+  OracleReading,
+  PyramidSuggestion,
+  ShadowMaterial
+} from '@/lib/llm/schemas'
+
+export type AIProvider = 'anthropic' | 'gemini' | 'local' | 'openai' | 'mock'
+
+type AIRoute = '/api/ai' | '/api/ai/journal' | '/api/ai/oracle' | '/api/ai/pyramid'
+
+const ROUTE_FEATURES: Record<AIRoute, UsageFeature> = {
+  '/api/ai': 'chat',
+  '/api/ai/journal': 'journal',
+  '/api/ai/oracle': 'oracle',
+  '/api/ai/pyramid': 'pyramid'
 }
 
-interface Pattern {
-  type: 'RECURRING_THEME' | 'COGNITIVE_DISTORTION' | 'INSIGHT' | 'QUESTION' | 'GROWTH'
-  content: string
-  significance: 'low' | 'medium' | 'high'
-}
+// Rounds of tool calls one chat message may take before the model must answer
+const MAX_TOOL_ROUNDS = 4
 
-interface ShadowMaterial {
-  content: string
-  projection?: string
-  integration?: string
+/**
+ * How streamChat involves the user in tool calls. Reads run at once;
+ * writes run only once `confirm` resolves true.
+ */
+export interface ChatToolHandlers {
+  confirm: (call: LLMToolCall) => Promise<boolean>
+  onResult: (call: LLMToolCall, result: LLMToolResult) => void
 }
 
-interface PyramidSuggestion {
-  content: string
-  suggestedLayer: 'FOUNDATION' | 'THEORY' | 'EDGE'
-  evidenceStrength: number
-  reasoning: string
+/**
+ * What the last chat request sent, for the context inspector
+ */
+export interface ChatContext {
+  provider: AIProvider
+  messages: ToolTurn[]     // history kept in the window, ending with the new message
+  summary: string          // running summary of the turns evicted so far
+  summarizedTurns: number
+  tokens: ContextTokens
 }
 
-interface JournalAnalysis {
-  patterns: Pattern[]
-  shadowMaterial: ShadowMaterial[]
-  pyramidSuggestions: PyramidSuggestion[]
-  sovereigntyInsight: string
-  lamagueMood: {
-    symbols: string[]
-    interpretation: string
-  }
-  followUpQuestions: string[]
+// The model a provider is set to answer with, where settings name one
+function configuredModel(config: LLMSettings | undefined, provider: AIProvider): string | undefined {
+  if (provider === 'local') return config?.localModel || undefined
+  if (provider === 'openai') return config?.openaiModel || undefined
+  return undefined
 }
 
-type AIProvider = 'anthropic' | 'gemini' | 'local' | 'mock'
-
 interface UseCascadeAIReturn {
-  // Journal analysis
+  // Journal analysis; null when it failed, with `error` saying why
   analyzeJournal: (content: string, context?: AnalysisContext) => Promise<JournalAnalysis | null>
   
+  // Pyramid blocks suggested from notes; null when it failed
+  suggestPyramidBlocks: (content: string, context?: AnalysisContext) => Promise<PyramidSuggestion[] | null>
+  
   // Chat
   chat: (message: string, context?: AnalysisContext) => Promise<string>
   
+  // Streamed chat; resolves with the whole reply, or what arrived before `cancel`.
+  // With `tools` the model may call the CASCADE tools. Earlier turns are
+  // sent too, fitted to the context window with a running summary.
+  streamChat: (
+    message: string,
+    onToken: (text: string) => void,
+    context?: AnalysisContext,
+    tools?: ChatToolHandlers
+  ) => Promise<string>
+  cancel: () => void
+  context: ChatContext | null
+  resetConversation: () => void
+  
   // Oracle
   consultOracle: (query: string, context?: AnalysisContext) => Promise<string>
+  readOracle: (query: string, context?: AnalysisContext) => Promise<OracleReading | null>
   
   // Provider management
   provider: AIProvider
@@ -61,7 +104,9 @@ interface UseCascadeAIReturn {
   
   // State
   isLoading: boolean
+  isStreaming: boolean
   error: string | null
+  budgetNotice: string | null   // set while budgets move requests to a free provider
   lastResponse: string | null
 }
 
@@ -71,76 +116,113 @@ export function useCascadeAI(): UseCascadeAIReturn {
   const [lastResponse, setLastResponse] = useState<string | null>(null)
   const [provider, setProvider] = useState<AIProvider>('mock')
   const [availableProviders, setAvailableProviders] = useState<AIProvider[]>(['mock'])
-
-  // Check available providers on mount
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null)
+  const [context, setContext] = useState<ChatContext | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const historyRef = useRef<ToolTurn[]>([])
+  const summaryRef = useRef('')
+  const summarizedRef = useRef(0)
+  const summaryMemoryRef = useRef<string | null>(null)
+  const servedRef = useRef<{ provider: string; model: string } | null>(null)
+
+  // Check available providers on mount; keys live on the server, which
+  // says which are set
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const config = localStorage.getItem('cascade-llm-config')
-      if (config) {
-        const parsed = JSON.parse(config)
+    const loadProviders = async () => {
+      await migrateBrowserKeys().catch(error => console.error('Failed to move API keys to the server:', error))
+      const session = await getSession().catch(() => null)
+      const credentials = session?.authenticated ? await getCredentialStatus().catch(() => []) : []
+      const configured = (name: CredentialName) => credentials.some(c => c.name === name && c.configured)
+      return { parsed: await getDocument<LLMSettings>(DOCUMENTS.LLM_CONFIG.key), configured }
+    }
+    
+    loadProviders()
+      .then(({ parsed, configured }) => {
         const available: AIProvider[] = ['mock']
         
-        if (parsed.anthropicKey) available.push('anthropic')
-        if (parsed.geminiKey) available.push('gemini')
-        if (parsed.localUrl) available.push('local')
+        if (configured('anthropic')) available.push('anthropic')
+        if (configured('gemini')) available.push('gemini')
+        if (parsed?.localUrl) available.push('local')
+        if (parsed?.openaiUrl || configured('openai')) available.push('openai')
         
         setAvailableProviders(available)
         
         // Set default provider
-        if (parsed.primaryProvider && available.includes(parsed.primaryProvider)) {
-          setProvider(parsed.primaryProvider)
+        const primary = available.find(name => name === parsed?.primaryProvider)
+        if (primary) {
+          setProvider(primary)
         }
-      }
-    }
+      })
+      .catch(error => console.error('Failed to load LLM config:', error))
   }, [])
 
+  // Abort a stream still running when the component goes away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // POST to a gateway route; `payload` holds the task fields (messages, content, query...)
+  const requestAPI = useCallback(async (
+    route: AIRoute,
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ) => {
+    // Endpoints and fallbacks from the (possibly vault-sealed) LLM config;
+    // API keys stay on the server, reached with the session cookie
+    const parsed = await getDocument<LLMSettings>(DOCUMENTS.LLM_CONFIG.key)
+    const promptOverrides = await getDocument<PromptOverrides>(DOCUMENTS.PROMPT_OVERRIDES.key)
+
+    // Spent budgets block the request or move it to a free provider
+    const budget = await applyBudget(provider, parsed?.fallbackProviders || [])
+    setBudgetNotice(budget.notice)
+
+    return fetch(route, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...payload,
+        provider: budget.provider,
+        fallbackProviders: budget.fallbackProviders,
+        localUrl: parsed?.localUrl || '',
+        localModel: parsed?.localModel || '',
+        openaiUrl: parsed?.openaiUrl || '',
+        openaiModel: parsed?.openaiModel || '',
+        promptOverrides: promptOverrides ?? {}
+      }),
+      signal
+    })
+  }, [provider])
+
   const callAPI = useCallback(async (
-    messages: { role: 'user' | 'assistant' | 'system'; content: string }[],
-    context?: AnalysisContext
+    route: AIRoute,
+    payload: Record<string, unknown>
   ) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      // Get API keys from localStorage
-      let anthropicKey = ''
-      let geminiKey = ''
-      let localUrl = 'http://localhost:11434'
-      
-      if (typeof window !== 'undefined') {
-        const config = localStorage.getItem('cascade-llm-config')
-        if (config) {
-          const parsed = JSON.parse(config)
-          anthropicKey = parsed.anthropicKey || ''
-          geminiKey = parsed.geminiKey || ''
-          localUrl = parsed.localUrl || 'http://localhost:11434'
-        }
-      }
-
-      const response = await fetch('/api/ai', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages,
-          provider,
-          anthropicKey,
-          geminiKey,
-          localUrl,
-          maxTokens: 4096,
-          temperature: 0.7
-        })
-      })
+      const response = await requestAPI(route, payload)
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'API request failed')
+        // Say what a reply that never matched its schema got wrong
+        const issues: string[] = data.code === 'invalid_output' && Array.isArray(data.issues) ? data.issues : []
+        throw new Error(`${data.error || 'API request failed'}${issues.length ? `: ${issues.slice(0, 3).join('; ')}` : ''}`)
       }
 
+      if (data.usage) {
+        void recordUsage({
+          feature: ROUTE_FEATURES[route],
+          provider: data.provider,
+          model: data.model,
+          usage: data.usage,
+          promptVersions: data.promptVersions
+        })
+      }
       setLastResponse(data.content)
-      return data.content
+      return data
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error'
@@ -149,38 +231,30 @@ export function useCascadeAI(): UseCascadeAIReturn {
     } finally {
       setIsLoading(false)
     }
-  }, [provider])
+  }, [requestAPI])
 
   const analyzeJournal = useCallback(async (
     content: string,
     context?: AnalysisContext
   ): Promise<JournalAnalysis | null> => {
     try {
-      const systemPrompt = `Analyze this journal entry and return a JSON object with:
-- patterns: array of {type, content, significance}
-- shadowMaterial: array of {content, projection, integration}
-- pyramidSuggestions: array of {content, suggestedLayer, evidenceStrength, reasoning}
-- sovereigntyInsight: string insight about their autonomy
-- lamagueMood: {symbols: string[], interpretation: string}
-- followUpQuestions: string[]
-
-Respond ONLY with valid JSON.`
-
-      const response = await callAPI([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Journal entry:\n\n${content}\n\nContext: ${JSON.stringify(context || {})}` }
-      ], context)
-      
-      try {
-        // Try to parse JSON response
-        const cleaned = response.replace(/```json\n?|\n?```/g, '').trim()
-        return JSON.parse(cleaned)
-      } catch {
-        // Fall back to partial analysis
-        return fallbackJournalAnalysis(content) as JournalAnalysis
-      }
+      const data = await callAPI('/api/ai/journal', { content, context })
+      return data.analysis as JournalAnalysis
+    } catch {
+      // callAPI has set `error`; the caller decides what to fall back to
+      return null
+    }
+  }, [callAPI])
+
+  const suggestPyramidBlocks = useCallback(async (
+    content: string,
+    context?: AnalysisContext
+  ): Promise<PyramidSuggestion[] | null> => {
+    try {
+      const data = await callAPI('/api/ai/pyramid', { content, context })
+      return data.suggestions as PyramidSuggestion[]
     } catch {
-      return fallbackJournalAnalysis(content) as JournalAnalysis
+      return null
     }
   }, [callAPI])
 
@@ -189,51 +263,242 @@ Respond ONLY with valid JSON.`
     context?: AnalysisContext
   ): Promise<string> => {
     try {
-      return await callAPI([
-        { role: 'user', content: message }
-      ], context)
-    } catch {
+      const data = await callAPI('/api/ai', { messages: [{ role: 'user', content: message }] })
+      return data.content
+    } catch (err) {
+      if (err instanceof BudgetExceededError) return err.message
       return 'I encountered an error. Please check your API configuration in Settings.'
     }
   }, [callAPI])
 
+  // Fit the history and a new message to the provider's window. Evicted
+  // turns are folded into the running summary first; if that fails they
+  // stay in history and are only left out of this request.
+  const fitContext = useCallback(async (message: string, signal: AbortSignal): Promise<ToolTurn[]> => {
+    const parsed = await getDocument<LLMSettings>(DOCUMENTS.LLM_CONFIG.key)
+    const overrides = await getDocument<PromptOverrides>(DOCUMENTS.PROMPT_OVERRIDES.key)
+    const model = servedRef.current?.provider === provider ? servedRef.current.model : configuredModel(parsed, provider)
+    const assembly = assembleContext([...historyRef.current, { role: 'user', content: message }], {
+      provider,
+      model,
+      systemPrompt: buildSystemPrompt(overrides),
+      summary: summaryRef.current
+    })
+
+    if (assembly.evicted.length > 0) {
+      try {
+        const prompt = buildSummaryPrompt(summaryRef.current, assembly.evicted, overrides)
+        const response = await requestAPI('/api/ai', { messages: [{ role: 'user', content: prompt }] }, signal)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'API request failed')
+        if (data.usage) {
+          void recordUsage({
+            feature: 'chat',
+            provider: data.provider,
+            model: data.model,
+            usage: data.usage,
+            promptVersions: [...(data.promptVersions ?? []), promptVersion('summary', overrides)]
+          })
+        }
+
+        const summary = String(data.content).trim()
+        summaryRef.current = summary
+        historyRef.current = historyRef.current.slice(assembly.evicted.length)
+        summarizedRef.current += assembly.evicted.length
+
+        // One memory per conversation, replaced as the summary grows
+        if (parsed?.rememberSummaries) {
+          runAs({ kind: 'ai', provider: data.provider, model: data.model }, () => {
+            if (summaryMemoryRef.current) getMemoryStore().delete(summaryMemoryRef.current)
+            summaryMemoryRef.current = rememberConversation(summary).id
+          })
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err
+        console.error('Failed to summarize earlier turns:', err)
+      }
+    }
+
+    setContext({
+      provider,
+      messages: assembly.messages,
+      summary: summaryRef.current,
+      summarizedTurns: summarizedRef.current,
+      tokens: { ...assembly.tokens, summary: estimateTokens(summaryRef.current, provider) }
+    })
+    return assembly.messages
+  }, [requestAPI, provider])
+
+  const streamChat = useCallback(async (
+    message: string,
+    onToken: (text: string) => void,
+    context?: AnalysisContext,
+    tools?: ChatToolHandlers
+  ): Promise<string> => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsLoading(true)
+    setIsStreaming(true)
+    setError(null)
+    let content = ''
+    let text = ''
+    let served: { provider: string; model: string } | null = null
+    let promptVersions: string[] | undefined
+    let conversation: ToolTurn[] = []
+    let sent = 0
+
+    // The new message, its tool turns and the reply join the history
+    const remember = () => {
+      const reply: ToolTurn[] = text ? [{ role: 'assistant', content: text }] : []
+      historyRef.current = [...historyRef.current, ...conversation.slice(sent - 1), ...reply]
+    }
+
+    try {
+      conversation = await fitContext(message, controller.signal)
+      sent = conversation.length
+      const summary = summaryRef.current || undefined
+
+      for (let round = 0; ; round++) {
+        const offerTools = !!tools && round < MAX_TOOL_ROUNDS
+        const response = await requestAPI('/api/ai', { messages: conversation, summary, stream: true, tools: offerTools }, controller.signal)
+        if (!response.ok) {
+          const data = await response.json()
+          throw new Error(data.error || 'API request failed')
+        }
+
+        text = ''
+        const calls: LLMToolCall[] = []
+        for await (const event of readAIStream(response)) {
+          if (event.type === 'start') {
+            served = { provider: event.provider, model: event.model }
+            servedRef.current = served
+            promptVersions = event.promptVersions
+          } else if (event.type === 'delta') {
+            // Keep the text of successive rounds apart
+            const token = round > 0 && !text && content ? `\n\n${event.text}` : event.text
+            text += event.text
+            content += token
+            onToken(token)
+          } else if (event.type === 'tool_call') {
+            calls.push(event.call)
+          } else if (event.type === 'done') {
+            void recordUsage({ feature: 'chat', provider: event.provider, model: event.model, usage: event.usage, promptVersions })
+          } else if (event.type === 'error') {
+            throw new Error(event.error)
+          }
+        }
+        if (!tools || !offerTools || calls.length === 0) break
+
+        // Every write is the AI's, made on the user's approval
+        const actor = { kind: 'ai' as const, provider: served?.provider ?? provider, model: served?.model }
+        const results: LLMToolResult[] = []
+        for (const call of calls) {
+          const approved = !isWriteTool(call.name) || await tools.confirm(call)
+          if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError')
+
+          const result = approved
+            ? await runCascadeTool(call, actor)
+            : { callId: call.id, name: call.name, content: 'The user declined this action.', isError: true }
+          tools.onResult(call, result)
+          results.push(result)
+        }
+        conversation.push({ role: 'assistant', content: text, toolCalls: calls })
+        conversation.push({ role: 'user', content: '', toolResults: results })
+        text = ''
+      }
+
+      remember()
+      setLastResponse(content)
+      return content
+    } catch (err) {
+      if (isAbortError(err)) {
+        if (sent > 0) remember()
+        // The provider stopped without reporting usage; count what was sent and received
+        if (served && content) {
+          void recordUsage({
+            feature: 'chat',
+            ...served,
+            usage: { inputTokens: estimateTokens(message), outputTokens: estimateTokens(content) },
+            estimated: true,
+            promptVersions
+          })
+        }
+        return content
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+      setError(errorMessage)
+      return content || 'I encountered an error. Please check your API configuration in Settings.'
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setIsLoading(false)
+      setIsStreaming(false)
+    }
+  }, [requestAPI, fitContext, provider])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  // Start over: forget the history and summary (a remembered summary stays)
+  const resetConversation = useCallback(() => {
+    abortRef.current?.abort()
+    historyRef.current = []
+    summaryRef.current = ''
+    summarizedRef.current = 0
+    summaryMemoryRef.current = null
+    setContext(null)
+  }, [])
+
   const consultOracle = useCallback(async (
     query: string,
     context?: AnalysisContext
   ): Promise<string> => {
     try {
-      const oraclePrompt = `You are the CASCADE Oracle - a wise guide that speaks in LAMAGUE symbols.
-Current context: ${JSON.stringify(context || {})}
-
-Respond to this query with wisdom, using LAMAGUE glyphs where appropriate:
-⟟ = Center, ≋ = Flow, Ψ = Insight, Φ↑ = Rise, ✧ = Light, ∥◁▷∥ = Integrity, ⟲ = Return
-
-Query: ${query}`
+      const data = await callAPI('/api/ai/oracle', { query, context })
+      return data.content
+    } catch (err) {
+      if (err instanceof BudgetExceededError) return err.message
+      return 'The Oracle is unavailable. Please check your API configuration in Settings. ⟟'
+    }
+  }, [callAPI])
 
-      return await callAPI([
-        { role: 'user', content: oraclePrompt }
-      ], context)
+  const readOracle = useCallback(async (
+    query: string,
+    context?: AnalysisContext
+  ): Promise<OracleReading | null> => {
+    try {
+      const data = await callAPI('/api/ai/oracle', { query, context, structured: true })
+      return data.reading as OracleReading
     } catch {
-      return 'The Oracle is unavailable. Please check your API configuration in Settings. ⟟'
+      return null
     }
   }, [callAPI])
 
   return {
     analyzeJournal,
+    suggestPyramidBlocks,
     chat,
+    streamChat,
+    cancel,
+    context,
+    resetConversation,
     consultOracle,
+    readOracle,
     provider,
     setProvider,
     availableProviders,
     isLoading,
+    isStreaming,
     error,
+    budgetNotice,
     lastResponse
   }
 }
 
-// Fallback analysis when API is not available
+// Local keyword analysis, for when AI is off or its analysis failed
 export function fallbackJournalAnalysis(text: string): Partial<JournalAnalysis> {
-  const patterns: Pattern[] = []
+  const patterns: JournalPattern[] = []
   const shadowMaterial: ShadowMaterial[] = []
   const pyramidSuggestions: PyramidSuggestion[] = []
   
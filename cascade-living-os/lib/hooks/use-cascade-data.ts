@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import { getAll, count, onExternalChange } from '@/lib/db/repository'
+import { getJournalRange, countJournalEntries } from '@/lib/db/journal'
 
 // ============================================================================
 // TYPES - Unified data from all CASCADE systems
@@ -151,15 +153,32 @@ function calculateStreak(items: { timestamp: number }[], dailyTarget = 1): numbe
 // MAIN HOOK
 // ============================================================================
 
+// Longest streak calculateStreak counts, plus today
+const STREAK_WINDOW_MS = 367 * 24 * 60 * 60 * 1000
+
+// Stores the metrics are computed from
+const SOURCE_STORES = [
+  'microorcims',
+  'focus-sessions',
+  'journal-entries',
+  'rituals',
+  'goals',
+  'commitments',
+  'values',
+  'quick-captures',
+  'energy-logs',
+  'memories'
+]
+
 export function useCascadeData(): {
   metrics: CascadeMetrics | null
   loading: boolean
-  refresh: () => void
+  refresh: () => Promise<void>
 } {
   const [metrics, setMetrics] = useState<CascadeMetrics | null>(null)
   const [loading, setLoading] = useState(true)
   
-  const loadData = useCallback(() => {
+  const loadData = useCallback(async () => {
     if (typeof window === 'undefined') return
     
     setLoading(true)
@@ -167,16 +186,37 @@ export function useCascadeData(): {
     
     try {
       // Load all data sources
-      const microorcims = JSON.parse(localStorage.getItem('cascade-microorcims') || '[]')
-      const focusSessions = JSON.parse(localStorage.getItem('cascade-focus-sessions') || '[]')
-      const journal = JSON.parse(localStorage.getItem('cascade-journal') || '[]')
-      const rituals = JSON.parse(localStorage.getItem('cascade-rituals') || '[]')
-      const goals = JSON.parse(localStorage.getItem('cascade-goals') || '[]')
-      const commitments = JSON.parse(localStorage.getItem('cascade-commitments') || '[]')
-      const values = JSON.parse(localStorage.getItem('cascade-values') || '[]')
-      const captures = JSON.parse(localStorage.getItem('cascade-quick-captures') || '[]')
-      const energyLogs = JSON.parse(localStorage.getItem('cascade-energy-logs') || '[]')
-      const memories = JSON.parse(localStorage.getItem('cascade-memories') || '[]')
+      const [
+        microorcims,
+        focusSessions,
+        journal,
+        rituals,
+        goals,
+        commitments,
+        values,
+        captures,
+        energyLogs,
+        totalJournalEntries,
+        memoriesCount
+      ] = await Promise.all([
+        getAll<any>('microorcims'),
+        getAll<any>('focus-sessions'),
+        // Streaks look back at most a year
+        getJournalRange(Date.now() - STREAK_WINDOW_MS),
+        getAll<any>('rituals'),
+        getAll<any>('goals'),
+        getAll<any>('commitments'),
+        getAll<any>('values'),
+        getAll<any>('quick-captures'),
+        getAll<any>('energy-logs'),
+        countJournalEntries(),
+        count('memories')
+      ])
+      
+      // Stores return primary-key order; streaks and recent activity expect chronological
+      microorcims.sort((a, b) => a.timestamp - b.timestamp)
+      focusSessions.sort((a, b) => a.startTime - b.startTime)
+      journal.sort((a, b) => a.timestamp - b.timestamp)
       
       // Today's data
       const todayMicroorcims = microorcims.filter((m: any) => 
@@ -328,13 +368,13 @@ export function useCascadeData(): {
         allTime: {
           totalMicroorcims: microorcims.filter((m: any) => m.fired).length,
           totalFocusHours: Math.round(totalFocusHours * 10) / 10,
-          totalJournalEntries: journal.length,
+          totalJournalEntries,
           totalRitualCompletions,
           goalsCompleted: goals.filter((g: any) => g.status === 'completed').length,
           commitmentsKept: commitments.filter((c: any) => c.status === 'kept').length,
           commitmentsBroken: commitments.filter((c: any) => c.status === 'broken').length,
           valuesCount: values.length,
-          memoriesCount: memories.length
+          memoriesCount
         },
         phase: calculatePhase(),
         sovereignty: {
@@ -356,83 +396,23 @@ export function useCascadeData(): {
   
   // Load on mount
   useEffect(() => {
-    loadData()
+    void loadData()
   }, [loadData])
   
   // Refresh every 30 seconds
   useEffect(() => {
-    const interval = setInterval(loadData, 30000)
+    const interval = setInterval(() => void loadData(), 30000)
     return () => clearInterval(interval)
   }, [loadData])
   
+  // Refresh when another tab or sync changes a source store
+  useEffect(() => onExternalChange(store => {
+    if (SOURCE_STORES.includes(store)) void loadData()
+  }), [loadData])
+  
   return {
     metrics,
     loading,
     refresh: loadData
   }
 }
-
-// ============================================================================
-// EXPORT DATA FUNCTION
-// ============================================================================
-
-export function exportCascadeData(): string {
-  if (typeof window === 'undefined') return '{}'
-  
-  const keys = [
-    'cascade-microorcims',
-    'cascade-focus-sessions',
-    'cascade-journal',
-    'cascade-rituals',
-    'cascade-goals',
-    'cascade-commitments',
-    'cascade-values',
-    'cascade-quick-captures',
-    'cascade-energy-logs',
-    'cascade-memories',
-    'cascade-weekly-reviews',
-    'cascade-value-reflections',
-    'cascade-llm-config'
-  ]
-  
-  const data: Record<string, any> = {
-    exportedAt: new Date().toISOString(),
-    version: '2.0-ultra'
-  }
-  
-  keys.forEach(key => {
-    const value = localStorage.getItem(key)
-    if (value) {
-      try {
-        data[key] = JSON.parse(value)
-      } catch {
-        data[key] = value
-      }
-    }
-  })
-  
-  return JSON.stringify(data, null, 2)
-}
-
-// ============================================================================
-// IMPORT DATA FUNCTION
-// ============================================================================
-
-export function importCascadeData(jsonString: string): boolean {
-  if (typeof window === 'undefined') return false
-  
-  try {
-    const data = JSON.parse(jsonString)
-    
-    Object.entries(data).forEach(([key, value]) => {
-      if (key.startsWith('cascade-')) {
-        localStorage.setItem(key, JSON.stringify(value))
-      }
-    })
-    
-    return true
-  } catch (error) {
-    console.error('Import error:', error)
-    return false
-  }
-}
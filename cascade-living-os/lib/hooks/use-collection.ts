@@ -0,0 +1,231 @@
+'use client'
+
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react'
+import { EntityStoreName, DocumentKey } from '@/lib/db/schema'
+import {
+  EntityChanges,
+  getAll,
+  applyChanges,
+  diffCollections,
+  getEntityKey,
+  getDocument,
+  putDocument,
+  onExternalChange,
+  notifyExternalChange
+} from '@/lib/db/repository'
+import { STORES } from '@/lib/db/schema'
+import { recordUndo, quoteForLabel } from '@/lib/store/undo'
+
+// ============================================================================
+// COLLECTIONS
+// ============================================================================
+
+interface UseCollectionOptions<T> {
+  // Entities to write when the store is empty on first load
+  seed?: () => T[]
+  // Order applied after loading (stores return primary-key order)
+  sort?: (a: T, b: T) => number
+}
+
+/**
+ * useState-style access to an IndexedDB entity store.
+ *
+ * Loads the store once, then persists only the entities that changed
+ * (by reference) on every update instead of rewriting the whole array.
+ * Each update goes on the undo stack; undoing writes the reverse changes
+ * and reloads every view of the store, mounted or not.
+ */
+export function useCollection<T>(
+  store: EntityStoreName,
+  options: UseCollectionOptions<T> = {}
+): [T[], Dispatch<SetStateAction<T[]>>, boolean] {
+  const [items, setItems] = useState<T[]>([])
+  const [loading, setLoading] = useState(true)
+  const persisted = useRef<T[] | null>(null)
+  const saving = useRef<Promise<void>>(Promise.resolve())
+  const seeding = useRef(false)
+  const optionsRef = useRef(options)
+
+  // Load on mount
+  useEffect(() => {
+    let cancelled = false
+    const { seed, sort } = optionsRef.current
+
+    getAll<T>(store)
+      .then(loaded => {
+        if (cancelled) return
+        const initial = sort ? [...loaded].sort(sort) : loaded
+
+        if (initial.length === 0 && seed) {
+          // Seeded entities are diffed against [] and written by the save effect
+          persisted.current = []
+          seeding.current = true
+          setItems(seed())
+        } else {
+          persisted.current = initial
+          setItems(initial)
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to load ${store}:`, error)
+        persisted.current = []
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [store])
+
+  // Reload when another tab or sync rewrites the store. Our own edits are
+  // written as they happen, so once they land the store holds the merge.
+  useEffect(() => onExternalChange(changed => {
+    if (changed !== store) return
+    const { sort } = optionsRef.current
+
+    saving.current
+      .then(() => getAll<T>(store))
+      .then(loaded => {
+        const next = sort ? [...loaded].sort(sort) : loaded
+        persisted.current = next
+        setItems(next)
+      })
+      .catch(error => console.error(`Failed to reload ${store}:`, error))
+  }), [store])
+
+  // Persist changes
+  useEffect(() => {
+    const previous = persisted.current
+    if (previous === null || previous === items) return
+
+    persisted.current = items
+    const changes = diffCollections(store, previous, items)
+    saving.current = saving.current
+      .then(() => applyChanges(store, changes))
+      .catch(error => {
+        console.error(`Failed to save ${store}:`, error)
+      })
+
+    if (seeding.current) {
+      seeding.current = false
+      return
+    }
+    if (changes.put.length === 0 && changes.remove.length === 0) return
+
+    const reverse = diffCollections(store, items, previous)
+    const rewrite = (next: EntityChanges<T>) => async () => {
+      await saving.current
+      await applyChanges(store, next)
+      notifyExternalChange(store)
+    }
+    recordUndo({
+      label: describeChanges(store, previous, changes),
+      scope: store,
+      undo: rewrite(reverse),
+      redo: rewrite(changes)
+    })
+  }, [store, items])
+
+  return [items, setItems, loading]
+}
+
+// Fields that name an entity well enough for an undo label
+const LABEL_FIELDS = ['title', 'name', 'content', 'text', 'statement', 'description']
+
+function entityLabel(entity: unknown): string | null {
+  const record = entity as Record<string, unknown>
+  const field = LABEL_FIELDS.find(name => typeof record[name] === 'string' && record[name])
+  return field ? quoteForLabel(record[field] as string) : null
+}
+
+function describeChanges<T>(store: EntityStoreName, previous: T[], changes: EntityChanges<T>): string {
+  const collection = store.replace(/-/g, ' ')
+  const existing = new Map(previous.map(entity => [getEntityKey(store, entity), entity]))
+  const added = changes.put.filter(entity => !existing.has(getEntityKey(store, entity)))
+  const edited = changes.put.filter(entity => existing.has(getEntityKey(store, entity)))
+  const removed = changes.remove.map(key => existing.get(key))
+
+  if (added.length > 0 && edited.length === 0 && removed.length === 0) {
+    const name = added.length === 1 ? entityLabel(added[0]) : null
+    return name ? `Added ${name} to ${collection}` : `Added ${added.length} to ${collection}`
+  }
+  if (removed.length > 0 && added.length === 0 && edited.length === 0) {
+    const name = removed.length === 1 ? entityLabel(removed[0]) : null
+    return name ? `Deleted ${name} from ${collection}` : `Deleted ${removed.length} from ${collection}`
+  }
+  if (edited.length === 1 && added.length === 0 && removed.length === 0) {
+    const name = entityLabel(edited[0])
+    return name ? `Edited ${name} in ${collection}` : `Edited ${collection}`
+  }
+  return `Changed ${collection}`
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+/**
+ * useState-style access to a singleton document
+ */
+export function useDocument<T>(
+  key: DocumentKey,
+  fallback: T
+): [T, Dispatch<SetStateAction<T>>, boolean] {
+  const [value, setValue] = useState<T>(fallback)
+  const [loading, setLoading] = useState(true)
+  const persisted = useRef<{ value: T } | null>(null)
+  const fallbackRef = useRef(fallback)
+
+  // Load on mount
+  useEffect(() => {
+    let cancelled = false
+    const fallback = fallbackRef.current
+
+    getDocument<T>(key)
+      .then(stored => {
+        if (cancelled) return
+        const initial = stored === undefined ? fallback : stored
+        persisted.current = { value: initial }
+        setValue(initial)
+      })
+      .catch(error => {
+        console.error(`Failed to load ${key}:`, error)
+        persisted.current = { value: fallback }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  // Reload when another tab or sync rewrites the document
+  useEffect(() => onExternalChange(changed => {
+    if (changed !== STORES.DOCUMENTS) return
+    const fallback = fallbackRef.current
+
+    getDocument<T>(key)
+      .then(stored => {
+        const next = stored === undefined ? fallback : stored
+        persisted.current = { value: next }
+        setValue(next)
+      })
+      .catch(error => console.error(`Failed to reload ${key}:`, error))
+  }), [key])
+
+  // Persist changes
+  useEffect(() => {
+    if (persisted.current === null || persisted.current.value === value) return
+
+    persisted.current = { value }
+    putDocument(key, value).catch(error => {
+      console.error(`Failed to save ${key}:`, error)
+    })
+  }, [key, value])
+
+  return [value, setValue, loading]
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { JournalEntry } from '@/types/cascade'
+import { STORES } from '@/lib/db/schema'
+import { PageCursor, onExternalChange } from '@/lib/db/repository'
+import { getJournalPage, JOURNAL_PAGE_SIZE } from '@/lib/db/journal'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+
+// ============================================================================
+// PAGED JOURNAL
+// ============================================================================
+
+interface UseJournalOptions {
+  from?: number
+  to?: number
+  pageSize?: number
+}
+
+interface UseJournalResult {
+  entries: JournalEntry[]
+  loading: boolean
+  hasMore: boolean
+  loadMore: () => void
+}
+
+/**
+ * Newest-first journal entries in an optional date range, loaded a page
+ * at a time from the journal-entries store.
+ *
+ * Entries added in this tab show up through the store's recent window;
+ * writes from other tabs or sync reload the pages already shown.
+ */
+export function useJournal({ from, to, pageSize = JOURNAL_PAGE_SIZE }: UseJournalOptions = {}): UseJournalResult {
+  const [entries, setEntries] = useState<JournalEntry[]>([])
+  const [next, setNext] = useState<PageCursor | null>(null)
+  const [loading, setLoading] = useState(true)
+  const shown = useRef(pageSize)
+  const recent = useCASCADEStore(state => state.journal)
+
+  const load = useCallback(async (limit: number) => {
+    setLoading(true)
+    try {
+      const page = await getJournalPage({ from, to, limit })
+      setEntries(page.items)
+      setNext(page.next)
+    } catch (error) {
+      console.error('Failed to load journal:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  // First page, again whenever the range changes
+  useEffect(() => {
+    shown.current = pageSize
+    void load(pageSize)
+  }, [load, pageSize])
+
+  // Keep as many entries as were shown when another tab or sync writes
+  useEffect(() => onExternalChange(store => {
+    if (store === STORES.JOURNAL) void load(shown.current)
+  }), [load])
+
+  // Entries written here are newer than anything loaded
+  useEffect(() => {
+    setEntries(current => {
+      const known = new Set(current.map(entry => entry.id))
+      const newest = current[0]?.timestamp ?? -Infinity
+      const added = recent.filter(entry =>
+        !known.has(entry.id) &&
+        entry.timestamp > newest &&
+        (from === undefined || entry.timestamp >= from) &&
+        (to === undefined || entry.timestamp <= to)
+      )
+      return added.length > 0 ? [...added, ...current] : current
+    })
+  }, [recent, from, to])
+
+  const loadMore = useCallback(() => {
+    if (!next || loading) return
+    setLoading(true)
+
+    getJournalPage({ from, to, limit: pageSize, after: next })
+      .then(page => {
+        setEntries(current => {
+          const known = new Set(current.map(entry => entry.id))
+          return [...current, ...page.items.filter(entry => !known.has(entry.id))]
+        })
+        setNext(page.next)
+        shown.current += pageSize
+      })
+      .catch(error => console.error('Failed to load older journal entries:', error))
+      .finally(() => setLoading(false))
+  }, [next, loading, from, to, pageSize])
+
+  return {
+    entries,
+    loading,
+    hasMore: next !== null,
+    loadMore
+  }
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useCallback, useSyncExternalStore } from 'react'
+import { UndoStatus, getUndoStatus, onUndoChange, undo, redo } from '@/lib/store/undo'
+import { useToast } from '@/lib/hooks/use-toast'
+
+// ============================================================================
+// UNDO HOOK
+// ============================================================================
+
+interface UseUndoResult {
+  status: UndoStatus
+  undo: () => void
+  redo: () => void
+}
+
+/**
+ * The undo stack, with undo/redo actions that report what they did as toasts
+ */
+export function useUndo(): UseUndoResult {
+  const status = useSyncExternalStore(onUndoChange, getUndoStatus, getUndoStatus)
+  const { info, error } = useToast()
+  
+  const handleUndo = useCallback(() => {
+    undo()
+      .then(entry => entry && info('Undone', entry.label))
+      .catch((e: Error) => error('Undo failed', e.message))
+  }, [info, error])
+  
+  const handleRedo = useCallback(() => {
+    redo()
+      .then(entry => entry && info('Redone', entry.label))
+      .catch((e: Error) => error('Redo failed', e.message))
+  }, [info, error])
+  
+  return {
+    status,
+    undo: handleUndo,
+    redo: handleRedo
+  }
+}
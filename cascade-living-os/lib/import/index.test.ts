@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { JournalEntry } from '@/types/cascade'
+import { stubBrowserStorage } from '@/lib/db/testing'
+import { STORES } from '@/lib/db/schema'
+import { FieldMapping, SourceRow, MAPPABLE_FIELDS } from './parsers'
+import type { ImportOptions } from './index'
+
+const CSV = 'date,text,mood,energy,hours\n2026-03-02,Walked before work,8,6,7.5\n2026-03-03,,4,,\nnot a date,Lost,,,'
+
+function mapping(fields: Partial<FieldMapping>): FieldMapping {
+  return { ...Object.fromEntries(MAPPABLE_FIELDS.map(field => [field, null])), ...fields } as FieldMapping
+}
+
+const OPTIONS: ImportOptions = {
+  mapping: mapping({ date: 'date', text: 'text', mood: 'mood', energy: 'energy', sleepHours: 'hours' }),
+  targets: ['journal', 'energy', 'sleep'],
+  scale: 10
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+async function readRows(): Promise<SourceRow[]> {
+  const { getImportParser, readSourceRows } = await import('./index')
+  return readSourceRows(getImportParser('csv')!, [{ name: 'log.csv', text: CSV }]).rows
+}
+
+describe('parseImportDate', () => {
+  it('reads epoch seconds, milliseconds, microseconds and dates', async () => {
+    const { parseImportDate } = await import('./index')
+    const ms = Date.UTC(2026, 2, 2)
+
+    expect(parseImportDate(ms / 1000)).toBe(ms)
+    expect(parseImportDate(ms)).toBe(ms)
+    expect(parseImportDate(String(ms * 1000))).toBe(ms)
+    expect(parseImportDate('2026-03-02')).toBe(new Date(2026, 2, 2).getTime())
+    expect(parseImportDate('someday')).toBeNull()
+    expect(parseImportDate(42)).toBeNull()
+  })
+})
+
+describe('previewImport', () => {
+  it('maps each row onto every target it has values for', async () => {
+    const { previewImport } = await import('./index')
+
+    const preview = await previewImport(await readRows(), OPTIONS)
+
+    expect(preview.records.map(r => `${r.target}: ${r.summary}`)).toEqual([
+      'journal: Walked before work',
+      'energy: Energy 3/5 · Mood 4/5',
+      'sleep: 7.5h sleep · quality 3/5',
+      'energy: Energy 3/5 · Mood 2/5'
+    ])
+    expect(preview.records[0].entity).toMatchObject({ mood: 8, energy: 6 })
+    expect(preview.skipped).toEqual(['log.csv #3: no readable date'])
+    expect(preview.counts).toEqual({ new: 4, duplicate: 0, similar: 0 })
+  })
+
+  it('marks records already stored, and gives them the same IDs', async () => {
+    const { previewImport, commitImport } = await import('./index')
+    const rows = await readRows()
+    const first = await previewImport(rows, OPTIONS)
+    await commitImport(first.records)
+
+    const second = await previewImport(rows, OPTIONS)
+
+    expect(second.counts).toEqual({ new: 0, duplicate: 4, similar: 0 })
+    expect(second.records.map(r => r.entity.id)).toEqual(first.records.map(r => r.entity.id))
+  })
+
+  it('flags the same text on another day as similar', async () => {
+    const { previewImport } = await import('./index')
+    const { putMany } = await import('@/lib/db/repository')
+    const stored: JournalEntry = {
+      id: 'entry-1',
+      timestamp: new Date(2026, 0, 1).getTime(),
+      rawText: 'walked  before work',
+      extractedPatterns: [],
+      shadowMaterial: [],
+      suggestedIntegrations: []
+    }
+    await putMany(STORES.JOURNAL, [stored])
+
+    const preview = await previewImport(await readRows(), { ...OPTIONS, targets: ['journal'] })
+
+    expect(preview.records[0]).toMatchObject({ status: 'similar', reason: expect.stringContaining('Same content already stored') })
+  })
+})
+
+describe('commitImport', () => {
+  it('writes one batch per store that undoes as one step', async () => {
+    const { previewImport, commitImport } = await import('./index')
+    const { getAll } = await import('@/lib/db/repository')
+    const { undo } = await import('@/lib/store/undo')
+    const preview = await previewImport(await readRows(), OPTIONS)
+
+    expect(await commitImport(preview.records)).toEqual({ journal: 1, energy: 2, sleep: 1, measurement: 0 })
+    expect(await getAll('energy-logs')).toHaveLength(2)
+
+    expect(await undo()).toMatchObject({ label: 'Imported 4 records' })
+    expect(await getAll('energy-logs')).toEqual([])
+    expect(await getAll(STORES.JOURNAL)).toEqual([])
+  })
+})
@@ -0,0 +1,424 @@
+// CASCADE Living OS - Import
+// Maps rows from other apps onto CASCADE records, previews them against
+// what is already stored, and writes the ones the user keeps
+
+import { JournalEntry, Measurement, MeasurementType } from '@/types/cascade'
+import { EnergyLog, SleepEntry } from '@/types/entities'
+import { EntityStoreName, STORES } from '@/lib/db/schema'
+import { getAll, putMany, applyChanges, notifyExternalChange } from '@/lib/db/repository'
+import { getJournalRange } from '@/lib/db/journal'
+import { recordUndo } from '@/lib/store/undo'
+import {
+  ImportFile,
+  ImportParser,
+  ImportError,
+  SourceRow,
+  SourceValue,
+  FieldMapping,
+  MAPPABLE_FIELDS
+} from './parsers'
+
+export * from './parsers'
+
+export type ImportTarget = 'journal' | 'energy' | 'sleep' | 'measurement'
+
+export const IMPORT_TARGETS: Record<ImportTarget, { label: string; store: EntityStoreName }> = {
+  journal: { label: 'Journal entries', store: STORES.JOURNAL },
+  energy: { label: 'Energy logs', store: 'energy-logs' },
+  sleep: { label: 'Sleep entries', store: 'sleep' },
+  measurement: { label: 'Measurements', store: STORES.MEASUREMENTS }
+}
+
+export type ImportedEntity =
+  | { target: 'journal'; entity: JournalEntry }
+  | { target: 'energy'; entity: EnergyLog }
+  | { target: 'sleep'; entity: SleepEntry }
+  | { target: 'measurement'; entity: Measurement }
+
+// new: nothing like it stored; duplicate: same content at the same time;
+// similar: same content at another time, or something else at the same time
+export type DuplicateStatus = 'new' | 'duplicate' | 'similar'
+
+export type PreviewRecord = ImportedEntity & {
+  source: string
+  summary: string
+  status: DuplicateStatus
+  reason?: string
+}
+
+export interface MeasurementAnchor {
+  practiceId: string
+  anchorId: string
+  type: MeasurementType
+}
+
+export interface ImportOptions {
+  mapping: FieldMapping
+  targets: ImportTarget[]
+  scale: 5 | 10                      // range of the source's mood and energy values
+  anchor?: MeasurementAnchor | null  // practice anchor that receives measurements
+}
+
+export interface SourceData {
+  rows: SourceRow[]
+  columns: string[]
+  errors: string[]
+}
+
+export interface ImportPreview {
+  records: PreviewRecord[]
+  skipped: string[]
+  counts: Record<DuplicateStatus, number>
+}
+
+const MINUTE = 60 * 1000
+
+// ============================================================================
+// READING
+// ============================================================================
+
+export async function readImportFiles(files: File[]): Promise<ImportFile[]> {
+  return Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })))
+}
+
+/**
+ * Run a parser over every file. Files it cannot read are reported, not fatal.
+ */
+export function readSourceRows(parser: ImportParser, files: ImportFile[]): SourceData {
+  const rows: SourceRow[] = []
+  const errors: string[] = []
+
+  for (const file of files) {
+    try {
+      rows.push(...parser.read(file))
+    } catch (error) {
+      if (!(error instanceof ImportError)) console.error(`Failed to read ${file.name}:`, error)
+      errors.push(error instanceof Error ? error.message : `Could not read ${file.name}`)
+    }
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row.values))))
+  return { rows, columns, errors }
+}
+
+/**
+ * The parser's suggestions, limited to columns that exist
+ */
+export function defaultMapping(parser: ImportParser, columns: string[]): FieldMapping {
+  const suggested = parser.suggestMapping(columns)
+  return Object.fromEntries(MAPPABLE_FIELDS.map(field => {
+    const column = suggested[field]
+    return [field, column && columns.includes(column) ? column : null]
+  })) as FieldMapping
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+function text(value: SourceValue | undefined): string {
+  return value === null || value === undefined ? '' : String(value).trim()
+}
+
+function number(value: SourceValue | undefined): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null
+  const parsed = parseFloat(text(value).replace(',', '.'))
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Epoch seconds, milliseconds or microseconds (Takeout), ISO strings, and
+ * bare dates, which are read as local midnight
+ */
+export function parseImportDate(value: SourceValue | undefined): number | null {
+  const raw = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value
+  if (typeof raw === 'number') {
+    if (raw > 1e14) return Math.floor(raw / 1000)
+    if (raw > 1e11) return raw
+    if (raw > 1e9) return raw * 1000
+    return null
+  }
+
+  const str = text(raw)
+  if (!str) return null
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(str) ? new Date(`${str}T00:00:00`).getTime() : Date.parse(str)
+  return isNaN(parsed) ? null : parsed
+}
+
+// "22:30", "10:30 pm" or a full date-time, as HH:MM
+function parseClock(value: SourceValue | undefined): string | null {
+  const str = text(value)
+  const match = str.match(/(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?/i)
+  if (!match) return null
+  let hours = Number(match[1]) % 24
+  if (match[3]?.toLowerCase().startsWith('p') && hours < 12) hours += 12
+  if (match[3]?.toLowerCase().startsWith('a') && hours === 12) hours = 0
+  return `${String(hours).padStart(2, '0')}:${match[2]}`
+}
+
+function hoursBetween(bedtime: string, waketime: string): number {
+  const [bedH, bedM] = bedtime.split(':').map(Number)
+  const [wakeH, wakeM] = waketime.split(':').map(Number)
+  let minutes = wakeH * 60 + wakeM - (bedH * 60 + bedM)
+  if (minutes <= 0) minutes += 24 * 60
+  return Math.round(minutes / 6) / 10
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)))
+}
+
+function toFive(value: number, scale: 5 | 10): 1 | 2 | 3 | 4 | 5 {
+  return clamp(scale === 10 ? value / 2 : value, 1, 5) as 1 | 2 | 3 | 4 | 5
+}
+
+function toTen(value: number, scale: 5 | 10): number {
+  return clamp(scale === 5 ? value * 2 : value, 1, 10)
+}
+
+function clip(value: string, max: number): string {
+  const oneLine = value.replace(/\s+/g, ' ').trim()
+  return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine
+}
+
+async function contentHash(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+type MappedRecord = ImportedEntity & { source: string; summary: string }
+
+function mapRow(row: SourceRow, timestamp: number, options: ImportOptions): MappedRecord[] {
+  const { mapping, scale } = options
+  const get = (field: keyof FieldMapping) => mapping[field] ? row.values[mapping[field]!] : undefined
+  const mood = number(get('mood'))
+  const energy = number(get('energy'))
+  const notes = text(get('notes')) || undefined
+  const records: MappedRecord[] = []
+
+  for (const target of options.targets) {
+    if (target === 'journal') {
+      const title = text(get('title'))
+      const body = text(get('text'))
+      const rawText = [title, body].filter(Boolean).join('\n\n')
+      if (!rawText) continue
+      records.push({
+        target,
+        source: row.file,
+        summary: clip(rawText, 100),
+        entity: {
+          id: '',
+          timestamp,
+          rawText,
+          extractedPatterns: [],
+          shadowMaterial: [],
+          suggestedIntegrations: [],
+          mood: mood === null ? undefined : toTen(mood, scale),
+          energy: energy === null ? undefined : toTen(energy, scale)
+        }
+      })
+    }
+
+    if (target === 'energy' && (mood !== null || energy !== null)) {
+      // The energy page always records both; a missing one is neutral
+      const entity: EnergyLog = {
+        id: '',
+        timestamp,
+        energy: energy === null ? 3 : toFive(energy, scale),
+        mood: mood === null ? 3 : toFive(mood, scale),
+        note: notes
+      }
+      records.push({ target, source: row.file, summary: `Energy ${entity.energy}/5 · Mood ${entity.mood}/5`, entity })
+    }
+
+    if (target === 'sleep') {
+      const bedtime = parseClock(get('bedtime'))
+      const waketime = parseClock(get('waketime'))
+      const duration = number(get('sleepHours')) ?? (bedtime && waketime ? hoursBetween(bedtime, waketime) : null)
+      if (duration === null || duration <= 0) continue
+      const quality = number(get('sleepQuality'))
+      const entity: SleepEntry = {
+        id: '',
+        bedtime: bedtime ?? '',
+        waketime: waketime ?? '',
+        quality: quality === null ? 3 : toFive(quality, scale),
+        duration,
+        notes,
+        timestamp
+      }
+      records.push({ target, source: row.file, summary: `${duration}h sleep · quality ${entity.quality}/5`, entity })
+    }
+
+    if (target === 'measurement' && options.anchor) {
+      const value = number(get('measurement'))
+      if (value === null) continue
+      const entity: Measurement = {
+        id: '',
+        practiceId: options.anchor.practiceId,
+        anchorId: options.anchor.anchorId,
+        type: options.anchor.type,
+        value,
+        timestamp,
+        notes
+      }
+      records.push({ target, source: row.file, summary: `${entity.type} ${value}`, entity })
+    }
+  }
+
+  return records
+}
+
+// What makes two records of a target the same, apart from when they happened
+function fingerprint(record: ImportedEntity): string {
+  switch (record.target) {
+    case 'journal':
+      return record.entity.rawText.replace(/\s+/g, ' ').trim().toLowerCase()
+    case 'energy':
+      return `${record.entity.energy}|${record.entity.mood}`
+    case 'sleep':
+      return `${record.entity.duration}|${record.entity.quality}`
+    case 'measurement':
+      return `${record.entity.practiceId}|${record.entity.anchorId}|${record.entity.value}`
+  }
+}
+
+// Sleep is logged once a day; everything else is a moment
+function sameTime(target: ImportTarget, a: number, b: number): boolean {
+  if (target === 'sleep') return new Date(a).toDateString() === new Date(b).toDateString()
+  return Math.abs(a - b) < MINUTE
+}
+
+const ID_PREFIXES: Record<ImportTarget, string> = {
+  journal: 'journal',
+  energy: 'energy',
+  sleep: 'sleep',
+  measurement: 'measurement'
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+interface Known {
+  target: ImportTarget
+  hash: string
+  timestamp: number
+  where: string
+}
+
+async function loadExisting(targets: ImportTarget[]): Promise<Known[]> {
+  const existing: ImportedEntity[] = []
+  for (const target of targets) {
+    if (target === 'journal') {
+      existing.push(...(await getJournalRange()).map(entity => ({ target, entity })))
+    } else if (target === 'energy') {
+      existing.push(...(await getAll<EnergyLog>('energy-logs')).map(entity => ({ target, entity })))
+    } else if (target === 'sleep') {
+      existing.push(...(await getAll<SleepEntry>('sleep')).map(entity => ({ target, entity })))
+    } else {
+      existing.push(...(await getAll<Measurement>(STORES.MEASUREMENTS)).map(entity => ({ target, entity })))
+    }
+  }
+
+  return Promise.all(existing.map(async record => ({
+    target: record.target,
+    hash: await contentHash(`${record.target}|${fingerprint(record)}`),
+    timestamp: record.entity.timestamp,
+    where: 'already stored'
+  })))
+}
+
+/**
+ * Dry run: map every row and mark what already exists, without writing.
+ * Records get IDs derived from their content and time, so importing the
+ * same file twice rewrites rather than duplicates.
+ */
+export async function previewImport(rows: SourceRow[], options: ImportOptions): Promise<ImportPreview> {
+  const skipped: string[] = []
+  const mapped: MappedRecord[] = []
+
+  rows.forEach((row, i) => {
+    const label = `${row.file}${rows.length > 1 ? ` #${i + 1}` : ''}`
+    const timestamp = parseImportDate(options.mapping.date ? row.values[options.mapping.date] : undefined)
+    if (timestamp === null) {
+      skipped.push(`${label}: no readable date`)
+      return
+    }
+    const records = mapRow(row, timestamp, options)
+    if (records.length === 0) skipped.push(`${label}: nothing to import with this mapping`)
+    mapped.push(...records)
+  })
+
+  const known = await loadExisting(options.targets)
+  const records: PreviewRecord[] = []
+
+  for (const record of mapped) {
+    const hash = await contentHash(`${record.target}|${fingerprint(record)}`)
+    const candidates = known.filter(k => k.target === record.target)
+    const exact = candidates.find(k => k.hash === hash && sameTime(record.target, k.timestamp, record.entity.timestamp))
+    const sameContent = candidates.find(k => k.hash === hash)
+    const sameMoment = candidates.find(k => sameTime(record.target, k.timestamp, record.entity.timestamp))
+
+    const status: DuplicateStatus = exact ? 'duplicate' : sameContent || sameMoment ? 'similar' : 'new'
+    const reason = exact
+      ? `Same entry ${exact.where}`
+      : sameContent
+        ? `Same content ${sameContent.where} on ${new Date(sameContent.timestamp).toLocaleDateString()}`
+        : sameMoment
+          ? `Another ${record.target === 'sleep' ? 'entry that day' : 'entry at this time'} ${sameMoment.where}`
+          : undefined
+
+    record.entity.id = `${ID_PREFIXES[record.target]}-import-${hash.slice(0, 12)}-${record.entity.timestamp}`
+    records.push({ ...record, status, reason } as PreviewRecord)
+    known.push({ target: record.target, hash, timestamp: record.entity.timestamp, where: 'earlier in this import' })
+  }
+
+  const counts: Record<DuplicateStatus, number> = { new: 0, duplicate: 0, similar: 0 }
+  records.forEach(record => counts[record.status]++)
+  return { records: records.sort((a, b) => a.entity.timestamp - b.entity.timestamp), skipped, counts }
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Write the chosen records, one batch per store. The whole import is one
+ * undo step.
+ */
+export async function commitImport(records: ImportedEntity[]): Promise<Record<ImportTarget, number>> {
+  const byStore = new Map<EntityStoreName, unknown[]>()
+  const counts: Record<ImportTarget, number> = { journal: 0, energy: 0, sleep: 0, measurement: 0 }
+
+  for (const record of records) {
+    const { store } = IMPORT_TARGETS[record.target]
+    byStore.set(store, [...(byStore.get(store) ?? []), record.entity])
+    counts[record.target]++
+  }
+
+  const write = async () => {
+    for (const [store, entities] of Array.from(byStore)) {
+      await putMany(store, entities)
+      notifyExternalChange(store)
+    }
+  }
+  await write()
+
+  recordUndo({
+    label: `Imported ${records.length} record${records.length === 1 ? '' : 's'}`,
+    scope: 'import',
+    undo: async () => {
+      for (const [store, entities] of Array.from(byStore)) {
+        await applyChanges(store, { put: [], remove: entities.map(entity => (entity as { id: string }).id) })
+        notifyExternalChange(store)
+      }
+    },
+    redo: write
+  })
+
+  return counts
+}
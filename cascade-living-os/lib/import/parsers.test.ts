@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { detectImportParser, getImportParser, parseCSV, ImportError } from './parsers'
+
+describe('parseCSV', () => {
+  it('reads quoted fields, doubled quotes and newlines inside quotes', () => {
+    expect(parseCSV('date,text\r\n2026-03-02,"Walked, then ""worked""\nlate"\n\n')).toEqual([
+      ['date', 'text'],
+      ['2026-03-02', 'Walked, then "worked"\nlate']
+    ])
+  })
+
+  it('reads semicolon-separated files', () => {
+    expect(parseCSV('date;energy\n02.03.2026;7,5')).toEqual([['date', 'energy'], ['02.03.2026', '7,5']])
+  })
+})
+
+describe('detectImportParser', () => {
+  it('picks the parser for each format', () => {
+    const detect = (name: string, text = '') => detectImportParser({ name, text })?.id
+
+    expect(detect('Journal.json', '{"entries": [{"creationDate": "2026-03-02T09:00:00Z"}]}')).toBe('day-one')
+    expect(detect('Keep.json', '[{"textContent": "List", "createdTimestampUsec": 1}]')).toBe('takeout')
+    expect(detect('2026-03-02.md')).toBe('markdown')
+    expect(detect('sleep.csv')).toBe('csv')
+    expect(detect('notes.json', 'not json')).toBeUndefined()
+  })
+})
+
+describe('parsers', () => {
+  it('flatten Day One entries and drop inline media', () => {
+    const rows = getImportParser('day-one')!.read({
+      name: 'Journal.json',
+      text: JSON.stringify({
+        entries: [{
+          creationDate: '2026-03-02T09:00:00Z',
+          text: 'Walked ![](dayone-moment://photo)\nbefore work',
+          location: { placeName: 'Park', region: { radius: 1 } },
+          tags: ['walk', 'morning']
+        }]
+      })
+    })
+
+    expect(rows).toEqual([{
+      file: 'Journal.json',
+      values: { creationDate: '2026-03-02T09:00:00Z', text: 'Walked before work', 'location.placeName': 'Park', tags: 'walk, morning' }
+    }])
+  })
+
+  it('read Markdown frontmatter, heading and body', () => {
+    const [row] = getImportParser('markdown')!.read({
+      name: 'Daily/2026-03-02.md',
+      text: '---\nmood: 7\ntitle: "Monday"\nprivate: true\n---\n# Monday notes\nWalked before work\n'
+    })
+
+    expect(row.values).toEqual({
+      mood: 7,
+      title: 'Monday',
+      private: true,
+      filename: '2026-03-02',
+      heading: 'Monday notes',
+      body: 'Walked before work'
+    })
+  })
+
+  it('leave trashed Keep notes out', () => {
+    const rows = getImportParser('takeout')!.read({
+      name: 'Keep.json',
+      text: JSON.stringify([{ textContent: 'Kept', isTrashed: false }, { textContent: 'Binned', isTrashed: true }])
+    })
+
+    expect(rows.map(row => row.values.textContent)).toEqual(['Kept'])
+  })
+
+  it('report files they cannot read', () => {
+    expect(() => getImportParser('day-one')!.read({ name: 'Journal.json', text: '{' })).toThrow(ImportError)
+    expect(() => getImportParser('csv')!.read({ name: 'empty.csv', text: '' })).toThrow('empty.csv is empty')
+  })
+})
@@ -0,0 +1,353 @@
+// CASCADE Living OS - Import Parsers
+// Readers that turn exports from other apps into rows of named source fields
+
+export interface ImportFile {
+  name: string
+  text: string
+}
+
+export type SourceValue = string | number | boolean | null
+
+/**
+ * One record found in a source file, before field mapping
+ */
+export interface SourceRow {
+  file: string
+  values: Record<string, SourceValue>
+}
+
+// Fields a source column can be mapped onto
+export const MAPPABLE_FIELDS = [
+  'date',
+  'title',
+  'text',
+  'mood',
+  'energy',
+  'sleepHours',
+  'bedtime',
+  'waketime',
+  'sleepQuality',
+  'notes',
+  'measurement'
+] as const
+
+export type MappableField = typeof MAPPABLE_FIELDS[number]
+
+// Source column for each field; null leaves the field unmapped
+export type FieldMapping = Record<MappableField, string | null>
+
+/**
+ * A pluggable reader. Parsers only read; mapping rows onto CASCADE
+ * records is shared, so a new format only needs `read` and a default mapping.
+ */
+export interface ImportParser {
+  id: string
+  label: string
+  description: string
+  accept: string                              // file input accept list
+  detect: (file: ImportFile) => boolean
+  read: (file: ImportFile) => SourceRow[]     // throws ImportError on unreadable input
+  suggestMapping: (columns: string[]) => Partial<FieldMapping>
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function extension(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1).toLowerCase()
+}
+
+function parseJSON(file: ImportFile): unknown {
+  try {
+    return JSON.parse(file.text)
+  } catch {
+    throw new ImportError(`${file.name} is not valid JSON`)
+  }
+}
+
+function tryJSON(file: ImportFile): unknown {
+  if (extension(file.name) !== 'json') return null
+  try {
+    return JSON.parse(file.text)
+  } catch {
+    return null
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Top-level primitives as-is, string arrays joined, nested objects one level
+ * deep as `parent.child`
+ */
+function flatten(record: Record<string, unknown>): Record<string, SourceValue> {
+  const values: Record<string, SourceValue> = {}
+  for (const [key, value] of Object.entries(record)) {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      values[key] = value as SourceValue
+    } else if (Array.isArray(value)) {
+      const names = value.map(item => isRecord(item) ? item.name ?? item.label : item).filter(item => typeof item === 'string')
+      if (names.length > 0) values[key] = names.join(', ')
+    } else if (isRecord(value)) {
+      for (const [child, inner] of Object.entries(value)) {
+        if (inner === null || ['string', 'number', 'boolean'].includes(typeof inner)) {
+          values[`${key}.${child}`] = inner as SourceValue
+        }
+      }
+    }
+  }
+  return values
+}
+
+/**
+ * First column whose name matches, in pattern order
+ */
+function findColumn(columns: string[], ...patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = columns.find(column => pattern.test(column))
+    if (match) return match
+  }
+  return null
+}
+
+// ============================================================================
+// DAY ONE
+// ============================================================================
+
+// Inline photos and audio point at files that are not in the JSON
+const DAY_ONE_MOMENT = /!\[[^\]]*\]\(dayone-moment:[^)]*\)\n?/g
+
+const dayOneParser: ImportParser = {
+  id: 'day-one',
+  label: 'Day One',
+  description: 'Journal.json from a Day One "JSON" export',
+  accept: '.json',
+  detect: (file) => {
+    const data = tryJSON(file)
+    return isRecord(data) && Array.isArray(data.entries) && data.entries.some(entry => isRecord(entry) && 'creationDate' in entry)
+  },
+  read: (file) => {
+    const data = parseJSON(file)
+    if (!isRecord(data) || !Array.isArray(data.entries)) {
+      throw new ImportError(`${file.name} has no Day One entries`)
+    }
+    return data.entries.filter(isRecord).map(entry => {
+      const values = flatten(entry)
+      if (typeof values.text === 'string') values.text = values.text.replace(DAY_ONE_MOMENT, '').trim()
+      return { file: file.name, values }
+    })
+  },
+  suggestMapping: (columns) => ({
+    date: findColumn(columns, /^creationDate$/),
+    text: findColumn(columns, /^text$/),
+    mood: findColumn(columns, /mood/i),
+    energy: findColumn(columns, /energy/i)
+  })
+}
+
+// ============================================================================
+// MARKDOWN DAILY NOTES
+// ============================================================================
+
+const DATE_IN_NAME = /(\d{4}-\d{2}-\d{2})/
+
+/**
+ * Flat `key: value` frontmatter, which is what daily-note templates write
+ */
+function parseFrontmatter(text: string): { data: Record<string, SourceValue>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+  if (!match) return { data: {}, body: text }
+
+  const data: Record<string, SourceValue> = {}
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^([\w.-]+):\s*(.*)$/)
+    if (!pair) continue
+    const raw = pair[2].trim().replace(/^(["'])(.*)\1$/, '$2')
+    if (raw === '') continue
+    const number = Number(raw)
+    data[pair[1]] = raw === 'true' || raw === 'false' ? raw === 'true' : !isNaN(number) ? number : raw
+  }
+  return { data, body: text.slice(match[0].length) }
+}
+
+const markdownParser: ImportParser = {
+  id: 'markdown',
+  label: 'Markdown / Obsidian',
+  description: 'Daily notes; mood and energy are read from frontmatter',
+  accept: '.md,.markdown,.txt',
+  detect: (file) => ['md', 'markdown', 'txt'].includes(extension(file.name)),
+  read: (file) => {
+    const { data, body } = parseFrontmatter(file.text)
+    const heading = body.match(/^#\s+(.+)$/m)
+    return [{
+      file: file.name,
+      values: {
+        ...data,
+        filename: file.name.match(DATE_IN_NAME)?.[1] ?? null,
+        heading: heading ? heading[1].trim() : null,
+        body: body.replace(/^#\s+.+\r?\n/, '').trim()
+      }
+    }]
+  },
+  suggestMapping: (columns) => ({
+    date: findColumn(columns, /^date$/i, /^created$/i, /^filename$/),
+    title: findColumn(columns, /^title$/i, /^heading$/),
+    text: 'body',
+    mood: findColumn(columns, /^mood$/i),
+    energy: findColumn(columns, /^energy$/i),
+    sleepHours: findColumn(columns, /^sleep(_?hours)?$/i),
+    sleepQuality: findColumn(columns, /^sleep_?quality$/i)
+  })
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, newlines inside quotes.
+ * Semicolon-separated files (spreadsheet exports in many locales) work too.
+ */
+export function parseCSV(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'))
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+const csvParser: ImportParser = {
+  id: 'csv',
+  label: 'CSV',
+  description: 'Spreadsheet of dates with energy, mood, sleep or notes columns',
+  accept: '.csv',
+  detect: (file) => extension(file.name) === 'csv',
+  read: (file) => {
+    const [header, ...rows] = parseCSV(file.text)
+    if (!header) throw new ImportError(`${file.name} is empty`)
+    const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`)
+    return rows.map(cells => ({
+      file: file.name,
+      values: Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() || null]))
+    }))
+  },
+  suggestMapping: (columns) => ({
+    date: findColumn(columns, /^(date|day|timestamp)$/i, /date|time/i),
+    title: findColumn(columns, /^title$/i),
+    text: findColumn(columns, /^(text|entry|content|journal)$/i),
+    mood: findColumn(columns, /mood/i),
+    energy: findColumn(columns, /energy/i),
+    sleepHours: findColumn(columns, /sleep.*(hours|duration)|^hours|^duration/i),
+    bedtime: findColumn(columns, /bed/i),
+    waketime: findColumn(columns, /wake/i),
+    sleepQuality: findColumn(columns, /quality/i),
+    notes: findColumn(columns, /note|comment/i),
+    measurement: findColumn(columns, /hrv|value|score/i)
+  })
+}
+
+// ============================================================================
+// GOOGLE TAKEOUT
+// ============================================================================
+
+const takeoutParser: ImportParser = {
+  id: 'takeout',
+  label: 'Google Takeout',
+  description: 'Keep notes and other Takeout-style JSON records',
+  accept: '.json',
+  detect: (file) => {
+    const data = tryJSON(file)
+    const first = Array.isArray(data) ? data[0] : data
+    return isRecord(first) && ('createdTimestampUsec' in first || 'textContent' in first)
+  },
+  read: (file) => {
+    const data = parseJSON(file)
+    const records = Array.isArray(data) ? data.filter(isRecord) : isRecord(data) ? [data] : []
+    if (records.length === 0) throw new ImportError(`${file.name} has no records`)
+    return records
+      .filter(record => record.isTrashed !== true)
+      .map(record => ({ file: file.name, values: flatten(record) }))
+  },
+  suggestMapping: (columns) => ({
+    date: findColumn(columns, /^createdTimestampUsec$/, /^userEditedTimestampUsec$/, /time|date/i),
+    title: findColumn(columns, /^title$/),
+    text: findColumn(columns, /^textContent$/, /^(text|content)$/i),
+    mood: findColumn(columns, /mood/i),
+    energy: findColumn(columns, /energy/i),
+    notes: findColumn(columns, /^labels$/)
+  })
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const parsers: ImportParser[] = [dayOneParser, takeoutParser, markdownParser, csvParser]
+
+/**
+ * Add a parser; detection tries parsers in registration order
+ */
+export function registerImportParser(parser: ImportParser): void {
+  const existing = parsers.findIndex(p => p.id === parser.id)
+  if (existing === -1) parsers.push(parser)
+  else parsers[existing] = parser
+}
+
+export function getImportParsers(): ImportParser[] {
+  return [...parsers]
+}
+
+export function getImportParser(id: string): ImportParser | undefined {
+  return parsers.find(parser => parser.id === id)
+}
+
+/**
+ * First parser that recognizes the file
+ */
+export function detectImportParser(file: ImportFile): ImportParser | undefined {
+  return parsers.find(parser => parser.detect(file))
+}
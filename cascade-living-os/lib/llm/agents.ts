@@ -18,7 +18,13 @@
  * - AURA constraint enforcement
  */
 
-import { getLLMClient, LLMProvider } from './provider'
+import { getLLMClient, LLMProvider, LLMResponse, PROVIDER_MAP, providerName } from './provider'
+import { PromptId, PromptOverrides, contextVariables, renderPrompt, resolvePrompt } from './prompts'
+import { getMemoryContext } from './memory'
+import { applyBudget, recordUsage } from '@/lib/db/usage-ledger'
+import { getDocument } from '@/lib/db/repository'
+import { DOCUMENTS } from '@/lib/db/schema'
+import { toSovereignDate } from '@/lib/cascade/seven-phase'
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -334,7 +340,7 @@ class SovereigntyGuardianAgent extends BaseAgent {
         { drift, threshold: this.driftThreshold }
       )
       
-      await this.publishEvent(EventType.DRIFT_DETECTED, { drift, threshold: this.driftThreshold })
+      await this.publishEvent(EventType.DRIFT_DETECTED, { drift, threshold: this.driftThreshold, sovereignty: currentSovereignty })
     }
     
     // Check for coherence drop
@@ -488,6 +494,7 @@ class ProactiveAdvisorAgent extends BaseAgent {
   private llmClient = getLLMClient()
   private insightCooldown = 4 * 60 * 60 * 1000 // 4 hours between insights
   private lastInsightTime = 0
+  private lastSovereignty: number | undefined
   
   constructor(eventBus: EventBus, actionQueue: ActionQueue) {
     super(AgentType.PROACTIVE_ADVISOR, eventBus, actionQueue, 300000) // 5 minute ticks
@@ -501,6 +508,39 @@ class ProactiveAdvisorAgent extends BaseAgent {
   
   protected onStop(): void {}
   
+  /**
+   * One-off LLM request from a prompt template, within the AI budgets and
+   * recorded in the usage ledger with the template versions used
+   */
+  private async ask(id: PromptId, variables: Record<string, string> = {}): Promise<LLMResponse & { promptVersions: string[] }> {
+    const overrides = await getDocument<PromptOverrides>(DOCUMENTS.PROMPT_OVERRIDES.key)
+    const phase = toSovereignDate(new Date()).phase
+    const context = contextVariables({
+      currentPhase: `${phase.name} ${phase.glyph}`,
+      sovereigntyScore: this.lastSovereignty,
+      memoryContext: getMemoryContext() || undefined
+    })
+    const prompt = renderPrompt(id, { ...context, ...variables }, overrides)
+    const system = resolvePrompt('system', overrides)
+    const promptVersions = [system.version, prompt.version]
+    
+    const budget = await applyBudget(
+      providerName(this.llmClient.getPrimaryProvider()),
+      this.llmClient.getFallbackOrder().map(providerName)
+    )
+    const response = await this.llmClient.chat(prompt.text, {
+      includeHistory: false,
+      systemPrompt: system.text,
+      provider: PROVIDER_MAP[budget.provider],
+      fallbacks: budget.fallbackProviders.map(name => PROVIDER_MAP[name])
+    })
+    
+    if (response.usage) {
+      void recordUsage({ feature: 'agents', provider: response.provider, model: response.model, usage: response.usage, promptVersions })
+    }
+    return { ...response, promptVersions }
+  }
+  
   protected async onTick(): Promise<void> {
     // Check if enough time has passed for a proactive insight
     const now = Date.now()
@@ -516,21 +556,17 @@ class ProactiveAdvisorAgent extends BaseAgent {
   
   private async handleDrift(event: AgentEvent): Promise<void> {
     const drift = event.payload.drift as number
+    if (typeof event.payload.sovereignty === 'number') this.lastSovereignty = event.payload.sovereignty
     
     try {
-      const response = await this.llmClient.chat(
-        `The user's sovereignty drift has reached ${(drift * 100).toFixed(1)}%. 
-        Generate a brief (2-3 sentences) supportive message with one specific action they can take to re-center. 
-        Use LAMAGUE symbols where appropriate. Be encouraging, not alarming.`,
-        { includeHistory: false }
-      )
+      const response = await this.ask('advisor_drift', { drift: `${(drift * 100).toFixed(1)}%` })
       
       this.createAction(
         'SUGGESTION',
         '🧭 Drift Recovery Guidance',
         response.content,
         AgentPriority.HIGH,
-        { drift, llmProvider: response.provider }
+        { drift, llmProvider: response.provider, promptVersions: response.promptVersions }
       )
     } catch (error) {
       // Fallback without LLM
@@ -549,21 +585,14 @@ class ProactiveAdvisorAgent extends BaseAgent {
     const phaseGlyphs = ['⟟', '≋', 'Ψ', 'Φ↑', '✧', '∥◁▷∥', '⟲']
     
     try {
-      const response = await this.llmClient.chat(
-        `The user has just entered the ${phaseNames[newPhase]} (${phaseGlyphs[newPhase]}) phase of the 364-day sovereign cycle.
-        Generate a brief welcome message (3-4 sentences) that:
-        1. Names the phase and its symbol
-        2. Describes what this phase is for
-        3. Suggests one key practice
-        Be inspiring and use LAMAGUE symbols.`,
-        { includeHistory: false }
-      )
+      const response = await this.ask('advisor_phase', { phaseName: phaseNames[newPhase], phaseGlyph: phaseGlyphs[newPhase] })
       
       this.createAction(
         'NOTIFICATION',
         `Welcome to ${phaseNames[newPhase]} ${phaseGlyphs[newPhase]}`,
         response.content,
-        AgentPriority.HIGH
+        AgentPriority.HIGH,
+        { promptVersions: response.promptVersions }
       )
     } catch (error) {
       // Fallback
@@ -588,24 +617,24 @@ class ProactiveAdvisorAgent extends BaseAgent {
   private async generateInsight(): Promise<void> {
     this.lastInsightTime = Date.now()
     
-    const prompts = [
-      'Generate a brief (2 sentences) Zen-like insight about sovereignty and the invariant. Use at least one LAMAGUE symbol.',
-      'Share a brief microorcim wisdom (2 sentences) about choosing intent over drift.',
-      'Offer a brief meditation prompt (2 sentences) related to the current moment and phase awareness.',
-      'Generate a brief affirmation (2 sentences) about returning to center after difficulty.'
+    const prompts: PromptId[] = [
+      'advisor_insight_sovereignty',
+      'advisor_insight_microorcim',
+      'advisor_insight_meditation',
+      'advisor_insight_return'
     ]
     
     const prompt = prompts[Math.floor(Math.random() * prompts.length)]
     
     try {
-      const response = await this.llmClient.chat(prompt, { includeHistory: false })
+      const response = await this.ask(prompt)
       
       this.createAction(
         'SUGGESTION',
         '✨ Insight',
         response.content,
         AgentPriority.LOW,
-        { type: 'proactive_insight' }
+        { type: 'proactive_insight', promptVersions: response.promptVersions }
       )
       
       await this.publishEvent(EventType.INSIGHT_GENERATED, { insight: response.content })
@@ -0,0 +1,205 @@
+import { MicroorcimDifficulty } from '@/lib/cascade/microorcim'
+import { LLMTool, LLMToolCall, validateToolArguments } from './tool-use'
+
+/**
+ * CASCADE LIVING OS - CASCADE TOOLS
+ * =================================
+ * The CASCADE operations a model may call. Read tools run as soon as they
+ * are called; write tools wait for the user to approve them in the chat.
+ *
+ * The definitions are pure so the gateway can offer them to providers;
+ * `tool-runner` executes the calls in the browser, where the data lives.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type CascadeToolName =
+  | 'log_microorcim'
+  | 'add_knowledge_block'
+  | 'create_commitment'
+  | 'record_measurement'
+  | 'query_goals'
+  | 'get_today_metrics'
+
+export interface LogMicroorcimArgs {
+  context: string
+  intent: number
+  drift?: number
+  difficulty?: MicroorcimDifficulty
+  note?: string
+}
+
+export interface AddKnowledgeBlockArgs {
+  content: string
+  layer: 'FOUNDATION' | 'THEORY' | 'EDGE'
+  evidenceStrength: number
+  domain?: string
+}
+
+export interface CreateCommitmentArgs {
+  content: string
+  to?: string
+  deadline?: string
+}
+
+export interface RecordMeasurementArgs {
+  practice: string
+  value: number
+  anchor?: string
+  notes?: string
+}
+
+export interface QueryGoalsArgs {
+  status?: 'active' | 'completed' | 'paused' | 'abandoned' | 'all'
+}
+
+export interface CascadeToolArgs {
+  log_microorcim: LogMicroorcimArgs
+  add_knowledge_block: AddKnowledgeBlockArgs
+  create_commitment: CreateCommitmentArgs
+  record_measurement: RecordMeasurementArgs
+  query_goals: QueryGoalsArgs
+  get_today_metrics: Record<string, never>
+}
+
+/**
+ * A call to one of the CASCADE tools, its arguments typed by the tool
+ */
+export type CascadeToolCall = {
+  [N in CascadeToolName]: { id: string; name: N; arguments: CascadeToolArgs[N] }
+}[CascadeToolName]
+
+export const DEFAULT_DRIFT = 0.3
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+export const CASCADE_TOOLS: LLMTool[] = [
+  {
+    name: 'log_microorcim',
+    description: 'Log a microorcim: a choice where intent met drift. It fires when intent exceeds drift.',
+    parameters: {
+      type: 'object',
+      properties: {
+        context: { type: 'string', description: 'What the choice was about' },
+        intent: { type: 'number', description: 'Alignment with the chosen direction, 0-1', minimum: 0, maximum: 1 },
+        drift: { type: 'number', description: `Entropy and pressure against it, 0-1 (default ${DEFAULT_DRIFT})`, minimum: 0, maximum: 1 },
+        difficulty: { type: 'string', description: 'How much resistance there was', enum: Object.values(MicroorcimDifficulty) },
+        note: { type: 'string', description: 'Optional note' }
+      },
+      required: ['context', 'intent']
+    }
+  },
+  {
+    name: 'add_knowledge_block',
+    description: 'Add a knowledge block to the pyramid. New claims belong on the EDGE until evidence promotes them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The claim or insight' },
+        layer: { type: 'string', description: 'Pyramid layer', enum: ['FOUNDATION', 'THEORY', 'EDGE'] },
+        evidenceStrength: { type: 'number', description: 'Strength of the evidence for it, 0-1', minimum: 0, maximum: 1 },
+        domain: { type: 'string', description: 'Domain it belongs to (default personal)' }
+      },
+      required: ['content', 'layer', 'evidenceStrength']
+    }
+  },
+  {
+    name: 'create_commitment',
+    description: 'Create an active commitment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'What is committed to' },
+        to: { type: 'string', description: 'Who it is made to (default Self)' },
+        deadline: { type: 'string', description: 'Due date, ISO 8601 (YYYY-MM-DD)' }
+      },
+      required: ['content']
+    }
+  },
+  {
+    name: 'record_measurement',
+    description: 'Record a measurement against a practice\'s reality anchor.',
+    parameters: {
+      type: 'object',
+      properties: {
+        practice: { type: 'string', description: 'Practice id or name' },
+        value: { type: 'number', description: 'Measured value' },
+        anchor: { type: 'string', description: 'Anchor id or measurement type (default the practice\'s first anchor)' },
+        notes: { type: 'string', description: 'Optional notes' }
+      },
+      required: ['practice', 'value']
+    }
+  },
+  {
+    name: 'query_goals',
+    description: 'List goals with their milestones.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', description: 'Goal status to list (default active)', enum: ['active', 'completed', 'paused', 'abandoned', 'all'] }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'get_today_metrics',
+    description: 'Fetch today\'s metrics: microorcims, focus, rituals, journal and unprocessed captures.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  }
+]
+
+const WRITE_TOOLS: CascadeToolName[] = ['log_microorcim', 'add_knowledge_block', 'create_commitment', 'record_measurement']
+
+export function getCascadeTool(name: string): LLMTool | undefined {
+  return CASCADE_TOOLS.find(tool => tool.name === name)
+}
+
+/**
+ * The call typed for its tool, or why it does not fit one
+ */
+export function checkCascadeToolCall(call: LLMToolCall): { call: CascadeToolCall } | { error: string } {
+  const tool = getCascadeTool(call.name)
+  if (!tool) return { error: `Unknown tool ${call.name}` }
+  const invalid = validateToolArguments(tool, call.arguments)
+  if (invalid) return { error: `Invalid arguments: ${invalid}` }
+  // The definitions above mirror the argument interfaces, so arguments that fit one fit the other
+  return { call: call as CascadeToolCall }
+}
+
+/**
+ * Whether a call changes data and so needs the user's approval
+ */
+export function isWriteTool(name: string): boolean {
+  return WRITE_TOOLS.includes(name as CascadeToolName)
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+/**
+ * One line saying what a call will do, for confirmation cards
+ */
+export function describeToolCall(call: LLMToolCall): string {
+  const args = call.arguments
+  switch (call.name as CascadeToolName) {
+    case 'log_microorcim':
+      return `Log a microorcim: "${args.context}" (intent ${args.intent}, drift ${args.drift ?? DEFAULT_DRIFT})`
+    case 'add_knowledge_block':
+      return `Add to the pyramid ${args.layer}: "${args.content}" (evidence ${args.evidenceStrength})`
+    case 'create_commitment':
+      return `Commit to ${args.to || 'Self'}: "${args.content}"${args.deadline ? ` by ${args.deadline}` : ''}`
+    case 'record_measurement':
+      return `Record ${args.value} for ${args.practice}${args.anchor ? ` (${args.anchor})` : ''}`
+    case 'query_goals':
+      return `Look up ${args.status || 'active'} goals`
+    case 'get_today_metrics':
+      return 'Look up today\'s metrics'
+    default:
+      return `Call ${call.name}`
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { ToolTurn } from './tool-use'
+import { assembleContext, contextWindowFor, estimateMessageTokens, estimateTokens } from './context'
+
+// A user turn and its reply, each `tokens` long for OpenAI
+function exchange(label: string, tokens: number): ToolTurn[] {
+  const text = `${label} `.padEnd((tokens - 4) * 4, '.')
+  return [{ role: 'user', content: text }, { role: 'assistant', content: text }]
+}
+
+describe('estimateTokens', () => {
+  it('counts ASCII by the provider ratio and other characters one each', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('abcdefg', 'anthropic')).toBe(2)
+    expect(estimateTokens('⟟Ψ∥')).toBe(3)
+  })
+
+  it('counts tool calls and results with their message', () => {
+    const call: ToolTurn = { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'query_goals', arguments: {} }] }
+
+    expect(estimateMessageTokens(call)).toBe(4 + estimateTokens('query_goals{}'))
+  })
+})
+
+describe('contextWindowFor', () => {
+  it('matches the most specific model prefix, else the provider', () => {
+    expect(contextWindowFor('gemini', 'gemini-1.5-pro-latest')).toBe(2_000_000)
+    expect(contextWindowFor('gemini', 'gemini-1.5-flash')).toBe(1_000_000)
+    expect(contextWindowFor('openai', 'GPT-4')).toBe(8_192)
+    expect(contextWindowFor('local', 'phi3')).toBe(4_096)
+  })
+})
+
+describe('assembleContext', () => {
+  it('keeps the newest exchanges that fit and evicts older ones whole', () => {
+    const messages = [...exchange('first', 100), ...exchange('second', 100), ...exchange('third', 100)]
+
+    const assembly = assembleContext(messages, { provider: 'openai', systemPrompt: '', historyBudget: 450 })
+
+    expect(assembly.messages).toEqual(messages.slice(2))
+    expect(assembly.evicted).toEqual(messages.slice(0, 2))
+    expect(assembly.tokens).toMatchObject({ history: 400, budget: 450 })
+  })
+
+  it('keeps tool turns with the exchange that started them', () => {
+    const messages: ToolTurn[] = [
+      ...exchange('first', 100),
+      { role: 'user', content: 'List my goals' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'query_goals', arguments: {} }] },
+      { role: 'user', content: '', toolResults: [{ callId: 'call-1', name: 'query_goals', content: '[]' }] },
+      { role: 'assistant', content: 'You have none' }
+    ]
+
+    const assembly = assembleContext(messages, { provider: 'openai', systemPrompt: '', historyBudget: 100 })
+
+    expect(assembly.messages).toEqual(messages.slice(2))
+  })
+
+  it('keeps the last exchange even when it alone is over budget', () => {
+    const messages = exchange('long', 5000)
+
+    const assembly = assembleContext(messages, { provider: 'openai', systemPrompt: '', historyBudget: 100 })
+
+    expect(assembly.messages).toEqual(messages)
+    expect(assembly.evicted).toEqual([])
+  })
+
+  it('leaves room for the reply, system prompt and summary in small windows', () => {
+    const assembly = assembleContext([], {
+      provider: 'local',
+      model: 'llama2',
+      systemPrompt: 'x'.repeat(700),
+      summary: 'y'.repeat(350)
+    })
+
+    expect(assembly.tokens).toEqual({ window: 4096, reply: 1024, system: 200, summary: 100, history: 0, budget: 2772 })
+  })
+})
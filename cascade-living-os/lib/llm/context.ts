@@ -0,0 +1,166 @@
+import type { CASCADEProviderName } from './provider'
+import type { ToolTurn } from './tool-use'
+
+/**
+ * CASCADE LIVING OS - CONTEXT WINDOW
+ * ==================================
+ * Fits a conversation into what a model can take. Tokens are estimated
+ * per provider; the newest turns that fit the history budget are kept and
+ * the older ones evicted, for the caller to fold into a running summary
+ * that travels with the system prompt.
+ *
+ * Estimates run a little high on purpose: the cost of overshooting a
+ * window is a failed request, of undershooting a turn summarized early.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ContextOptions {
+  provider: CASCADEProviderName
+  model?: string
+  systemPrompt: string
+  summary?: string
+  replyTokens?: number     // kept free for the reply
+  historyBudget?: number   // most history tokens to send, however large the window
+}
+
+export interface ContextTokens {
+  window: number
+  reply: number
+  system: number
+  summary: number
+  history: number
+  budget: number           // history tokens allowed
+}
+
+/**
+ * A conversation fitted to its budget: `messages` go to the model,
+ * `evicted` (oldest first) should be summarized
+ */
+export interface ContextAssembly<T extends ToolTurn = ToolTurn> {
+  messages: T[]
+  evicted: T[]
+  tokens: ContextTokens
+}
+
+export const DEFAULT_REPLY_TOKENS = 4096
+export const DEFAULT_HISTORY_BUDGET = 8000
+
+// Per-message framing: role markers and separators
+const MESSAGE_OVERHEAD = 4
+
+// Characters per token of ASCII text; other characters (glyphs, most
+// non-Latin scripts) are counted as a token each
+const CHARS_PER_TOKEN: Record<CASCADEProviderName, number> = {
+  anthropic: 3.5,
+  gemini: 4,
+  openai: 4,
+  local: 3.5,
+  mock: 4,
+  replay: 4
+}
+
+// Context windows by model prefix, most specific first
+const MODEL_WINDOWS: Array<[string, number]> = [
+  ['claude', 200_000],
+  ['gemini-1.5-pro', 2_000_000],
+  ['gemini', 1_000_000],
+  ['gpt-4o', 128_000],
+  ['gpt-4.1', 1_000_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4', 8_192],
+  ['gpt-3.5', 16_385],
+  ['o1', 128_000],
+  ['o3', 200_000],
+  ['llama3', 8_192],
+  ['llama2', 4_096],
+  ['mistral', 32_000]
+]
+
+const PROVIDER_WINDOWS: Record<CASCADEProviderName, number> = {
+  anthropic: 200_000,
+  gemini: 1_000_000,
+  openai: 128_000,
+  local: 4_096,
+  mock: 8_192,
+  replay: 200_000   // as large as the providers it recorded, so history fits the same way
+}
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+export function estimateTokens(text: string, provider: CASCADEProviderName = 'openai'): number {
+  let ascii = 0
+  let other = 0
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++
+    else other++
+  }
+  return Math.ceil(ascii / CHARS_PER_TOKEN[provider]) + other
+}
+
+export function estimateMessageTokens(message: ToolTurn, provider: CASCADEProviderName = 'openai'): number {
+  const parts = [
+    message.content,
+    ...(message.toolCalls ?? []).map(call => `${call.name}${JSON.stringify(call.arguments)}`),
+    ...(message.toolResults ?? []).map(result => result.content)
+  ]
+  return MESSAGE_OVERHEAD + parts.reduce((sum, part) => sum + estimateTokens(part, provider), 0)
+}
+
+export function contextWindowFor(provider: CASCADEProviderName, model?: string): number {
+  const name = model?.toLowerCase()
+  const match = name ? MODEL_WINDOWS.find(([prefix]) => name.startsWith(prefix)) : undefined
+  return match?.[1] ?? PROVIDER_WINDOWS[provider]
+}
+
+// ============================================================================
+// ASSEMBLY
+// ============================================================================
+
+// Exchanges, evicted whole: a user message, the replies to it and any tool
+// turns between, so the kept history never opens on a reply or a tool result
+function groupTurns<T extends ToolTurn>(messages: T[]): T[][] {
+  const groups: T[][] = []
+  for (const message of messages) {
+    const opens = message.role === 'user' && !message.toolResults?.length
+    if (opens || groups.length === 0) groups.push([message])
+    else groups[groups.length - 1].push(message)
+  }
+  return groups
+}
+
+/**
+ * Keep the newest exchanges that fit the budget. The last is always kept,
+ * even alone over budget: without it there is nothing to answer.
+ */
+export function assembleContext<T extends ToolTurn>(messages: T[], options: ContextOptions): ContextAssembly<T> {
+  const { provider } = options
+  const window = contextWindowFor(provider, options.model)
+  const reply = Math.min(options.replyTokens ?? DEFAULT_REPLY_TOKENS, Math.floor(window / 4))
+  const system = estimateTokens(options.systemPrompt, provider)
+  const summary = options.summary ? estimateTokens(options.summary, provider) : 0
+  const budget = Math.max(0, Math.min(
+    options.historyBudget ?? DEFAULT_HISTORY_BUDGET,
+    window - reply - system - summary
+  ))
+
+  const groups = groupTurns(messages)
+  const kept: T[][] = []
+  let history = 0
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const tokens = groups[i].reduce((sum, message) => sum + estimateMessageTokens(message, provider), 0)
+    if (kept.length > 0 && history + tokens > budget) break
+    kept.unshift(groups[i])
+    history += tokens
+  }
+
+  return {
+    messages: kept.flat(),
+    evicted: groups.slice(0, groups.length - kept.length).flat(),
+    tokens: { window, reply, system, summary, history, budget }
+  }
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileFixtureStore, readFixtureEnvironment } from './fixture-files'
+import { Fixture } from './replay'
+
+const FIXTURE: Fixture = {
+  hash: '0123abcd4567ef89',
+  request: { system: 'Be brief', messages: [{ role: 'user', content: 'Hello' }], tools: [] },
+  response: { provider: 'openai', model: 'gpt-4o-mini', content: 'Hi' },
+  latency: 120,
+  recordedAt: 1
+}
+
+let dir: string
+
+function env(vars: Record<string, string>): NodeJS.ProcessEnv {
+  return { NODE_ENV: 'test', ...vars }
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cascade-fixtures-'))
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('FileFixtureStore', () => {
+  it('saves one file per hash and loads it back', async () => {
+    const store = new FileFixtureStore(path.join(dir, 'nested'))
+
+    await store.save(FIXTURE)
+
+    expect(await fs.readdir(path.join(dir, 'nested'))).toEqual(['0123abcd4567ef89.json'])
+    expect(await store.load(FIXTURE.hash)).toEqual(FIXTURE)
+    expect(await store.load('ffff')).toBeNull()
+  })
+
+  it('refuses hashes that are not hex', async () => {
+    await expect(new FileFixtureStore(dir).load('../secrets')).rejects.toThrow('Invalid fixture hash: ../secrets')
+  })
+})
+
+describe('readFixtureEnvironment', () => {
+  it('is off without a fixtures directory', () => {
+    expect(readFixtureEnvironment(env({ LLM_REPLAY_LATENCY_MS: '250' }))).toBeNull()
+  })
+
+  it('reads latency, failures and the seed', () => {
+    const setup = readFixtureEnvironment(env({
+      LLM_FIXTURES_DIR: dir,
+      LLM_FIXTURES_RECORD: 'true',
+      LLM_REPLAY_LATENCY_MS: '100 - 400',
+      LLM_REPLAY_FAILURES: 'rate_limit:0.1, timeout:0.05,malformed_json,explode:1',
+      LLM_REPLAY_SEED: '42'
+    }))
+
+    expect(setup?.record).toBe(true)
+    expect(setup?.replay).toEqual({
+      latencyMs: [100, 400],
+      failures: [{ kind: 'rate_limit', rate: 0.1 }, { kind: 'timeout', rate: 0.05 }, { kind: 'malformed_json' }],
+      seed: 42
+    })
+  })
+
+  it('falls back to no latency and no seed for values it cannot read', () => {
+    const setup = readFixtureEnvironment(env({ LLM_FIXTURES_DIR: dir, LLM_REPLAY_LATENCY_MS: 'slow', LLM_REPLAY_SEED: 'abc' }))
+
+    expect(setup?.record).toBe(false)
+    expect(setup?.replay).toEqual({ latencyMs: 0, failures: [] })
+  })
+})
@@ -0,0 +1,82 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { Fixture, FixtureStore, InjectedFailure, InjectedFailureKind, ReplayOptions } from './replay'
+
+/**
+ * CASCADE LIVING OS - FIXTURE FILES
+ * =================================
+ * Fixtures on disk, one `<hash>.json` per request, for Node: the gateway,
+ * scripts and test runners. Kept apart from ./replay so browser bundles
+ * never pull in `fs`.
+ *
+ * The gateway reads its setup from the environment:
+ * - LLM_FIXTURES_DIR: where fixtures live; enables the `replay` provider
+ * - LLM_FIXTURES_RECORD: `true` to save every real answer there
+ * - LLM_REPLAY_LATENCY_MS: `250`, a range `100-400`, or `recorded`
+ * - LLM_REPLAY_FAILURES: e.g. `rate_limit:0.1,timeout:0.05,malformed_json`
+ * - LLM_REPLAY_SEED: seed for latency ranges and failure rates
+ */
+
+const FAILURE_KINDS: InjectedFailureKind[] = ['rate_limit', 'overloaded', 'timeout', 'malformed_json']
+
+export class FileFixtureStore implements FixtureStore {
+  constructor(private readonly dir: string) {}
+
+  async load(hash: string): Promise<Fixture | null> {
+    try {
+      return JSON.parse(await readFile(this.path(hash), 'utf8')) as Fixture
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async save(fixture: Fixture): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    await writeFile(this.path(fixture.hash), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8')
+  }
+
+  private path(hash: string): string {
+    // Hashes are hex; anything else never reaches the file system
+    if (!/^[0-9a-f]+$/.test(hash)) throw new Error(`Invalid fixture hash: ${hash}`)
+    return join(this.dir, `${hash}.json`)
+  }
+}
+
+export interface FixtureEnvironment {
+  store: FileFixtureStore
+  record: boolean
+  replay: ReplayOptions
+}
+
+/**
+ * Fixture setup from the environment, or null when LLM_FIXTURES_DIR is unset
+ */
+export function readFixtureEnvironment(env: NodeJS.ProcessEnv = process.env): FixtureEnvironment | null {
+  if (!env.LLM_FIXTURES_DIR) return null
+
+  const latency = env.LLM_REPLAY_LATENCY_MS?.trim()
+  const range = latency?.match(/^(\d+)\s*-\s*(\d+)$/)
+  const failures: InjectedFailure[] = (env.LLM_REPLAY_FAILURES ?? '')
+    .split(',')
+    .map(entry => entry.trim().split(':'))
+    .filter(([kind]) => FAILURE_KINDS.includes(kind as InjectedFailureKind))
+    .map(([kind, rate]) => ({
+      kind: kind as InjectedFailureKind,
+      ...(rate !== undefined && Number.isFinite(Number(rate)) ? { rate: Number(rate) } : {})
+    }))
+  const seed = Number(env.LLM_REPLAY_SEED)
+
+  return {
+    store: new FileFixtureStore(env.LLM_FIXTURES_DIR),
+    record: env.LLM_FIXTURES_RECORD === 'true',
+    replay: {
+      latencyMs: latency === 'recorded' ? 'recorded'
+        : range ? [Number(range[1]), Number(range[2])]
+        : latency && Number.isFinite(Number(latency)) ? Number(latency)
+        : 0,
+      failures,
+      ...(Number.isFinite(seed) && env.LLM_REPLAY_SEED ? { seed } : {})
+    }
+  }
+}
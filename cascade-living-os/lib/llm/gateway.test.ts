@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LLMMessage } from './provider'
+
+const MESSAGES: LLMMessage[] = [{ role: 'user', content: 'Hello' }]
+
+function aiRequest(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost:3000/api/ai', { method: 'POST', headers: { host: 'localhost:3000', ...headers } })
+}
+
+function completion(content: string) {
+  return { choices: [{ message: { content } }], usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } }
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  for (const name of ['ANTHROPIC_API_KEY', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'OPENAI_BASE_URL', 'CASCADE_ALLOWED_OPENAI_URLS', 'LLM_FIXTURES_DIR']) {
+    vi.stubEnv(name, '')
+  }
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('requireMessages', () => {
+  it('keeps only the fields of each message', async () => {
+    const { requireMessages } = await import('./gateway')
+
+    expect(requireMessages([{ role: 'user', content: 'Hi', timestamp: 1, extra: true }])).toEqual([{ role: 'user', content: 'Hi' }])
+  })
+
+  it('rejects anything but a non-empty conversation', async () => {
+    const { requireMessages } = await import('./gateway')
+
+    for (const value of [[], 'Hi', [{ role: 'tool', content: 'Hi' }], [{ role: 'assistant', content: '', toolCalls: [{ id: 1 }] }]]) {
+      expect(() => requireMessages(value)).toThrow(expect.objectContaining({ code: 'bad_request', status: 400 }))
+    }
+  })
+})
+
+describe('gatewayRespond', () => {
+  it('answers with the provider name and the prompt versions used', async () => {
+    const { gatewayRespond } = await import('./gateway')
+
+    const response = await gatewayRespond(MESSAGES, { provider: 'mock' }, aiRequest(), ['journal'])
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ provider: 'mock', promptVersions: ['system@1', 'journal@1'] })
+  })
+
+  it('refuses cross-site requests', async () => {
+    const { gatewayRespond, gatewayError } = await import('./gateway')
+
+    const error = await gatewayRespond(MESSAGES, { provider: 'mock' }, aiRequest({ 'sec-fetch-site': 'cross-site' })).catch(e => e)
+
+    expect(error).toMatchObject({ code: 'forbidden', status: 403 })
+    expect(gatewayError(error).status).toBe(403)
+  })
+
+  it('reports a missing key for a provider nobody configured', async () => {
+    const { gatewayRespond, gatewayError } = await import('./gateway')
+
+    const response = gatewayError(await gatewayRespond(MESSAGES, { provider: 'anthropic' }, aiRequest()).catch(e => e))
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Anthropic API key not configured', code: 'missing_key' })
+  })
+
+  it('passes the wait a rate-limited provider asked for on to the browser', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('slow down', { status: 429, headers: { 'retry-after': '60' } })))
+    const { gatewayRespond, gatewayError } = await import('./gateway')
+
+    const response = gatewayError(await gatewayRespond(MESSAGES, { provider: 'openai', openaiUrl: 'http://localhost:1234/v1' }, aiRequest()).catch(e => e))
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('60')
+    expect(await response.json()).toMatchObject({ code: 'rate_limited' })
+  })
+})
+
+describe('OpenAI base URLs', () => {
+  it('send the server key only to the server-approved URL', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'server-key')
+    const fetch = vi.fn(async () => Response.json(completion('Hi')))
+    vi.stubGlobal('fetch', fetch)
+    const { gatewayComplete } = await import('./gateway')
+
+    await gatewayComplete(MESSAGES, { provider: 'openai', openaiUrl: 'https://attacker.example/v1' }, aiRequest().headers)
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('https://api.openai.com/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer server-key' })
+  })
+
+  it('use a browser-picked URL with the key sent alongside it', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'server-key')
+    const fetch = vi.fn(async () => Response.json(completion('Hi')))
+    vi.stubGlobal('fetch', fetch)
+    const { gatewayComplete } = await import('./gateway')
+
+    await gatewayComplete(MESSAGES, { provider: 'openai', openaiUrl: 'http://localhost:1234/v1' }, aiRequest({ 'x-openai-key': 'own-key' }).headers)
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://localhost:1234/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer own-key' })
+  })
+})
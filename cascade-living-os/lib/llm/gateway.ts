@@ -0,0 +1,442 @@
+import { NextResponse } from 'next/server'
+import {
+  CASCADELLMClient,
+  CASCADEProviderName,
+  DEFAULT_LOCAL_URL,
+  DEFAULT_MODELS,
+  DEFAULT_OPENAI_BASE_URL,
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  PROVIDER_MAP,
+  providerName
+} from './provider'
+import { isAbortError, toAIStreamResponse } from './streaming'
+import { ProviderErrorKind, classifyError } from './resilience'
+import { LLMToolCall, LLMToolResult } from './tool-use'
+import { CASCADE_TOOLS } from './cascade-tools'
+import { readFixtureEnvironment } from './fixture-files'
+import { CREDENTIAL_NAMES, CredentialName } from '@/lib/credentials/protocol'
+import { CREDENTIAL_ENV, getCredentialStore } from '@/lib/credentials/store'
+import { originProblem, sessionExpiry } from '@/lib/credentials/session'
+import { StructuredOutputError, StructuredResult, StructuredTask, completeStructured } from './structured'
+import {
+  PromptId,
+  PromptOverrides,
+  buildSystemPrompt,
+  promptVersion,
+  readPromptOverrides,
+  withConversationSummary
+} from './prompts'
+
+/**
+ * CASCADE LIVING OS - LLM GATEWAY
+ * ===============================
+ * Server side of every AI request. /api/ai and its task routes (journal
+ * analysis, the Oracle) hand the gateway a conversation; it builds a
+ * CASCADELLMClient and runs it through the provider fallback chain.
+ *
+ * Provider keys never come from the browser. Requests with a settings
+ * session use the keys in the server's credential store, others the
+ * environment; non-browser clients may send `x-<provider>-key` headers.
+ * A key the server holds is only sent to the OpenAI base URL the server
+ * names (OPENAI_BASE_URL, or those in CASCADE_ALLOWED_OPENAI_URLS); a URL
+ * from the browser is used with the browser's own key or none.
+ * Cross-origin requests are refused.
+ *
+ * With `tools: true` the model may call the CASCADE tools; the calls come
+ * back to the browser, which runs them and sends the results in the next
+ * request's messages. A `summary` of turns the browser evicted from the
+ * context window is appended to the system prompt. `promptOverrides`
+ * carries the templates the user edited in Settings; successful answers
+ * name the template versions they were built from in `promptVersions`.
+ * With LLM_FIXTURES_DIR set, the `replay` provider answers from recorded
+ * fixtures (see ./fixture-files).
+ *
+ * Every failure is answered with the same body: `{ error, code }`. Rate
+ * limits, open circuits and timeouts get their own codes, with a
+ * Retry-After header when the provider named a wait. A structured reply
+ * that stays invalid after repairs is `invalid_output`, with its `issues`.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * Endpoints and models the browser sends; each falls back to the environment.
+ * `openaiUrl` is ignored when it would receive a key held by the server.
+ */
+export interface GatewayCredentials {
+  localUrl?: string
+  localModel?: string
+  openaiUrl?: string     // any OpenAI-compatible server, e.g. LM Studio or vLLM
+  openaiModel?: string
+}
+
+export interface GatewayOptions extends GatewayCredentials {
+  provider?: CASCADEProviderName
+  fallbackProviders?: CASCADEProviderName[]
+  model?: string         // a model of `provider`; fallbacks use their own
+  maxTokens?: number
+  temperature?: number
+  systemPrompt?: string
+  summary?: string       // running summary of earlier turns, sent with the system prompt
+  promptOverrides?: PromptOverrides
+  stream?: boolean
+  timeoutMs?: number     // per provider attempt
+  tools?: boolean        // offer the CASCADE tools
+}
+
+export type GatewayErrorCode =
+  | 'bad_request'
+  | 'forbidden'
+  | 'missing_key'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'timeout'
+  | 'invalid_output'
+  | 'provider_failed'
+  | 'cancelled'
+  | 'internal'
+
+export interface GatewayErrorBody {
+  error: string
+  code: GatewayErrorCode
+  issues?: string[]      // invalid_output: what the last reply got wrong
+}
+
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly code: GatewayErrorCode,
+    public readonly status: number,
+    public readonly retryAfterMs?: number,
+    public readonly issues?: string[]
+  ) {
+    super(message)
+    this.name = 'GatewayError'
+  }
+}
+
+const MISSING_KEY_MESSAGES: Record<CASCADEProviderName, string> = {
+  anthropic: 'Anthropic API key not configured',
+  gemini: 'Gemini API key not configured',
+  openai: 'OpenAI-compatible provider not configured',
+  local: 'Local model not configured',
+  mock: 'Mock provider unavailable',
+  replay: 'Replay fixtures not configured (set LLM_FIXTURES_DIR)'
+}
+
+// How a provider failure is answered; anything else is provider_failed (502)
+const PROVIDER_FAILURES: Partial<Record<ProviderErrorKind, { code: GatewayErrorCode; status: number }>> = {
+  rate_limit: { code: 'rate_limited', status: 429 },
+  overloaded: { code: 'unavailable', status: 503 },
+  circuit_open: { code: 'unavailable', status: 503 },
+  timeout: { code: 'timeout', status: 504 }
+}
+
+const ROLES: LLMMessage['role'][] = ['user', 'assistant', 'system']
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/**
+ * The JSON body of a request, or a `bad_request` GatewayError
+ */
+export async function readGatewayBody<T extends GatewayOptions>(request: Request): Promise<T> {
+  try {
+    const body = await request.json()
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body as T
+  } catch {
+    // Reported below
+  }
+  throw new GatewayError('Request body must be a JSON object', 'bad_request', 400)
+}
+
+/**
+ * `value` as a conversation, or a `bad_request` GatewayError
+ */
+export function requireMessages(value: unknown): LLMMessage[] {
+  const valid = Array.isArray(value) && value.length > 0 && value.every(m =>
+    m && typeof m === 'object' && ROLES.includes(m.role) && typeof m.content === 'string' &&
+    (m.toolCalls === undefined || (Array.isArray(m.toolCalls) && m.toolCalls.every(isToolCall))) &&
+    (m.toolResults === undefined || (Array.isArray(m.toolResults) && m.toolResults.every(isToolResult)))
+  )
+  if (!valid) {
+    throw new GatewayError('`messages` must be a non-empty array of {role, content} objects', 'bad_request', 400)
+  }
+  return (value as LLMMessage[]).map(m => ({
+    role: m.role,
+    content: m.content,
+    ...(m.toolCalls?.length ? { toolCalls: m.toolCalls.map(({ id, name, arguments: args }) => ({ id, name, arguments: args })) } : {}),
+    ...(m.toolResults?.length ? {
+      toolResults: m.toolResults.map(({ callId, name, content, isError }) => ({ callId, name, content, isError: isError === true }))
+    } : {})
+  }))
+}
+
+function isToolCall(value: unknown): value is LLMToolCall {
+  const call = value as LLMToolCall
+  return !!call && typeof call.id === 'string' && typeof call.name === 'string' &&
+    !!call.arguments && typeof call.arguments === 'object' && !Array.isArray(call.arguments)
+}
+
+function isToolResult(value: unknown): value is LLMToolResult {
+  const result = value as LLMToolResult
+  return !!result && typeof result.callId === 'string' && typeof result.name === 'string' && typeof result.content === 'string'
+}
+
+/**
+ * A non-empty string field of the body, or a `bad_request` GatewayError
+ */
+export function requireText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new GatewayError(`\`${field}\` must be a non-empty string`, 'bad_request', 400)
+  }
+  return value
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+interface ResolvedKey {
+  value: string
+  serverHeld: boolean    // from the credential store or the environment, not the request
+}
+
+// Provider keys: a header from non-browser clients, else the credential
+// store for requests with a session, else the environment
+async function resolveKeys(headers: Headers): Promise<Record<CredentialName, ResolvedKey | undefined>> {
+  const store = sessionExpiry(headers) !== null ? getCredentialStore() : null
+  const keys = {} as Record<CredentialName, ResolvedKey | undefined>
+  for (const name of CREDENTIAL_NAMES) {
+    const sent = headers.get(`x-${name}-key`)
+    if (sent) {
+      keys[name] = { value: sent, serverHeld: false }
+      continue
+    }
+    let stored: string | undefined
+    try {
+      stored = await store?.get(name)
+    } catch (error) {
+      console.error(`Failed to read the stored ${name} key:`, error)
+    }
+    const value = stored || process.env[CREDENTIAL_ENV[name]]
+    keys[name] = value ? { value, serverHeld: true } : undefined
+  }
+  return keys
+}
+
+// OpenAI base URLs the server's own key may go to
+function isServerOpenAIUrl(url: string): boolean {
+  const normalize = (entry: string) => entry.trim().replace(/\/+$/, '')
+  const allowed = [
+    process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    ...(process.env.CASCADE_ALLOWED_OPENAI_URLS ?? '').split(',')
+  ].map(normalize).filter(Boolean)
+  return allowed.includes(normalize(url))
+}
+
+// A client holding only this request's credentials and settings
+async function createClient(options: GatewayOptions, headers: Headers): Promise<CASCADELLMClient> {
+  const problem = originProblem(headers)
+  if (problem) throw new GatewayError(problem, 'forbidden', 403)
+
+  const client = new CASCADELLMClient()
+  const requested = options.provider ?? 'mock'
+  if (!PROVIDER_MAP[requested]) {
+    throw new GatewayError(`Unknown provider: ${requested}`, 'bad_request', 400)
+  }
+
+  const basePrompt = options.systemPrompt || buildSystemPrompt(readPromptOverrides(options.promptOverrides))
+  const systemPrompt = typeof options.summary === 'string' && options.summary.trim()
+    ? withConversationSummary(basePrompt, options.summary.trim())
+    : basePrompt
+
+  const configure = (name: CASCADEProviderName, config: { model?: string; apiKey?: string; baseUrl?: string }) => {
+    const provider = PROVIDER_MAP[name]
+    client.configureProvider({
+      ...config,
+      provider,
+      model: (name === requested && options.model) || config.model || DEFAULT_MODELS[provider],
+      maxTokens: options.maxTokens ?? 4096,
+      temperature: options.temperature ?? 0.7,
+      systemPrompt
+    })
+  }
+
+  const keys = await resolveKeys(headers)
+  // Never hand the server's key to a URL the browser picked
+  const openaiUrl = options.openaiUrl && (!keys.openai?.serverHeld || isServerOpenAIUrl(options.openaiUrl))
+    ? options.openaiUrl
+    : process.env.OPENAI_BASE_URL
+
+  if (keys.anthropic) {
+    configure('anthropic', { apiKey: keys.anthropic.value, model: process.env.ANTHROPIC_MODEL })
+  }
+  if (keys.gemini) {
+    configure('gemini', { apiKey: keys.gemini.value, model: process.env.GEMINI_MODEL })
+  }
+  // Local OpenAI-compatible servers usually need no key
+  if (keys.openai || openaiUrl) {
+    configure('openai', {
+      apiKey: keys.openai?.value ?? '',
+      model: options.openaiModel || process.env.OPENAI_MODEL,
+      baseUrl: openaiUrl || DEFAULT_OPENAI_BASE_URL
+    })
+  }
+  configure('local', {
+    model: options.localModel || process.env.LOCAL_MODEL_NAME,
+    baseUrl: options.localUrl || process.env.LOCAL_MODEL_URL || DEFAULT_LOCAL_URL
+  })
+  configure('mock', {})
+
+  // Fixtures on disk: the replay provider answers from them, and with
+  // recording on, every real answer is saved there
+  const fixtures = readFixtureEnvironment()
+  if (fixtures) {
+    client.configureReplay(fixtures.store, fixtures.replay)
+    configure('replay', {})
+    if (fixtures.record) client.recordFixtures(fixtures.store)
+  }
+
+  // Try the requested provider, then each configured fallback in order
+  const available = client.getAvailableProviders()
+  const chain = [requested, ...(options.fallbackProviders ?? []).filter(p => p !== requested)]
+    .map(name => PROVIDER_MAP[name])
+    .filter((provider): provider is LLMProvider => provider !== undefined)
+  const usable = chain.filter(provider => available.includes(provider))
+
+  if (usable.length === 0) {
+    throw new GatewayError(MISSING_KEY_MESSAGES[requested], 'missing_key', 401)
+  }
+
+  client.setPrimaryProvider(usable[0])
+  client.setFallbackOrder(usable.slice(1))
+  if (typeof options.timeoutMs === 'number' && options.timeoutMs > 0) {
+    client.setRetryPolicy({ timeoutMs: options.timeoutMs })
+  }
+  return client
+}
+
+// The GatewayError for a failure of the last provider tried
+function providerFailure(error: unknown): GatewayError {
+  if (error instanceof StructuredOutputError) {
+    return new GatewayError(error.message, 'invalid_output', 502, undefined, error.issues)
+  }
+  const failure = classifyError(error)
+  const { code, status } = PROVIDER_FAILURES[failure.kind] ?? { code: 'provider_failed' as const, status: 502 }
+  return new GatewayError(failure.message, code, status, failure.retryAfterMs)
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/**
+ * Versions of the templates behind a request: the system prompt (`custom`
+ * when the request supplied its own), then each task template
+ */
+export function gatewayPromptVersions(options: GatewayOptions, ...tasks: PromptId[]): string[] {
+  const overrides = readPromptOverrides(options.promptOverrides)
+  return [
+    options.systemPrompt ? 'custom' : promptVersion('system', overrides),
+    ...tasks.map(id => promptVersion(id, overrides))
+  ]
+}
+
+/**
+ * Answer a conversation with the first provider that succeeds
+ */
+export async function gatewayComplete(
+  messages: LLMMessage[],
+  options: GatewayOptions,
+  headers: Headers
+): Promise<LLMResponse> {
+  const client = await createClient(options, headers)
+  try {
+    return await client.complete(messages, { tools: options.tools ? CASCADE_TOOLS : undefined })
+  } catch (error) {
+    throw providerFailure(error)
+  }
+}
+
+/**
+ * Answer a conversation with a reply of `task`'s schema, repairing invalid
+ * replies a bounded number of times
+ */
+export async function gatewayStructured<T>(
+  messages: LLMMessage[],
+  task: StructuredTask<T>,
+  options: GatewayOptions,
+  headers: Headers
+): Promise<StructuredResult<T>> {
+  const client = await createClient(options, headers)
+  try {
+    return await completeStructured(client, messages, task)
+  } catch (error) {
+    throw providerFailure(error)
+  }
+}
+
+/**
+ * Answer a conversation as JSON, or as server-sent events with `stream: true`.
+ * `tasks` are the templates the messages were built from. Aborting
+ * `request` stops the provider request too.
+ */
+export async function gatewayRespond(
+  messages: LLMMessage[],
+  options: GatewayOptions,
+  request: Request,
+  tasks: PromptId[] = []
+): Promise<Response> {
+  const promptVersions = gatewayPromptVersions(options, ...tasks)
+  if (!options.stream) {
+    const response = await gatewayComplete(messages, options, request.headers)
+    return NextResponse.json({
+      ...response,
+      provider: providerName(response.provider),
+      promptVersions
+    })
+  }
+
+  const client = await createClient(options, request.headers)
+  try {
+    const stream = await client.openStream(messages, {
+      signal: request.signal,
+      tools: options.tools ? CASCADE_TOOLS : undefined
+    })
+    return await toAIStreamResponse(stream.chunks, { provider: providerName(stream.provider), model: stream.model, promptVersions })
+  } catch (error) {
+    if (request.signal.aborted) throw error
+    throw providerFailure(error)
+  }
+}
+
+/**
+ * The response for anything a gateway route throws
+ */
+export function gatewayError(error: unknown): NextResponse<GatewayErrorBody> {
+  if (error instanceof GatewayError) {
+    if (error.status >= 500 || error.status === 429) console.warn('AI gateway provider failure:', error.message)
+    const headers: Record<string, string> = error.retryAfterMs !== undefined
+      ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+      : {}
+    return NextResponse.json(
+      { error: error.message, code: error.code, ...(error.issues ? { issues: error.issues } : {}) },
+      { status: error.status, headers }
+    )
+  }
+  if (isAbortError(error)) {
+    return NextResponse.json({ error: 'Request cancelled', code: 'cancelled' }, { status: 499 })
+  }
+
+  console.error('AI gateway error:', error)
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Internal server error', code: 'internal' },
+    { status: 500 }
+  )
+}
@@ -17,10 +17,19 @@ export {
   AnthropicModel,
   GeminiModel,
   
+  // Defaults
+  DEFAULT_OPENAI_BASE_URL,
+  DEFAULT_OPENAI_MODEL,
+  DEFAULT_LOCAL_URL,
+  DEFAULT_MODELS,
+  PROVIDER_MAP,
+  
   // Types
+  type CASCADEProviderName,
   type LLMConfig,
   type LLMMessage,
   type LLMResponse,
+  type LLMStream,
   type AURAConstraints,
   
   // Client
@@ -29,6 +38,98 @@ export {
   createLLMHook
 } from './provider'
 
+// Prompt exports
+export {
+  CASCADE_SYSTEM_PROMPT,
+  PROMPT_TEMPLATES,
+  buildSystemPrompt,
+  buildJournalPrompt,
+  buildOraclePrompt,
+  buildSummaryPrompt,
+  withConversationSummary,
+  renderPrompt,
+  promptVersion,
+  readPromptOverrides,
+  type AnalysisContext,
+  type PromptId,
+  type PromptTemplate,
+  type PromptOverrides
+} from './prompts'
+
+// Context window exports
+export {
+  DEFAULT_HISTORY_BUDGET,
+  assembleContext,
+  contextWindowFor,
+  estimateTokens,
+  estimateMessageTokens,
+  type ContextAssembly,
+  type ContextTokens
+} from './context'
+
+// Structured output exports
+export {
+  DEFAULT_MAX_REPAIRS,
+  StructuredOutputError,
+  completeStructured,
+  validateSchema,
+  extractJSON,
+  type Schema,
+  type StructuredTask,
+  type StructuredResult
+} from './structured'
+
+export {
+  JOURNAL_ANALYSIS,
+  ORACLE_READING,
+  PYRAMID_SUGGESTIONS,
+  type JournalAnalysis,
+  type OracleReading,
+  type PyramidSuggestion
+} from './schemas'
+
+// Record & replay exports
+export {
+  MemoryFixtureStore,
+  ReplayProvider,
+  fixtureRequest,
+  hashFixtureRequest,
+  recordFixture,
+  type Fixture,
+  type FixtureRequest,
+  type FixtureResponse,
+  type FixtureStore,
+  type InjectedFailure,
+  type ReplayOptions
+} from './replay'
+
+// Resilience exports
+export {
+  DEFAULT_RETRY_POLICY,
+  ProviderError,
+  CircuitBreaker,
+  getCircuitBreaker,
+  type ProviderErrorKind,
+  type CircuitState,
+  type RetryPolicy,
+  type ProviderHealth
+} from './resilience'
+
+// Tool use exports
+export {
+  validateToolArguments,
+  type LLMTool,
+  type LLMToolCall,
+  type LLMToolResult
+} from './tool-use'
+
+export {
+  CASCADE_TOOLS,
+  isWriteTool,
+  describeToolCall,
+  type CascadeToolName
+} from './cascade-tools'
+
 // Agent exports
 export {
   // Enums
@@ -73,17 +174,25 @@ export {
 // UNIFIED INITIALIZATION
 // ============================================================================
 
-import { getLLMClient } from './provider'
+import { getLLMClient, PROVIDER_MAP, type CASCADEProviderName } from './provider'
 import { getAgentManager } from './agents'
 import { getMemoryStore } from './memory'
+import { electLeader } from '@/lib/db/tab-channel'
+
+// Leaves the agents election; agents run in one tab at a time
+let resignAgents: (() => void) | null = null
 
 export interface CASCADELLMConfig {
   anthropicApiKey?: string
   geminiApiKey?: string
   localModelUrl?: string
   localModelName?: string
+  openaiApiKey?: string
+  openaiBaseUrl?: string     // OpenAI or any compatible server
+  openaiModel?: string
   enableAgents?: boolean
-  primaryProvider?: 'anthropic' | 'gemini' | 'local' | 'mock'
+  primaryProvider?: CASCADEProviderName
+  fallbackProviders?: CASCADEProviderName[]
 }
 
 /**
@@ -108,23 +217,28 @@ export function initializeCASCADELLM(config: CASCADELLMConfig = {}): {
   }
   
   if (config.localModelUrl) {
-    llm.configureLocal(config.localModelName || 'llama2', config.localModelUrl)
+    llm.configureLocal(config.localModelName, config.localModelUrl)
+  }
+  
+  if (config.openaiBaseUrl || config.openaiApiKey) {
+    llm.configureOpenAI(config.openaiApiKey, config.openaiModel, config.openaiBaseUrl)
   }
   
   // Set primary provider
   if (config.primaryProvider) {
-    const providerMap = {
-      anthropic: 'ANTHROPIC',
-      gemini: 'GEMINI',
-      local: 'LOCAL',
-      mock: 'MOCK'
-    } as const
-    llm.setPrimaryProvider(providerMap[config.primaryProvider] as any)
+    llm.setPrimaryProvider(PROVIDER_MAP[config.primaryProvider])
+  }
+  
+  if (config.fallbackProviders) {
+    llm.setFallbackOrder(config.fallbackProviders.map(name => PROVIDER_MAP[name]))
   }
   
-  // Start agents if enabled
-  if (config.enableAgents !== false) {
-    agents.startAll()
+  // Start agents if enabled, in whichever tab wins the election
+  if (config.enableAgents !== false && !resignAgents) {
+    resignAgents = electLeader('agents', {
+      onLead: () => agents.startAll(),
+      onResign: () => agents.stopAll()
+    })
   }
   
   // Apply memory decay on init
@@ -137,6 +251,8 @@ export function initializeCASCADELLM(config: CASCADELLMConfig = {}): {
  * Shutdown the LLM subsystem
  */
 export function shutdownCASCADELLM(): void {
+  resignAgents?.()
+  resignAgents = null
   const agents = getAgentManager()
   agents.stopAll()
 }
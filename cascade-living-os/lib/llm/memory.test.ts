@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage, stubBrowserWindow } from '@/lib/db/testing'
+
+async function loadMemory() {
+  vi.resetModules()
+  return import('./memory')
+}
+
+beforeEach(() => {
+  stubBrowserStorage()
+  stubBrowserWindow()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('MemoryStore', () => {
+  it('keeps memories in IndexedDB across reloads', async () => {
+    const first = await loadMemory()
+    const store = first.getMemoryStore()
+    await store.ready
+    const memory = first.rememberConversation('Walked before work')
+    store.update(memory.id, { importance: first.MemoryImportance.HIGH })
+    await store.flush()
+
+    const { getAll } = await import('@/lib/db/repository')
+    expect(await getAll('memories')).toEqual([expect.objectContaining({ id: memory.id, importance: 4 })])
+
+    const reloaded = (await loadMemory()).getMemoryStore()
+    await reloaded.ready
+    expect(reloaded.peek(memory.id)?.content).toBe('Walked before work')
+  })
+
+  it('deletes memories from storage but never invariants', async () => {
+    const { getMemoryStore, rememberConversation, rememberInvariant } = await loadMemory()
+    const store = getMemoryStore()
+    await store.ready
+    const passing = rememberConversation('Rainy afternoon')
+    const core = rememberInvariant('Sovereignty first')
+
+    expect(store.delete(passing.id)).toBe(true)
+    expect(store.delete(core.id)).toBe(false)
+    await store.flush()
+
+    const { getAll } = await import('@/lib/db/repository')
+    expect((await getAll<{ id: string }>('memories')).map(m => m.id)).toEqual([core.id])
+  })
+
+  it('stores consolidations with the memories they produced', async () => {
+    const { getMemoryStore, rememberConversation } = await loadMemory()
+    const store = getMemoryStore()
+    await store.ready
+    const ids = [rememberConversation('Ran on Monday').id, rememberConversation('Ran on Tuesday').id]
+
+    const merged = store.consolidate(ids, 'Runs most weekdays')
+    await store.flush()
+
+    const reloaded = (await loadMemory()).getMemoryStore()
+    await reloaded.ready
+    expect(reloaded.peek(merged!.id)?.sourceMemories).toEqual(ids)
+    expect(reloaded.getStats().consolidationCount).toBe(1)
+  })
+})
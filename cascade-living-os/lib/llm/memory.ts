@@ -18,6 +18,12 @@
  * - Microorcim-linked memories
  */
 
+import { getCurrentActor, runAs } from '@/lib/db/audit'
+import { getAll, putMany, applyChanges, getDocument, putDocument, onExternalChange } from '@/lib/db/repository'
+import { DOCUMENTS } from '@/lib/db/schema'
+
+const MEMORIES = 'memories'
+
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
@@ -101,47 +107,83 @@ export interface MemoryStats {
 class MemoryStore {
   private memories: Map<string, Memory> = new Map()
   private consolidations: MemoryConsolidation[] = []
-  private storageKey = 'cascade-living-memory'
+  // Writes run one at a time, so a record's updates land in order
+  private writes: Promise<void> = Promise.resolve()
+  
+  /** Resolves once the stored memories have been read */
+  readonly ready: Promise<void>
   
   constructor() {
-    this.loadFromStorage()
+    this.ready = this.loadFromStorage()
+    if (typeof window !== 'undefined') {
+      onExternalChange(store => {
+        if (store === MEMORIES) void this.loadFromStorage()
+      })
+    }
   }
   
   /**
-   * Load memories from localStorage/IndexedDB
+   * Load memories from IndexedDB. Memories created before the load
+   * finished are kept.
    */
-  private loadFromStorage(): void {
+  private async loadFromStorage(): Promise<void> {
     if (typeof window === 'undefined') return
     
     try {
-      const stored = localStorage.getItem(this.storageKey)
-      if (stored) {
-        const data = JSON.parse(stored)
-        data.memories?.forEach((m: Memory) => this.memories.set(m.id, m))
-        this.consolidations = data.consolidations || []
-      }
+      const [stored, consolidations] = await Promise.all([
+        getAll<Memory>(MEMORIES),
+        getDocument<MemoryConsolidation[]>(DOCUMENTS.MEMORY_CONSOLIDATIONS.key)
+      ])
+      const loaded = new Map(stored.map(m => [m.id, m]))
+      this.memories.forEach((memory, id) => {
+        if (!loaded.has(id)) loaded.set(id, memory)
+      })
+      this.memories = loaded
+      this.consolidations = consolidations ?? this.consolidations
     } catch (error) {
       console.error('Failed to load memories:', error)
     }
   }
   
   /**
-   * Save memories to storage
+   * Queue a write, attributed to whoever made the change
    */
-  private saveToStorage(): void {
+  private persist(write: () => Promise<void>): void {
     if (typeof window === 'undefined') return
     
-    try {
-      const data = {
-        memories: Array.from(this.memories.values()),
-        consolidations: this.consolidations
-      }
-      localStorage.setItem(this.storageKey, JSON.stringify(data))
-    } catch (error) {
-      console.error('Failed to save memories:', error)
+    const actor = getCurrentActor()
+    this.writes = this.writes
+      .then(() => runAs(actor, write))
+      .catch(error => console.error('Failed to save memories:', error))
+  }
+  
+  /**
+   * Save changed memories, and the consolidation log with them
+   */
+  private saveToStorage(changed: Memory[], withConsolidations = false): void {
+    const snapshot = changed.map(memory => ({ ...memory }))
+    if (snapshot.length > 0) this.persist(() => putMany(MEMORIES, snapshot))
+    if (withConsolidations) {
+      const consolidations = [...this.consolidations]
+      this.persist(() => putDocument(DOCUMENTS.MEMORY_CONSOLIDATIONS.key, consolidations))
     }
   }
   
+  /**
+   * Delete memories from storage
+   */
+  private removeFromStorage(ids: string[]): void {
+    if (ids.length === 0) return
+    this.persist(() => applyChanges<Memory>(MEMORIES, { put: [], remove: ids }))
+  }
+  
+  /**
+   * Wait for every queued write to reach storage
+   */
+  flush(): Promise<void> {
+    return this.writes
+  }
+  
   /**
    * Generate unique memory ID
    */
@@ -176,7 +218,7 @@ class MemoryStore {
     }
     
     this.memories.set(memory.id, memory)
-    this.saveToStorage()
+    this.saveToStorage([memory])
     
     return memory
   }
@@ -189,7 +231,7 @@ class MemoryStore {
     if (memory) {
       memory.lastAccessedAt = Date.now()
       memory.accessCount++
-      this.saveToStorage()
+      this.saveToStorage([memory])
     }
     return memory
   }
@@ -212,7 +254,7 @@ class MemoryStore {
     const { id: _, createdAt: __, ...allowedUpdates } = updates
     
     Object.assign(memory, allowedUpdates)
-    this.saveToStorage()
+    this.saveToStorage([memory])
     
     return memory
   }
@@ -225,7 +267,7 @@ class MemoryStore {
     if (!memory || memory.type === MemoryType.INVARIANT) return false
     
     this.memories.delete(id)
-    this.saveToStorage()
+    this.removeFromStorage([id])
     
     return true
   }
@@ -321,6 +363,7 @@ class MemoryStore {
   applyDecay(): void {
     const now = Date.now()
     const dayInMs = 24 * 60 * 60 * 1000
+    const decayed: Memory[] = []
     
     this.memories.forEach(memory => {
       if (memory.type === MemoryType.INVARIANT) return
@@ -328,6 +371,7 @@ class MemoryStore {
       
       const daysSinceLastDecay = (now - memory.lastDecayAt) / dayInMs
       if (daysSinceLastDecay < 1) return
+      decayed.push(memory)
       
       // Decay based on access frequency
       const accessBonus = Math.log10(memory.accessCount + 1) * 0.1
@@ -342,7 +386,7 @@ class MemoryStore {
       memory.lastDecayAt = now
     })
     
-    this.saveToStorage()
+    this.saveToStorage(decayed)
   }
   
   /**
@@ -384,7 +428,7 @@ class MemoryStore {
       }
     })
     
-    this.saveToStorage()
+    this.saveToStorage(sources, true)
     return consolidated
   }
   
@@ -408,7 +452,7 @@ class MemoryStore {
       timestamp: Date.now()
     })
     
-    this.saveToStorage()
+    this.saveToStorage([], true)
     return patternMemory
   }
   
@@ -472,15 +516,39 @@ class MemoryStore {
    * Clear all non-invariant memories
    */
   clearEphemeral(): number {
-    let cleared = 0
+    const cleared: string[] = []
     this.memories.forEach((memory, id) => {
       if (memory.importance === MemoryImportance.EPHEMERAL) {
         this.memories.delete(id)
-        cleared++
+        cleared.push(id)
       }
     })
-    this.saveToStorage()
-    return cleared
+    this.removeFromStorage(cleared)
+    return cleared.length
+  }
+  
+  /**
+   * Drop related/source IDs of memories that no longer exist.
+   * Returns how many references were removed.
+   */
+  pruneOrphanReferences(): number {
+    let pruned = 0
+    const changed: Memory[] = []
+    const keep = (ids: string[]) => {
+      const kept = ids.filter(id => this.memories.has(id))
+      pruned += ids.length - kept.length
+      return kept
+    }
+    
+    this.memories.forEach(memory => {
+      const before = pruned
+      memory.relatedMemories = keep(memory.relatedMemories ?? [])
+      if (memory.sourceMemories) memory.sourceMemories = keep(memory.sourceMemories)
+      if (pruned > before) changed.push(memory)
+    })
+    
+    this.saveToStorage(changed)
+    return pruned
   }
   
   /**
@@ -500,13 +568,13 @@ class MemoryStore {
   import(json: string, merge: boolean = true): number {
     try {
       const data = JSON.parse(json)
-      let imported = 0
+      const imported: Memory[] = []
       
       if (data.memories) {
         data.memories.forEach((m: Memory) => {
           if (!merge || !this.memories.has(m.id)) {
             this.memories.set(m.id, m)
-            imported++
+            imported.push(m)
           }
         })
       }
@@ -515,8 +583,8 @@ class MemoryStore {
         this.consolidations.push(...data.consolidations)
       }
       
-      this.saveToStorage()
-      return imported
+      this.saveToStorage(imported, true)
+      return imported.length
     } catch (error) {
       console.error('Failed to import memories:', error)
       return 0
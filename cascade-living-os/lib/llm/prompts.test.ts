@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PROMPT_TEMPLATES,
+  PromptOverrides,
+  buildJournalPrompt,
+  promptVersion,
+  readPromptOverrides,
+  renderPrompt,
+  unknownPromptVariables
+} from './prompts'
+
+const OVERRIDES: PromptOverrides = {
+  journal: { text: 'Summarize: {{content}} ({{mood}}, {{weather}})', baseVersion: 1, updatedAt: 1 }
+}
+
+describe('prompt versions', () => {
+  it('name the template and, once overridden, a hash of the new text', () => {
+    expect(promptVersion('journal')).toBe('journal@1')
+    expect(promptVersion('journal', OVERRIDES)).toMatch(/^journal@1\+[0-9a-f]{8}$/)
+    expect(promptVersion('journal', { journal: { ...OVERRIDES.journal!, text: 'Other' } })).not.toBe(promptVersion('journal', OVERRIDES))
+  })
+
+  it('stay the default when an override repeats the default text', () => {
+    const same = { journal: { text: PROMPT_TEMPLATES.journal.text, baseVersion: 1, updatedAt: 1 } }
+
+    expect(promptVersion('journal', same)).toBe('journal@1')
+  })
+})
+
+describe('renderPrompt', () => {
+  it('fills in variables and leaves unknown ones empty', () => {
+    const { text } = renderPrompt('journal', { content: 'Walked', mood: '7/10' }, OVERRIDES)
+
+    expect(text).toBe('Summarize: Walked (7/10, )')
+  })
+
+  it('builds task prompts from the user\'s override', () => {
+    expect(buildJournalPrompt('Walked', { mood: 7 }, OVERRIDES)).toBe('Summarize: Walked (7/10, )')
+    expect(buildJournalPrompt('Walked')).toContain('No additional context provided.')
+  })
+})
+
+describe('unknownPromptVariables', () => {
+  it('lists each variable the template does not provide once', () => {
+    expect(unknownPromptVariables('journal', '{{content}} {{weather}} {{ weather }} {{city}}')).toEqual(['weather', 'city'])
+  })
+})
+
+describe('readPromptOverrides', () => {
+  it('keeps well-formed overrides of known templates only', () => {
+    const overrides = readPromptOverrides({
+      journal: { text: 'Summarize', updatedAt: 'yesterday' },
+      oracle: { text: '   ' },
+      unknown: { text: 'Hello', baseVersion: 1, updatedAt: 1 },
+      pyramid: 'Suggest blocks'
+    })
+
+    expect(overrides).toEqual({ journal: { text: 'Summarize', baseVersion: 1, updatedAt: 0 } })
+    expect(readPromptOverrides([{ text: 'Summarize' }])).toEqual({})
+  })
+})
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LLMMessage } from './provider'
+
+const MESSAGES: LLMMessage[] = [{ role: 'user', content: 'Hello' }]
+
+function completion(content: string) {
+  return {
+    model: 'served-model',
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 }
+  }
+}
+
+beforeEach(() => {
+  vi.resetModules()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('OpenAI-compatible provider', () => {
+  it('posts to the configured server with the key as a bearer token', async () => {
+    const fetch = vi.fn(async () => Response.json(completion('Hi')))
+    vi.stubGlobal('fetch', fetch)
+    const { CASCADELLMClient, LLMProvider } = await import('./provider')
+    const client = new CASCADELLMClient()
+    client.configureOpenAI('secret', 'local-model', 'http://localhost:1234/v1/')
+
+    const response = await client.complete(MESSAGES)
+
+    expect(response).toMatchObject({
+      content: 'Hi',
+      provider: LLMProvider.OPENAI,
+      model: 'served-model',
+      usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 }
+    })
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://localhost:1234/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' })
+    expect(JSON.parse(String(init.body))).toMatchObject({ model: 'local-model', messages: [{ role: 'system' }, { role: 'user', content: 'Hello' }] })
+  })
+
+  it('sends no Authorization header to servers without a key', async () => {
+    const fetch = vi.fn(async () => Response.json(completion('Hi')))
+    vi.stubGlobal('fetch', fetch)
+    const { CASCADELLMClient } = await import('./provider')
+    const client = new CASCADELLMClient()
+    client.configureOpenAI(undefined, undefined, 'http://localhost:8080/v1')
+
+    await client.complete(MESSAGES)
+
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(init.headers).not.toHaveProperty('Authorization')
+  })
+})
+
+describe('fallback order', () => {
+  it('moves on to the next provider when the primary one fails', async () => {
+    const fetch = vi.fn(async (url: string) => url.includes('anthropic')
+      ? new Response('invalid x-api-key', { status: 401 })
+      : Response.json(completion('From the fallback')))
+    vi.stubGlobal('fetch', fetch)
+    const { CASCADELLMClient, LLMProvider } = await import('./provider')
+    const client = new CASCADELLMClient()
+    client.configureAnthropic('bad-key')
+    client.configureOpenAI('secret')
+    client.setFallbackOrder([LLMProvider.OPENAI])
+
+    const response = await client.complete(MESSAGES)
+
+    expect(response).toMatchObject({ provider: LLMProvider.OPENAI, content: 'From the fallback' })
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.anthropic.com/v1/messages',
+      'https://api.openai.com/v1/chat/completions'
+    ])
+  })
+
+  it('throws the last failure once every provider has failed', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('invalid key', { status: 401 })))
+    const { CASCADELLMClient, LLMProvider } = await import('./provider')
+    const client = new CASCADELLMClient()
+    client.configureAnthropic('bad-key')
+    client.configureOpenAI('bad-key')
+
+    await expect(client.complete(MESSAGES, { fallbacks: [LLMProvider.OPENAI] }))
+      .rejects.toMatchObject({ kind: 'auth', message: expect.stringContaining('OpenAI-compatible API') })
+  })
+})
+
+describe('chat history', () => {
+  it('folds turns that no longer fit into the running summary', async () => {
+    const replies = ['We talked about walks', 'Keep walking']
+    const fetch = vi.fn(async () => Response.json({ message: { content: replies.shift() }, prompt_eval_count: 1, eval_count: 1 }))
+    vi.stubGlobal('fetch', fetch)
+    const { CASCADELLMClient } = await import('./provider')
+    const client = new CASCADELLMClient()
+    client.configureLocal('llama2')
+    const onSummary = vi.fn()
+    client.onHistorySummary(onSummary)
+    // Either exchange fits llama2's 4k window, but not both
+    for (const label of ['first', 'second']) {
+      client.addToHistory({ role: 'user', content: `${label} walk `.padEnd(6000, '.') })
+      client.addToHistory({ role: 'assistant', content: 'Noted' })
+    }
+
+    const response = await client.chat('What next?')
+
+    expect(response.content).toBe('Keep walking')
+    expect(onSummary).toHaveBeenCalledWith('We talked about walks')
+    expect(client.getHistory().map(m => m.content.slice(0, 6))).toEqual(['second', 'Noted', 'What n', 'Keep w'])
+    const [, init] = fetch.mock.calls[1] as unknown as [string, RequestInit]
+    const sent = JSON.parse(String(init.body)).messages
+    expect(sent[0].content).toContain('EARLIER IN THIS CONVERSATION (summarized):\nWe talked about walks')
+    expect(sent.slice(1).map((m: LLMMessage) => m.content.slice(0, 6))).toEqual(['second', 'Noted', 'What n'])
+  })
+})
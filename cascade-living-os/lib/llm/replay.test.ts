@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LLMMessage } from './provider'
+import { FixtureRequest, MemoryFixtureStore, ReplayProvider, fixtureRequest, hashFixtureRequest, recordFixture } from './replay'
+
+const RESPONSE = { provider: 'anthropic' as const, model: 'claude-sonnet-4-20250514', content: '{"assessment": "Steady"}' }
+
+function messages(date: string): LLMMessage[] {
+  return [
+    { role: 'system', content: 'Ignored; the prompt passed in wins' },
+    { role: 'user', content: `Today is ${date}.\n\n  How am I doing?`, timestamp: Date.now() },
+    { role: 'assistant', content: '', toolCalls: [{ id: `call-${date}`, name: 'get_today_metrics', arguments: {} }] }
+  ]
+}
+
+async function storeWith(request: FixtureRequest): Promise<MemoryFixtureStore> {
+  const store = new MemoryFixtureStore()
+  await recordFixture(store, request, RESPONSE, 120)
+  return store
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('fixtureRequest', () => {
+  it('keys requests alike whatever the date, ids and whitespace', () => {
+    const today = fixtureRequest(messages('2026-03-02'), 'Be  brief')
+    const tomorrow = fixtureRequest(messages('2026-03-03T09:00:00Z'), 'Be brief')
+
+    expect(today.messages).toEqual([
+      { role: 'user', content: 'Today is <date>. How am I doing?' },
+      { role: 'assistant', content: '', toolCalls: [{ name: 'get_today_metrics', arguments: {} }] }
+    ])
+    expect(hashFixtureRequest(tomorrow)).toBe(hashFixtureRequest(today))
+    expect(hashFixtureRequest(fixtureRequest(messages('2026-03-02'), 'Be verbose'))).not.toBe(hashFixtureRequest(today))
+  })
+})
+
+describe('ReplayProvider', () => {
+  const request = fixtureRequest(messages('2026-03-02'), 'Be brief')
+
+  it('answers from the recorded fixture', async () => {
+    const replay = new ReplayProvider(await storeWith(request), { latencyMs: 0 })
+
+    const { fixture } = await replay.respond(request)
+
+    expect(fixture.response).toEqual(RESPONSE)
+  })
+
+  it('names the hash of a request it has no fixture for', async () => {
+    const replay = new ReplayProvider(new MemoryFixtureStore())
+
+    await expect(replay.respond(request)).rejects.toMatchObject({
+      kind: 'bad_request',
+      message: `Replay error: no fixture for request ${hashFixtureRequest(request)}`
+    })
+  })
+
+  it('injects failures as many times as asked', async () => {
+    const replay = new ReplayProvider(await storeWith(request), {
+      failures: [{ kind: 'rate_limit', times: 1, retryAfterMs: 50 }, { kind: 'malformed_json', times: 1 }]
+    })
+
+    await expect(replay.respond(request)).rejects.toMatchObject({ kind: 'rate_limit', status: 429, retryAfterMs: 50 })
+    expect((await replay.respond(request)).fixture.response.content).toBe('{"assessment')
+    expect((await replay.respond(request)).fixture.response.content).toBe(RESPONSE.content)
+  })
+
+  it('fails the same requests for the same seed', async () => {
+    const store = await storeWith(request)
+    const outcomes = async (seed: number) => {
+      const replay = new ReplayProvider(store, { seed, failures: [{ kind: 'overloaded', rate: 0.5 }] })
+      const results: boolean[] = []
+      for (let i = 0; i < 8; i++) results.push(await replay.respond(request).then(() => true, () => false))
+      return results
+    }
+
+    const first = await outcomes(7)
+
+    expect(await outcomes(7)).toEqual(first)
+    expect(first).toContain(true)
+    expect(first).toContain(false)
+  })
+})
+
+describe('recording and replaying through the client', () => {
+  it('replays what a real provider answered', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      choices: [{ message: { content: 'Keep walking' } }],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+    })))
+    const { CASCADELLMClient, LLMProvider } = await import('./provider')
+    const store = new MemoryFixtureStore()
+    const recorder = new CASCADELLMClient()
+    recorder.configureOpenAI('secret')
+    recorder.recordFixtures(store)
+    await recorder.complete(messages('2026-03-02'))
+
+    const player = new CASCADELLMClient()
+    player.configureReplay(store)
+    const response = await player.complete(messages('2026-03-09'))
+
+    expect(store.list()).toHaveLength(1)
+    expect(response).toMatchObject({
+      provider: LLMProvider.REPLAY,
+      content: 'Keep walking',
+      usage: { inputTokens: 3, outputTokens: 2, totalTokens: 5 },
+      metadata: { recordedWith: 'openai' }
+    })
+  })
+})
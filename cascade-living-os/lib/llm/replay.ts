@@ -0,0 +1,308 @@
+import type { CASCADEProviderName, LLMMessage } from './provider'
+import type { LLMTool, LLMToolCall } from './tool-use'
+import type { StructuredTask } from './structured'
+import { ProviderError, sleep } from './resilience'
+
+/**
+ * CASCADE LIVING OS - RECORD & REPLAY
+ * ===================================
+ * Deterministic stand-ins for real providers, so anything that depends on
+ * AI output can be tested reproducibly.
+ *
+ * - Recording: a client given a fixture store saves every real answer,
+ *   whole replies and finished streams, as a fixture
+ * - Replay: the replay provider answers from those fixtures, keyed by a
+ *   hash of the normalized request, with configurable latency and injected
+ *   failures (rate limits, timeouts, malformed JSON)
+ *
+ * Requests are normalized before hashing: timestamps and tool call ids are
+ * dropped, whitespace collapsed and ISO dates masked, so a recording made
+ * today still answers tomorrow. The provider is not part of the key; a
+ * recording from any provider replays. Nothing here needs a browser; see
+ * ./fixture-files for fixtures on disk under Node.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * What a request asked, with everything that varies between runs removed
+ */
+export interface FixtureRequest {
+  system: string
+  messages: Array<{
+    role: 'user' | 'assistant'
+    content: string
+    toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>
+    toolResults?: Array<{ name: string; content: string; isError?: boolean }>
+  }>
+  tools: string[]        // names of the tools offered
+  output?: string        // structured task the reply had to match
+}
+
+export interface FixtureResponse {
+  provider: CASCADEProviderName   // that answered the recording
+  model: string
+  content: string
+  toolCalls?: LLMToolCall[]
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+    totalTokens: number
+  }
+}
+
+export interface Fixture {
+  hash: string
+  request: FixtureRequest
+  response: FixtureResponse
+  latency: number        // ms the recorded answer took
+  recordedAt: number
+}
+
+export interface FixtureStore {
+  load(hash: string): Promise<Fixture | null>
+  save(fixture: Fixture): Promise<void>
+}
+
+export type InjectedFailureKind = 'rate_limit' | 'overloaded' | 'timeout' | 'malformed_json'
+
+export interface InjectedFailure {
+  kind: InjectedFailureKind
+  rate?: number          // chance per request, 0-1 (default 1)
+  hashes?: string[]      // only requests with these hashes
+  times?: number         // stop after failing this many requests
+  retryAfterMs?: number  // rate_limit: the wait the "provider" asks for
+}
+
+export interface ReplayOptions {
+  latencyMs?: number | [number, number] | 'recorded'   // fixed, a range, or as recorded (default 0)
+  failures?: InjectedFailure[]
+  seed?: number          // for latency ranges and failure rates (default 1)
+}
+
+// Dates the prompts embed, e.g. the Oracle's "today"
+const VOLATILE_PATTERNS: RegExp[] = [
+  /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g
+]
+
+const DEFAULT_RETRY_AFTER_MS = 1000
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function normalizeText(text: string): string {
+  return VOLATILE_PATTERNS
+    .reduce((normalized, pattern) => normalized.replace(pattern, '<date>'), text)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * The fixture key of a conversation. System messages are folded into
+ * `systemPrompt`, which should be the prompt the provider would send.
+ */
+export function fixtureRequest(
+  messages: LLMMessage[],
+  systemPrompt: string,
+  options: { tools?: LLMTool[]; output?: StructuredTask<unknown> } = {}
+): FixtureRequest {
+  return {
+    system: normalizeText(systemPrompt),
+    messages: messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role as 'user' | 'assistant',
+        content: normalizeText(m.content),
+        ...(m.toolCalls?.length ? {
+          toolCalls: m.toolCalls.map(call => ({ name: call.name, arguments: call.arguments }))
+        } : {}),
+        ...(m.toolResults?.length ? {
+          toolResults: m.toolResults.map(result => ({
+            name: result.name,
+            content: normalizeText(result.content),
+            ...(result.isError ? { isError: true } : {})
+          }))
+        } : {})
+      })),
+    tools: (options.tools ?? []).map(tool => tool.name).sort(),
+    ...(options.output ? { output: options.output.name } : {})
+  }
+}
+
+// JSON with object keys sorted, so equal values always hash alike
+function stableJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJSON).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableJSON(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// Two FNV-1a passes with different offsets: 64 bits, plenty for a fixture set
+function fnv(text: string, offset: number): string {
+  let hash = offset
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+export function hashFixtureRequest(request: FixtureRequest): string {
+  const json = stableJSON(request)
+  return fnv(json, 0x811c9dc5) + fnv(json, 0x050c5d1f)
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Save an answer as the fixture for its request. A store that fails is
+ * reported, never thrown: the answer itself was fine.
+ */
+export async function recordFixture(
+  store: FixtureStore,
+  request: FixtureRequest,
+  response: FixtureResponse,
+  latency: number
+): Promise<Fixture | null> {
+  const fixture: Fixture = {
+    hash: hashFixtureRequest(request),
+    request,
+    response,
+    latency,
+    recordedAt: Date.now()
+  }
+  try {
+    await store.save(fixture)
+    return fixture
+  } catch (error) {
+    console.error(`Failed to record fixture ${fixture.hash}:`, error)
+    return null
+  }
+}
+
+/**
+ * Fixtures held in memory, e.g. imported JSON in a test
+ */
+export class MemoryFixtureStore implements FixtureStore {
+  private fixtures: Map<string, Fixture> = new Map()
+
+  constructor(fixtures: Fixture[] = []) {
+    fixtures.forEach(fixture => this.fixtures.set(fixture.hash, fixture))
+  }
+
+  async load(hash: string): Promise<Fixture | null> {
+    return this.fixtures.get(hash) ?? null
+  }
+
+  async save(fixture: Fixture): Promise<void> {
+    this.fixtures.set(fixture.hash, fixture)
+  }
+
+  list(): Fixture[] {
+    return Array.from(this.fixtures.values())
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+// mulberry32: small, fast and the same everywhere for a seed
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Never settles until the attempt's own deadline aborts it
+function hang(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (!signal) return reject(new ProviderError('Replay provider timed out (injected)', 'timeout'))
+    if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true })
+  })
+}
+
+// Cut off mid-reply, as a model that ran out of tokens would
+function malformed(content: string): string {
+  return content.slice(0, Math.max(1, Math.floor(content.length / 2)))
+}
+
+/**
+ * Answers requests from recorded fixtures. Latency and failures are drawn
+ * from a seeded generator, so a run with the same requests in the same
+ * order behaves the same every time. A request with no fixture fails as a
+ * bad request naming its hash.
+ */
+export class ReplayProvider {
+  private random: () => number
+  private fired: number[]
+
+  constructor(
+    private readonly store: FixtureStore,
+    private readonly options: ReplayOptions = {}
+  ) {
+    this.random = seededRandom(options.seed ?? 1)
+    this.fired = (options.failures ?? []).map(() => 0)
+  }
+
+  async respond(request: FixtureRequest, signal?: AbortSignal): Promise<{ fixture: Fixture; latency: number }> {
+    const hash = hashFixtureRequest(request)
+    const fixture = await this.store.load(hash)
+
+    const latency = this.latencyFor(fixture)
+    if (latency > 0) await sleep(latency, signal)
+
+    const failure = this.failureFor(hash)
+    if (failure?.kind === 'rate_limit') {
+      throw new ProviderError('Replay error: 429 - rate limited (injected)', 'rate_limit', 429, failure.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS)
+    }
+    if (failure?.kind === 'overloaded') {
+      throw new ProviderError('Replay error: 529 - overloaded (injected)', 'overloaded', 529)
+    }
+    if (failure?.kind === 'timeout') await hang(signal)
+
+    if (!fixture) {
+      throw new ProviderError(`Replay error: no fixture for request ${hash}`, 'bad_request')
+    }
+    if (failure?.kind === 'malformed_json') {
+      return { fixture: { ...fixture, response: { ...fixture.response, content: malformed(fixture.response.content) } }, latency }
+    }
+    return { fixture, latency }
+  }
+
+  private latencyFor(fixture: Fixture | null): number {
+    const latency = this.options.latencyMs ?? 0
+    if (latency === 'recorded') return fixture?.latency ?? 0
+    if (Array.isArray(latency)) return Math.round(latency[0] + this.random() * (latency[1] - latency[0]))
+    return latency
+  }
+
+  // The first failure that applies to this request, if any fires
+  private failureFor(hash: string): InjectedFailure | null {
+    const failures = this.options.failures ?? []
+    for (let i = 0; i < failures.length; i++) {
+      const failure = failures[i]
+      if (failure.hashes && !failure.hashes.includes(hash)) continue
+      if (failure.times !== undefined && this.fired[i] >= failure.times) continue
+      if (this.random() >= (failure.rate ?? 1)) continue
+      this.fired[i]++
+      return failure
+    }
+    return null
+  }
+}
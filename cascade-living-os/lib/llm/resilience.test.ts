@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { CircuitBreaker, ProviderError, parseRetryAfter } from './resilience'
+
+const overloaded = () => new ProviderError('Anthropic error: 529', 'overloaded', 529)
+
+// Trips the breaker after two failures, cooling down for a second
+function openBreaker(now: number): CircuitBreaker {
+  const breaker = new CircuitBreaker(2, 1000)
+  breaker.recordFailure('anthropic', overloaded(), now)
+  breaker.recordFailure('anthropic', overloaded(), now)
+  return breaker
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after repeated transient failures', () => {
+    const breaker = openBreaker(0)
+
+    expect(breaker.canAttempt('anthropic', 500)).toBe(false)
+    expect(breaker.rejection('anthropic', 500).kind).toBe('circuit_open')
+    expect(breaker.canAttempt('gemini', 500)).toBe(true)
+  })
+
+  it('does not count failures that are no sign of an outage', () => {
+    const breaker = new CircuitBreaker(2, 1000)
+    breaker.recordFailure('anthropic', new ProviderError('bad key', 'auth', 401), 0)
+    breaker.recordFailure('anthropic', new ProviderError('bad key', 'auth', 401), 0)
+
+    expect(breaker.canAttempt('anthropic', 0)).toBe(true)
+  })
+
+  it('lets a single probe through after the cooldown', () => {
+    const breaker = openBreaker(0)
+
+    expect(breaker.canAttempt('anthropic', 1000)).toBe(true)
+    expect(breaker.canAttempt('anthropic', 1000)).toBe(false)
+
+    breaker.recordSuccess('anthropic', 1100)
+    expect(breaker.health()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 })
+  })
+
+  it('doubles the cooldown when the probe fails', () => {
+    const breaker = openBreaker(0)
+    breaker.canAttempt('anthropic', 1000)
+
+    breaker.recordFailure('anthropic', overloaded(), 1000)
+
+    expect(breaker.health()[0]).toMatchObject({ state: 'open', retryAt: 3000 })
+  })
+
+  it('allows another probe once an aborted one is released', () => {
+    const breaker = openBreaker(0)
+    breaker.canAttempt('anthropic', 1000)
+
+    breaker.releaseProbe('anthropic')
+
+    expect(breaker.canAttempt('anthropic', 1000)).toBe(true)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads milliseconds, seconds and HTTP dates', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }))).toBe(250)
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }))).toBe(3000)
+    expect(parseRetryAfter(new Headers({ 'retry-after': new Date(5000).toUTCString() }), 1000)).toBe(4000)
+    expect(parseRetryAfter(new Headers())).toBeUndefined()
+  })
+})
@@ -0,0 +1,327 @@
+import type { CASCADEProviderName } from './provider'
+
+/**
+ * CASCADE LIVING OS - PROVIDER RESILIENCE
+ * =======================================
+ * How the LLM client copes with failing providers.
+ *
+ * - Failures are classified: auth, rate limit, overload, bad request,
+ *   network or timeout
+ * - Transient failures are retried with exponential backoff and full
+ *   jitter, never sooner than a `retry-after` header asks
+ * - Each provider has a circuit breaker: repeated transient failures open
+ *   it and the provider is skipped; after a cooldown one probe request is
+ *   let through (half-open) and its outcome closes or reopens the circuit
+ * - Every attempt has a timeout
+ *
+ * Circuit state is kept per process, so it is shared by every client,
+ * including the one the gateway builds for each request.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'bad_request'
+  | 'network'
+  | 'timeout'
+  | 'circuit_open'
+  | 'unknown'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface RetryPolicy {
+  maxRetries: number     // extra attempts on the same provider for transient failures
+  baseDelayMs: number
+  maxDelayMs: number     // longest wait before a retry, retry-after included
+  timeoutMs: number      // per attempt; for streams, until the first chunk arrives
+}
+
+export interface ProviderHealth {
+  provider: CASCADEProviderName
+  state: CircuitState
+  consecutiveFailures: number
+  lastFailure: { kind: ProviderErrorKind; message: string; at: number } | null
+  lastSuccessAt: number | null
+  retryAt: number | null // when an open circuit lets a probe through
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 60_000
+}
+
+const FAILURE_THRESHOLD = 3
+const COOLDOWN_MS = 30_000
+const MAX_COOLDOWN_MS = 5 * 60_000
+
+// Failures that say something about the provider rather than the request
+const TRANSIENT_KINDS: ProviderErrorKind[] = ['rate_limit', 'overloaded', 'network', 'timeout']
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ProviderErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+
+  get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind)
+  }
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+export function kindForStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 408) return 'timeout'
+  if (status === 429) return 'rate_limit'
+  if (status >= 500) return 'overloaded'   // Anthropic answers 529 when overloaded
+  if (status >= 400) return 'bad_request'
+  return 'unknown'
+}
+
+/**
+ * Milliseconds a response asks to wait, from `retry-after-ms` or
+ * `retry-after` (seconds or an HTTP date)
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const ms = Number(headers.get('retry-after-ms') ?? NaN)
+  if (Number.isFinite(ms)) return Math.max(0, ms)
+
+  const value = headers.get('retry-after')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * The error for a provider's non-OK response: `<label> error: <status> - <body>`
+ */
+export async function responseError(label: string, response: Response): Promise<ProviderError> {
+  const body = await response.text().catch(() => '')
+  return new ProviderError(
+    `${label} error: ${response.status}${body ? ` - ${body}` : ''}`,
+    kindForStatus(response.status),
+    response.status,
+    parseRetryAfter(response.headers)
+  )
+}
+
+/**
+ * Any failure as a ProviderError
+ */
+export function classifyError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error
+  const message = error instanceof Error ? error.message : String(error)
+
+  // fetch rejects with a TypeError when it cannot reach the server
+  if (error instanceof TypeError) return new ProviderError(`Network error: ${message}`, 'network')
+  return new ProviderError(message, 'unknown')
+}
+
+// ============================================================================
+// RETRIES & TIMEOUTS
+// ============================================================================
+
+/**
+ * Wait before retry `attempt` (0 for the first): full jitter under an
+ * exponential ceiling, never shorter than retry-after. Null when
+ * retry-after asks for longer than the policy allows.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number | null {
+  if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) return null
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.max(Math.round(random() * ceiling), retryAfterMs ?? 0)
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * A signal for one attempt: aborts when `parent` does or when `timeoutMs`
+ * passes. `clear` stops the timer only, so a stream that has started keeps
+ * following `parent`.
+ */
+export function attemptSignal(timeoutMs: number, parent?: AbortSignal): {
+  signal: AbortSignal
+  timedOut: () => boolean
+  clear: () => void
+} {
+  const controller = new AbortController()
+  let timedOut = false
+
+  if (parent?.aborted) controller.abort()
+  else parent?.addEventListener('abort', () => controller.abort(), { once: true })
+
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+
+  return { signal: controller.signal, timedOut: () => timedOut, clear: () => clearTimeout(timer) }
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+interface Circuit extends Omit<ProviderHealth, 'provider'> {
+  probing: boolean
+  cooldownMs: number
+}
+
+export class CircuitBreaker {
+  private circuits: Map<CASCADEProviderName, Circuit> = new Map()
+
+  constructor(
+    private readonly threshold: number = FAILURE_THRESHOLD,
+    private readonly cooldownMs: number = COOLDOWN_MS
+  ) {}
+
+  private circuit(provider: CASCADEProviderName): Circuit {
+    let circuit = this.circuits.get(provider)
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        lastFailure: null,
+        lastSuccessAt: null,
+        retryAt: null,
+        probing: false,
+        cooldownMs: this.cooldownMs
+      }
+      this.circuits.set(provider, circuit)
+    }
+    return circuit
+  }
+
+  /**
+   * Whether a request may go to the provider now. Once an open circuit's
+   * cooldown ends, a single probe is let through.
+   */
+  canAttempt(provider: CASCADEProviderName, now: number = Date.now()): boolean {
+    const circuit = this.circuit(provider)
+    if (circuit.state === 'closed') return true
+    if (circuit.state === 'open' && circuit.retryAt !== null && now >= circuit.retryAt) {
+      circuit.state = 'half-open'
+    }
+    if (circuit.state === 'half-open' && !circuit.probing) {
+      circuit.probing = true
+      return true
+    }
+    return false
+  }
+
+  /**
+   * The error for a request skipped because the circuit is open
+   */
+  rejection(provider: CASCADEProviderName, now: number = Date.now()): ProviderError {
+    const { retryAt } = this.circuit(provider)
+    const wait = retryAt !== null ? Math.max(0, retryAt - now) : undefined
+    return new ProviderError(
+      `Provider ${provider} is paused after repeated failures` +
+        (wait !== undefined ? `; retrying in ${Math.ceil(wait / 1000)}s` : ''),
+      'circuit_open',
+      undefined,
+      wait
+    )
+  }
+
+  recordSuccess(provider: CASCADEProviderName, now: number = Date.now()): void {
+    const circuit = this.circuit(provider)
+    circuit.state = 'closed'
+    circuit.consecutiveFailures = 0
+    circuit.lastSuccessAt = now
+    circuit.retryAt = null
+    circuit.probing = false
+    circuit.cooldownMs = this.cooldownMs
+  }
+
+  /**
+   * End a probe that got no answer either way, e.g. because the caller
+   * aborted, so the next request may probe again
+   */
+  releaseProbe(provider: CASCADEProviderName): void {
+    this.circuit(provider).probing = false
+  }
+
+  /**
+   * Count a failure. Only transient ones trip the breaker: a bad key or a
+   * bad request is no sign that the provider is down.
+   */
+  recordFailure(provider: CASCADEProviderName, error: ProviderError, now: number = Date.now()): void {
+    const circuit = this.circuit(provider)
+    const probe = circuit.state === 'half-open'
+    circuit.lastFailure = { kind: error.kind, message: error.message, at: now }
+    circuit.probing = false
+    if (!error.retryable) return
+
+    circuit.consecutiveFailures++
+    if (!probe && circuit.consecutiveFailures < this.threshold) return
+
+    // Each failed probe doubles the cooldown
+    circuit.cooldownMs = probe ? Math.min(circuit.cooldownMs * 2, MAX_COOLDOWN_MS) : this.cooldownMs
+    circuit.state = 'open'
+    circuit.retryAt = now + Math.max(circuit.cooldownMs, error.retryAfterMs ?? 0)
+  }
+
+  /**
+   * Close one provider's circuit, or every circuit
+   */
+  reset(provider?: CASCADEProviderName): void {
+    if (provider) this.circuits.delete(provider)
+    else this.circuits.clear()
+  }
+
+  health(): ProviderHealth[] {
+    return Array.from(this.circuits.entries()).map(([provider, circuit]) => ({
+      provider,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastFailure: circuit.lastFailure,
+      lastSuccessAt: circuit.lastSuccessAt,
+      retryAt: circuit.retryAt
+    }))
+  }
+}
+
+let breakerInstance: CircuitBreaker | null = null
+
+export function getCircuitBreaker(): CircuitBreaker {
+  if (!breakerInstance) {
+    breakerInstance = new CircuitBreaker()
+  }
+  return breakerInstance
+}
@@ -0,0 +1,142 @@
+import { ObjectSchema, Schema, StructuredTask } from './structured'
+
+/**
+ * CASCADE LIVING OS - OUTPUT SCHEMAS
+ * ==================================
+ * The structured tasks CASCADE asks models for: journal analysis, Oracle
+ * readings and pyramid suggestions. Each pairs a TypeScript type with the
+ * schema replies are held to.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface JournalPattern {
+  type: 'RECURRING_THEME' | 'COGNITIVE_DISTORTION' | 'INSIGHT' | 'QUESTION' | 'GROWTH'
+  content: string
+  significance: 'low' | 'medium' | 'high'
+}
+
+export interface ShadowMaterial {
+  content: string
+  projection?: string
+  integration?: string
+}
+
+export interface PyramidSuggestion {
+  content: string
+  suggestedLayer: 'FOUNDATION' | 'THEORY' | 'EDGE'
+  evidenceStrength: number
+  reasoning: string
+}
+
+export interface JournalAnalysis {
+  patterns: JournalPattern[]
+  shadowMaterial: ShadowMaterial[]
+  pyramidSuggestions: PyramidSuggestion[]
+  sovereigntyInsight: string
+  lamagueMood: {
+    symbols: string[]
+    interpretation: string
+  }
+  followUpQuestions: string[]
+}
+
+export interface OracleReading {
+  assessment: string
+  cascadePoints: string[]
+  warnings: string[]
+  recommendations: string[]
+  lamague: string
+}
+
+export interface PyramidSuggestions {
+  suggestions: PyramidSuggestion[]
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const text = (description: string): Schema => ({ type: 'string', description })
+const list = (items: Schema, maxItems?: number): Schema => ({ type: 'array', items, ...(maxItems ? { maxItems } : {}) })
+
+const PYRAMID_SUGGESTION: ObjectSchema = {
+  type: 'object',
+  properties: {
+    content: text('Knowledge block content'),
+    suggestedLayer: { type: 'string', enum: ['FOUNDATION', 'THEORY', 'EDGE'] },
+    evidenceStrength: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: text('Why this layer and evidence level')
+  },
+  required: ['content', 'suggestedLayer', 'evidenceStrength', 'reasoning']
+}
+
+export const JOURNAL_ANALYSIS: StructuredTask<JournalAnalysis> = {
+  name: 'journal_analysis',
+  description: 'Journal analysis',
+  schema: {
+    type: 'object',
+    properties: {
+      patterns: list({
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['RECURRING_THEME', 'COGNITIVE_DISTORTION', 'INSIGHT', 'QUESTION', 'GROWTH'] },
+          content: text('Description of the pattern'),
+          significance: { type: 'string', enum: ['low', 'medium', 'high'] }
+        },
+        required: ['type', 'content', 'significance']
+      }),
+      shadowMaterial: list({
+        type: 'object',
+        properties: {
+          content: text('The shadow content identified'),
+          projection: text('What might be projected onto others'),
+          integration: text('Suggestion for integration')
+        },
+        required: ['content']
+      }),
+      pyramidSuggestions: list(PYRAMID_SUGGESTION),
+      sovereigntyInsight: text('Brief insight about their agency and sovereignty in this entry'),
+      lamagueMood: {
+        type: 'object',
+        properties: {
+          symbols: list(text('A LAMAGUE glyph')),
+          interpretation: text('What the symbols mean for their current state')
+        },
+        required: ['symbols', 'interpretation']
+      },
+      followUpQuestions: list(text('A question to reflect on'), 5)
+    },
+    required: ['patterns', 'shadowMaterial', 'pyramidSuggestions', 'sovereigntyInsight', 'lamagueMood', 'followUpQuestions']
+  }
+}
+
+export const ORACLE_READING: StructuredTask<OracleReading> = {
+  name: 'oracle_reading',
+  description: 'Oracle reading',
+  schema: {
+    type: 'object',
+    properties: {
+      assessment: text('Brief assessment of their current trajectory'),
+      cascadePoints: list(text('A moment of transformation they might encounter')),
+      warnings: list(text('An early warning to watch for')),
+      recommendations: list(text('A sovereignty-preserving recommendation')),
+      lamague: text('A LAMAGUE expression for their trajectory')
+    },
+    required: ['assessment', 'cascadePoints', 'warnings', 'recommendations', 'lamague']
+  }
+}
+
+export const PYRAMID_SUGGESTIONS: StructuredTask<PyramidSuggestions> = {
+  name: 'pyramid_suggestions',
+  description: 'Pyramid suggestions',
+  schema: {
+    type: 'object',
+    properties: {
+      suggestions: list(PYRAMID_SUGGESTION, 5)
+    },
+    required: ['suggestions']
+  }
+}
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  StreamChunk,
+  StreamRequest,
+  readAIStream,
+  readSSE,
+  streamAnthropic,
+  streamLocal,
+  streamOpenAI,
+  toAIStreamResponse
+} from './streaming'
+
+const REQUEST: StreamRequest = {
+  messages: [{ role: 'user', content: 'Hello' }],
+  model: 'test-model',
+  maxTokens: 100,
+  temperature: 0.5,
+  systemPrompt: 'Be brief'
+}
+
+// A body that arrives in the given pieces, split wherever they happen to be
+function body(...pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    }
+  })
+}
+
+function sse(...events: unknown[]): string {
+  return events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('')
+}
+
+function serve(text: string) {
+  const fetch = vi.fn(async () => new Response(body(text.slice(0, 7), text.slice(7))))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+async function collect<T>(chunks: AsyncGenerator<T>): Promise<T[]> {
+  const all: T[] = []
+  for await (const chunk of chunks) all.push(chunk)
+  return all
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('readSSE', () => {
+  it('joins events split across reads and skips comments', async () => {
+    const events = await collect(readSSE(body('event: ping\nda', 'ta: one\ndata: two\r\n\n: keep-alive\n\ndata: last')))
+
+    expect(events).toEqual([{ event: 'ping', data: 'one\ntwo' }, { event: undefined, data: 'last' }])
+  })
+})
+
+describe('provider streams', () => {
+  it('read Anthropic text, tool input fragments and usage', async () => {
+    serve(sse(
+      { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'call-1', name: 'add_goal' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"title":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Run"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', usage: { output_tokens: 8 } }
+    ))
+
+    expect(await collect(streamAnthropic(REQUEST))).toEqual<StreamChunk[]>([
+      { type: 'text', text: 'Hi' },
+      { type: 'tool_call', call: { id: 'call-1', name: 'add_goal', arguments: { title: 'Run' } } },
+      { type: 'usage', usage: { inputTokens: 12, outputTokens: 8, totalTokens: 20 } }
+    ])
+  })
+
+  it('read OpenAI-compatible deltas up to [DONE]', async () => {
+    const fetch = serve(sse(
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo', tool_calls: [{ index: 0, id: 'call-1', function: { name: 'add_goal', arguments: '{"ti' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'tle":"Run"}' } }] } }] },
+      { choices: [], usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } },
+      '[DONE]',
+      { choices: [{ delta: { content: 'ignored' } }] }
+    ))
+
+    const chunks = await collect(streamOpenAI({ ...REQUEST, baseUrl: 'http://localhost:1234/v1/', apiKey: 'key' }))
+
+    expect(chunks).toEqual<StreamChunk[]>([
+      { type: 'text', text: 'Hel' },
+      { type: 'text', text: 'lo' },
+      { type: 'tool_call', call: { id: 'call-1', name: 'add_goal', arguments: { title: 'Run' } } },
+      { type: 'usage', usage: { inputTokens: 5, outputTokens: 3, totalTokens: 8 } }
+    ])
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://localhost:1234/v1/chat/completions')
+    expect(JSON.parse(String(init.body)).messages[0]).toEqual({ role: 'system', content: 'Be brief' })
+  })
+
+  it('read Ollama newline-delimited JSON', async () => {
+    serve([
+      { message: { content: 'Hi ' } },
+      { message: { content: 'there' } },
+      { done: true, prompt_eval_count: 4, eval_count: 2 }
+    ].map(line => JSON.stringify(line)).join('\n'))
+
+    expect(await collect(streamLocal(REQUEST))).toEqual<StreamChunk[]>([
+      { type: 'text', text: 'Hi ' },
+      { type: 'text', text: 'there' },
+      { type: 'usage', usage: { inputTokens: 4, outputTokens: 2, totalTokens: 6 } }
+    ])
+  })
+
+  it('fail on an error event in the stream', async () => {
+    serve(sse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }))
+
+    await expect(collect(streamAnthropic(REQUEST))).rejects.toMatchObject({ kind: 'overloaded' })
+  })
+})
+
+describe('toAIStreamResponse and readAIStream', () => {
+  const info = { provider: 'local', model: 'test-model' }
+
+  it('forward chunks to the browser and back', async () => {
+    async function* chunks(): AsyncGenerator<StreamChunk> {
+      yield { type: 'text', text: 'Hi' }
+      yield { type: 'usage', usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } }
+    }
+
+    const events = await collect(readAIStream(await toAIStreamResponse(chunks(), info)))
+
+    expect(events).toEqual([
+      { type: 'start', ...info },
+      { type: 'delta', text: 'Hi' },
+      { type: 'done', ...info, usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } }
+    ])
+  })
+
+  it('end with an error event when the provider fails midway', async () => {
+    async function* chunks(): AsyncGenerator<StreamChunk> {
+      yield { type: 'text', text: 'Hi' }
+      throw new Error('connection reset')
+    }
+
+    const events = await collect(readAIStream(await toAIStreamResponse(chunks(), info)))
+
+    expect(events.slice(1)).toEqual([{ type: 'delta', text: 'Hi' }, { type: 'error', error: 'connection reset' }])
+  })
+
+  it('fail before responding when the provider refuses the request', async () => {
+    async function* chunks(): AsyncGenerator<StreamChunk> {
+      throw new Error('bad key')
+    }
+
+    await expect(toAIStreamResponse(chunks(), info)).rejects.toThrow('bad key')
+  })
+})
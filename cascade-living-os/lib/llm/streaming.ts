@@ -0,0 +1,478 @@
+/**
+ * CASCADE LIVING OS - LLM STREAMING
+ * =================================
+ * Token streaming from every provider, used by the LLM client and through
+ * it by the /api/ai gateway.
+ *
+ * - Anthropic: Messages API server-sent events (`stream: true`)
+ * - Gemini: `streamGenerateContent` as server-sent events (`alt=sse`)
+ * - Local: Ollama `/api/chat` newline-delimited JSON (`stream: true`)
+ * - OpenAI-compatible: `/chat/completions` server-sent events (`stream: true`)
+ *
+ * Tool calls arrive as `tool_call` chunks once their arguments are complete.
+ * /api/ai forwards the chunks to the browser as server-sent events of its
+ * own, read back with `readAIStream`. Every stream stops when its
+ * AbortSignal fires.
+ */
+
+import { ProviderError, responseError } from './resilience'
+import {
+  LLMTool,
+  LLMToolCall,
+  ToolTurn,
+  anthropicMessages,
+  anthropicTools,
+  geminiContents,
+  geminiTools,
+  openAIMessages,
+  openAITools,
+  parseToolArguments,
+  readGeminiParts,
+  readOpenAIToolCalls
+} from './tool-use'
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type StreamMessage = ToolTurn
+
+export interface StreamUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export type StreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'usage'; usage: StreamUsage }
+
+export interface StreamRequest {
+  messages: StreamMessage[]
+  model: string
+  apiKey?: string
+  baseUrl?: string
+  maxTokens: number
+  temperature: number
+  systemPrompt: string
+  tools?: LLMTool[]      // Anthropic, Gemini and OpenAI only
+  signal?: AbortSignal
+}
+
+/**
+ * What /api/ai sends the browser while streaming
+ */
+export type AIStreamEvent =
+  | { type: 'start'; provider: string; model: string; promptVersions?: string[] }
+  | { type: 'delta'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'done'; provider: string; model: string; promptVersions?: string[]; usage: StreamUsage }
+  | { type: 'error'; error: string }
+
+// ============================================================================
+// WIRE FORMATS
+// ============================================================================
+
+// Complete lines of a byte stream, without their line endings
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      for (const line of lines) yield line
+    }
+    buffer += decoder.decode()
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Server-sent events of a response body; multi-line data is joined with newlines
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event?: string; data: string }> {
+  let event: string | undefined
+  let data: string[] = []
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) yield { event, data: data.join('\n') }
+      event = undefined
+      data = []
+      continue
+    }
+    if (line.startsWith(':')) continue
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+
+  if (data.length > 0) yield { event, data: data.join('\n') }
+}
+
+/**
+ * One parsed JSON value per non-empty line
+ */
+export async function* readNDJSON(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) yield JSON.parse(line)
+  }
+}
+
+function requireBody(response: Response): ReadableStream<Uint8Array> {
+  if (!response.body) throw new Error('Provider returned an empty stream')
+  return response.body
+}
+
+// ============================================================================
+// PROVIDER STREAMS
+// ============================================================================
+
+/**
+ * Anthropic Claude, from the Messages API event stream
+ */
+export async function* streamAnthropic(request: StreamRequest): AsyncGenerator<StreamChunk> {
+  const response = await fetch(`${request.baseUrl || 'https://api.anthropic.com'}/v1/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': request.apiKey || '',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.systemPrompt,
+      stream: true,
+      messages: anthropicMessages(request.messages),
+      ...(request.tools?.length ? { tools: anthropicTools(request.tools) } : {})
+    }),
+    signal: request.signal
+  })
+
+  if (!response.ok) {
+    throw await responseError('Anthropic API', response)
+  }
+
+  let inputTokens = 0
+  let outputTokens = 0
+  // Tool use blocks by index, their input arriving as JSON fragments
+  const toolBlocks = new Map<number, { id: string; name: string; json: string }>()
+
+  for await (const { data } of readSSE(requireBody(response))) {
+    const event = JSON.parse(data)
+    switch (event.type) {
+      case 'message_start':
+        inputTokens = event.message?.usage?.input_tokens || 0
+        outputTokens = event.message?.usage?.output_tokens || 0
+        break
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' })
+        }
+        break
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          yield { type: 'text', text: event.delta.text }
+        } else if (event.delta?.type === 'input_json_delta') {
+          const block = toolBlocks.get(event.index)
+          if (block) block.json += event.delta.partial_json || ''
+        }
+        break
+      case 'content_block_stop': {
+        const block = toolBlocks.get(event.index)
+        if (block) {
+          yield { type: 'tool_call', call: { id: block.id, name: block.name, arguments: parseToolArguments(block.json) } }
+        }
+        break
+      }
+      case 'message_delta':
+        outputTokens = event.usage?.output_tokens ?? outputTokens
+        break
+      case 'error':
+        throw new ProviderError(
+          `Anthropic API error: ${event.error?.message || 'stream failed'}`,
+          event.error?.type === 'overloaded_error' ? 'overloaded' : 'unknown'
+        )
+    }
+  }
+
+  yield { type: 'usage', usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } }
+}
+
+/**
+ * Google Gemini, from `streamGenerateContent` as server-sent events
+ */
+export async function* streamGemini(request: StreamRequest): AsyncGenerator<StreamChunk> {
+  // Gemini has no system role here; it is prepended to the first message
+  const contents = geminiContents(request.messages, request.systemPrompt)
+
+  const baseUrl = request.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'
+  const response = await fetch(
+    `${baseUrl}/models/${request.model}:streamGenerateContent?alt=sse&key=${request.apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents,
+        ...(request.tools?.length ? { tools: geminiTools(request.tools) } : {}),
+        generationConfig: {
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        safetySettings: [
+          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' }
+        ]
+      }),
+      signal: request.signal
+    }
+  )
+
+  if (!response.ok) {
+    throw await responseError('Gemini API', response)
+  }
+
+  // Each event carries the newest text; usage grows to its final count
+  let usage: StreamUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+
+  for await (const { data } of readSSE(requireBody(response))) {
+    const chunk = JSON.parse(data)
+    if (chunk.error) throw new Error(`Gemini API error: ${chunk.error.message || 'stream failed'}`)
+
+    // Function calls arrive whole
+    const { text, toolCalls } = readGeminiParts(chunk.candidates?.[0]?.content?.parts)
+    if (text) yield { type: 'text', text }
+    for (const call of toolCalls) yield { type: 'tool_call', call }
+
+    if (chunk.usageMetadata) {
+      usage = {
+        inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+        outputTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: chunk.usageMetadata.totalTokenCount || 0
+      }
+    }
+  }
+
+  yield { type: 'usage', usage }
+}
+
+/**
+ * Local model (Ollama), from `/api/chat` newline-delimited JSON
+ */
+export async function* streamLocal(request: StreamRequest): AsyncGenerator<StreamChunk> {
+  const messages = request.systemPrompt && !request.messages.some(m => m.role === 'system')
+    ? [{ role: 'system' as const, content: request.systemPrompt }, ...request.messages]
+    : request.messages
+
+  const response = await fetch(`${request.baseUrl || 'http://localhost:11434'}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: request.model,
+      messages: messages.map(m => ({
+        role: m.role,
+        content: m.content
+      })),
+      stream: true,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens
+      }
+    }),
+    signal: request.signal
+  })
+
+  if (!response.ok) {
+    throw await responseError('Local LLM', response)
+  }
+
+  for await (const value of readNDJSON(requireBody(response))) {
+    const chunk = value as {
+      message?: { content?: string }
+      done?: boolean
+      error?: string
+      prompt_eval_count?: number
+      eval_count?: number
+    }
+    if (chunk.error) throw new Error(`Local LLM error: ${chunk.error}`)
+    if (chunk.message?.content) yield { type: 'text', text: chunk.message.content }
+
+    if (chunk.done) {
+      const inputTokens = chunk.prompt_eval_count || 0
+      const outputTokens = chunk.eval_count || 0
+      yield { type: 'usage', usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } }
+    }
+  }
+}
+
+/**
+ * Any OpenAI-compatible chat completions server (OpenAI, LM Studio,
+ * llama.cpp server, vLLM, LocalAI), from its event stream
+ */
+export async function* streamOpenAI(request: StreamRequest): AsyncGenerator<StreamChunk> {
+  const baseUrl = (request.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(request.apiKey ? { 'Authorization': `Bearer ${request.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        ...(request.systemPrompt && !request.messages.some(m => m.role === 'system')
+          ? [{ role: 'system', content: request.systemPrompt }]
+          : []),
+        ...openAIMessages(request.messages)
+      ],
+      ...(request.tools?.length ? { tools: openAITools(request.tools) } : {})
+    }),
+    signal: request.signal
+  })
+
+  if (!response.ok) {
+    throw await responseError('OpenAI-compatible API', response)
+  }
+
+  // Servers without `include_usage` support never send usage
+  let usage: StreamUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  // Tool calls by index; the id and name come first, then argument fragments
+  const toolCalls: Array<{ id?: string; function: { name?: string; arguments: string } }> = []
+
+  for await (const { data } of readSSE(requireBody(response))) {
+    if (data === '[DONE]') break
+    const chunk = JSON.parse(data)
+    if (chunk.error) throw new Error(`OpenAI-compatible API error: ${chunk.error.message || 'stream failed'}`)
+
+    const text = chunk.choices?.[0]?.delta?.content
+    if (text) yield { type: 'text', text }
+
+    for (const delta of chunk.choices?.[0]?.delta?.tool_calls ?? []) {
+      const call = toolCalls[delta.index ?? 0] ??= { function: { arguments: '' } }
+      if (delta.id) call.id = delta.id
+      if (delta.function?.name) call.function.name = delta.function.name
+      call.function.arguments += delta.function?.arguments || ''
+    }
+
+    if (chunk.usage) {
+      usage = {
+        inputTokens: chunk.usage.prompt_tokens || 0,
+        outputTokens: chunk.usage.completion_tokens || 0,
+        totalTokens: chunk.usage.total_tokens || 0
+      }
+    }
+  }
+
+  for (const call of readOpenAIToolCalls(toolCalls.filter(Boolean))) yield { type: 'tool_call', call }
+  yield { type: 'usage', usage }
+}
+
+/**
+ * Stream canned text word by word, for the mock provider
+ */
+export async function* streamText(
+  text: string,
+  usage: StreamUsage,
+  signal?: AbortSignal,
+  delay: number = 20
+): AsyncGenerator<StreamChunk> {
+  for (const word of text.match(/\S+\s*|\s+/g) ?? []) {
+    if (signal?.aborted) return
+    yield { type: 'text', text: word }
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+  yield { type: 'usage', usage }
+}
+
+// ============================================================================
+// /api/ai STREAM
+// ============================================================================
+
+/**
+ * Server-sent events response for a provider stream. The first chunk is
+ * awaited before responding, so a provider that refuses the request fails
+ * here with a normal error; later failures become an `error` event.
+ */
+export async function toAIStreamResponse(
+  chunks: AsyncGenerator<StreamChunk>,
+  info: { provider: string; model: string; promptVersions?: string[] }
+): Promise<Response> {
+  const first = await chunks.next()
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AIStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      }
+      let usage: StreamUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+      const forward = (chunk: StreamChunk) => {
+        if (chunk.type === 'text') send({ type: 'delta', text: chunk.text })
+        else if (chunk.type === 'tool_call') send({ type: 'tool_call', call: chunk.call })
+        else usage = chunk.usage
+      }
+
+      try {
+        send({ type: 'start', ...info })
+        if (!first.done) forward(first.value)
+        for await (const chunk of chunks) forward(chunk)
+        send({ type: 'done', ...info, usage })
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.error('AI stream error:', error)
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' })
+        }
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    async cancel() {
+      // The browser went away; stop reading from the provider
+      cancelled = true
+      await chunks.return(undefined)
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
+/**
+ * Events of a streamed /api/ai response, in order
+ */
+export async function* readAIStream(response: Response): AsyncGenerator<AIStreamEvent> {
+  for await (const { data } of readSSE(requireBody(response))) {
+    yield JSON.parse(data) as AIStreamEvent
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { CASCADELLMClient, LLMMessage, LLMProvider, LLMResponse } from './provider'
+import { ORACLE_READING, OracleReading } from './schemas'
+import { StructuredOutputError, completeStructured, extractJSON, sampleFor, validateSchema } from './structured'
+
+const MESSAGES: LLMMessage[] = [{ role: 'user', content: 'Read my trajectory' }]
+
+const READING: OracleReading = {
+  assessment: 'Steady',
+  cascadePoints: ['The next review'],
+  warnings: [],
+  recommendations: ['Keep walking'],
+  lamague: '⟟'
+}
+
+// A client that answers each request with the next reply
+function replying(...replies: string[]) {
+  const complete = vi.fn(async (): Promise<LLMResponse> => ({
+    content: replies.shift() ?? '',
+    provider: LLMProvider.MOCK,
+    model: 'mock',
+    usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+    latency: 0,
+    timestamp: 0
+  }))
+  return { client: { complete } as unknown as CASCADELLMClient, complete }
+}
+
+describe('validateSchema', () => {
+  it('reports every problem with its path', () => {
+    const value = { ...READING, assessment: 3, cascadePoints: ['ok', 4], lamague: undefined }
+
+    expect(validateSchema(ORACLE_READING.schema, value)).toEqual([
+      '$.lamague is required',
+      '$.assessment must be a string',
+      '$.cascadePoints[1] must be a string'
+    ])
+  })
+
+  it('accepts the sample the mock provider answers with', () => {
+    expect(validateSchema(ORACLE_READING.schema, sampleFor(ORACLE_READING.schema))).toEqual([])
+  })
+})
+
+describe('extractJSON', () => {
+  it('finds JSON fenced, bare or inside prose', () => {
+    expect(extractJSON('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 } })
+    expect(extractJSON(' [1, 2] ')).toEqual({ value: [1, 2] })
+    expect(extractJSON('Here you go: {"a": 1} Enjoy.')).toEqual({ value: { a: 1 } })
+    expect(extractJSON('No idea')).toMatchObject({ error: expect.stringContaining('not valid JSON') })
+  })
+})
+
+describe('completeStructured', () => {
+  it('sends the problems back until the reply fits', async () => {
+    const { client, complete } = replying('Not JSON', JSON.stringify({ ...READING, warnings: 'none' }), JSON.stringify(READING))
+
+    const result = await completeStructured(client, MESSAGES, ORACLE_READING)
+
+    expect(result.value).toEqual(READING)
+    expect(result.attempts).toBe(3)
+    expect(result.response.usage).toEqual({ inputTokens: 30, outputTokens: 15, totalTokens: 45 })
+    const [lastConversation] = complete.mock.calls[2] as unknown as [LLMMessage[]]
+    expect(lastConversation).toHaveLength(5)
+    expect(lastConversation[4].content).toContain('$.warnings must be an array')
+  })
+
+  it('gives up after the last repair', async () => {
+    const { client, complete } = replying('{}', '{}')
+
+    const error = await completeStructured(client, MESSAGES, ORACLE_READING, { maxRepairs: 1 }).catch(e => e)
+
+    expect(error).toBeInstanceOf(StructuredOutputError)
+    expect(error).toMatchObject({ attempts: 2, content: '{}' })
+    expect(error.issues).toContain('$.assessment is required')
+    expect(complete).toHaveBeenCalledTimes(2)
+  })
+})
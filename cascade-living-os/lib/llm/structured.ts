@@ -0,0 +1,221 @@
+import type { CASCADELLMClient, LLMMessage, LLMProvider, LLMResponse } from './provider'
+import { buildRepairPrompt } from './prompts'
+
+/**
+ * CASCADE LIVING OS - STRUCTURED OUTPUTS
+ * ======================================
+ * Replies that must be JSON of a known shape. Each task declares a schema
+ * (a JSON Schema subset) that is both sent to the provider's native JSON
+ * mode and checked at runtime:
+ *
+ * - Anthropic: a forced tool whose input is the schema
+ * - Gemini: `responseSchema` with a JSON response type
+ * - OpenAI-compatible: `response_format` of type `json_schema`
+ * - Ollama: `format` set to the schema
+ *
+ * A reply that does not parse or validate is sent back to the model with
+ * the problems found, a bounded number of times, before the task fails
+ * with a StructuredOutputError.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type Schema =
+  | { type: 'string'; description?: string; enum?: string[] }
+  | { type: 'number'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: Schema; maxItems?: number }
+  | ObjectSchema
+
+export interface ObjectSchema {
+  type: 'object'
+  description?: string
+  properties: Record<string, Schema>
+  required: string[]
+}
+
+/**
+ * A task whose reply is a `T`; `T` is the TypeScript side of `schema`
+ */
+export interface StructuredTask<T> {
+  name: string
+  description: string
+  schema: ObjectSchema
+  readonly __value?: T   // type only, never set
+}
+
+export interface StructuredResult<T> {
+  value: T
+  response: LLMResponse   // the reply that validated, usage summed over every attempt
+  attempts: number
+}
+
+export const DEFAULT_MAX_REPAIRS = 2
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly content: string,
+    public readonly attempts: number
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Every way `value` departs from `schema`, each prefixed with its JSON path
+ */
+export function validateSchema(schema: Schema, value: unknown, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`]
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`]
+      return []
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`]
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be at least ${schema.minimum}`]
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be at most ${schema.maximum}`]
+      return []
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false`]
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`]
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return [`${path} must have at most ${schema.maxItems} items`]
+      return value.flatMap((item, index) => validateSchema(schema.items, item, `${path}[${index}]`))
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`]
+      const record = value as Record<string, unknown>
+      return [
+        ...schema.required.filter(key => record[key] === undefined).map(key => `${path}.${key} is required`),
+        ...Object.entries(schema.properties)
+          .filter(([key]) => record[key] !== undefined)
+          .flatMap(([key, property]) => validateSchema(property, record[key], `${path}.${key}`))
+      ]
+    }
+  }
+}
+
+/**
+ * The JSON value of a reply, fenced or bare
+ */
+export function extractJSON(reply: string): { value: unknown } | { error: string } {
+  const trimmed = reply.trim()
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const candidates = [fenced?.[1], trimmed, trimmed.match(/\{[\s\S]*\}/)?.[0]]
+    .filter((candidate): candidate is string => !!candidate)
+
+  let error = 'The reply held no JSON object'
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) }
+    } catch (e) {
+      error = `The reply is not valid JSON: ${e instanceof Error ? e.message : String(e)}`
+    }
+  }
+  return { error }
+}
+
+// ============================================================================
+// PROVIDER JSON MODES
+// ============================================================================
+
+/**
+ * `responseSchema` for Gemini, which takes an OpenAPI subset
+ */
+export function geminiSchema(schema: Schema): Record<string, unknown> {
+  const base = { type: schema.type.toUpperCase(), ...(schema.description ? { description: schema.description } : {}) }
+  switch (schema.type) {
+    case 'string': return schema.enum ? { ...base, enum: schema.enum } : base
+    case 'array': return { ...base, items: geminiSchema(schema.items) }
+    case 'object': return {
+      ...base,
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [key, geminiSchema(property)])),
+      required: schema.required
+    }
+    default: return base
+  }
+}
+
+/**
+ * `response_format` for OpenAI-compatible servers
+ */
+export function openAIResponseFormat(task: StructuredTask<unknown>) {
+  return { type: 'json_schema', json_schema: { name: task.name, schema: task.schema } }
+}
+
+/**
+ * Anthropic has no JSON mode; the reply is the input of a tool it must call
+ */
+export function anthropicOutputTool(task: StructuredTask<unknown>) {
+  return {
+    tools: [{ name: task.name, description: task.description, input_schema: task.schema }],
+    tool_choice: { type: 'tool', name: task.name }
+  }
+}
+
+/**
+ * A value of `schema` with placeholders, for the mock provider
+ */
+export function sampleFor(schema: Schema): unknown {
+  switch (schema.type) {
+    case 'string': return schema.enum?.[0] ?? schema.description ?? 'Mock value'
+    case 'number': return ((schema.minimum ?? 0) + (schema.maximum ?? 1)) / 2
+    case 'boolean': return true
+    case 'array': return [sampleFor(schema.items)]
+    case 'object': return Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [key, sampleFor(property)]))
+  }
+}
+
+// ============================================================================
+// REPAIR LOOP
+// ============================================================================
+
+/**
+ * Ask for a structured reply, sending schema problems back to the model up
+ * to `maxRepairs` times. Provider failures are thrown as they are; a reply
+ * still invalid after the last repair throws a StructuredOutputError.
+ */
+export async function completeStructured<T>(
+  client: CASCADELLMClient,
+  messages: LLMMessage[],
+  task: StructuredTask<T>,
+  options: { provider?: LLMProvider; fallbacks?: LLMProvider[]; maxRepairs?: number } = {}
+): Promise<StructuredResult<T>> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS
+  const conversation = [...messages]
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  let issues: string[] = []
+  let content = ''
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await client.complete(conversation, { provider: options.provider, fallbacks: options.fallbacks, output: task })
+    usage.inputTokens += response.usage?.inputTokens || 0
+    usage.outputTokens += response.usage?.outputTokens || 0
+    usage.totalTokens += response.usage?.totalTokens || 0
+    content = response.content
+
+    const parsed = extractJSON(content)
+    issues = 'error' in parsed ? [parsed.error] : validateSchema(task.schema, parsed.value)
+    if (issues.length === 0 && 'value' in parsed) {
+      return { value: parsed.value as T, response: { ...response, usage }, attempts: attempt }
+    }
+
+    console.warn(`Structured ${task.name} reply was invalid (attempt ${attempt}):`, issues.join('; '))
+    conversation.push({ role: 'assistant', content }, { role: 'user', content: buildRepairPrompt(issues) })
+  }
+
+  throw new StructuredOutputError(
+    `The ${task.description.toLowerCase()} did not match its schema after ${maxRepairs + 1} attempts`,
+    issues,
+    content,
+    maxRepairs + 1
+  )
+}
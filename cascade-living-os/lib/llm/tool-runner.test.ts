@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from '@/lib/db/testing'
+import { AuditActor } from '@/lib/db/audit'
+
+const AI: AuditActor = { kind: 'ai', provider: 'anthropic', model: 'claude-sonnet-4-20250514' }
+
+beforeEach(() => {
+  vi.resetModules()
+  stubBrowserStorage()
+})
+
+describe('runCascadeTool', () => {
+  it('writes a microorcim attributed to the AI', async () => {
+    const { runCascadeTool } = await import('./tool-runner')
+    const { getAll } = await import('@/lib/db/repository')
+    const { queryAuditLog } = await import('@/lib/db/audit')
+
+    const result = await runCascadeTool({ id: 'call-1', name: 'log_microorcim', arguments: { context: 'Walked', intent: 0.8 } }, AI)
+
+    expect(result).toMatchObject({ callId: 'call-1', name: 'log_microorcim' })
+    expect(JSON.parse(result.content)).toMatchObject({ fired: true })
+    expect(await getAll('microorcims')).toHaveLength(1)
+    const { entries } = await queryAuditLog({ target: 'microorcims' }, 10)
+    expect(entries.map(entry => entry.actor)).toEqual([AI])
+  })
+
+  it('creates active commitments, made to Self by default', async () => {
+    const { runCascadeTool } = await import('./tool-runner')
+    const { getAll } = await import('@/lib/db/repository')
+
+    const result = await runCascadeTool({ id: 'call-1', name: 'create_commitment', arguments: { content: ' Run ', deadline: '2026-03-02' } }, AI)
+
+    expect(JSON.parse(result.content)).toMatchObject({ to: 'Self', deadline: '2026-03-02' })
+    expect(await getAll('commitments')).toMatchObject([{ content: 'Run', status: 'active', deadline: Date.parse('2026-03-02') }])
+  })
+
+  it('lists goals by status', async () => {
+    const { runCascadeTool } = await import('./tool-runner')
+    const { putMany } = await import('@/lib/db/repository')
+    const goal = { title: 'Run', why: 'Health', timeframe: 'quarter', createdAt: 1 }
+    await putMany('goals', [
+      { ...goal, id: 'goal-1', status: 'active', milestones: [{ id: 'm1', title: '5k', completed: true, order: 0 }, { id: 'm2', title: '10k', completed: false, order: 1 }] },
+      { ...goal, id: 'goal-2', status: 'paused', milestones: [] }
+    ])
+
+    const result = await runCascadeTool({ id: 'call-1', name: 'query_goals', arguments: {} }, AI)
+
+    expect(JSON.parse(result.content)).toEqual([
+      { id: 'goal-1', title: 'Run', why: 'Health', status: 'active', timeframe: 'quarter', milestones: '1/2', nextMilestone: '10k' }
+    ])
+  })
+
+  it('answers invalid calls and failures with error results', async () => {
+    const { runCascadeTool } = await import('./tool-runner')
+
+    const results = await Promise.all([
+      runCascadeTool({ id: 'call-1', name: 'delete_everything', arguments: {} }, AI),
+      runCascadeTool({ id: 'call-2', name: 'log_microorcim', arguments: { context: 'Walked' } }, AI),
+      runCascadeTool({ id: 'call-3', name: 'create_commitment', arguments: { content: 'Run', deadline: 'someday' } }, AI),
+      runCascadeTool({ id: 'call-4', name: 'record_measurement', arguments: { practice: 'Rowing', value: 3 } }, AI)
+    ])
+
+    expect(results.map(result => [result.content, result.isError])).toEqual([
+      ['Unknown tool delete_everything', true],
+      ['Invalid arguments: `intent` is required', true],
+      ['Unreadable deadline "someday"', true],
+      ['No practice "Rowing"', true]
+    ])
+  })
+})
@@ -0,0 +1,206 @@
+import { AuditActor, runAs } from '@/lib/db/audit'
+import { getAll, getDocument, put, putDocument, notifyExternalChange } from '@/lib/db/repository'
+import { countJournalEntries } from '@/lib/db/journal'
+import { DOCUMENTS, STORES } from '@/lib/db/schema'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+import {
+  Microorcim,
+  MicroorcimDifficulty,
+  WillpowerState,
+  fireMicroorcim,
+  initializeWillpowerState,
+  recordMicroorcim
+} from '@/lib/cascade/microorcim'
+import { toSovereignDate } from '@/lib/cascade/seven-phase'
+import { Commitment, FocusSession, Goal, QuickCapture, Ritual } from '@/types/entities'
+import {
+  AddKnowledgeBlockArgs,
+  CreateCommitmentArgs,
+  DEFAULT_DRIFT,
+  LogMicroorcimArgs,
+  QueryGoalsArgs,
+  RecordMeasurementArgs,
+  checkCascadeToolCall
+} from './cascade-tools'
+import { LLMToolCall, LLMToolResult } from './tool-use'
+
+/**
+ * CASCADE LIVING OS - TOOL RUNNER
+ * ===============================
+ * Executes CASCADE tool calls in the browser. Every write is attributed to
+ * the AI actor passed in, so the audit log shows it as AI-originated; the
+ * caller is responsible for having the user approve writes first.
+ */
+
+class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+async function logMicroorcim(args: LogMicroorcimArgs, actor: AuditActor) {
+  const microorcim = fireMicroorcim(
+    args.intent,
+    args.drift ?? DEFAULT_DRIFT,
+    args.context,
+    args.difficulty ?? MicroorcimDifficulty.MODERATE,
+    [],
+    toSovereignDate(new Date()).phase.glyph,
+    args.note
+  )
+  await runAs(actor, () => put<Microorcim>('microorcims', microorcim))
+
+  const state = await getDocument<WillpowerState>(DOCUMENTS.WILLPOWER_STATE.key) ?? initializeWillpowerState()
+  const next = recordMicroorcim(state, microorcim)
+  await runAs(actor, () => putDocument(DOCUMENTS.WILLPOWER_STATE.key, next))
+
+  notifyExternalChange('microorcims')
+  notifyExternalChange(STORES.DOCUMENTS)
+  return { id: microorcim.id, fired: microorcim.fired, netAgency: microorcim.netAgency, willpower: next.currentWillpower }
+}
+
+// Every block, whatever its layer
+function pyramidBlocks() {
+  const { foundation, theory, edge } = useCASCADEStore.getState().pyramid
+  return [...foundation, ...theory, ...edge]
+}
+
+function addKnowledgeBlock(args: AddKnowledgeBlockArgs, actor: AuditActor) {
+  const store = useCASCADEStore.getState()
+  const before = new Set(pyramidBlocks().map(block => block.id))
+  runAs(actor, () => store.addKnowledgeBlock({
+    content: args.content,
+    layer: args.layer,
+    evidenceStrength: args.evidenceStrength,
+    domain: args.domain || 'personal',
+    dependencies: [],
+    supports: [],
+    contradicts: []
+  }))
+
+  const added = pyramidBlocks().find(block => !before.has(block.id))
+  return { id: added?.id, layer: added?.layer ?? args.layer, coherence: useCASCADEStore.getState().pyramid.coherence }
+}
+
+async function createCommitment(args: CreateCommitmentArgs, actor: AuditActor) {
+  const deadline = args.deadline ? Date.parse(args.deadline) : undefined
+  if (deadline !== undefined && Number.isNaN(deadline)) throw new ToolError(`Unreadable deadline "${args.deadline}"`)
+
+  const commitment: Commitment = {
+    id: `comm-${Date.now()}`,
+    to: args.to?.trim() || 'Self',
+    content: args.content.trim(),
+    deadline,
+    status: 'active',
+    createdAt: Date.now(),
+    lamague: '∥◁▷∥'
+  }
+  await runAs(actor, () => put<Commitment>('commitments', commitment))
+  notifyExternalChange('commitments')
+  return { id: commitment.id, to: commitment.to, deadline: args.deadline ?? null }
+}
+
+function recordMeasurement(args: RecordMeasurementArgs, actor: AuditActor) {
+  const store = useCASCADEStore.getState()
+  const wanted = args.practice.toLowerCase()
+  const practice = store.realityBridge.practices.find(p => p.id === args.practice) ??
+    store.realityBridge.practices.find(p => p.practiceName.toLowerCase() === wanted)
+  if (!practice) throw new ToolError(`No practice "${args.practice}"`)
+
+  const anchor = args.anchor
+    ? practice.anchors.find(a => a.id === args.anchor || a.measurementType.toLowerCase() === args.anchor!.toLowerCase())
+    : practice.anchors[0]
+  if (!anchor) throw new ToolError(args.anchor ? `${practice.practiceName} has no anchor "${args.anchor}"` : `${practice.practiceName} has no anchors`)
+
+  runAs(actor, () => store.recordPracticeMeasurement(practice.id, anchor.id, args.value, args.notes))
+  const updated = useCASCADEStore.getState().realityBridge.practices.find(p => p.id === practice.id)
+  return { practice: practice.practiceName, anchor: anchor.measurementType, value: args.value, status: updated?.status }
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+async function queryGoals(args: QueryGoalsArgs) {
+  const status = args.status || 'active'
+  const goals = await getAll<Goal>('goals')
+  return goals
+    .filter(goal => status === 'all' || goal.status === status)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(goal => ({
+      id: goal.id,
+      title: goal.title,
+      why: goal.why,
+      status: goal.status,
+      timeframe: goal.timeframe,
+      milestones: `${goal.milestones.filter(m => m.completed).length}/${goal.milestones.length}`,
+      nextMilestone: goal.milestones.filter(m => !m.completed).sort((a, b) => a.order - b.order)[0]?.title ?? null
+    }))
+}
+
+// Same figures as the Today page
+async function getTodayMetrics() {
+  const todayStr = new Date().toDateString()
+  const isToday = (timestamp: number) => new Date(timestamp).toDateString() === todayStr
+
+  const microorcims = (await getAll<Microorcim>('microorcims')).filter(m => isToday(m.timestamp))
+  const focus = (await getAll<FocusSession>('focus-sessions')).filter(s => isToday(s.startTime))
+  const rituals = (await getAll<Ritual>('rituals')).filter(r => r.active && r.frequency === 'daily')
+  const captures = await getAll<QuickCapture>('quick-captures')
+
+  const startOfToday = new Date()
+  startOfToday.setHours(0, 0, 0, 0)
+
+  return {
+    date: new Date().toISOString().split('T')[0],
+    phase: toSovereignDate(new Date()).phase.glyph,
+    microorcimsFired: microorcims.filter(m => m.fired).length,
+    microorcimsAttempted: microorcims.length,
+    focusMinutes: Math.round(focus.reduce((sum, s) => sum + (s.endTime ? (s.endTime - s.startTime) / 60000 : 0), 0)),
+    focusSessions: focus.filter(s => s.completed).length,
+    ritualsCompleted: rituals.filter(r => (r.completions || []).filter(c => isToday(c.timestamp)).length >= r.targetCount).length,
+    ritualsTotal: rituals.length,
+    journalWritten: await countJournalEntries(startOfToday.getTime()) > 0,
+    capturesUnprocessed: captures.filter(c => !c.processed).length
+  }
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Run a tool call and report its outcome for the model. Failures come
+ * back as error results rather than throwing, so the model can recover.
+ */
+export async function runCascadeTool(call: LLMToolCall, actor: AuditActor): Promise<LLMToolResult> {
+  const result = (content: unknown, isError = false): LLMToolResult => ({
+    callId: call.id,
+    name: call.name,
+    content: typeof content === 'string' ? content : JSON.stringify(content),
+    ...(isError ? { isError } : {})
+  })
+
+  const checked = checkCascadeToolCall(call)
+  if ('error' in checked) return result(checked.error, true)
+
+  try {
+    const { call: cascadeCall } = checked
+    switch (cascadeCall.name) {
+      case 'log_microorcim': return result(await logMicroorcim(cascadeCall.arguments, actor))
+      case 'add_knowledge_block': return result(addKnowledgeBlock(cascadeCall.arguments, actor))
+      case 'create_commitment': return result(await createCommitment(cascadeCall.arguments, actor))
+      case 'record_measurement': return result(recordMeasurement(cascadeCall.arguments, actor))
+      case 'query_goals': return result(await queryGoals(cascadeCall.arguments))
+      case 'get_today_metrics': return result(await getTodayMetrics())
+    }
+  } catch (error) {
+    if (!(error instanceof ToolError)) console.error(`Tool ${call.name} failed:`, error)
+    return result(error instanceof Error ? error.message : String(error), true)
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { getCascadeTool, describeToolCall, isWriteTool } from './cascade-tools'
+import {
+  LLMToolCall,
+  ToolTurn,
+  anthropicMessages,
+  geminiContents,
+  openAIMessages,
+  parseToolArguments,
+  validateToolArguments
+} from './tool-use'
+
+const CALL: LLMToolCall = { id: 'call-1', name: 'log_microorcim', arguments: { context: 'Walked before work', intent: 0.8 } }
+
+const TURNS: ToolTurn[] = [
+  { role: 'system', content: 'Be brief' },
+  { role: 'user', content: 'I walked before work' },
+  { role: 'assistant', content: '', toolCalls: [CALL] },
+  { role: 'user', content: '', toolResults: [{ callId: 'call-1', name: 'log_microorcim', content: 'Bad intent', isError: true }] }
+]
+
+describe('validateToolArguments', () => {
+  const tool = getCascadeTool('log_microorcim')!
+
+  it('accepts arguments that fit the parameters', () => {
+    expect(validateToolArguments(tool, { ...CALL.arguments, difficulty: 'DIFFICULT', note: null })).toBeNull()
+  })
+
+  it('names the first argument that does not fit', () => {
+    expect(validateToolArguments(tool, { intent: 0.8 })).toBe('`context` is required')
+    expect(validateToolArguments(tool, { ...CALL.arguments, mood: 3 })).toBe('Unknown argument `mood`')
+    expect(validateToolArguments(tool, { ...CALL.arguments, intent: '0.8' })).toBe('`intent` must be a number')
+    expect(validateToolArguments(tool, { ...CALL.arguments, intent: 1.5 })).toBe('`intent` must be at most 1')
+    expect(validateToolArguments(tool, { ...CALL.arguments, difficulty: 'brutal' })).toMatch(/^`difficulty` must be one of/)
+  })
+
+  it('rejects arguments that arrived as malformed JSON', () => {
+    const args = parseToolArguments('{"context": "Walked"')
+
+    expect(args).toEqual({ _malformed: '{"context": "Walked"' })
+    expect(validateToolArguments(tool, { ...CALL.arguments, ...args })).toBe('Unknown argument `_malformed`')
+    expect(parseToolArguments(undefined)).toEqual({})
+  })
+})
+
+describe('provider messages', () => {
+  it('carry tool calls and results in the Anthropic format', () => {
+    const [, call, result] = anthropicMessages(TURNS)
+
+    expect(call).toEqual({ role: 'assistant', content: [{ type: 'tool_use', id: 'call-1', name: 'log_microorcim', input: CALL.arguments }] })
+    expect(result).toEqual({ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-1', content: 'Bad intent', is_error: true }] })
+  })
+
+  it('give each OpenAI tool result a message of its own', () => {
+    const messages = openAIMessages(TURNS.slice(1))
+
+    expect(messages.slice(1)).toEqual([
+      { role: 'assistant', content: null, tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'log_microorcim', arguments: JSON.stringify(CALL.arguments) } }] },
+      { role: 'tool', tool_call_id: 'call-1', content: 'Bad intent' }
+    ])
+  })
+
+  it('prepend the system prompt to the first Gemini message', () => {
+    const contents = geminiContents(TURNS, 'Be brief')
+
+    expect(contents[0]).toEqual({ role: 'user', parts: [{ text: '[System Instructions]\nBe brief\n\n[User Message]\nI walked before work' }] })
+    expect(contents[1].parts).toEqual([{ text: '' }, { functionCall: { name: 'log_microorcim', args: CALL.arguments } }])
+    expect(contents[2].parts).toEqual([{ functionResponse: { name: 'log_microorcim', response: { error: 'Bad intent' } } }])
+  })
+})
+
+describe('CASCADE tools', () => {
+  it('ask for approval only before writes', () => {
+    expect(isWriteTool('log_microorcim')).toBe(true)
+    expect(isWriteTool('query_goals')).toBe(false)
+  })
+
+  it('describe each call in one line', () => {
+    expect(describeToolCall(CALL)).toBe('Log a microorcim: "Walked before work" (intent 0.8, drift 0.3)')
+    expect(describeToolCall({ id: 'call-2', name: 'create_commitment', arguments: { content: 'Run', deadline: '2026-03-02' } }))
+      .toBe('Commit to Self: "Run" by 2026-03-02')
+  })
+})
@@ -0,0 +1,269 @@
+import { generateId } from '@/lib/utils'
+
+/**
+ * CASCADE LIVING OS - TOOL USE
+ * ============================
+ * Provider-neutral tools, tool calls and tool results, and their wire
+ * formats: Anthropic tools, Gemini function calling and OpenAI tools.
+ *
+ * A conversation carries tool use on its turns: an assistant turn lists
+ * the calls it made in `toolCalls`, and the user turn after it answers
+ * them in `toolResults`. Local and mock providers see only the text.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean'
+  description: string
+  enum?: string[]
+  minimum?: number
+  maximum?: number
+}
+
+/**
+ * A tool the model may call; `parameters` is a JSON Schema object
+ */
+export interface LLMTool {
+  name: string
+  description: string
+  parameters: {
+    type: 'object'
+    properties: Record<string, ToolParameter>
+    required: string[]
+  }
+}
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface LLMToolResult {
+  callId: string
+  name: string
+  content: string
+  isError?: boolean
+}
+
+/**
+ * The parts of a conversation turn tool use needs
+ */
+export interface ToolTurn {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  toolCalls?: LLMToolCall[]
+  toolResults?: LLMToolResult[]
+}
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+/**
+ * Why `args` does not fit the tool's parameters, or null when it does
+ */
+export function validateToolArguments(tool: LLMTool, args: Record<string, unknown>): string | null {
+  for (const name of tool.parameters.required) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') return `\`${name}\` is required`
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const parameter = tool.parameters.properties[name]
+    if (!parameter) return `Unknown argument \`${name}\``
+    if (value === undefined || value === null) continue
+
+    switch (parameter.type) {
+      case 'string':
+        if (typeof value !== 'string') return `\`${name}\` must be a string`
+        if (parameter.enum && !parameter.enum.includes(value)) return `\`${name}\` must be one of ${parameter.enum.join(', ')}`
+        break
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isFinite(value)) return `\`${name}\` must be a number`
+        if (parameter.type === 'integer' && !Number.isInteger(value)) return `\`${name}\` must be a whole number`
+        if (parameter.minimum !== undefined && value < parameter.minimum) return `\`${name}\` must be at least ${parameter.minimum}`
+        if (parameter.maximum !== undefined && value > parameter.maximum) return `\`${name}\` must be at most ${parameter.maximum}`
+        break
+      case 'boolean':
+        if (typeof value !== 'boolean') return `\`${name}\` must be true or false`
+        break
+    }
+  }
+  return null
+}
+
+/**
+ * Arguments sent as a JSON string; a malformed one fails validation later
+ */
+export function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  if (!json) return {}
+  try {
+    const parsed = JSON.parse(json)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { _malformed: json }
+  } catch {
+    return { _malformed: json }
+  }
+}
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+export function anthropicTools(tools: LLMTool[]) {
+  return tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+}
+
+/**
+ * Messages API turns; system turns are sent separately
+ */
+export function anthropicMessages(messages: ToolTurn[]) {
+  return messages.filter(m => m.role !== 'system').map(m => {
+    const text = m.content ? [{ type: 'text', text: m.content }] : []
+    if (m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: [...text, ...m.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))]
+      }
+    }
+    if (m.toolResults?.length) {
+      return {
+        role: 'user',
+        content: [
+          ...m.toolResults.map(result => ({
+            type: 'tool_result',
+            tool_use_id: result.callId,
+            content: result.content,
+            ...(result.isError ? { is_error: true } : {})
+          })),
+          ...text
+        ]
+      }
+    }
+    return { role: m.role, content: m.content }
+  })
+}
+
+/**
+ * Text and tool calls of a Messages API reply
+ */
+export function readAnthropicContent(
+  blocks: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }> = []
+): { text: string; toolCalls: LLMToolCall[] } {
+  return {
+    text: blocks.filter(block => block.type === 'text').map(block => block.text || '').join(''),
+    toolCalls: blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id || generateId('call'), name: block.name || '', arguments: block.input || {} }))
+  }
+}
+
+// ============================================================================
+// GEMINI
+// ============================================================================
+
+export function geminiTools(tools: LLMTool[]) {
+  return [{
+    functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parameters: tool.parameters }))
+  }]
+}
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } }
+
+/**
+ * `contents` for generateContent. Gemini has no system role here, so the
+ * system prompt is prepended to the first message.
+ */
+export function geminiContents(messages: ToolTurn[], systemPrompt?: string) {
+  const contents = messages.filter(m => m.role !== 'system').map(m => {
+    const parts: GeminiPart[] = []
+    m.toolResults?.forEach(result => parts.push({
+      functionResponse: { name: result.name, response: result.isError ? { error: result.content } : { content: result.content } }
+    }))
+    if (m.content || parts.length === 0) parts.push({ text: m.content })
+    m.toolCalls?.forEach(call => parts.push({ functionCall: { name: call.name, args: call.arguments } }))
+    return { role: m.role === 'assistant' ? 'model' : 'user', parts }
+  })
+
+  const first = contents[0]?.parts[0]
+  if (systemPrompt && first && 'text' in first) {
+    first.text = `[System Instructions]\n${systemPrompt}\n\n[User Message]\n${first.text}`
+  }
+  return contents
+}
+
+/**
+ * Text and function calls of a Gemini candidate's parts
+ */
+export function readGeminiParts(
+  parts: Array<{ text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }> = []
+): { text: string; toolCalls: LLMToolCall[] } {
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    // Gemini calls carry no ids; results are matched by name
+    toolCalls: parts
+      .filter(part => part.functionCall)
+      .map(part => ({ id: generateId('call'), name: part.functionCall!.name, arguments: part.functionCall!.args || {} }))
+  }
+}
+
+// ============================================================================
+// OPENAI
+// ============================================================================
+
+export function openAITools(tools: LLMTool[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }))
+}
+
+interface OpenAIMessage {
+  role: string
+  content: string | null
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>
+  tool_call_id?: string
+}
+
+/**
+ * Chat completions messages; a turn answering tool calls becomes one
+ * `tool` message per result
+ */
+export function openAIMessages(messages: ToolTurn[]): OpenAIMessage[] {
+  return messages.flatMap<OpenAIMessage>(m => {
+    if (m.toolCalls?.length) {
+      return [{
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      }]
+    }
+    if (m.toolResults?.length) {
+      return [
+        ...m.toolResults.map(result => ({ role: 'tool', tool_call_id: result.callId, content: result.content })),
+        ...(m.content ? [{ role: m.role, content: m.content }] : [])
+      ]
+    }
+    return [{ role: m.role, content: m.content }]
+  })
+}
+
+export function readOpenAIToolCalls(
+  toolCalls: Array<{ id?: string; function?: { name?: string; arguments?: string } }> = []
+): LLMToolCall[] {
+  return toolCalls.map(call => ({
+    id: call.id || generateId('call'),
+    name: call.function?.name || '',
+    arguments: parseToolArguments(call.function?.arguments)
+  }))
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubBrowserStorage } from '@/lib/db/testing'
+import { PERSISTED_STATE_KEY } from '@/lib/db/schema'
+
+const PATTERN = { type: 'INSIGHT' as const, content: 'Mornings go better', frequency: 1, firstSeen: 2, lastSeen: 2 }
+
+async function loadStore() {
+  vi.resetModules()
+  const store = await import('./cascade-store')
+  await vi.waitFor(() => expect(store.useCASCADEStore.persist.hasHydrated()).toBe(true))
+  const { createIndexedDBStorage } = await import('@/lib/db/state-storage')
+  const stored = async () => (await createIndexedDBStorage()!.getItem(PERSISTED_STATE_KEY))?.state as
+    | { patterns: unknown[] }
+    | undefined
+  return { ...store, stored }
+}
+
+beforeEach(() => {
+  stubBrowserStorage()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('applyStoredState', () => {
+  it('applies state without writing it back', async () => {
+    const { useCASCADEStore, applyStoredState, stored } = await loadStore()
+
+    applyStoredState({ patterns: [PATTERN] })
+
+    expect(useCASCADEStore.getState().patterns).toEqual([PATTERN])
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect((await stored())?.patterns ?? []).toEqual([])
+  })
+
+  it('leaves ordinary updates persisted', async () => {
+    const { useCASCADEStore, stored } = await loadStore()
+
+    useCASCADEStore.setState({ patterns: [PATTERN] })
+
+    await vi.waitFor(async () => expect((await stored())?.patterns).toEqual([PATTERN]))
+  })
+})
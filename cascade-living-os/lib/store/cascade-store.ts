@@ -2,8 +2,18 @@
 // Central state management with persistence
 
 import { create } from 'zustand'
-import { persist, createJSONStorage } from 'zustand/middleware'
+import { persist, PersistStorage } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
+import { Draft, Patch, applyPatches, enablePatches, produceWithPatches } from 'immer'
+
+import { createIndexedDBStorage, quarantinePersistedState } from '@/lib/db/state-storage'
+import { broadcast } from '@/lib/db/tab-channel'
+import { AuditActor, AuditDraft, appendAudit, getCurrentActor } from '@/lib/db/audit'
+import { saveJournalEntry, absorbJournalEntries } from '@/lib/db/journal'
+import { PERSISTED_STATE_KEY } from '@/lib/db/schema'
+import { SUBSYSTEMS, scheduleSnapshot, selectSubsystems, Subsystem } from '@/lib/db/state-history'
+import { CURRENT_STATE_VERSION, MigrationReport, migrateState } from './migrations'
+import { recordUndo, discardUndoHistory, quoteForLabel } from './undo'
 
 import {
   CASCADEState,
@@ -61,14 +71,40 @@ const createInitialState = (): CASCADEState => ({
   },
   userId: generateUserId(),
   lastSync: Date.now(),
-  version: '1.0.0'
+  version: CURRENT_STATE_VERSION
+})
+
+// Undoable actions record immer patches
+enablePatches()
+
+// The journal itself lives in the journal-entries store; state keeps the newest entries
+export const RECENT_JOURNAL_WINDOW = 50
+
+// Every persisted write is offered to the delta history and announced to other tabs
+const indexedDBStorage = createIndexedDBStorage<CASCADEState>({
+  onWrite: (state) => {
+    scheduleSnapshot(state)
+    broadcast({ type: 'state-written', lastSync: state.lastSync })
+  }
 })
 
+// Set while state another tab already stored is applied, so it is not written back
+let applyingStoredState = false
+
+const storage: PersistStorage<CASCADEState> | undefined = indexedDBStorage && {
+  ...indexedDBStorage,
+  setItem: (name, value) => applyingStoredState ? undefined : indexedDBStorage.setItem(name, value)
+}
+
 // ============================================================================
 // STORE INTERFACE
 // ============================================================================
 
 interface CASCADEStore extends CASCADEState {
+  // Schema migrations (not persisted)
+  migrationReport: MigrationReport | null
+  migrationError: string | null
+  
   // Initialization
   initialize: () => void
   reset: () => void
@@ -106,7 +142,13 @@ interface CASCADEStore extends CASCADEState {
   
   // Export/Import
   exportState: () => string
-  importState: (json: string) => void
+  importState: (json: string) => MigrationReport
+  
+  // History
+  restoreFromHistory: (snapshot: CASCADEState, subsystems?: Subsystem[]) => void
+  
+  // Sync
+  applySyncedState: (snapshot: unknown) => void
   
   // Computed
   getCurrentMicroorcim: () => number
@@ -123,20 +165,27 @@ export const useCASCADEStore = create<CASCADEStore>()(
     immer((set, get) => ({
       // Initial state
       ...createInitialState(),
+      migrationReport: null,
+      migrationError: null,
       
       // ========================================
       // INITIALIZATION
       // ========================================
       
       initialize: () => {
-        const stored = localStorage.getItem('cascade-living-os')
-        if (!stored) {
-          set(createInitialState())
-        }
+        if (!storage) return
+        void Promise.resolve(storage.getItem(PERSISTED_STATE_KEY)).then(stored => {
+          if (!stored) {
+            set(createInitialState())
+          }
+        })
+        whenHydrated(compactJournal)
       },
       
       reset: () => {
+        const before = get()
         set(createInitialState())
+        auditState('Reset all state', before, get())
       },
       
       // ========================================
@@ -144,17 +193,19 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       recordDecision: (decision) => {
-        set((state) => {
+        const label = decision.agent === 'human' ? 'Recorded a sovereign decision' : 'Recorded an AI decision'
+        setUndoable(label, (state) => {
           state.sovereignty = recordSovereignDecision(state.sovereignty, decision)
           state.lastSync = Date.now()
         })
       },
       
       updateMutualCoherence: (coherence) => {
-        set((state) => {
+        const label = `Set mutual coherence to ${Math.round(coherence * 100)}%`
+        setUndoable(label, (state) => {
           state.sovereignty.mutualCoherence = Math.max(0, Math.min(1, coherence))
           state.lastSync = Date.now()
-        })
+        }, { coalesceKey: 'mutual-coherence' })
       },
       
       // ========================================
@@ -162,7 +213,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       addKnowledgeBlock: (block) => {
-        set((state) => {
+        setUndoable(`Added ${quoteForLabel(block.content)} to the pyramid`, (state) => {
           const { newState, event } = addKnowledge(state.pyramid, block)
           state.pyramid = newState
           state.lastSync = Date.now()
@@ -176,25 +227,30 @@ export const useCASCADEStore = create<CASCADEStore>()(
               coherenceImpact: event.coherenceAfter - event.coherenceBefore
             })
           }
+        }, {
+          // The decision is the cascade's, not something the user recorded
+          attribution: {
+            sovereignty: { actor: CASCADE_ACTOR, action: 'Recorded an AI decision for a pyramid cascade' }
+          }
         })
       },
       
       promoteKnowledge: (blockId, newEvidence) => {
-        set((state) => {
+        setUndoable(`Promoted ${blockLabel(get().pyramid, blockId)}`, (state) => {
           state.pyramid = promoteBlock(state.pyramid, blockId, newEvidence)
           state.lastSync = Date.now()
         })
       },
       
       demoteKnowledge: (blockId, reason) => {
-        set((state) => {
+        setUndoable(`Demoted ${blockLabel(get().pyramid, blockId)}`, (state) => {
           state.pyramid = demoteBlock(state.pyramid, blockId, reason)
           state.lastSync = Date.now()
         })
       },
       
       triggerManualCascade: (triggerId) => {
-        set((state) => {
+        setUndoable(`Cascade triggered by ${blockLabel(get().pyramid, triggerId)}`, (state) => {
           const allBlocks = [
             ...state.pyramid.foundation,
             ...state.pyramid.theory,
@@ -215,7 +271,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       addPractice: (name, description, layer = 'EDGE') => {
-        set((state) => {
+        setUndoable(`Added practice ${quoteForLabel(name)}`, (state) => {
           const prediction = createPrediction(name, description, layer)
           state.realityBridge.practices.push(prediction)
           state.lastSync = Date.now()
@@ -223,7 +279,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       },
       
       addPracticeAnchor: (practiceId, anchor) => {
-        set((state) => {
+        setUndoable(`Added an anchor to ${practiceLabel(get().realityBridge, practiceId)}`, (state) => {
           const practiceIndex = state.realityBridge.practices.findIndex(
             p => p.id === practiceId
           )
@@ -238,7 +294,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       },
       
       recordPracticeMeasurement: (practiceId, anchorId, value, notes) => {
-        set((state) => {
+        setUndoable(`Measured ${practiceLabel(get().realityBridge, practiceId)}`, (state) => {
           state.realityBridge = recordMeasurement(
             state.realityBridge,
             practiceId,
@@ -251,7 +307,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       },
       
       evaluateAllPractices: () => {
-        set((state) => {
+        setUndoable('Evaluated all practices', (state) => {
           state.realityBridge = evaluateAll(state.realityBridge)
           state.lastSync = Date.now()
         })
@@ -262,28 +318,36 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       addJournalEntry: (entry) => {
+        const newEntry: JournalEntry = {
+          ...entry,
+          id: generateId(),
+          timestamp: Date.now()
+        }
+        
         set((state) => {
-          const newEntry: JournalEntry = {
-            ...entry,
-            id: generateId(),
-            timestamp: Date.now()
-          }
           state.journal.unshift(newEntry) // Newest first
           
-          // Keep last 1000 entries
-          if (state.journal.length > 1000) {
-            state.journal = state.journal.slice(0, 1000)
+          // Older entries are read back from the journal-entries store
+          if (state.journal.length > RECENT_JOURNAL_WINDOW) {
+            state.journal = state.journal.slice(0, RECENT_JOURNAL_WINDOW)
           }
           
           state.lastSync = Date.now()
         })
+        
+        // Audited as a journal-entries record
+        saveJournalEntry(newEntry).catch(error => {
+          console.error('Failed to save journal entry:', error)
+        })
       },
       
       updatePatterns: (patterns) => {
+        const before = get()
         set((state) => {
           state.patterns = patterns
           state.lastSync = Date.now()
         })
+        auditState('Updated detected patterns', before, get())
       },
       
       // ========================================
@@ -291,10 +355,12 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       setOraclePrediction: (prediction) => {
+        const before = get()
         set((state) => {
           state.oracle = prediction
           state.lastSync = Date.now()
         })
+        auditState('Updated the oracle prediction', before, get())
       },
       
       // ========================================
@@ -302,7 +368,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
       // ========================================
       
       updateAURA: (metrics) => {
-        set((state) => {
+        setUndoable('Adjusted AURA thresholds', (state) => {
           state.aura = { ...state.aura, ...metrics }
           
           // Validate AURA constraints
@@ -314,7 +380,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
           state.aura.warnings = warnings
           state.aura.valid = warnings.length === 0
           state.lastSync = Date.now()
-        })
+        }, { coalesceKey: 'aura' })
       },
       
       // ========================================
@@ -328,7 +394,7 @@ export const useCASCADEStore = create<CASCADEStore>()(
           sovereignty: state.sovereignty,
           realityBridge: state.realityBridge,
           oracle: state.oracle,
-          journal: state.journal,
+          journal: state.journal, // Recent window; archives carry the whole journal
           patterns: state.patterns,
           aura: state.aura,
           userId: state.userId,
@@ -338,21 +404,61 @@ export const useCASCADEStore = create<CASCADEStore>()(
       },
       
       importState: (json) => {
-        try {
-          const imported = JSON.parse(json)
-          set((state) => {
-            if (imported.pyramid) state.pyramid = imported.pyramid
-            if (imported.sovereignty) state.sovereignty = imported.sovereignty
-            if (imported.realityBridge) state.realityBridge = imported.realityBridge
-            if (imported.oracle) state.oracle = imported.oracle
-            if (imported.journal) state.journal = imported.journal
-            if (imported.patterns) state.patterns = imported.patterns
-            if (imported.aura) state.aura = imported.aura
-            state.lastSync = Date.now()
+        // Throws on malformed JSON or data the registry cannot migrate
+        const { state: imported, report } = migrateState(JSON.parse(json), 'import', { partial: true })
+        
+        setUndoable('Imported state', (state) => {
+          if (imported.pyramid) state.pyramid = imported.pyramid
+          if (imported.sovereignty) state.sovereignty = imported.sovereignty
+          if (imported.realityBridge) state.realityBridge = imported.realityBridge
+          if (imported.oracle) state.oracle = imported.oracle
+          if (imported.journal) state.journal = recentJournal(imported.journal)
+          if (imported.patterns) state.patterns = imported.patterns
+          if (imported.aura) state.aura = imported.aura
+          state.migrationReport = report
+          state.lastSync = Date.now()
+        })
+        
+        if (imported.journal) {
+          absorbJournalEntries(imported.journal, { restoreDeleted: true }).catch(error => {
+            console.error('Failed to import journal entries:', error)
           })
-        } catch (e) {
-          console.error('Failed to import state:', e)
         }
+        
+        return report
+      },
+      
+      // ========================================
+      // HISTORY
+      // ========================================
+      
+      restoreFromHistory: (snapshot, subsystems) => {
+        const restored = selectSubsystems(snapshot, subsystems)
+        const label = subsystems ? `Restored ${subsystems.join(', ')} from history` : 'Restored state from history'
+        
+        setUndoable(label, (state) => {
+          Object.assign(state, restored)
+          state.lastSync = Date.now()
+        })
+      },
+      
+      // ========================================
+      // SYNC
+      // ========================================
+      
+      applySyncedState: (snapshot) => {
+        // Throws on state the migration registry cannot bring up to date
+        const { state: synced } = migrateState(snapshot, 'sync')
+        const restored = selectSubsystems(synced as CASCADEState)
+        const before = get()
+        
+        set((state) => {
+          Object.assign(state, restored)
+          // Keep the sending device's clock so the state is not pushed back
+          if (synced.lastSync !== undefined) state.lastSync = synced.lastSync
+        })
+        auditState('Adopted synced state', before, get())
+        discardUndoHistory('state')
       },
       
       // ========================================
@@ -409,8 +515,22 @@ export const useCASCADEStore = create<CASCADEStore>()(
       }
     })),
     {
-      name: 'cascade-living-os',
-      storage: createJSONStorage(() => localStorage),
+      name: PERSISTED_STATE_KEY,
+      storage,
+      // Every rehydrate goes through the migration registry
+      merge: (persisted, current) => {
+        if (persisted === undefined || persisted === null) return current
+        
+        try {
+          const { state, report } = migrateState(persisted, 'rehydrate')
+          return { ...current, ...state, migrationReport: report }
+        } catch (error) {
+          console.error('Refusing persisted CASCADE state:', error)
+          void quarantinePersistedState(PERSISTED_STATE_KEY, persisted)
+            .catch(e => console.error('Failed to quarantine state:', e))
+          return { ...current, migrationError: (error as Error).message }
+        }
+      },
       partialize: (state) => ({
         pyramid: state.pyramid,
         sovereignty: state.sovereignty,
@@ -427,6 +547,137 @@ export const useCASCADEStore = create<CASCADEStore>()(
   )
 )
 
+/**
+ * Apply state another tab has already stored. Nothing is written, so it is
+ * neither announced back to that tab nor recorded twice in the history.
+ */
+export function applyStoredState(state: Partial<CASCADEState>): void {
+  applyingStoredState = true
+  try {
+    useCASCADEStore.setState(state)
+  } finally {
+    applyingStoredState = false
+  }
+}
+
+// ============================================================================
+// JOURNAL WINDOW
+// ============================================================================
+
+function whenHydrated(run: () => void): void {
+  if (useCASCADEStore.persist.hasHydrated()) {
+    run()
+    return
+  }
+  const unsubscribe = useCASCADEStore.persist.onFinishHydration(() => {
+    unsubscribe()
+    run()
+  })
+}
+
+function recentJournal(entries: JournalEntry[]): JournalEntry[] {
+  return [...entries]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, RECENT_JOURNAL_WINDOW)
+}
+
+/**
+ * Move entries that only exist in the persisted state (older builds kept
+ * up to 1000 there) into the journal-entries store, then trim the state
+ * to the recent window. Nothing is trimmed unless the move succeeded.
+ */
+async function compactJournal(): Promise<void> {
+  try {
+    const { journal } = useCASCADEStore.getState()
+    await absorbJournalEntries(journal)
+    
+    if (useCASCADEStore.getState().journal.length > RECENT_JOURNAL_WINDOW) {
+      useCASCADEStore.setState(state => ({ journal: recentJournal(state.journal) }))
+    }
+  } catch (error) {
+    console.error('Failed to move journal into its store:', error)
+  }
+}
+
+// ============================================================================
+// UNDO
+// ============================================================================
+
+interface UndoableOptions {
+  coalesceKey?: string
+  // Subsystems changed on someone else's behalf, logged under their own actor
+  attribution?: Partial<Record<Subsystem, { actor: AuditActor; action: string }>>
+}
+
+/**
+ * Apply an action's recipe and put its patches on the undo stack.
+ * Undo and redo stamp lastSync again so sync and other tabs treat them as new edits.
+ */
+function setUndoable(label: string, recipe: (state: Draft<CASCADEStore>) => void, options: UndoableOptions = {}): void {
+  const before = useCASCADEStore.getState()
+  const [next, patches, inversePatches] = produceWithPatches(before, recipe)
+  if (patches.length === 0) return
+  
+  useCASCADEStore.setState(next)
+  auditState(label, before, next, options.attribution)
+  recordUndo({
+    label,
+    scope: 'state',
+    coalesceKey: options.coalesceKey,
+    undo: () => applyStatePatches(inversePatches, `Undid ${label}`),
+    redo: () => applyStatePatches(patches, `Redid ${label}`)
+  })
+}
+
+function applyStatePatches(patches: Patch[], label: string): void {
+  const before = useCASCADEStore.getState()
+  useCASCADEStore.setState((state) => {
+    applyPatches(state, patches)
+    state.lastSync = Date.now()
+  })
+  auditState(label, before, useCASCADEStore.getState())
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+const CASCADE_ACTOR: AuditActor = { kind: 'system', process: 'pyramid cascade' }
+
+/**
+ * Log each subsystem a state change touched. The journal is left out:
+ * its entries are logged as records of their own store.
+ */
+function auditState(
+  label: string,
+  before: CASCADEState,
+  after: CASCADEState,
+  attribution: UndoableOptions['attribution'] = {}
+): void {
+  const actor = getCurrentActor()
+  const drafts: AuditDraft[] = SUBSYSTEMS
+    .filter(subsystem => subsystem !== 'journal' && before[subsystem] !== after[subsystem])
+    .map(subsystem => ({
+      actor: attribution[subsystem]?.actor ?? actor,
+      action: attribution[subsystem]?.action ?? label,
+      target: 'state',
+      entityId: subsystem,
+      before: before[subsystem],
+      after: after[subsystem]
+    }))
+  void appendAudit(drafts)
+}
+
+function blockLabel(pyramid: KnowledgePyramidState, blockId: string): string {
+  const block = [...pyramid.foundation, ...pyramid.theory, ...pyramid.edge].find(b => b.id === blockId)
+  return block ? quoteForLabel(block.content) : 'a knowledge block'
+}
+
+function practiceLabel(realityBridge: RealityBridgeState, practiceId: string): string {
+  const practice = realityBridge.practices.find(p => p.id === practiceId)
+  return practice ? quoteForLabel(practice.practiceName) : 'a practice'
+}
+
 // ============================================================================
 // UTILITIES
 // ============================================================================
@@ -0,0 +1,90 @@
+// CASCADE Living OS - Cross-Tab State
+// Merges CASCADEState written by other tabs into this tab's store
+
+import { CASCADEState } from '@/types/cascade'
+import { PERSISTED_STATE_KEY } from '@/lib/db/schema'
+import { createIndexedDBStorage } from '@/lib/db/state-storage'
+import { SUBSYSTEMS, Subsystem } from '@/lib/db/state-history'
+import { deepEqual } from '@/lib/db/json-patch'
+import { onTabMessage } from '@/lib/db/tab-channel'
+import { migrateState } from './migrations'
+import { useCASCADEStore, applyStoredState } from './cascade-store'
+import { discardUndoHistory } from './undo'
+
+const stateStorage = createIndexedDBStorage<CASCADEState>()
+
+// Subsystems edited in this tab that other tabs may not have seen yet
+const dirty = new Set<Subsystem>()
+let applyingRemote = false
+let merging: Promise<void> = Promise.resolve()
+
+/**
+ * Adopt every subsystem the other tab changed that this tab has not.
+ * Where both changed one, this tab's edit is kept and written again, so
+ * tabs converge on the latest edit of each subsystem.
+ */
+async function mergeStoredState(): Promise<void> {
+  const stored = await stateStorage?.getItem(PERSISTED_STATE_KEY)
+  if (!stored) return
+
+  const { state: remote } = migrateState(stored.state, 'rehydrate')
+  const local = useCASCADEStore.getState()
+  const adopted: Partial<CASCADEState> = {}
+  let republish = false
+
+  for (const subsystem of SUBSYSTEMS) {
+    const theirs = remote[subsystem]
+    if (theirs === undefined) continue
+
+    if (deepEqual(theirs, local[subsystem])) {
+      dirty.delete(subsystem)
+    } else if (dirty.has(subsystem)) {
+      republish = true
+    } else {
+      (adopted as Record<string, unknown>)[subsystem] = theirs
+    }
+  }
+
+  if (Object.keys(adopted).length === 0) {
+    // Another tab's write replaced ours; persisting again restores it
+    if (republish) useCASCADEStore.setState({})
+    return
+  }
+
+  applyingRemote = true
+  try {
+    applyStoredState({
+      ...adopted,
+      lastSync: Math.max(local.lastSync, remote.lastSync ?? 0)
+    })
+  } finally {
+    applyingRemote = false
+  }
+  // Patches recorded here may no longer line up with the adopted state
+  discardUndoHistory('state')
+}
+
+/**
+ * Track local edits and merge state persisted by other tabs.
+ * Call once the store has hydrated; returns a function that stops both.
+ */
+export function startCrossTabState(): () => void {
+  const unsubscribeStore = useCASCADEStore.subscribe((state, previous) => {
+    if (applyingRemote) return
+    SUBSYSTEMS.forEach(subsystem => {
+      if (state[subsystem] !== previous[subsystem]) dirty.add(subsystem)
+    })
+  })
+
+  const unsubscribeTabs = onTabMessage(message => {
+    if (message.type !== 'state-written') return
+    merging = merging
+      .then(mergeStoredState)
+      .catch(error => console.error('Failed to merge state from another tab:', error))
+  })
+
+  return () => {
+    unsubscribeStore()
+    unsubscribeTabs()
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CURRENT_STATE_VERSION,
+  StateMigrationError,
+  describeMigration,
+  migrateState
+} from './migrations'
+
+// The smallest blob validateState accepts
+function storedState(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    pyramid: { foundation: [], theory: [], edge: [], cascadeHistory: [] },
+    sovereignty: { humanSovereignty: {}, alerts: [] },
+    realityBridge: { practices: [], measurements: [] },
+    oracle: null,
+    journal: [],
+    patterns: [],
+    aura: { TES: 1 },
+    userId: 'user-1',
+    lastSync: 1000,
+    version: CURRENT_STATE_VERSION,
+    ...overrides
+  }
+}
+
+describe('migrateState', () => {
+  it('passes current data through untouched', () => {
+    const { state, report } = migrateState(storedState(), 'load')
+
+    expect(state).toEqual(storedState())
+    expect(report).toMatchObject({ fromVersion: CURRENT_STATE_VERSION, applied: [], droppedFields: [] })
+    expect(describeMigration(report)).toBe(`already at ${CURRENT_STATE_VERSION}`)
+  })
+
+  it('upgrades an unversioned export, taking lastSync from its export time', () => {
+    const { version, lastSync, ...legacy } = storedState()
+    const { state, report } = migrateState({ ...legacy, exportedAt: 5000 }, 'import')
+
+    expect(state.version).toBe(CURRENT_STATE_VERSION)
+    expect(state.lastSync).toBe(5000)
+    expect(state).not.toHaveProperty('exportedAt')
+    expect(report.fromVersion).toBe('0.0.0')
+    expect(report.applied).toHaveLength(1)
+    // exportedAt is known, so it is not reported as ignored
+    expect(report.droppedFields).toEqual([])
+  })
+
+  it('drops and reports fields the schema does not know', () => {
+    const { state, report } = migrateState(storedState({ theme: 'dark' }), 'rehydrate')
+
+    expect(state).not.toHaveProperty('theme')
+    expect(report.droppedFields).toEqual(['theme'])
+    expect(describeMigration(report)).toContain('ignored theme')
+  })
+
+  it('refuses data that is not an object', () => {
+    for (const raw of [null, 'state', [storedState()]]) {
+      expect(() => migrateState(raw, 'import')).toThrow(StateMigrationError)
+    }
+  })
+
+  it('refuses data from a newer build', () => {
+    expect(() => migrateState(storedState({ version: '99.0.0' }), 'sync')).toThrow(/newer than this build/)
+  })
+
+  it('refuses an unrecognized version', () => {
+    expect(() => migrateState(storedState({ version: 3 }), 'load')).toThrow(/Unrecognized state version/)
+  })
+
+  it('names the sections that do not have the expected shape', () => {
+    const raw = storedState({ journal: {}, aura: { TES: 'high' } })
+
+    expect(() => migrateState(raw, 'load')).toThrow(/journal is not a list of entries; aura is not AURA metrics/)
+  })
+
+  it('requires every section unless the data is partial', () => {
+    const { patterns, ...withoutPatterns } = storedState()
+
+    expect(() => migrateState(withoutPatterns, 'load')).toThrow(/missing patterns/)
+    expect(migrateState(withoutPatterns, 'import', { partial: true }).state).not.toHaveProperty('patterns')
+  })
+
+  it('refuses partial data without any CASCADE section', () => {
+    expect(() => migrateState({ userId: 'user-1' }, 'import', { partial: true })).toThrow(/no CASCADE sections found/)
+  })
+
+  it('reports the source and original version on failure', () => {
+    try {
+      migrateState(storedState({ version: '99.0.0' }), 'sync')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(StateMigrationError)
+      expect(error).toMatchObject({ source: 'sync', version: '99.0.0' })
+    }
+  })
+})
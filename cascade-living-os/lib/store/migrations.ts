@@ -0,0 +1,234 @@
+// CASCADE Living OS - State Migrations
+// Ordered version-to-version transforms for persisted and imported CASCADEState
+
+import { CASCADEState } from '@/types/cascade'
+
+/**
+ * Schema version written by this build.
+ * Changing the shape of CASCADEState means bumping this and appending a
+ * migration from the previous version to STATE_MIGRATIONS.
+ */
+export const CURRENT_STATE_VERSION = '1.0.0'
+
+// Version assumed for blobs written before `version` was persisted
+const UNVERSIONED = '0.0.0'
+
+type RawState = Record<string, unknown>
+
+export interface StateMigration {
+  from: string
+  to: string
+  description: string
+  migrate: (state: RawState) => RawState
+}
+
+export type MigrationSource = 'load' | 'rehydrate' | 'import' | 'sync'
+
+export interface MigrationReport {
+  source: MigrationSource
+  fromVersion: string
+  toVersion: string
+  applied: Array<Pick<StateMigration, 'from' | 'to' | 'description'>>
+  droppedFields: string[]
+  timestamp: number
+}
+
+export class StateMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly source: MigrationSource,
+    public readonly version: string | null
+  ) {
+    super(message)
+    this.name = 'StateMigrationError'
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const STATE_MIGRATIONS: StateMigration[] = [
+  {
+    from: UNVERSIONED,
+    to: '1.0.0',
+    description: 'Adopt schema versioning; derive lastSync from export time',
+    migrate: ({ exportedAt, ...state }) => ({
+      ...state,
+      lastSync: typeof state.lastSync === 'number'
+        ? state.lastSync
+        : typeof exportedAt === 'number' ? exportedAt : Date.now()
+    })
+  }
+]
+
+// Top-level fields of the persisted state
+const STATE_FIELDS: Array<keyof CASCADEState> = [
+  'pyramid',
+  'sovereignty',
+  'realityBridge',
+  'oracle',
+  'journal',
+  'patterns',
+  'aura',
+  'userId',
+  'lastSync',
+  'version'
+]
+
+// Fields that are only ever written by exportState
+const EXPORT_FIELDS = ['exportedAt']
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+interface MigrateOptions {
+  // Imports merge into the current state, so sections may be missing
+  partial?: boolean
+}
+
+/**
+ * Bring raw persisted or imported data up to CURRENT_STATE_VERSION.
+ *
+ * Throws StateMigrationError instead of guessing when the data is not an
+ * object, comes from a newer build, has no migration path, or does not have
+ * the expected shape once migrated.
+ */
+export function migrateState(
+  raw: unknown,
+  source: MigrationSource,
+  options: MigrateOptions = {}
+): { state: Partial<CASCADEState>; report: MigrationReport } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new StateMigrationError('State data is not an object', source, null)
+  }
+
+  let state = { ...(raw as RawState) }
+  const fromVersion = state.version === undefined ? UNVERSIONED : state.version
+
+  if (typeof fromVersion !== 'string' || !isVersion(fromVersion)) {
+    throw new StateMigrationError(`Unrecognized state version: ${String(fromVersion)}`, source, null)
+  }
+  if (compareVersions(fromVersion, CURRENT_STATE_VERSION) > 0) {
+    throw new StateMigrationError(
+      `State version ${fromVersion} is newer than this build (${CURRENT_STATE_VERSION})`,
+      source,
+      fromVersion
+    )
+  }
+
+  const report: MigrationReport = {
+    source,
+    fromVersion,
+    toVersion: CURRENT_STATE_VERSION,
+    applied: [],
+    droppedFields: [],
+    timestamp: Date.now()
+  }
+
+  let version = fromVersion
+  while (version !== CURRENT_STATE_VERSION) {
+    const step = STATE_MIGRATIONS.find(m => m.from === version)
+    if (!step) {
+      throw new StateMigrationError(
+        `No migration path from state version ${version} to ${CURRENT_STATE_VERSION}`,
+        source,
+        fromVersion
+      )
+    }
+    state = step.migrate(state)
+    version = step.to
+    report.applied.push({ from: step.from, to: step.to, description: step.description })
+  }
+  state.version = CURRENT_STATE_VERSION
+
+  // Drop anything the current schema does not know about
+  for (const key of Object.keys(state)) {
+    if (!STATE_FIELDS.includes(key as keyof CASCADEState)) {
+      if (!EXPORT_FIELDS.includes(key)) report.droppedFields.push(key)
+      delete state[key]
+    }
+  }
+
+  const problems = validateState(state, options.partial ?? false)
+  if (problems.length > 0) {
+    throw new StateMigrationError(
+      `State data is not understood: ${problems.join('; ')}`,
+      source,
+      fromVersion
+    )
+  }
+
+  return { state: state as Partial<CASCADEState>, report }
+}
+
+/**
+ * Shape check of the sections the store relies on
+ */
+function validateState(state: RawState, partial: boolean): string[] {
+  const problems: string[] = []
+  const has = (key: string) => state[key] !== undefined && state[key] !== null
+
+  const expectField = (key: string, check: (value: unknown) => boolean, expected: string) => {
+    if (!has(key)) {
+      if (!partial && key !== 'oracle') problems.push(`missing ${key}`)
+      return
+    }
+    if (!check(state[key])) problems.push(`${key} is not ${expected}`)
+  }
+
+  expectField('pyramid', p => isObject(p) &&
+    ['foundation', 'theory', 'edge', 'cascadeHistory'].every(k => Array.isArray(p[k])),
+    'a knowledge pyramid')
+  expectField('sovereignty', s => isObject(s) && isObject(s.humanSovereignty) && Array.isArray(s.alerts),
+    'a partnership state')
+  expectField('realityBridge', r => isObject(r) && Array.isArray(r.practices) && Array.isArray(r.measurements),
+    'a reality bridge state')
+  expectField('oracle', isObject, 'a trajectory prediction')
+  expectField('journal', Array.isArray, 'a list of entries')
+  expectField('patterns', Array.isArray, 'a list of patterns')
+  expectField('aura', a => isObject(a) && typeof a.TES === 'number', 'AURA metrics')
+  expectField('userId', u => typeof u === 'string', 'a string')
+  expectField('lastSync', t => typeof t === 'number', 'a timestamp')
+
+  if (partial && !['pyramid', 'sovereignty', 'realityBridge', 'journal', 'patterns', 'aura'].some(has)) {
+    problems.push('no CASCADE sections found')
+  }
+
+  return problems
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function isObject(value: unknown): value is RawState {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isVersion(version: string): boolean {
+  return /^\d+\.\d+\.\d+$/.test(version)
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number)
+  const pb = b.split('.').map(Number)
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i]
+  }
+  return 0
+}
+
+/**
+ * One-line summary of a migration report for the UI
+ */
+export function describeMigration(report: MigrationReport): string {
+  const steps = report.applied.length === 0
+    ? `already at ${report.toVersion}`
+    : `migrated ${report.fromVersion} → ${report.toVersion} (${report.applied.length} step${report.applied.length === 1 ? '' : 's'})`
+  const dropped = report.droppedFields.length > 0
+    ? `, ignored ${report.droppedFields.join(', ')}`
+    : ''
+  return `${steps}${dropped}`
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// A counter the recorded changes act on
+let value = 0
+
+beforeEach(() => {
+  vi.resetModules()
+  value = 0
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+async function loadUndo() {
+  const undo = await import('./undo')
+  const set = (next: number, options: { coalesceKey?: string; scope?: string } = {}) => {
+    const previous = value
+    value = next
+    undo.recordUndo({
+      label: `Set to ${next}`,
+      scope: options.scope ?? 'state',
+      coalesceKey: options.coalesceKey,
+      undo: () => { value = previous },
+      redo: () => { value = next }
+    })
+  }
+  return { ...undo, set }
+}
+
+describe('undo and redo', () => {
+  it('walk back and forth through recorded changes', async () => {
+    const history = await loadUndo()
+    history.set(1)
+    history.set(2)
+
+    expect(await history.undo()).toMatchObject({ label: 'Set to 2' })
+    expect(value).toBe(1)
+    await history.undo()
+    expect(value).toBe(0)
+    expect(await history.undo()).toBeNull()
+
+    expect(await history.redo()).toMatchObject({ label: 'Set to 1' })
+    expect(value).toBe(1)
+    expect(history.getUndoStatus()).toMatchObject({ undo: { label: 'Set to 1' }, redo: { label: 'Set to 2' } })
+  })
+
+  it('clear the redo stack on a new change', async () => {
+    const history = await loadUndo()
+    history.set(1)
+    await history.undo()
+
+    history.set(5)
+
+    expect(await history.redo()).toBeNull()
+    expect(value).toBe(5)
+  })
+
+  it('merge changes with the same key made close together', async () => {
+    vi.useFakeTimers()
+    const history = await loadUndo()
+    history.set(1, { coalesceKey: 'slider' })
+    vi.advanceTimersByTime(500)
+    history.set(2, { coalesceKey: 'slider' })
+    vi.advanceTimersByTime(5000)
+    history.set(3, { coalesceKey: 'slider' })
+
+    await history.undo()
+    expect(value).toBe(2)
+    await history.undo()
+    expect(value).toBe(0)
+  })
+})
+
+describe('failures and discarded history', () => {
+  it('drop the history of a scope whose change could not be undone', async () => {
+    const history = await loadUndo()
+    history.set(1, { scope: 'goals' })
+    history.recordUndo({
+      label: 'Broken',
+      scope: 'goals',
+      undo: () => { throw new Error('store changed') },
+      redo: () => {}
+    })
+    history.set(2)
+
+    await history.undo()
+    await expect(history.undo()).rejects.toThrow(history.UndoError)
+
+    expect(history.getUndoStatus()).toEqual({ undo: null, redo: expect.objectContaining({ label: 'Set to 2' }) })
+  })
+
+  it('forget a scope replaced from elsewhere', async () => {
+    const history = await loadUndo()
+    const statuses: Array<string | undefined> = []
+    history.onUndoChange(status => statuses.push(status.undo?.label))
+    history.set(1, { scope: 'goals' })
+    history.set(2)
+
+    history.discardUndoHistory('goals')
+
+    expect(statuses).toEqual(['Set to 1', 'Set to 2', 'Set to 2'])
+    await history.undo()
+    expect(await history.undo()).toBeNull()
+  })
+})
+
+describe('quoteForLabel', () => {
+  it('quotes text on one line and shortens it', async () => {
+    const { quoteForLabel } = await import('./undo')
+
+    expect(quoteForLabel('Walk\n  before   work')).toBe('"Walk before work"')
+    expect(quoteForLabel('abcdefghij', 5)).toBe('"abcd…"')
+  })
+})
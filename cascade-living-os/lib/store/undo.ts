@@ -0,0 +1,176 @@
+// CASCADE Living OS - Undo History
+// One labelled undo/redo stack for the store and the page collections
+
+import { generateId } from '@/lib/utils'
+
+const MAX_UNDO_ENTRIES = 100
+
+// Changes to the same thing this close together undo as one (slider drags)
+const COALESCE_WINDOW_MS = 1500
+
+export interface UndoEntry {
+  id: string
+  label: string
+  scope: string     // 'state' or the entity store the change was written to
+  timestamp: number
+}
+
+interface HistoryEntry extends UndoEntry {
+  coalesceKey?: string
+  undo: () => void | Promise<void>
+  redo: () => void | Promise<void>
+}
+
+export interface UndoStatus {
+  undo: UndoEntry | null   // what Ctrl+Z would revert
+  redo: UndoEntry | null   // what Ctrl+Shift+Z would reapply
+}
+
+export class UndoError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UndoError'
+  }
+}
+
+let past: HistoryEntry[] = []
+let future: HistoryEntry[] = []
+let status: UndoStatus = { undo: null, redo: null }
+let running: Promise<unknown> = Promise.resolve()
+const listeners = new Set<(status: UndoStatus) => void>()
+
+function summarize({ id, label, scope, timestamp }: HistoryEntry): UndoEntry {
+  return { id, label, scope, timestamp }
+}
+
+function emit(): void {
+  const top = past[past.length - 1]
+  const next = future[future.length - 1]
+  status = {
+    undo: top ? summarize(top) : null,
+    redo: next ? summarize(next) : null
+  }
+  listeners.forEach(listener => listener(status))
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+interface RecordOptions {
+  label: string
+  scope: string
+  undo: () => void | Promise<void>
+  redo: () => void | Promise<void>
+  // Consecutive entries with the same key merge into one
+  coalesceKey?: string
+}
+
+/**
+ * Push a change that has already been applied. Clears the redo stack.
+ */
+export function recordUndo({ label, scope, undo, redo, coalesceKey }: RecordOptions): void {
+  const now = Date.now()
+  const top = past[past.length - 1]
+
+  if (coalesceKey && top?.coalesceKey === coalesceKey && now - top.timestamp < COALESCE_WINDOW_MS) {
+    const older = top
+    past[past.length - 1] = {
+      ...older,
+      label,
+      timestamp: now,
+      undo: async () => {
+        await undo()
+        await older.undo()
+      },
+      redo: async () => {
+        await older.redo()
+        await redo()
+      }
+    }
+  } else {
+    past.push({ id: generateId('undo'), label, scope, timestamp: now, coalesceKey, undo, redo })
+    if (past.length > MAX_UNDO_ENTRIES) past = past.slice(-MAX_UNDO_ENTRIES)
+  }
+
+  future = []
+  emit()
+}
+
+/**
+ * Forget entries for a scope whose data was replaced from elsewhere
+ * (another tab, sync), so they cannot be applied to state they no longer match
+ */
+export function discardUndoHistory(scope?: string): void {
+  past = scope ? past.filter(entry => entry.scope !== scope) : []
+  future = scope ? future.filter(entry => entry.scope !== scope) : []
+  emit()
+}
+
+// ============================================================================
+// UNDO / REDO
+// ============================================================================
+
+// Runs one step at a time so repeated shortcuts apply in order
+function step(from: () => HistoryEntry[], to: () => HistoryEntry[], direction: 'undo' | 'redo'): Promise<UndoEntry | null> {
+  const result = running.then(async () => {
+    const entry = from().pop()
+    if (!entry) return null
+
+    try {
+      await entry[direction]()
+    } catch (error) {
+      console.error(`Failed to ${direction} "${entry.label}":`, error)
+      // The data no longer matches the history around it
+      discardUndoHistory(entry.scope)
+      throw new UndoError(`Could not ${direction} "${entry.label}"`)
+    }
+
+    to().push(entry)
+    emit()
+    return summarize(entry)
+  })
+
+  running = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Revert the most recent change; resolves to it, or null when there is nothing to undo
+ */
+export function undo(): Promise<UndoEntry | null> {
+  return step(() => past, () => future, 'undo')
+}
+
+/**
+ * Reapply the most recently undone change
+ */
+export function redo(): Promise<UndoEntry | null> {
+  return step(() => future, () => past, 'redo')
+}
+
+export function getUndoStatus(): UndoStatus {
+  return status
+}
+
+/**
+ * Subscribe to stack changes; returns an unsubscribe function
+ */
+export function onUndoChange(listener: (status: UndoStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/**
+ * Quote user text for a label, shortened to fit a toast
+ */
+export function quoteForLabel(text: string, max: number = 40): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim()
+  return `"${oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine}"`
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { CASCADEState } from '@/types/cascade'
+import { initializePyramid } from '@/lib/cascade/pyramid'
+import { initializePartnership } from '@/lib/cascade/sovereignty'
+import { initializeRealityBridge } from '@/lib/cascade/reality-bridge'
+import { CURRENT_STATE_VERSION } from '@/lib/store/migrations'
+import { isUntouchedState } from './engine'
+
+function initialState(): CASCADEState {
+  return {
+    pyramid: initializePyramid('personal'),
+    sovereignty: initializePartnership(),
+    realityBridge: initializeRealityBridge(),
+    oracle: null,
+    journal: [],
+    patterns: [],
+    aura: { TES: 1, VTR: 1, PAI: 1, valid: true, warnings: [] },
+    userId: 'user-1',
+    lastSync: 1,
+    version: CURRENT_STATE_VERSION
+  }
+}
+
+describe('isUntouchedState', () => {
+  it('lets a new device adopt the server state', () => {
+    expect(isUntouchedState(null)).toBe(true)
+    expect(isUntouchedState(initialState())).toBe(true)
+  })
+
+  it('keeps a state that was written to before the first sync', () => {
+    const journaled = initialState()
+    journaled.journal.push({
+      id: 'entry-1',
+      timestamp: 2,
+      rawText: 'Walked before work',
+      extractedPatterns: [],
+      shadowMaterial: [],
+      suggestedIntegrations: []
+    })
+    expect(isUntouchedState(journaled)).toBe(false)
+
+    const learned = initialState()
+    learned.patterns.push({ type: 'INSIGHT', content: 'Mornings go better', frequency: 1, firstSeen: 2, lastSeen: 2 })
+    expect(isUntouchedState(learned)).toBe(false)
+
+    const decided = initialState()
+    decided.sovereignty.humanSovereignty.willpower.history.push({ timestamp: 2, value: 1 })
+    expect(isUntouchedState(decided)).toBe(false)
+  })
+})
@@ -0,0 +1,598 @@
+// CASCADE Living OS - Sync Engine
+// Pushes and pulls per-entity changes to a self-hosted sync endpoint
+
+import { CASCADEState } from '@/types/cascade'
+import { generateId } from '@/lib/utils'
+import { initDB } from '@/lib/db/indexed-db'
+import {
+  STORES,
+  ENTITY_STORE_NAMES,
+  EntityStoreName,
+  DOCUMENTS,
+  DocumentKey,
+  SYNC_META_KEY,
+  PERSISTED_STATE_KEY
+} from '@/lib/db/schema'
+import { sealRecord, openRecord } from '@/lib/db/vault'
+import { AuditActor, appendAudit, runAs } from '@/lib/db/audit'
+import {
+  getAll,
+  getById,
+  getDocument,
+  getEntityKey,
+  getEntityTimestamp,
+  notifyExternalChange
+} from '@/lib/db/repository'
+import {
+  ChangeRecord,
+  changeRef,
+  isSyncedDocument,
+  getPendingChanges,
+  countPendingChanges,
+  getChangeRecord,
+  getTrackedRefs,
+  putChangeRecords,
+  markPushed,
+  writeSynced,
+  clearChangeLog
+} from '@/lib/db/change-log'
+import { createIndexedDBStorage } from '@/lib/db/state-storage'
+import { broadcast, onTabMessage, electLeader, withTabLock } from '@/lib/db/tab-channel'
+import { useCASCADEStore } from '@/lib/store/cascade-store'
+import {
+  SyncChange,
+  SyncRequest,
+  SyncResponse,
+  SYNC_PROTOCOL_VERSION,
+  compareVersions
+} from './protocol'
+
+const PAGE_SIZE = 200
+const MAX_PUSH_ROUNDS = 50 // anything left over goes out with the next sync
+const MAX_CONFLICTS = 50
+
+export const DEFAULT_SYNC_INTERVAL = 15 // minutes
+
+export interface SyncSettings {
+  endpoint: string
+  token: string
+  intervalMinutes: number // 0 = manual only
+}
+
+/**
+ * An entity edited on this device and another one since they last synced.
+ * The later edit wins; the other is dropped.
+ */
+export interface SyncConflict {
+  ref: string
+  store: string
+  key: string
+  localModifiedAt: number
+  remoteModifiedAt: number
+  remoteDeviceId: string
+  winner: 'local' | 'remote'
+  resolvedAt: number
+}
+
+export type SyncPhase = 'idle' | 'pulling' | 'pushing' | 'error'
+
+export interface SyncStatus {
+  phase: SyncPhase
+  pulled: number
+  pushed: number
+  error: string | null
+}
+
+interface SyncMeta extends SyncSettings {
+  key: typeof SYNC_META_KEY
+  deviceId: string
+  cursor: number | null // null until the first successful pull
+  lastSyncedAt: number | null
+  conflicts: SyncConflict[]
+}
+
+export class SyncError extends Error {
+  constructor(message: string, public readonly status: number | null = null) {
+    super(message)
+    this.name = 'SyncError'
+  }
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+function createMeta(): SyncMeta {
+  return {
+    key: SYNC_META_KEY,
+    endpoint: '',
+    token: '',
+    intervalMinutes: DEFAULT_SYNC_INTERVAL,
+    deviceId: generateId('device'),
+    cursor: null,
+    lastSyncedAt: null,
+    conflicts: []
+  }
+}
+
+let creating: Promise<SyncMeta> | null = null
+
+async function loadMeta(): Promise<SyncMeta> {
+  const db = await initDB()
+  const stored = await new Promise<unknown>((resolve, reject) => {
+    const request = db.transaction(STORES.DOCUMENTS, 'readonly').objectStore(STORES.DOCUMENTS).get(SYNC_META_KEY)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  if (stored) return openRecord(stored as SyncMeta)
+
+  // Concurrent first reads must agree on one device id
+  if (!creating) {
+    const meta = createMeta()
+    creating = saveMeta(meta)
+      .then(() => meta)
+      .finally(() => {
+        creating = null
+      })
+  }
+  return creating
+}
+
+async function saveMeta(meta: SyncMeta): Promise<void> {
+  const db = await initDB()
+  const record = await sealRecord(STORES.DOCUMENTS, meta)
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.DOCUMENTS, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.DOCUMENTS).put(record)
+  })
+}
+
+export async function getSyncSettings(): Promise<SyncSettings & { deviceId: string }> {
+  const { endpoint, token, intervalMinutes, deviceId } = await loadMeta()
+  return { endpoint, token, intervalMinutes, deviceId }
+}
+
+/**
+ * Save settings and restart the background schedule.
+ * Pointing at a different endpoint starts over with a full pull.
+ */
+export async function saveSyncSettings(settings: SyncSettings): Promise<void> {
+  const meta = await loadMeta()
+  const moved = meta.endpoint !== settings.endpoint
+
+  await saveMeta({
+    ...meta,
+    ...settings,
+    cursor: moved ? null : meta.cursor,
+    lastSyncedAt: moved ? null : meta.lastSyncedAt
+  })
+  broadcast({ type: 'sync-settings-changed' })
+  if (leading) await startSyncSchedule()
+}
+
+/**
+ * What the Settings panel shows between syncs
+ */
+export async function getSyncSummary(): Promise<{
+  lastSyncedAt: number | null
+  pending: number
+  conflicts: SyncConflict[]
+}> {
+  const { lastSyncedAt, conflicts } = await loadMeta()
+  return { lastSyncedAt, pending: await countPendingChanges(), conflicts }
+}
+
+export async function clearSyncConflicts(): Promise<void> {
+  await saveMeta({ ...(await loadMeta()), conflicts: [] })
+  emit()
+}
+
+/**
+ * Stop syncing this device and forget its change log and settings
+ */
+export async function disconnectSync(): Promise<void> {
+  stopSyncSchedule()
+  broadcast({ type: 'sync-settings-changed' })
+  await clearChangeLog()
+
+  const db = await initDB()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.DOCUMENTS, 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.objectStore(STORES.DOCUMENTS).delete(SYNC_META_KEY)
+  })
+  emit()
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+let status: SyncStatus = { phase: 'idle', pulled: 0, pushed: 0, error: null }
+const listeners = new Set<(status: SyncStatus) => void>()
+
+function setStatus(next: Partial<SyncStatus>): void {
+  status = { ...status, ...next }
+  emit()
+}
+
+function emit(): void {
+  listeners.forEach(listener => listener(status))
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status
+}
+
+/**
+ * Subscribe to progress updates; returns an unsubscribe function
+ */
+export function onSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// LOCAL CHANGES
+// ============================================================================
+
+const stateStorage = createIndexedDBStorage<CASCADEState>()
+const STATE_REF = changeRef(STORES.STATE, PERSISTED_STATE_KEY)
+
+function isEntityStore(store: string): store is EntityStoreName {
+  return (ENTITY_STORE_NAMES as string[]).includes(store)
+}
+
+async function readPersistedState(): Promise<CASCADEState | null> {
+  const stored = await stateStorage?.getItem(PERSISTED_STATE_KEY)
+  return stored ? stored.state : null
+}
+
+/**
+ * Whether the state is still the one a new device starts with: nothing
+ * journaled, learned, predicted or decided yet
+ */
+export function isUntouchedState(state: CASCADEState | null): boolean {
+  if (!state) return true
+  const { pyramid, sovereignty, realityBridge } = state
+  return state.journal.length === 0 &&
+    state.patterns.length === 0 &&
+    state.oracle === null &&
+    [pyramid.foundation, pyramid.theory, pyramid.edge, pyramid.cascadeHistory].every(list => list.length === 0) &&
+    realityBridge.practices.length === 0 &&
+    realityBridge.measurements.length === 0 &&
+    sovereignty.humanSovereignty.willpower.history.length === 0
+}
+
+/**
+ * Give entities and documents written before this device first synced a
+ * change record, so they are pushed like any other edit
+ */
+async function trackExistingData(): Promise<void> {
+  const tracked = await getTrackedRefs()
+  const records: ChangeRecord[] = []
+  const untracked = (store: string, key: IDBValidKey, modifiedAt: number) => {
+    const ref = changeRef(store, key)
+    if (tracked.has(ref)) return
+    records.push({ ref, store, key, modifiedAt, deviceId: null, deleted: false, pending: 1 })
+  }
+
+  for (const store of ENTITY_STORE_NAMES) {
+    for (const entity of await getAll(store)) {
+      untracked(store, getEntityKey(store, entity), getEntityTimestamp(entity))
+    }
+  }
+  for (const { key } of Object.values(DOCUMENTS)) {
+    if (isSyncedDocument(key) && (await getDocument(key)) !== undefined) {
+      untracked(STORES.DOCUMENTS, key, 0)
+    }
+  }
+
+  await putChangeRecords(records)
+}
+
+/**
+ * The persisted state is written by zustand rather than the repository,
+ * so its edits are detected from `lastSync` at sync time
+ */
+async function trackStateChange(): Promise<void> {
+  const state = await readPersistedState()
+  if (!state) return
+
+  const record = await getChangeRecord(STATE_REF)
+  if (record && record.modifiedAt === state.lastSync) return
+
+  await putChangeRecords([{
+    ref: STATE_REF,
+    store: STORES.STATE,
+    key: PERSISTED_STATE_KEY,
+    modifiedAt: record ? Math.max(state.lastSync, record.modifiedAt + 1) : state.lastSync,
+    deviceId: null,
+    deleted: false,
+    pending: 1
+  }])
+}
+
+async function toSyncChange(record: ChangeRecord, deviceId: string): Promise<SyncChange> {
+  let value: unknown
+
+  if (!record.deleted) {
+    if (record.store === STORES.STATE) {
+      value = await readPersistedState()
+    } else if (record.store === STORES.DOCUMENTS) {
+      value = await getDocument(record.key as DocumentKey)
+    } else if (isEntityStore(record.store)) {
+      value = await getById(record.store, record.key)
+    }
+  }
+
+  return {
+    store: record.store,
+    key: JSON.stringify(record.key),
+    modifiedAt: record.modifiedAt,
+    deviceId: record.deviceId ?? deviceId,
+    // Records written outside the repository can outlive their entity
+    deleted: record.deleted || value === undefined || value === null,
+    value: value ?? undefined
+  }
+}
+
+// ============================================================================
+// REMOTE CHANGES
+// ============================================================================
+
+const SYNC_ACTOR: AuditActor = { kind: 'system', process: 'sync' }
+
+/**
+ * Apply versions from the server where they beat the local version.
+ * With `adoptState` the server's CASCADE state replaces the local one
+ * whatever its version; runSync asks for that only on a first sync over
+ * an untouched state, so a new device does not overwrite the others.
+ */
+async function applyRemoteChanges(
+  meta: SyncMeta,
+  changes: SyncChange[],
+  adoptState: boolean
+): Promise<void> {
+  const touched = new Set<string>()
+
+  for (const change of changes) {
+    if (change.deviceId === meta.deviceId) continue
+
+    const key = JSON.parse(change.key) as IDBValidKey
+    const isState = change.store === STORES.STATE
+    const isDocument = change.store === STORES.DOCUMENTS && isSyncedDocument(String(key))
+    if (!isState && !isDocument && !isEntityStore(change.store)) {
+      // Written by a build with stores this one does not know
+      continue
+    }
+
+    const ref = changeRef(change.store, key)
+    const local = await getChangeRecord(ref)
+
+    if (local) {
+      const localVersion = { modifiedAt: local.modifiedAt, deviceId: local.deviceId ?? meta.deviceId }
+      const remoteWins = compareVersions(change, localVersion) > 0 || (isState && adoptState)
+
+      if (local.pending) {
+        const conflict: SyncConflict = {
+          ref,
+          store: change.store,
+          key: change.key,
+          localModifiedAt: local.modifiedAt,
+          remoteModifiedAt: change.modifiedAt,
+          remoteDeviceId: change.deviceId,
+          winner: remoteWins ? 'remote' : 'local',
+          resolvedAt: Date.now()
+        }
+        meta.conflicts = [conflict, ...meta.conflicts].slice(0, MAX_CONFLICTS)
+      }
+      if (!remoteWins) continue
+    }
+
+    const record: ChangeRecord = {
+      ref,
+      store: change.store,
+      key,
+      modifiedAt: change.modifiedAt,
+      deviceId: change.deviceId,
+      deleted: change.deleted,
+      pending: 0
+    }
+
+    try {
+      if (isState) {
+        if (!change.deleted) runAs(SYNC_ACTOR, () => useCASCADEStore.getState().applySyncedState(change.value))
+        await putChangeRecords([record])
+      } else {
+        const before = isDocument
+          ? await getDocument(String(key) as DocumentKey)
+          : await getById(change.store as EntityStoreName, key)
+        await writeSynced(record, change.value)
+        await appendAudit([{
+          actor: SYNC_ACTOR,
+          action: `Synced from device ${change.deviceId}`,
+          target: change.store,
+          entityId: String(key),
+          before,
+          after: change.deleted ? undefined : change.value
+        }])
+        touched.add(change.store)
+      }
+      setStatus({ pulled: status.pulled + 1 })
+    } catch (error) {
+      console.error(`Failed to apply synced ${ref}:`, error)
+    }
+  }
+
+  touched.forEach(store => notifyExternalChange(store))
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+async function post(
+  meta: SyncMeta,
+  body: Pick<SyncRequest, 'cursor' | 'changes'>
+): Promise<SyncResponse> {
+  const request: SyncRequest = {
+    protocol: SYNC_PROTOCOL_VERSION,
+    deviceId: meta.deviceId,
+    limit: PAGE_SIZE,
+    ...body
+  }
+
+  let response: Response
+  try {
+    response = await fetch(meta.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(meta.token ? { Authorization: `Bearer ${meta.token}` } : {})
+      },
+      body: JSON.stringify(request)
+    })
+  } catch {
+    throw new SyncError(`Could not reach ${meta.endpoint}`)
+  }
+
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null) as { error?: string } | null
+    throw new SyncError(detail?.error ?? `Sync endpoint returned ${response.status}`, response.status)
+  }
+  return response.json()
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+let running: Promise<void> | null = null
+
+/**
+ * Pull everything new from the endpoint, then push local edits.
+ * Concurrent calls share the sync already in flight, and other tabs
+ * wait for it to finish.
+ */
+export function syncNow(): Promise<void> {
+  if (!running) {
+    running = withTabLock('sync', runSync).finally(() => {
+      running = null
+    })
+  }
+  return running
+}
+
+async function runSync(): Promise<void> {
+  const meta = await loadMeta()
+  if (!meta.endpoint) throw new SyncError('No sync endpoint configured')
+
+  const firstSync = meta.cursor === null
+  setStatus({ phase: 'pulling', pulled: 0, pushed: 0, error: null })
+
+  try {
+    if (firstSync) await trackExistingData()
+    await trackStateChange()
+    // Edits made before the first sync compete by last-writer-wins like any other
+    const adoptState = firstSync && isUntouchedState(await readPersistedState())
+
+    // Pull
+    let response: SyncResponse
+    do {
+      response = await post(meta, { cursor: meta.cursor ?? 0, changes: [] })
+      await applyRemoteChanges(meta, response.changes, adoptState)
+      meta.cursor = response.cursor
+      await saveMeta(meta)
+    } while (response.more)
+
+    // Push
+    setStatus({ phase: 'pushing' })
+    for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+      const batch = await getPendingChanges(PAGE_SIZE)
+      if (batch.length === 0) break
+
+      const changes = await Promise.all(batch.map(record => toSyncChange(record, meta.deviceId)))
+      response = await post(meta, { cursor: meta.cursor ?? 0, changes })
+
+      const rejected = new Set(response.rejected.map(change => `${change.store}/${change.key}`))
+      await markPushed(batch.filter(record => !rejected.has(record.ref)))
+      await applyRemoteChanges(meta, [...response.rejected, ...response.changes], false)
+
+      meta.cursor = response.cursor
+      await saveMeta(meta)
+      setStatus({ pushed: status.pushed + batch.length - rejected.size })
+    }
+
+    meta.lastSyncedAt = Date.now()
+    await saveMeta(meta)
+    setStatus({ phase: 'idle' })
+  } catch (error) {
+    console.error('Sync failed:', error)
+    setStatus({ phase: 'error', error: error instanceof Error ? error.message : 'Sync failed' })
+    throw error
+  }
+}
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+let timer: ReturnType<typeof setInterval> | null = null
+let leading = false
+
+/**
+ * Run the background schedule in one tab at a time.
+ * Returns a function that leaves the election.
+ */
+export function joinSyncElection(): () => void {
+  const unsubscribe = onTabMessage(message => {
+    if (message.type !== 'sync-settings-changed' || !leading) return
+    startSyncSchedule().catch(error => console.error('Failed to restart sync:', error))
+  })
+
+  const resign = electLeader('sync', {
+    onLead: () => {
+      leading = true
+      startSyncSchedule().catch(error => console.error('Failed to start sync:', error))
+    },
+    onResign: () => {
+      leading = false
+      stopSyncSchedule()
+    }
+  })
+
+  return () => {
+    unsubscribe()
+    resign()
+  }
+}
+
+/**
+ * Sync now and then every `intervalMinutes`, if an endpoint is configured.
+ * Failures are reported through the status, not thrown.
+ */
+export async function startSyncSchedule(): Promise<void> {
+  stopSyncSchedule()
+
+  const meta = await loadMeta()
+  if (!meta.endpoint || meta.intervalMinutes <= 0) return
+
+  const run = () => {
+    syncNow().catch(() => undefined)
+  }
+  timer = setInterval(run, meta.intervalMinutes * 60 * 1000)
+  run()
+}
+
+export function stopSyncSchedule(): void {
+  if (timer) clearInterval(timer)
+  timer = null
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { SyncLedger } from './ledger'
+import { SYNC_PROTOCOL_VERSION, SyncChange, SyncRequest, compareVersions } from './protocol'
+
+let dir: string
+let file: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cascade-ledger-'))
+  file = path.join(dir, 'ledger.json')
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+function change(overrides: Partial<SyncChange> = {}): SyncChange {
+  return {
+    store: 'goals',
+    key: JSON.stringify('goal-1'),
+    modifiedAt: 100,
+    deviceId: 'device-a',
+    deleted: false,
+    value: { id: 'goal-1', title: 'Run' },
+    ...overrides
+  }
+}
+
+function request(deviceId: string, cursor: number, changes: SyncChange[] = [], limit?: number): SyncRequest {
+  return { protocol: SYNC_PROTOCOL_VERSION, deviceId, cursor, changes, ...(limit ? { limit } : {}) }
+}
+
+describe('compareVersions', () => {
+  it('orders by modifiedAt, then by device id', () => {
+    expect(compareVersions({ modifiedAt: 2, deviceId: 'a' }, { modifiedAt: 1, deviceId: 'z' })).toBeGreaterThan(0)
+    expect(compareVersions({ modifiedAt: 1, deviceId: 'b' }, { modifiedAt: 1, deviceId: 'a' })).toBeGreaterThan(0)
+    expect(compareVersions({ modifiedAt: 1, deviceId: 'a' }, { modifiedAt: 1, deviceId: 'a' })).toBe(0)
+  })
+})
+
+describe('SyncLedger', () => {
+  it('hands a pushed version to other devices but not back to the pusher', async () => {
+    const ledger = new SyncLedger(file)
+
+    const pushed = await ledger.handle(request('device-a', 0, [change()]))
+    expect(pushed).toMatchObject({ cursor: 1, changes: [], rejected: [], more: false })
+
+    const pulled = await ledger.handle(request('device-b', 0))
+    expect(pulled.changes).toEqual([change()])
+    expect(pulled.cursor).toBe(1)
+  })
+
+  it('keeps the newer version when two devices edit the same entity', async () => {
+    const ledger = new SyncLedger(file)
+    const newer = change({ modifiedAt: 200, deviceId: 'device-b', value: { id: 'goal-1', title: 'Swim' } })
+
+    await ledger.handle(request('device-b', 0, [newer]))
+    const stale = await ledger.handle(request('device-a', 0, [change()]))
+
+    expect(stale.rejected).toEqual([newer])
+    expect((await ledger.handle(request('device-c', 0))).changes).toEqual([newer])
+  })
+
+  it('breaks modifiedAt ties by device id', async () => {
+    const ledger = new SyncLedger(file)
+    const fromB = change({ deviceId: 'device-b', value: 'b' })
+
+    await ledger.handle(request('device-a', 0, [change({ value: 'a' })]))
+    const response = await ledger.handle(request('device-b', 1, [fromB]))
+
+    expect(response.rejected).toEqual([])
+    expect((await ledger.handle(request('device-c', 0))).changes).toEqual([fromB])
+  })
+
+  it('accepts a retried push without writing it again', async () => {
+    const ledger = new SyncLedger(file)
+    await ledger.handle(request('device-a', 0, [change()]))
+
+    const retried = await ledger.handle(request('device-a', 0, [change()]))
+
+    expect(retried).toMatchObject({ cursor: 1, changes: [], rejected: [] })
+  })
+
+  it('replaces an entity with its tombstone', async () => {
+    const ledger = new SyncLedger(file)
+    const tombstone = change({ modifiedAt: 200, deleted: true, value: undefined })
+
+    await ledger.handle(request('device-a', 0, [change()]))
+    await ledger.handle(request('device-a', 1, [tombstone]))
+
+    expect((await ledger.handle(request('device-b', 0))).changes).toEqual([tombstone])
+  })
+
+  it('pages by cursor', async () => {
+    const ledger = new SyncLedger(file)
+    const changes = [1, 2, 3].map(n => change({ key: JSON.stringify(`goal-${n}`), modifiedAt: n }))
+    await ledger.handle(request('device-a', 0, changes))
+
+    const first = await ledger.handle(request('device-b', 0, [], 2))
+    expect(first).toMatchObject({ cursor: 2, more: true })
+    expect(first.changes).toEqual(changes.slice(0, 2))
+
+    const second = await ledger.handle(request('device-b', first.cursor, [], 2))
+    expect(second).toMatchObject({ cursor: 3, more: false })
+    expect(second.changes).toEqual(changes.slice(2))
+  })
+
+  it('reads what an earlier instance wrote to disk', async () => {
+    await new SyncLedger(file).handle(request('device-a', 0, [change()]))
+
+    const reopened = await new SyncLedger(file).handle(request('device-b', 0))
+
+    expect(reopened.changes).toEqual([change()])
+  })
+})
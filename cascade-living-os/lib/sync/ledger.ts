@@ -0,0 +1,101 @@
+// CASCADE Living OS - Sync Ledger
+// File-backed change store behind the reference sync server (Node only)
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SyncChange, SyncRequest, SyncResponse, compareVersions } from './protocol'
+
+const DEFAULT_PAGE_SIZE = 200
+const MAX_PAGE_SIZE = 1000
+
+interface LedgerEntry {
+  seq: number
+  change: SyncChange
+}
+
+interface LedgerData {
+  seq: number
+  entries: Record<string, LedgerEntry>
+}
+
+/**
+ * Keeps the newest version of every entity, tombstones included, each
+ * stamped with the sequence number it was written at. Devices pull by
+ * sequence number, so a cursor is all they need to remember.
+ */
+export class SyncLedger {
+  private data: LedgerData | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Apply a push and return the page of versions the device has not seen.
+   * Requests are handled one at a time.
+   */
+  handle(request: SyncRequest): Promise<SyncResponse> {
+    const result = this.queue.then(() => this.process(request))
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async process(request: SyncRequest): Promise<SyncResponse> {
+    const data = await this.load()
+    const accepted = new Set<string>()
+    const rejected: SyncChange[] = []
+
+    for (const change of request.changes) {
+      const ref = `${change.store}/${change.key}`
+      const existing = data.entries[ref]
+      const order = existing ? compareVersions(change, existing.change) : 1
+
+      if (order > 0) {
+        data.seq++
+        data.entries[ref] = { seq: data.seq, change }
+        accepted.add(ref)
+      } else if (order === 0) {
+        // Retried push of a version we already hold
+        accepted.add(ref)
+      } else {
+        rejected.push(existing.change)
+      }
+    }
+    if (accepted.size > 0) await this.save(data)
+
+    // The pushing device already has what it just pushed
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const unseen = Object.entries(data.entries)
+      .filter(([ref, entry]) => entry.seq > request.cursor && !accepted.has(ref))
+      .map(([, entry]) => entry)
+      .sort((a, b) => a.seq - b.seq)
+    const page = unseen.slice(0, limit)
+    const more = unseen.length > limit
+
+    return {
+      cursor: more ? page[page.length - 1].seq : data.seq,
+      changes: page.map(entry => entry.change),
+      rejected,
+      more
+    }
+  }
+
+  private async load(): Promise<LedgerData> {
+    if (this.data) return this.data
+
+    try {
+      this.data = JSON.parse(await fs.readFile(this.file, 'utf8')) as LedgerData
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      this.data = { seq: 0, entries: {} }
+    }
+    return this.data
+  }
+
+  private async save(data: LedgerData): Promise<void> {
+    // Write then rename, so a crash never leaves a truncated ledger
+    const temp = `${this.file}.tmp`
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    await fs.writeFile(temp, JSON.stringify(data))
+    await fs.rename(temp, this.file)
+  }
+}
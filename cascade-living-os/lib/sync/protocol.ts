@@ -0,0 +1,68 @@
+// CASCADE Living OS - Sync Protocol
+// Wire format shared by the sync engine and the reference server
+
+export const SYNC_PROTOCOL_VERSION = 1
+
+/**
+ * One version of an entity, document or the persisted state.
+ * `key` is the JSON-encoded primary key; deletes travel as tombstones
+ * without a value.
+ */
+export interface SyncChange {
+  store: string
+  key: string
+  modifiedAt: number
+  deviceId: string
+  deleted: boolean
+  value?: unknown
+}
+
+/**
+ * Push `changes` and pull everything after `cursor` in one round trip
+ */
+export interface SyncRequest {
+  protocol: number
+  deviceId: string
+  cursor: number // last server sequence number this device has applied
+  changes: SyncChange[]
+  limit?: number
+}
+
+export interface SyncResponse {
+  cursor: number
+  changes: SyncChange[]  // versions written since the request cursor
+  rejected: SyncChange[] // newer server versions that beat pushed changes
+  more: boolean          // another page is waiting after `cursor`
+}
+
+/**
+ * Last-writer-wins order: later modifiedAt, then device id as a tiebreak
+ */
+export function compareVersions(
+  a: Pick<SyncChange, 'modifiedAt' | 'deviceId'>,
+  b: Pick<SyncChange, 'modifiedAt' | 'deviceId'>
+): number {
+  if (a.modifiedAt !== b.modifiedAt) return a.modifiedAt - b.modifiedAt
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0
+}
+
+export function isSyncChange(value: unknown): value is SyncChange {
+  if (!value || typeof value !== 'object') return false
+  const change = value as Record<string, unknown>
+  return typeof change.store === 'string'
+    && typeof change.key === 'string'
+    && typeof change.modifiedAt === 'number'
+    && typeof change.deviceId === 'string'
+    && typeof change.deleted === 'boolean'
+}
+
+export function isSyncRequest(value: unknown): value is SyncRequest {
+  if (!value || typeof value !== 'object') return false
+  const request = value as Record<string, unknown>
+  return typeof request.protocol === 'number'
+    && typeof request.deviceId === 'string'
+    && typeof request.cursor === 'number'
+    && Array.isArray(request.changes)
+    && request.changes.every(isSyncChange)
+    && (request.limit === undefined || typeof request.limit === 'number')
+}
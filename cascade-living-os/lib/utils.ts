@@ -201,6 +201,45 @@ export function uniqueBy<T>(array: T[], keyFn: (item: T) => string): T[] {
   })
 }
 
+// ============================================================================
+// TEXT UTILITIES
+// ============================================================================
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const lines: LineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i++] })
+      j++
+    } else if (j < b.length && (i === a.length || common[i][j + 1] >= common[i + 1][j])) {
+      lines.push({ type: 'added', text: b[j++] })
+    } else {
+      lines.push({ type: 'removed', text: a[i++] })
+    }
+  }
+  return lines
+}
+
 // ============================================================================
 // SOVEREIGNTY CALCULATIONS
 // ============================================================================
@@ -267,11 +306,56 @@ export function saveToLocalStorage(key: string, value: unknown): boolean {
   try {
     localStorage.setItem(key, JSON.stringify(value))
     return true
-  } catch {
+  } catch (error) {
+    if (isQuotaExceededError(error)) notifyQuotaExceeded(key)
     return false
   }
 }
 
+const quotaListeners = new Set<(where: string) => void>()
+
+/**
+ * True for the errors browsers throw when a localStorage or IndexedDB
+ * write does not fit
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+/**
+ * Report a write that failed for lack of space; `where` names the key or store
+ */
+export function notifyQuotaExceeded(where: string): void {
+  quotaListeners.forEach(listener => listener(where))
+}
+
+/**
+ * Subscribe to failed writes; returns an unsubscribe function
+ */
+export function onQuotaExceeded(listener: (where: string) => void): () => void {
+  quotaListeners.add(listener)
+  return () => {
+    quotaListeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
+
 // ============================================================================
 // ID GENERATION
 // ============================================================================
@@ -0,0 +1,285 @@
+// CASCADE Living OS - Entity Types
+// Records the pages keep in their IndexedDB entity stores
+
+// ============================================================================
+// GOALS
+// ============================================================================
+
+export type GoalStatus = 'active' | 'completed' | 'paused' | 'abandoned'
+
+export type GoalTimeframe = 'phase' | 'quarter' | 'year' | 'lifetime'
+
+export interface Milestone {
+  id: string
+  title: string
+  completed: boolean
+  completedAt?: number
+  order: number
+}
+
+export interface Goal {
+  id: string
+  title: string
+  description: string
+  why: string // Core motivation
+  timeframe: GoalTimeframe
+  status: GoalStatus
+  milestones: Milestone[]
+  lamague: string
+  targetPhase?: number // Complete by this phase
+  createdAt: number
+  completedAt?: number
+  microorcimsFired: number
+  reflections: string[]
+}
+
+// ============================================================================
+// DECISIONS
+// ============================================================================
+
+export type DecisionStatus = 'pending' | 'made' | 'reviewed'
+
+export type DecisionOutcome = 'positive' | 'negative' | 'neutral' | 'unknown'
+
+export interface Decision {
+  id: string
+  title: string
+  context: string
+  options: string[]
+  chosenOption: number | null
+  reasoning: string
+  status: DecisionStatus
+  outcome?: DecisionOutcome
+  outcomeNote?: string
+  lamague: string
+  createdAt: number
+  decidedAt?: number
+  reviewedAt?: number
+  reviewAfter?: number // timestamp when to review
+}
+
+// ============================================================================
+// COMMITMENTS
+// ============================================================================
+
+export type CommitmentStatus = 'active' | 'kept' | 'broken' | 'renegotiated'
+
+export interface Commitment {
+  id: string
+  to: string // Who is this commitment to? (self, person, org)
+  content: string
+  deadline?: number
+  status: CommitmentStatus
+  createdAt: number
+  resolvedAt?: number
+  note?: string
+  lamague: string
+}
+
+// ============================================================================
+// ENERGY
+// ============================================================================
+
+export interface EnergyLog {
+  id: string
+  timestamp: number
+  energy: 1 | 2 | 3 | 4 | 5
+  mood: 1 | 2 | 3 | 4 | 5
+  note?: string
+}
+
+// ============================================================================
+// SLEEP
+// ============================================================================
+
+export interface SleepEntry {
+  id: string
+  bedtime: string // HH:MM
+  waketime: string
+  quality: 1 | 2 | 3 | 4 | 5
+  duration: number // hours
+  notes?: string
+  timestamp: number
+}
+
+// ============================================================================
+// DREAMS
+// ============================================================================
+
+export interface DreamEntry {
+  id: string
+  title: string
+  narrative: string
+  emotions: string[]
+  symbols: string[]
+  clarity: number  // 1-5 how vivid
+  lucid: boolean
+  recurring: boolean
+  interpretation?: string
+  timestamp: number
+  sleepQuality?: number
+}
+
+// ============================================================================
+// SHADOW WORK
+// ============================================================================
+
+export interface ShadowAspect {
+  id: string
+  name: string
+  description: string
+  triggers: string[]
+  manifestations: string[]  // How it shows up in behavior
+  gifts: string[]          // The gold hidden in the shadow
+  integrationLevel: number // 0-100
+  encounters: ShadowEncounter[]
+  lamague: string
+  createdAt: number
+}
+
+export interface ShadowEncounter {
+  id: string
+  context: string
+  triggered: boolean
+  response: 'projected' | 'suppressed' | 'acknowledged' | 'integrated'
+  reflection?: string
+  timestamp: number
+}
+
+// ============================================================================
+// LIFE SCRIPTS
+// ============================================================================
+
+export interface LifeScript {
+  id: string
+  original: string         // The limiting belief/story
+  rewritten: string        // The new empowering version
+  category: ScriptCategory
+  origin?: string          // Where this came from
+  evidence: {
+    supporting: string[]   // Evidence for original
+    contradicting: string[] // Evidence against original
+  }
+  strength: number         // 1-10 how strongly held
+  newStrength: number      // 1-10 strength of rewrite
+  triggers: string[]
+  affirmations: string[]
+  status: 'identified' | 'questioning' | 'rewriting' | 'integrated'
+  practiceCount: number
+  lastPracticed?: number
+  createdAt: number
+}
+
+export type ScriptCategory = 
+  | 'self_worth'
+  | 'capability'
+  | 'relationships'
+  | 'money'
+  | 'success'
+  | 'health'
+  | 'creativity'
+  | 'safety'
+  | 'belonging'
+  | 'other'
+
+// ============================================================================
+// WEEKLY REVIEWS
+// ============================================================================
+
+export interface WeeklyReview {
+  id: string
+  weekStart: string // ISO date string
+  weekEnd: string
+  completedAt?: number
+  
+  // Reflection sections
+  wins: string[]
+  challenges: string[]
+  lessons: string[]
+  gratitude: string[]
+  
+  // Metrics snapshot
+  microorcimsFired: number
+  focusHours: number
+  ritualsCompleted: number
+  goalsProgressed: number
+  
+  // Ratings
+  overallRating: 1 | 2 | 3 | 4 | 5
+  energyLevel: 1 | 2 | 3 | 4 | 5
+  alignmentScore: 1 | 2 | 3 | 4 | 5
+  
+  // Planning
+  nextWeekIntentions: string[]
+  focusAreas: string[]
+  
+  // Notes
+  notes: string
+  lamague: string
+}
+
+// ============================================================================
+// FOCUS SESSIONS
+// ============================================================================
+
+export type FocusMode = 'work' | 'break' | 'idle'
+
+export interface FocusSession {
+  id: string
+  startTime: number
+  endTime?: number
+  duration: number
+  mode: FocusMode
+  intent: string
+  completed: boolean
+  microorcimsFired: number
+  distractions: number
+  phase: string
+}
+
+// ============================================================================
+// RITUALS
+// ============================================================================
+
+export type RitualFrequency = 'daily' | 'weekly' | 'phase' | 'custom'
+
+export type RitualCategory = 'body' | 'mind' | 'spirit' | 'work' | 'relationship'
+
+export interface RitualCompletion {
+  id: string
+  ritualId: string
+  timestamp: number
+  note?: string
+  quality: 1 | 2 | 3 | 4 | 5
+}
+
+export interface Ritual {
+  id: string
+  name: string
+  description: string
+  frequency: RitualFrequency
+  category: RitualCategory
+  lamague: string
+  targetCount: number // per period
+  currentStreak: number
+  bestStreak: number
+  completions: RitualCompletion[]
+  createdAt: number
+  active: boolean
+  microorcimOnComplete: boolean
+}
+
+// ============================================================================
+// QUICK CAPTURES
+// ============================================================================
+
+export type CaptureType = 'thought' | 'task' | 'idea' | 'question' | 'gratitude' | 'microorcim'
+
+export interface QuickCapture {
+  id: string
+  type: CaptureType
+  content: string
+  timestamp: number
+  processed: boolean
+  lamague?: string
+}